@@ -3,11 +3,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { 
-  MapPin, 
-  Car, 
-  Train, 
-  Bus, 
-  Bike,
+  MapPin,    
   Route,
   Target,
   Zap,
@@ -20,12 +16,15 @@ import {
   Minus
 } from "lucide-react";
 import { Report } from "@/types/report";
+import { useTransportModes } from "@/hooks/useTransportModes";
+import { TransportModeIcon } from "./TransportModeIcon";
 
 interface AIAnalyticsProps {
   reports: Report[];
 }
 
 export const AIAnalytics = ({ reports }: AIAnalyticsProps) => {
+  const { allModes: transportModes } = useTransportModes();
   console.log('AIAnalytics reports:', reports);
 
   // Simple analysis functions
@@ -64,14 +63,9 @@ export const AIAnalytics = ({ reports }: AIAnalyticsProps) => {
 
   const analysis = analyzeData();
 
-  const getTransportIcon = (transport: string) => {
-    const lower = transport.toLowerCase();
-    if (lower.includes('car')) return <Car className="h-4 w-4" />;
-    if (lower.includes('train')) return <Train className="h-4 w-4" />;
-    if (lower.includes('bus')) return <Bus className="h-4 w-4" />;
-    if (lower.includes('bike')) return <Bike className="h-4 w-4" />;
-    return <Car className="h-4 w-4" />;
-  };
+  const getTransportIcon = (transport: string) => (
+    <TransportModeIcon name={transport} modes={transportModes} />
+  );
 
   // Show empty state if no reports
   if (reports.length === 0) {
@@ -18,7 +18,8 @@ import {
   CheckCircle,
   Clock
 } from "lucide-react";
-import { Report } from "@/types/report";
+import { HIGH_COST_FARE, ReportStats } from "@/types/report";
+import { ReportTypeDefinition } from "@/types/reportType";
 import { aiService } from "@/services/aiService";
 import { useToast } from "@/hooks/use-toast";
 
@@ -32,7 +33,8 @@ interface Message {
 }
 
 interface AIChatInterfaceProps {
-  reports: Report[];
+  stats: ReportStats;
+  reportTypes: ReportTypeDefinition[];
 }
 
 const SUGGESTED_QUESTIONS = [
@@ -46,7 +48,7 @@ const SUGGESTED_QUESTIONS = [
   "How can I improve my route efficiency?"
 ];
 
-export const AIChatInterface = ({ reports }: AIChatInterfaceProps) => {
+export const AIChatInterface = ({ stats, reportTypes }: AIChatInterfaceProps) => {
   const [messages, setMessages] = useState<Message[]>([
     {
       id: '1',
@@ -155,7 +157,8 @@ export const AIChatInterface = ({ reports }: AIChatInterfaceProps) => {
       return await analyzeRiskData(question);
     } else {
       return await aiService.analyzeTransportData({
-        reports,
+        stats,
+        reportTypes,
         analysisType: 'comprehensive',
         focusAreas: ['general-analysis'],
         customPrompt: question
@@ -164,13 +167,13 @@ export const AIChatInterface = ({ reports }: AIChatInterfaceProps) => {
   };
 
   const analyzeCostData = async (question: string) => {
-    const allItems = reports.flatMap(report => report.items);
-    const totalCost = allItems.reduce((sum, item) => sum + item.cost, 0);
-    const averageCost = totalCost / allItems.length;
+    const journeys = stats.journeys;
+    const totalCost = journeys.reduce((sum, stat) => sum + stat.totalCost, 0);
+    const averageCost = totalCost / journeys.reduce((sum, stat) => sum + stat.journeys, 0);
     
-    const locationCosts = allItems.reduce((acc, item) => {
-      if (!acc[item.location]) acc[item.location] = 0;
-      acc[item.location] += item.cost;
+    const locationCosts = journeys.reduce((acc, stat) => {
+      if (!acc[stat.location]) acc[stat.location] = 0;
+      acc[stat.location] += stat.totalCost;
       return acc;
     }, {} as { [key: string]: number });
 
@@ -195,13 +198,12 @@ export const AIChatInterface = ({ reports }: AIChatInterfaceProps) => {
   };
 
   const analyzeEfficiencyData = async (question: string) => {
-    const allItems = reports.flatMap(report => report.items);
-    const transportEfficiency = allItems.reduce((acc, item) => {
-      if (!acc[item.transportation]) {
-        acc[item.transportation] = { totalCost: 0, usage: 0 };
+    const transportEfficiency = stats.journeys.reduce((acc, stat) => {
+      if (!acc[stat.transportation]) {
+        acc[stat.transportation] = { totalCost: 0, usage: 0 };
       }
-      acc[item.transportation].totalCost += item.cost;
-      acc[item.transportation].usage += 1;
+      acc[stat.transportation].totalCost += stat.totalCost;
+      acc[stat.transportation].usage += stat.journeys;
       return acc;
     }, {} as { [key: string]: any });
 
@@ -231,9 +233,9 @@ export const AIChatInterface = ({ reports }: AIChatInterfaceProps) => {
   };
 
   const analyzeTransportData = async (question: string) => {
-    const allItems = reports.flatMap(report => report.items);
-    const transportUsage = allItems.reduce((acc, item) => {
-      acc[item.transportation] = (acc[item.transportation] || 0) + 1;
+    const totalJourneys = stats.journeys.reduce((sum, stat) => sum + stat.journeys, 0);
+    const transportUsage = stats.journeys.reduce((acc, stat) => {
+      acc[stat.transportation] = (acc[stat.transportation] || 0) + stat.journeys;
       return acc;
     }, {} as { [key: string]: number });
 
@@ -241,7 +243,7 @@ export const AIChatInterface = ({ reports }: AIChatInterfaceProps) => {
       .sort(([,a], [,b]) => b - a)[0];
 
     return {
-      insights: `Your preferred transport method is ${preferredTransport[0]} with ${preferredTransport[1]} uses. This represents ${((preferredTransport[1] / allItems.length) * 100).toFixed(0)}% of your total trips.`,
+      insights: `Your preferred transport method is ${preferredTransport[0]} with ${preferredTransport[1]} uses. This represents ${((preferredTransport[1] / totalJourneys) * 100).toFixed(0)}% of your total trips.`,
       recommendations: [
         'Consider diversifying transport options for better efficiency',
         'Evaluate if your preferred method is always the most cost-effective',
@@ -257,11 +259,11 @@ export const AIChatInterface = ({ reports }: AIChatInterfaceProps) => {
   };
 
   const analyzeTrendData = async (question: string) => {
-    const monthlyData = reports.reduce((acc, report) => {
-      const month = new Date(report.reportDate).toLocaleDateString('en-US', { month: 'short' });
+    const monthlyData = stats.journeys.reduce((acc, stat) => {
+      const month = new Date(`${stat.month}-01T00:00:00`).toLocaleDateString('en-US', { month: 'short' });
       if (!acc[month]) acc[month] = { visits: 0, cost: 0 };
-      acc[month].visits += report.items.length;
-      acc[month].cost += report.items.reduce((sum, item) => sum + item.cost, 0);
+      acc[month].visits += stat.journeys;
+      acc[month].cost += stat.totalCost;
       return acc;
     }, {} as { [key: string]: any });
 
@@ -291,9 +293,8 @@ export const AIChatInterface = ({ reports }: AIChatInterfaceProps) => {
   };
 
   const analyzePredictiveData = async (question: string) => {
-    const allItems = reports.flatMap(report => report.items);
-    const totalCost = allItems.reduce((sum, item) => sum + item.cost, 0);
-    const averageCost = totalCost / allItems.length;
+    const totalCost = stats.journeys.reduce((sum, stat) => sum + stat.totalCost, 0);
+    const averageCost = totalCost / stats.journeys.reduce((sum, stat) => sum + stat.journeys, 0);
     
     const predictedNextMonth = averageCost * 1.05; // 5% increase
     const predictedQuarter = predictedNextMonth * 3;
@@ -316,9 +317,8 @@ export const AIChatInterface = ({ reports }: AIChatInterfaceProps) => {
   };
 
   const analyzeLocationData = async (question: string) => {
-    const allItems = reports.flatMap(report => report.items);
-    const locationVisits = allItems.reduce((acc, item) => {
-      acc[item.location] = (acc[item.location] || 0) + 1;
+    const locationVisits = stats.journeys.reduce((acc, stat) => {
+      acc[stat.location] = (acc[stat.location] || 0) + stat.journeys;
       return acc;
     }, {} as { [key: string]: number });
 
@@ -343,20 +343,21 @@ export const AIChatInterface = ({ reports }: AIChatInterfaceProps) => {
   };
 
   const analyzeRiskData = async (question: string) => {
-    const allItems = reports.flatMap(report => report.items);
-    const highCostItems = allItems.filter(item => item.cost > 3000);
-    const riskLocations = highCostItems.map(item => item.location);
+    const totalJourneys = stats.journeys.reduce((sum, stat) => sum + stat.journeys, 0);
+    const highCostStats = stats.journeys.filter(stat => stat.highCostJourneys > 0);
+    const highCostJourneys = highCostStats.reduce((sum, stat) => sum + stat.highCostJourneys, 0);
+    const riskLocations = highCostStats.map(stat => stat.location);
 
     return {
-      insights: `I've identified ${highCostItems.length} high-cost visits (over ₦3,000) across ${new Set(riskLocations).size} locations. This represents ${((highCostItems.length / allItems.length) * 100).toFixed(0)}% of your total visits.`,
+      insights: `I've identified ${highCostJourneys} high-cost visits (over ₦${HIGH_COST_FARE.toLocaleString()}) across ${new Set(riskLocations).size} locations. This represents ${((highCostJourneys / totalJourneys) * 100).toFixed(0)}% of your total visits.`,
       recommendations: [
         'Review necessity of high-cost visits',
         'Consider alternative transport options for expensive routes',
         'Negotiate better rates for frequent high-cost locations'
       ],
       predictions: {
-        riskLevel: highCostItems.length > 5 ? 'High' : 'Medium',
-        potentialSavings: highCostItems.reduce((sum, item) => sum + item.cost * 0.3, 0)
+        riskLevel: highCostJourneys > 5 ? 'High' : 'Medium',
+        potentialSavings: highCostStats.reduce((sum, stat) => sum + stat.highCostTotal * 0.3, 0)
       },
       confidence: 0.85,
       model: 'local-analysis'
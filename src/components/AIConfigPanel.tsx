@@ -75,7 +75,7 @@ export const AIConfigPanel = ({ onConfigChange }: AIConfigPanelProps) => {
 
       // Test with a simple prompt
       const response = await aiService.analyzeTransportData({
-        reports: [],
+        stats: { reports: [], journeys: [] },
         analysisType: 'test',
         focusAreas: ['connection-test'],
         customPrompt: 'This is a test connection. Please respond with "Connection successful" if you can see this message.'
@@ -0,0 +1,100 @@
+import { useEffect } from "react";
+import L from "leaflet";
+import { useMap } from "react-leaflet";
+import { GeoPoint } from "@/types/report";
+
+export interface HeatPoint {
+  coordinates: GeoPoint;
+  weight: number;
+}
+
+interface CostHeatLayerProps {
+  points: HeatPoint[];
+  radius?: number;
+}
+
+// Colours for heat intensity, indexed by the alpha the points add up to
+const buildPalette = () => {
+  const canvas = document.createElement("canvas");
+  canvas.width = 256;
+  canvas.height = 1;
+  const ctx = canvas.getContext("2d");
+  const gradient = ctx.createLinearGradient(0, 0, 256, 0);
+  gradient.addColorStop(0.2, "#3b82f6");
+  gradient.addColorStop(0.45, "#22c55e");
+  gradient.addColorStop(0.7, "#eab308");
+  gradient.addColorStop(1, "#ef4444");
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, 256, 1);
+  return ctx.getImageData(0, 0, 256, 1).data;
+};
+
+// Draws weighted points as blurred blobs on a canvas over the map, then colours them by intensity
+class HeatCanvasLayer extends L.Layer {
+  private canvas: HTMLCanvasElement;
+  private palette = buildPalette();
+
+  constructor(private points: HeatPoint[], private radius: number) {
+    super();
+  }
+
+  onAdd(map: L.Map) {
+    this.canvas = L.DomUtil.create("canvas", "leaflet-zoom-hide") as HTMLCanvasElement;
+    this.canvas.style.pointerEvents = "none";
+    map.getPanes().overlayPane.appendChild(this.canvas);
+    map.on("moveend zoomend resize", this.redraw, this);
+    this.redraw();
+    return this;
+  }
+
+  onRemove(map: L.Map) {
+    L.DomUtil.remove(this.canvas);
+    map.off("moveend zoomend resize", this.redraw, this);
+    return this;
+  }
+
+  private redraw() {
+    const size = this._map.getSize();
+    L.DomUtil.setPosition(this.canvas, this._map.containerPointToLayerPoint([0, 0]));
+    this.canvas.width = size.x;
+    this.canvas.height = size.y;
+
+    const ctx = this.canvas.getContext("2d");
+    const maxWeight = Math.max(...this.points.map(point => point.weight), 0);
+    if (!ctx || maxWeight <= 0) return;
+
+    this.points.forEach(({ coordinates, weight }) => {
+      const { x, y } = this._map.latLngToContainerPoint([coordinates.lat, coordinates.lng]);
+      const blob = ctx.createRadialGradient(x, y, 0, x, y, this.radius);
+      blob.addColorStop(0, `rgba(0, 0, 0, ${Math.max(0.15, weight / maxWeight)})`);
+      blob.addColorStop(1, "rgba(0, 0, 0, 0)");
+      ctx.fillStyle = blob;
+      ctx.fillRect(x - this.radius, y - this.radius, this.radius * 2, this.radius * 2);
+    });
+
+    const image = ctx.getImageData(0, 0, size.x, size.y);
+    const pixels = image.data;
+    for (let i = 3; i < pixels.length; i += 4) {
+      const alpha = pixels[i];
+      if (!alpha) continue;
+      pixels[i - 3] = this.palette[alpha * 4];
+      pixels[i - 2] = this.palette[alpha * 4 + 1];
+      pixels[i - 1] = this.palette[alpha * 4 + 2];
+      pixels[i] = Math.min(200, alpha + 40);
+    }
+    ctx.putImageData(image, 0, 0);
+  }
+}
+
+export const CostHeatLayer = ({ points, radius = 40 }: CostHeatLayerProps) => {
+  const map = useMap();
+
+  useEffect(() => {
+    const layer = new HeatCanvasLayer(points, radius).addTo(map);
+    return () => {
+      layer.remove();
+    };
+  }, [map, points, radius]);
+
+  return null;
+};
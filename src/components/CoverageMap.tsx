@@ -0,0 +1,163 @@
+import { useEffect, useMemo, useState } from "react";
+import { CircleMarker, MapContainer, Polyline, TileLayer, Tooltip, useMap } from "react-leaflet";
+import "leaflet/dist/leaflet.css";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Map as MapIcon } from "lucide-react";
+import { Report } from "@/types/report";
+import { KnownLocation } from "@/types/location";
+import { getCostColor, getCoverage } from "@/lib/coverage";
+import { resolveLocation } from "@/lib/gazetteer";
+import { CostHeatLayer } from "./CostHeatLayer";
+
+interface CoverageMapProps {
+  reports: Report[];
+  locations: KnownLocation[];
+  // Stops of a planned route, in visiting order
+  route?: string[];
+}
+
+// Point VITE_MAP_TILE_URL at a local tile server to use the map without internet tiles
+const TILE_URL = import.meta.env.VITE_MAP_TILE_URL || "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png";
+const TILE_ATTRIBUTION = import.meta.env.VITE_MAP_TILE_ATTRIBUTION
+  || '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+// Lagos, where most field work happens
+const DEFAULT_CENTER: [number, number] = [6.5244, 3.3792];
+const DEFAULT_ZOOM = 11;
+
+const MIN_RADIUS = 6;
+const MAX_RADIUS = 24;
+
+// Keep every visited place and route stop in view as the data changes
+const FitBounds = ({ points }: { points: [number, number][] }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    if (points.length === 1) map.setView(points[0], 13);
+    if (points.length > 1) map.fitBounds(points, { padding: [24, 24] });
+  }, [map, points]);
+
+  return null;
+};
+
+export const CoverageMap = ({ reports, locations, route = [] }: CoverageMapProps) => {
+  const [showVisits, setShowVisits] = useState(true);
+  const [showRoute, setShowRoute] = useState(true);
+  const [showHotspots, setShowHotspots] = useState(false);
+
+  const coverage = useMemo(() => getCoverage(reports, locations), [reports, locations]);
+  const routePoints = useMemo(() =>
+    route
+      .map(stop => resolveLocation(stop, locations)?.coordinates)
+      .filter(Boolean)
+      .map(({ lat, lng }): [number, number] => [lat, lng]),
+    [route, locations]
+  );
+  const heatPoints = useMemo(() =>
+    coverage.points.map(point => ({ coordinates: point.coordinates, weight: point.totalCost })),
+    [coverage]
+  );
+  const bounds = useMemo(() => [
+    ...coverage.points.map(({ coordinates }): [number, number] => [coordinates.lat, coordinates.lng]),
+    ...routePoints,
+  ], [coverage, routePoints]);
+
+  const costs = coverage.points.map(point => point.averageCost);
+  const minCost = Math.min(...costs);
+  const maxCost = Math.max(...costs);
+  const maxVisits = Math.max(...coverage.points.map(point => point.visitCount), 1);
+  // Area, not radius, grows with the number of visits
+  const getRadius = (visitCount: number) =>
+    MIN_RADIUS + (MAX_RADIUS - MIN_RADIUS) * Math.sqrt(visitCount / maxVisits);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MapIcon className="h-5 w-5" />
+          Coverage Map
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex flex-wrap gap-4 text-sm">
+          <label className="flex items-center gap-2">
+            <Switch checked={showVisits} onCheckedChange={setShowVisits} />
+            Visited locations
+          </label>
+          <label className="flex items-center gap-2">
+            <Switch checked={showRoute} onCheckedChange={setShowRoute} disabled={routePoints.length < 2} />
+            Planned route
+          </label>
+          <label className="flex items-center gap-2">
+            <Switch checked={showHotspots} onCheckedChange={setShowHotspots} />
+            Cost hotspots
+          </label>
+        </div>
+
+        <div className="h-[420px] rounded-lg overflow-hidden border">
+          <MapContainer center={DEFAULT_CENTER} zoom={DEFAULT_ZOOM} className="h-full w-full">
+            <TileLayer url={TILE_URL} attribution={TILE_ATTRIBUTION} />
+            <FitBounds points={bounds} />
+
+            {showHotspots && <CostHeatLayer points={heatPoints} />}
+
+            {showVisits && coverage.points.map(point => (
+              <CircleMarker
+                key={point.name}
+                center={[point.coordinates.lat, point.coordinates.lng]}
+                radius={getRadius(point.visitCount)}
+                pathOptions={{
+                  color: getCostColor(point.averageCost, minCost, maxCost),
+                  fillColor: getCostColor(point.averageCost, minCost, maxCost),
+                  fillOpacity: 0.6,
+                  weight: 1,
+                }}
+              >
+                <Tooltip>
+                  <div className="font-medium">{point.name}</div>
+                  <div>{point.visitCount} visit{point.visitCount !== 1 ? 's' : ''} • ₦{Math.round(point.averageCost).toLocaleString()} avg</div>
+                  <div>Last visited {new Date(point.lastVisited).toLocaleDateString()}</div>
+                </Tooltip>
+              </CircleMarker>
+            ))}
+
+            {showRoute && routePoints.length > 1 && (
+              <>
+                <Polyline positions={routePoints} pathOptions={{ color: "#2563eb", weight: 4, dashArray: "8 6" }} />
+                {routePoints.map((position, index) => (
+                  <CircleMarker
+                    key={`${position.join(",")}-${index}`}
+                    center={position}
+                    radius={9}
+                    pathOptions={{ color: "#1d4ed8", fillColor: "#ffffff", fillOpacity: 1, weight: 2 }}
+                  >
+                    <Tooltip permanent direction="center" className="!bg-transparent !border-0 !shadow-none font-semibold">
+                      {index === 0 ? "S" : index}
+                    </Tooltip>
+                  </CircleMarker>
+                ))}
+              </>
+            )}
+          </MapContainer>
+        </div>
+
+        <div className="flex flex-wrap justify-between gap-2 text-xs text-muted-foreground">
+          {coverage.points.length > 0 ? (
+            <span>
+              Circle size shows visits; colour runs from ₦{Math.round(minCost).toLocaleString()} average (green)
+              to ₦{Math.round(maxCost).toLocaleString()} (red).
+            </span>
+          ) : (
+            <span>No visited locations can be placed on the map yet.</span>
+          )}
+          {coverage.unplaced.length > 0 && (
+            <span>
+              Not on the map: {coverage.unplaced.join(", ")}. Add their coordinates in the locations gazetteer.
+            </span>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
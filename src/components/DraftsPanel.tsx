@@ -0,0 +1,92 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { FileClock, Play, Trash2 } from "lucide-react";
+import { ReportDraft } from "@/types/report";
+import { ReportTypeDefinition } from "@/types/reportType";
+import { getReportTypeLabel } from "@/lib/reportTypes";
+import { ReportStatusBadge } from "./ReportStatusBadge";
+import { SyncStateBadge } from "./SyncStateBadge";
+
+interface DraftsPanelProps {
+  drafts: ReportDraft[];
+  reportTypes: ReportTypeDefinition[];
+  onResume: (draft: ReportDraft) => void;
+  onDiscard: (draft: ReportDraft) => void;
+}
+
+const describeDraft = ({ report }: ReportDraft, reportTypes: ReportTypeDefinition[]) => {
+  const type = report.reportType ? getReportTypeLabel(reportTypes, report.reportType) : "Untitled";
+  const locations = report.items.length;
+  return `${type} report · ${locations} location${locations !== 1 ? 's' : ''} · ₦${report.totalCost.toLocaleString()}`;
+};
+
+const formatSavedAt = (savedAt: string) =>
+  new Date(savedAt).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export const DraftsPanel = ({ drafts, reportTypes, onResume, onDiscard }: DraftsPanelProps) => {
+  if (drafts.length === 0) return null;
+
+  const [latest, ...others] = drafts;
+
+  return (
+    <div className="w-full max-w-4xl mx-auto mb-6 space-y-4">
+      {/* Resume banner */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-lg border border-primary/30 bg-primary/5 p-4">
+        <div className="flex items-start gap-3">
+          <FileClock className="h-5 w-5 text-primary flex-shrink-0 mt-0.5" />
+          <div>
+            <div className="font-semibold">You have an unfinished draft</div>
+            <p className="text-sm text-muted-foreground">
+              {describeDraft(latest, reportTypes)} · last saved {formatSavedAt(latest.savedAt)}
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button size="sm" onClick={() => onResume(latest)} className="flex items-center gap-2">
+            <Play className="h-4 w-4" />
+            Resume draft
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => onDiscard(latest)}>
+            Discard
+          </Button>
+        </div>
+      </div>
+
+      {others.length > 0 && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Other Drafts ({others.length})</CardTitle>
+          </CardHeader>
+          <CardContent className="divide-y">
+            {others.map(draft => (
+              <div key={draft.report.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 py-3">
+                <div className="space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-medium">{describeDraft(draft, reportTypes)}</span>
+                    {draft.report.status !== 'draft' && <ReportStatusBadge status={draft.report.status} className="text-xs" />}
+                    {draft.report.syncState && <SyncStateBadge syncState={draft.report.syncState} className="text-xs" />}
+                  </div>
+                  <p className="text-xs text-muted-foreground">Last saved {formatSavedAt(draft.savedAt)}</p>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => onResume(draft)}>
+                    Resume
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => onDiscard(draft)}
+                    className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                    aria-label="Discard draft"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
@@ -39,10 +39,16 @@ import {
   Eye,
   Download
 } from "lucide-react";
-import { Report } from "@/types/report";
+import { ReportStats } from "@/types/report";
+import { ReportTypeDefinition } from "@/types/reportType";
+import { useTransportModes } from "@/hooks/useTransportModes";
+import { getTransportColor as getModeColor } from "@/lib/transportModes";
+import { ANY_OUTCOME, OUTCOME_FILTERS, matchesOutcomeFilter } from "@/lib/outcomes";
+import { getReportTypeColor, getReportTypeLabel } from "@/lib/reportTypes";
 
 interface EnhancedDataVisualizationProps {
-  reports: Report[];
+  stats: ReportStats;
+  reportTypes: ReportTypeDefinition[];
 }
 
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8', '#82ca9d', '#ffc658', '#8dd1e1'];
@@ -50,29 +56,26 @@ const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8', '#82ca9d'
 // Dark mode compatible colors
 const DARK_COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#06B6D4', '#F97316', '#84CC16'];
 
-export const EnhancedDataVisualization = ({ reports }: EnhancedDataVisualizationProps) => {
+export const EnhancedDataVisualization = ({ stats, reportTypes }: EnhancedDataVisualizationProps) => {
   const [activeTab, setActiveTab] = useState("overview");
   const [selectedTimeRange, setSelectedTimeRange] = useState("all");
+  const [selectedOutcome, setSelectedOutcome] = useState(ANY_OUTCOME);
+  const { allModes: transportModes } = useTransportModes();
 
   // Enhanced data processing
   const processedData = useMemo(() => {
-    if (reports.length === 0) return null;
+    if (stats.journeys.length === 0) return null;
 
-    const allItems = reports.flatMap(report => 
-      report.items.map(item => ({
-        ...item,
-        reportType: report.reportType,
-        reportDate: report.reportDate,
-        month: new Date(report.reportDate).toISOString().slice(0, 7),
-        year: new Date(report.reportDate).getFullYear(),
-        monthName: new Date(report.reportDate).toLocaleDateString('en-US', { month: 'short' })
-      }))
-    );
+    const journeys = stats.journeys.filter(stat => matchesOutcomeFilter(stat.outcomes, selectedOutcome)).map(stat => ({
+      ...stat,
+      monthStart: new Date(`${stat.month}-01T00:00:00`),
+      monthName: new Date(`${stat.month}-01T00:00:00`).toLocaleDateString('en-US', { month: 'short' })
+    })).sort((a, b) => a.month.localeCompare(b.month));
 
     // Filter by time range
     const now = new Date();
-    const filteredItems = allItems.filter(item => {
-      const itemDate = new Date(item.reportDate);
+    const filteredItems = journeys.filter(stat => {
+      const itemDate = stat.monthStart;
       switch (selectedTimeRange) {
         case "month":
           return itemDate.getMonth() === now.getMonth() && itemDate.getFullYear() === now.getFullYear();
@@ -85,6 +88,8 @@ export const EnhancedDataVisualization = ({ reports }: EnhancedDataVisualization
           return true;
       }
     });
+    const totalVisits = filteredItems.reduce((sum, stat) => sum + stat.journeys, 0);
+    const totalCost = filteredItems.reduce((sum, stat) => sum + stat.totalCost, 0);
 
     // Cost trends by month
     const monthlyTrends = filteredItems.reduce((acc, item) => {
@@ -92,8 +97,8 @@ export const EnhancedDataVisualization = ({ reports }: EnhancedDataVisualization
       if (!acc[monthKey]) {
         acc[monthKey] = { month: monthKey, totalCost: 0, visitCount: 0, averageCost: 0 };
       }
-      acc[monthKey].totalCost += item.cost;
-      acc[monthKey].visitCount += 1;
+      acc[monthKey].totalCost += item.totalCost;
+      acc[monthKey].visitCount += item.journeys;
       acc[monthKey].averageCost = acc[monthKey].totalCost / acc[monthKey].visitCount;
       return acc;
     }, {} as { [key: string]: any });
@@ -109,8 +114,8 @@ export const EnhancedDataVisualization = ({ reports }: EnhancedDataVisualization
           intensity: 0
         };
       }
-      acc[item.location].totalCost += item.cost;
-      acc[item.location].visitCount += 1;
+      acc[item.location].totalCost += item.totalCost;
+      acc[item.location].visitCount += item.journeys;
       acc[item.location].averageCost = acc[item.location].totalCost / acc[item.location].visitCount;
       acc[item.location].intensity = Math.min(100, (acc[item.location].visitCount * 20) + (acc[item.location].averageCost / 100));
       return acc;
@@ -127,8 +132,8 @@ export const EnhancedDataVisualization = ({ reports }: EnhancedDataVisualization
           efficiency: 0
         };
       }
-      acc[item.transportation].totalCost += item.cost;
-      acc[item.transportation].usage += 1;
+      acc[item.transportation].totalCost += item.totalCost;
+      acc[item.transportation].usage += item.journeys;
       acc[item.transportation].averageCost = acc[item.transportation].totalCost / acc[item.transportation].usage;
       acc[item.transportation].efficiency = Math.max(0, 100 - (acc[item.transportation].averageCost / 50));
       return acc;
@@ -137,10 +142,15 @@ export const EnhancedDataVisualization = ({ reports }: EnhancedDataVisualization
     // Cost distribution by report type
     const reportTypeData = filteredItems.reduce((acc, item) => {
       if (!acc[item.reportType]) {
-        acc[item.reportType] = { type: item.reportType, totalCost: 0, count: 0 };
+        acc[item.reportType] = {
+          type: getReportTypeLabel(reportTypes, item.reportType),
+          color: getReportTypeColor(reportTypes, item.reportType),
+          totalCost: 0,
+          count: 0
+        };
       }
-      acc[item.reportType].totalCost += item.cost;
-      acc[item.reportType].count += 1;
+      acc[item.reportType].totalCost += item.totalCost;
+      acc[item.reportType].count += item.journeys;
       return acc;
     }, {} as { [key: string]: any });
 
@@ -150,14 +160,14 @@ export const EnhancedDataVisualization = ({ reports }: EnhancedDataVisualization
       transportData: Object.values(transportData).sort((a, b) => b.efficiency - a.efficiency),
       reportTypeData: Object.values(reportTypeData),
       summary: {
-        totalVisits: filteredItems.length,
-        totalCost: filteredItems.reduce((sum, item) => sum + item.cost, 0),
-        averageCost: filteredItems.reduce((sum, item) => sum + item.cost, 0) / filteredItems.length,
+        totalVisits,
+        totalCost,
+        averageCost: totalVisits > 0 ? totalCost / totalVisits : 0,
         uniqueLocations: new Set(filteredItems.map(item => item.location)).size,
         uniqueTransport: new Set(filteredItems.map(item => item.transportation)).size
       }
     };
-  }, [reports, selectedTimeRange]);
+  }, [stats, reportTypes, selectedTimeRange, selectedOutcome]);
 
   if (!processedData) {
     return (
@@ -171,16 +181,7 @@ export const EnhancedDataVisualization = ({ reports }: EnhancedDataVisualization
     );
   }
 
-  const getTransportColor = (transport: string) => {
-    const colors = {
-      'car': '#0088FE',
-      'train': '#00C49F', 
-      'bus': '#FFBB28',
-      'bike': '#FF8042',
-      'walk': '#8884D8'
-    };
-    return colors[transport.toLowerCase() as keyof typeof colors] || '#82ca9d';
-  };
+  const getTransportColor = (transport: string) => getModeColor(transportModes, transport);
 
   return (
     <div className="space-y-6">
@@ -207,6 +208,17 @@ export const EnhancedDataVisualization = ({ reports }: EnhancedDataVisualization
             <option value="quarter">This Quarter</option>
             <option value="year">This Year</option>
           </select>
+          <select
+            value={selectedOutcome}
+            onChange={(e) => setSelectedOutcome(e.target.value)}
+            className="px-3 py-2 border rounded-md text-sm"
+            aria-label="Visit outcome"
+          >
+            <option value={ANY_OUTCOME}>All Outcomes</option>
+            {OUTCOME_FILTERS.map(filter => (
+              <option key={filter.value} value={filter.value}>{filter.label}</option>
+            ))}
+          </select>
           <Button variant="outline" size="sm">
             <Download className="h-4 w-4 mr-2" />
             Export
@@ -347,7 +359,7 @@ export const EnhancedDataVisualization = ({ reports }: EnhancedDataVisualization
                       dataKey="totalCost"
                     >
                       {processedData.reportTypeData.map((entry, index) => (
-                        <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                        <Cell key={`cell-${index}`} fill={entry.color} />
                       ))}
                     </Pie>
                     <Tooltip formatter={(value) => [`₦${value}`, 'Cost']} />
@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { FarePolicy, FarePolicyType, FARE_POLICY_TYPES } from "@/types/policy";
+import { ReportTypeDefinition } from "@/types/reportType";
+import { useFarePolicies } from "@/hooks/useFarePolicies";
+import { useTransportModes } from "@/hooks/useTransportModes";
+import { useReportTypes } from "@/hooks/useReportTypes";
+import { describePolicyScope } from "@/lib/farePolicy";
+
+interface FarePolicySettingsProps {
+  organizationId: string;
+  isAdmin: boolean;
+}
+
+// Select value for a filter that matches everything
+const ANY = 'any';
+
+const describePolicy = (policy: FarePolicy, reportTypes: ReportTypeDefinition[]) => {
+  const type = FARE_POLICY_TYPES.find(t => t.value === policy.policyType)?.label;
+  return `${type}: up to ₦${policy.maxCost.toLocaleString()} for ${describePolicyScope(policy, reportTypes)}`;
+};
+
+export const FarePolicySettings = ({ organizationId, isAdmin }: FarePolicySettingsProps) => {
+  const { allPolicies, createPolicy, setPolicyActive, deletePolicy } = useFarePolicies(organizationId);
+  const { modes } = useTransportModes(organizationId);
+  const { reportTypes, resolvedTypes } = useReportTypes(organizationId);
+  const [policyType, setPolicyType] = useState<FarePolicyType>("max_item_cost");
+  const [transportMode, setTransportMode] = useState(ANY);
+  const [reportType, setReportType] = useState(ANY);
+  const [location, setLocation] = useState("");
+  const [maxCost, setMaxCost] = useState("");
+
+  const handleCreate = async () => {
+    const amount = parseFloat(maxCost);
+    if (!(amount > 0)) return;
+    const success = await createPolicy({
+      policyType,
+      transportMode: transportMode === ANY ? null : transportMode,
+      location: location.trim() || null,
+      reportType: reportType === ANY ? null : reportType,
+      maxCost: amount,
+    });
+    if (success) {
+      setLocation("");
+      setMaxCost("");
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Fare Policies</Label>
+      {allPolicies.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No limits yet. Journeys are only checked against transport mode fare caps.
+        </p>
+      ) : (
+        <div className="space-y-1">
+          {allPolicies.map(policy => (
+            <div key={policy.id} className="flex items-center justify-between gap-2 text-sm">
+              <div className="flex items-center gap-2 min-w-0">
+                <span className={policy.isActive ? "truncate" : "truncate text-muted-foreground line-through"}>
+                  {describePolicy(policy, resolvedTypes)}
+                </span>
+                {!policy.isActive && <Badge variant="outline">Off</Badge>}
+              </div>
+              {isAdmin && (
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={policy.isActive}
+                    onCheckedChange={(checked) => setPolicyActive(policy.id, checked)}
+                    aria-label="Enforce this fare policy"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deletePolicy(policy.id)}
+                    aria-label="Delete fare policy"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+      {isAdmin && (
+        <div className="grid grid-cols-2 sm:grid-cols-5 gap-2 pt-2">
+          <Select value={policyType} onValueChange={(value) => setPolicyType(value as FarePolicyType)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {FARE_POLICY_TYPES.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={transportMode} onValueChange={setTransportMode}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any mode</SelectItem>
+              {modes.map(mode => (
+                <SelectItem key={mode.id} value={mode.name}>{mode.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={reportType} onValueChange={setReportType}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any report type</SelectItem>
+              {reportTypes.map(type => (
+                <SelectItem key={type.id} value={type.slug}>{type.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Any location"
+            value={location}
+            onChange={(e) => setLocation(e.target.value)}
+          />
+          <Input
+            type="number"
+            min="0"
+            placeholder="Max ₦"
+            value={maxCost}
+            onChange={(e) => setMaxCost(e.target.value)}
+          />
+          <Button type="button" variant="outline" onClick={handleCreate} className="col-span-2 sm:col-span-5">
+            <Plus className="h-4 w-4 mr-2" />
+            Fare Policy
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
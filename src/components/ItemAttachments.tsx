@@ -0,0 +1,99 @@
+import { useState } from "react";
+import { Camera, Loader2, X } from "lucide-react";
+import { PendingAttachment, ReportAttachment } from "@/types/report";
+import { useAttachmentUrls } from "@/hooks/useAttachmentUrls";
+
+interface ItemAttachmentsProps {
+  attachments: ReportAttachment[];
+  pending?: PendingAttachment[];
+  onAddFiles?: (files: File[]) => Promise<void>;
+  onRemoveAttachment?: (attachment: ReportAttachment) => void;
+  onRemovePending?: (pending: PendingAttachment) => void;
+}
+
+export const ItemAttachments = ({
+  attachments,
+  pending = [],
+  onAddFiles,
+  onRemoveAttachment,
+  onRemovePending,
+}: ItemAttachmentsProps) => {
+  const [processing, setProcessing] = useState(false);
+  const urls = useAttachmentUrls(attachments);
+  const editable = !!onAddFiles;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+    if (files.length === 0 || !onAddFiles) return;
+
+    setProcessing(true);
+    try {
+      await onAddFiles(files);
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  if (!editable && attachments.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {attachments.map(attachment => (
+        <div key={attachment.id} className="relative h-16 w-16 overflow-hidden rounded-md border bg-muted">
+          {urls[attachment.storagePath] && (
+            <a href={urls[attachment.storagePath]} target="_blank" rel="noreferrer">
+              <img
+                src={urls[attachment.storagePath]}
+                alt={attachment.fileName}
+                className="h-full w-full object-cover"
+              />
+            </a>
+          )}
+          {onRemoveAttachment && (
+            <button
+              type="button"
+              onClick={() => onRemoveAttachment(attachment)}
+              className="absolute right-0.5 top-0.5 rounded-full bg-background/80 p-0.5"
+              aria-label={`Remove ${attachment.fileName}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          )}
+        </div>
+      ))}
+
+      {pending.map(item => (
+        <div key={item.id} className="relative h-16 w-16 overflow-hidden rounded-md border border-dashed">
+          <img src={item.previewUrl} alt={item.fileName} className="h-full w-full object-cover opacity-80" />
+          {onRemovePending && (
+            <button
+              type="button"
+              onClick={() => onRemovePending(item)}
+              className="absolute right-0.5 top-0.5 rounded-full bg-background/80 p-0.5"
+              aria-label={`Remove ${item.fileName}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          )}
+        </div>
+      ))}
+
+      {editable && (
+        <label className="flex h-16 w-16 cursor-pointer flex-col items-center justify-center rounded-md border border-dashed text-xs text-muted-foreground hover:border-primary">
+          {processing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Camera className="h-4 w-4" />}
+          <span>Receipt</span>
+          <input
+            type="file"
+            accept="image/*"
+            capture="environment"
+            multiple
+            className="hidden"
+            onChange={handleFileChange}
+            disabled={processing}
+          />
+        </label>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,26 @@
+import { RefreshCw } from "lucide-react";
+import { LiveUpdate } from "@/types/report";
+
+interface LiveUpdateIndicatorProps {
+  liveUpdate: LiveUpdate;
+  currentUserId?: string;
+  authorEmails?: Record<string, string>;
+  className?: string;
+}
+
+export const LiveUpdateIndicator = ({ liveUpdate, currentUserId, authorEmails = {}, className = "" }: LiveUpdateIndicatorProps) => {
+  const { updatedBy, receivedAt } = liveUpdate;
+  // The same user changing it here means another of their devices or tabs
+  const who = !updatedBy
+    ? 'someone else'
+    : updatedBy === currentUserId
+      ? 'you on another device'
+      : authorEmails[updatedBy] ?? 'a team member';
+
+  return (
+    <span className={`inline-flex items-center gap-1 text-xs text-muted-foreground ${className}`}>
+      <RefreshCw className="h-3 w-3" />
+      Updated by {who} at {new Date(receivedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+    </span>
+  );
+};
@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { X } from "lucide-react";
+import { Customer, LoanLink } from "@/types/customer";
+
+interface LoanPickerProps {
+  id: string;
+  value: LoanLink[];
+  customers: Customer[];
+  onChange: (loans: LoanLink[]) => void;
+}
+
+const MAX_MATCHES = 6;
+
+// Links a journey to loans, found by loan reference, customer name or customer number
+export const LoanPicker = ({ id, value, customers, onChange }: LoanPickerProps) => {
+  const [query, setQuery] = useState("");
+  const [open, setOpen] = useState(false);
+
+  const search = query.trim().toLowerCase();
+  const matches = open && search
+    ? customers
+        .flatMap(customer => customer.loans
+          .filter(loan => loan.status === 'active' && !value.some(link => link.id === loan.id))
+          .filter(loan =>
+            loan.loanReference.toLowerCase().includes(search)
+            || customer.fullName.toLowerCase().includes(search)
+            || customer.customerRef?.toLowerCase().includes(search)
+          )
+          .map(loan => ({
+            id: loan.id,
+            loanReference: loan.loanReference,
+            customerId: customer.id,
+            customerName: customer.fullName,
+          }))
+        )
+        .slice(0, MAX_MATCHES)
+    : [];
+
+  const select = (loan: LoanLink) => {
+    onChange([...value, loan]);
+    setQuery("");
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.map(loan => (
+            <Badge key={loan.id} variant="secondary" className="gap-1">
+              {loan.loanReference} · {loan.customerName}
+              <button
+                type="button"
+                onClick={() => onChange(value.filter(link => link.id !== loan.id))}
+                aria-label={`Unlink loan ${loan.loanReference}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <div className="relative">
+        <Input
+          id={id}
+          placeholder="Loan reference or customer name"
+          value={query}
+          autoComplete="off"
+          role="combobox"
+          aria-expanded={matches.length > 0}
+          aria-controls={`${id}-options`}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setOpen(false)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && matches.length > 0) {
+              e.preventDefault();
+              select(matches[0]);
+            }
+          }}
+        />
+        {matches.length > 0 && (
+          <ul
+            id={`${id}-options`}
+            role="listbox"
+            className="absolute z-50 mt-1 w-full rounded-md border bg-popover p-1 text-popover-foreground shadow-md"
+          >
+            {matches.map(loan => (
+              <li
+                key={loan.id}
+                role="option"
+                aria-selected={false}
+                // Keep focus in the input so the blur doesn't close the list first
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  select(loan);
+                }}
+                className="cursor-pointer rounded-sm px-2 py-1.5 text-sm hover:bg-accent hover:text-accent-foreground"
+              >
+                <div>{loan.loanReference}</div>
+                <div className="text-xs text-muted-foreground">{loan.customerName}</div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
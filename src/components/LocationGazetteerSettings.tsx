@@ -0,0 +1,183 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { GitMerge, Loader2, Plus, Search } from "lucide-react";
+import { ItemLocationUsage } from "@/types/location";
+import { useLocations } from "@/hooks/useLocations";
+import { suggestLocation } from "@/lib/gazetteer";
+
+interface LocationGazetteerSettingsProps {
+  organizationId: string;
+}
+
+// Select value for a spelling that should not be merged
+const LEAVE_AS_IS = 'leave';
+
+const parseCoordinate = (value: string) => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+// Admin tools for the organization's gazetteer: add places on top of the shared ones,
+// and fold stray spellings in its journeys into canonical entries
+export const LocationGazetteerSettings = ({ organizationId }: LocationGazetteerSettingsProps) => {
+  const { locations, createLocation, listItemLocations, mergeItemLocations } = useLocations(organizationId);
+  const [name, setName] = useState("");
+  const [aliases, setAliases] = useState("");
+  const [lga, setLga] = useState("");
+  const [state, setState] = useState("");
+  const [latitude, setLatitude] = useState("");
+  const [longitude, setLongitude] = useState("");
+  const [usages, setUsages] = useState<ItemLocationUsage[] | null>(null);
+  const [targets, setTargets] = useState<Record<string, string>>({});
+  const [scanning, setScanning] = useState(false);
+  const [merging, setMerging] = useState(false);
+
+  const canonicalNames = new Set(locations.map(location => location.name));
+  // Spellings that aren't a canonical name, with the entry they most likely mean
+  const strays = (usages || [])
+    .filter(usage => !canonicalNames.has(usage.location))
+    .map(usage => ({
+      ...usage,
+      targetId: targets[usage.location] ?? suggestLocation(usage.location, locations)?.id ?? "",
+    }));
+
+  const handleCreate = async () => {
+    if (!name.trim()) return;
+    const lat = parseCoordinate(latitude);
+    const lng = parseCoordinate(longitude);
+    const success = await createLocation(organizationId, {
+      name: name.trim(),
+      aliases: aliases.split(",").map(alias => alias.trim()).filter(Boolean),
+      lga: lga.trim() || null,
+      state: state.trim() || null,
+      coordinates: lat !== null && lng !== null ? { lat, lng } : null,
+    });
+    if (success) {
+      setName("");
+      setAliases("");
+      setLga("");
+      setLatitude("");
+      setLongitude("");
+    }
+  };
+
+  const handleScan = async () => {
+    setScanning(true);
+    setUsages(await listItemLocations(organizationId));
+    setScanning(false);
+  };
+
+  // Merge every stray spelling that has a target, one canonical entry at a time
+  const handleMerge = async () => {
+    const byTarget = new Map<string, string[]>();
+    strays.filter(stray => stray.targetId).forEach(stray => {
+      byTarget.set(stray.targetId, [...(byTarget.get(stray.targetId) || []), stray.location]);
+    });
+
+    setMerging(true);
+    for (const [targetId, variants] of byTarget) {
+      const location = locations.find(l => l.id === targetId);
+      if (location) await mergeItemLocations(organizationId, location, variants);
+    }
+    setMerging(false);
+    setTargets({});
+    await handleScan();
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Locations</Label>
+      <p className="text-xs text-muted-foreground">
+        {locations.length} places, {locations.filter(location => location.organizationId).length} added by this
+        organization. Officers are offered these names as they type.
+      </p>
+      <div className="grid grid-cols-2 sm:grid-cols-6 gap-2">
+        <Input
+          className="col-span-2"
+          placeholder="Name, e.g., Lekki Phase 1"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <Input
+          className="col-span-2 sm:col-span-4"
+          placeholder="Other spellings, comma separated"
+          value={aliases}
+          onChange={(e) => setAliases(e.target.value)}
+        />
+        <Input placeholder="LGA" value={lga} onChange={(e) => setLga(e.target.value)} />
+        <Input placeholder="State" value={state} onChange={(e) => setState(e.target.value)} />
+        <Input
+          type="number"
+          step="any"
+          placeholder="Latitude"
+          value={latitude}
+          onChange={(e) => setLatitude(e.target.value)}
+        />
+        <Input
+          type="number"
+          step="any"
+          placeholder="Longitude"
+          value={longitude}
+          onChange={(e) => setLongitude(e.target.value)}
+        />
+        <Button type="button" variant="outline" onClick={handleCreate} className="col-span-2">
+          <Plus className="h-4 w-4 mr-2" />
+          Location
+        </Button>
+      </div>
+
+      <div className="space-y-2 pt-2">
+        <Button type="button" variant="outline" size="sm" onClick={handleScan} disabled={scanning || merging}>
+          {scanning ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Search className="h-4 w-4 mr-2" />}
+          Find inconsistent journey locations
+        </Button>
+        {usages && strays.length === 0 && (
+          <p className="text-sm text-muted-foreground">Every journey location matches a gazetteer entry.</p>
+        )}
+        {strays.length > 0 && (
+          <>
+            <div className="space-y-1">
+              {strays.map(stray => (
+                <div key={stray.location} className="grid grid-cols-2 items-center gap-2 text-sm">
+                  <span className="truncate">
+                    {stray.location || <span className="italic text-muted-foreground">blank</span>}
+                    <span className="text-muted-foreground"> · {stray.itemCount} journey{stray.itemCount !== 1 ? 's' : ''}</span>
+                  </span>
+                  <Select
+                    value={stray.targetId || LEAVE_AS_IS}
+                    onValueChange={(value) => setTargets(prev => ({
+                      ...prev,
+                      [stray.location]: value === LEAVE_AS_IS ? "" : value,
+                    }))}
+                  >
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={LEAVE_AS_IS}>Leave as is</SelectItem>
+                      {locations.map(location => (
+                        <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <Button
+              type="button"
+              size="sm"
+              onClick={handleMerge}
+              disabled={merging || !strays.some(stray => stray.targetId)}
+            >
+              {merging ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <GitMerge className="h-4 w-4 mr-2" />}
+              Merge into selected locations
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
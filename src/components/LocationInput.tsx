@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { KnownLocation } from "@/types/location";
+import { formatLocationArea, searchLocations, suggestLocation } from "@/lib/gazetteer";
+
+interface LocationInputProps {
+  id: string;
+  value: string;
+  locations: KnownLocation[];
+  onChange: (value: string) => void;
+  placeholder?: string;
+}
+
+// Free-text location with gazetteer autocomplete; close misspellings offer the canonical name
+export const LocationInput = ({ id, value, locations, onChange, placeholder }: LocationInputProps) => {
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const matches = open
+    ? searchLocations(value, locations).filter(location => location.name !== value.trim())
+    : [];
+  const suggestion = suggestLocation(value, locations);
+  const showSuggestion = !open && suggestion && suggestion.name !== value.trim();
+
+  const select = (location: KnownLocation) => {
+    onChange(location.name);
+    setOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (matches.length === 0) return;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted((highlighted + 1) % matches.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted((highlighted - 1 + matches.length) % matches.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      select(matches[Math.min(highlighted, matches.length - 1)]);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="relative">
+        <Input
+          id={id}
+          placeholder={placeholder}
+          value={value}
+          autoComplete="off"
+          role="combobox"
+          aria-expanded={matches.length > 0}
+          aria-controls={`${id}-options`}
+          onChange={(e) => {
+            onChange(e.target.value);
+            setHighlighted(0);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setOpen(false)}
+          onKeyDown={handleKeyDown}
+        />
+        {matches.length > 0 && (
+          <ul
+            id={`${id}-options`}
+            role="listbox"
+            className="absolute z-50 mt-1 w-full rounded-md border bg-popover p-1 text-popover-foreground shadow-md"
+          >
+            {matches.map((location, index) => (
+              <li
+                key={location.id}
+                role="option"
+                aria-selected={index === highlighted}
+                // Keep focus in the input so the blur doesn't close the list first
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  select(location);
+                }}
+                onMouseEnter={() => setHighlighted(index)}
+                className={`cursor-pointer rounded-sm px-2 py-1.5 text-sm ${index === highlighted ? "bg-accent text-accent-foreground" : ""}`}
+              >
+                <div>{location.name}</div>
+                {formatLocationArea(location) && (
+                  <div className="text-xs text-muted-foreground">{formatLocationArea(location)}</div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      {showSuggestion && (
+        <button
+          type="button"
+          className="text-xs text-primary hover:underline"
+          onClick={() => onChange(suggestion.name)}
+        >
+          Did you mean {suggestion.name}?
+        </button>
+      )}
+    </div>
+  );
+};
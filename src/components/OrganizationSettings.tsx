@@ -0,0 +1,218 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Building2, Plus, UserPlus, Users } from "lucide-react";
+import { Organization, OrganizationMember, Team, MEMBER_ROLES } from "@/types/organization";
+import { AppRole } from "@/types/auth";
+import { TransportModeSettings } from "./TransportModeSettings";
+import { ReportTypeSettings } from "./ReportTypeSettings";
+import { FarePolicySettings } from "./FarePolicySettings";
+import { LocationGazetteerSettings } from "./LocationGazetteerSettings";
+import { PdfBrandingSettings } from "./PdfBrandingSettings";
+
+interface OrganizationSettingsProps {
+  organizations: Organization[];
+  members: OrganizationMember[];
+  teams: Team[];
+  getRole: (organizationId: string) => AppRole;
+  onCreateOrganization: (name: string) => Promise<unknown>;
+  onCreateTeam: (organizationId: string, name: string) => Promise<boolean>;
+  onAddMember: (organizationId: string, email: string, role: AppRole) => Promise<boolean>;
+  onSetTeamMembership: (teamId: string, memberId: string, isMember: boolean) => Promise<boolean>;
+}
+
+interface OrganizationPanelProps extends Omit<OrganizationSettingsProps, 'organizations' | 'getRole' | 'onCreateOrganization'> {
+  organization: Organization;
+  role: AppRole;
+}
+
+const OrganizationPanel = ({
+  organization,
+  role,
+  members,
+  teams,
+  onCreateTeam,
+  onAddMember,
+  onSetTeamMembership,
+}: OrganizationPanelProps) => {
+  const [memberEmail, setMemberEmail] = useState("");
+  const [memberRole, setMemberRole] = useState<AppRole>("officer");
+  const [teamName, setTeamName] = useState("");
+
+  const organizationMembers = members.filter(m => m.organizationId === organization.id);
+  const organizationTeams = teams.filter(t => t.organizationId === organization.id);
+  const isAdmin = role === 'admin';
+
+  const handleAddMember = async () => {
+    if (!memberEmail.trim()) return;
+    const success = await onAddMember(organization.id, memberEmail.trim(), memberRole);
+    if (success) setMemberEmail("");
+  };
+
+  const handleCreateTeam = async () => {
+    if (!teamName.trim()) return;
+    const success = await onCreateTeam(organization.id, teamName.trim());
+    if (success) setTeamName("");
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 font-semibold">
+          <Building2 className="h-4 w-4" />
+          {organization.name}
+        </div>
+        <Badge variant="secondary">{role}</Badge>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Members</Label>
+        <div className="space-y-1">
+          {organizationMembers.map(member => (
+            <div key={member.userId} className="flex items-center justify-between text-sm">
+              <span>{member.email}</span>
+              <Badge variant="outline">{member.role}</Badge>
+            </div>
+          ))}
+        </div>
+        {isAdmin && (
+          <div className="flex flex-col sm:flex-row gap-2 pt-2">
+            <Input
+              type="email"
+              placeholder="officer@example.com"
+              value={memberEmail}
+              onChange={(e) => setMemberEmail(e.target.value)}
+            />
+            <Select value={memberRole} onValueChange={(value) => setMemberRole(value as AppRole)}>
+              <SelectTrigger className="sm:w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MEMBER_ROLES.map(r => (
+                  <SelectItem key={r.value} value={r.value}>{r.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="button" variant="outline" onClick={handleAddMember}>
+              <UserPlus className="h-4 w-4 mr-2" />
+              Add
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label>Teams</Label>
+        {organizationTeams.length === 0 && (
+          <p className="text-sm text-muted-foreground">No teams yet.</p>
+        )}
+        {organizationTeams.map(team => (
+          <div key={team.id} className="rounded-md bg-muted/30 p-3 space-y-2">
+            <div className="font-medium text-sm">{team.name}</div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {organizationMembers.map(member => (
+                <label key={member.userId} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={team.memberIds.includes(member.userId)}
+                    disabled={!isAdmin}
+                    onCheckedChange={(checked) => onSetTeamMembership(team.id, member.userId, checked === true)}
+                  />
+                  {member.email}
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+        {isAdmin && (
+          <div className="flex gap-2 pt-2">
+            <Input
+              placeholder="e.g., Lekki Branch"
+              value={teamName}
+              onChange={(e) => setTeamName(e.target.value)}
+            />
+            <Button type="button" variant="outline" onClick={handleCreateTeam}>
+              <Plus className="h-4 w-4 mr-2" />
+              Team
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <ReportTypeSettings organizationId={organization.id} isAdmin={isAdmin} />
+
+      <TransportModeSettings organizationId={organization.id} isAdmin={isAdmin} />
+
+      <FarePolicySettings organizationId={organization.id} isAdmin={isAdmin} />
+
+      {isAdmin && <LocationGazetteerSettings organizationId={organization.id} />}
+
+      {isAdmin && <PdfBrandingSettings organizationId={organization.id} />}
+    </div>
+  );
+};
+
+export const OrganizationSettings = ({
+  organizations,
+  getRole,
+  onCreateOrganization,
+  ...panelProps
+}: OrganizationSettingsProps) => {
+  const [organizationName, setOrganizationName] = useState("");
+
+  const handleCreateOrganization = async () => {
+    if (!organizationName.trim()) return;
+    const id = await onCreateOrganization(organizationName.trim());
+    if (id) setOrganizationName("");
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <Users className="h-4 w-4" />
+          <span>Teams</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Organizations & Teams</DialogTitle>
+          <DialogDescription>
+            Supervisors can review reports filed under their teams. Finance can see approved reports across the organization.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {organizations.map(organization => (
+            <OrganizationPanel
+              key={organization.id}
+              organization={organization}
+              role={getRole(organization.id)}
+              {...panelProps}
+            />
+          ))}
+
+          <div className="space-y-2">
+            <Label htmlFor="organizationName">New Organization</Label>
+            <div className="flex gap-2">
+              <Input
+                id="organizationName"
+                placeholder="e.g., Acme Microfinance"
+                value={organizationName}
+                onChange={(e) => setOrganizationName(e.target.value)}
+              />
+              <Button type="button" onClick={handleCreateOrganization}>
+                <Plus className="h-4 w-4 mr-2" />
+                Create
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,102 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { CONTACT_OUTCOMES, ContactOutcome, ReportOutcome, UTILISATION_CHECKS, VerificationOutcome } from "@/types/outcome";
+
+interface OutcomeFieldsProps {
+  outcome: ReportOutcome;
+  onChange: (outcome: ReportOutcome) => void;
+}
+
+const VERIFICATION_FIELDS: { field: keyof Omit<VerificationOutcome, 'type'>; label: string }[] = [
+  { field: 'addressConfirmed', label: "Address confirmed" },
+  { field: 'businessSighted', label: "Business sighted" },
+  { field: 'photosTaken', label: "Photos taken" },
+];
+
+// The findings an officer records for the selected report type
+export const OutcomeFields = ({ outcome, onChange }: OutcomeFieldsProps) => {
+  if (outcome.type === 'verification') {
+    return (
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        {VERIFICATION_FIELDS.map(({ field, label }) => (
+          <div key={field} className="flex items-center gap-2">
+            <Switch
+              id={`outcome-${field}`}
+              checked={outcome[field]}
+              onCheckedChange={(checked) => onChange({ ...outcome, [field]: checked })}
+            />
+            <Label htmlFor={`outcome-${field}`}>{label}</Label>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (outcome.type === 'recovery') {
+    return (
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="outcome-contact">Contact Outcome</Label>
+          <Select
+            value={outcome.contactOutcome ?? ""}
+            onValueChange={(value) => onChange({ ...outcome, contactOutcome: value as ContactOutcome })}
+          >
+            <SelectTrigger id="outcome-contact">
+              <SelectValue placeholder="Who was met?" />
+            </SelectTrigger>
+            <SelectContent>
+              {CONTACT_OUTCOMES.map((contact) => (
+                <SelectItem key={contact.value} value={contact.value}>
+                  {contact.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="outcome-amount">Amount Collected (₦)</Label>
+          <Input
+            id="outcome-amount"
+            type="number"
+            min="0"
+            placeholder="0"
+            value={outcome.amountCollected ?? ""}
+            onChange={(e) => onChange({ ...outcome, amountCollected: e.target.value ? parseFloat(e.target.value) : null })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="outcome-ptp">Promise to Pay Date</Label>
+          <Input
+            id="outcome-ptp"
+            type="date"
+            value={outcome.promiseToPayDate ?? ""}
+            onChange={(e) => onChange({ ...outcome, promiseToPayDate: e.target.value || null })}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+      {UTILISATION_CHECKS.map((check) => (
+        <div key={check.value} className="flex items-center gap-2">
+          <Checkbox
+            id={`outcome-${check.value}`}
+            checked={outcome.checks.includes(check.value)}
+            onCheckedChange={(checked) => onChange({
+              ...outcome,
+              checks: checked === true
+                ? [...outcome.checks, check.value]
+                : outcome.checks.filter(value => value !== check.value),
+            })}
+          />
+          <Label htmlFor={`outcome-${check.value}`}>{check.label}</Label>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import { useState } from "react";
+import { PDFViewer } from "@react-pdf/renderer";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, Download, Loader2 } from "lucide-react";
+import { Report } from "@/types/report";
+import { ReportTypeDefinition } from "@/types/reportType";
+import { PDF_TEMPLATES, PdfTemplate } from "@/types/branding";
+import { usePdfBranding } from "@/hooks/usePdfBranding";
+import { useAttachmentUrls } from "@/hooks/useAttachmentUrls";
+import { PDFReport, generatePDF } from "./PDFReport";
+
+interface PDFPreviewDialogProps {
+  report: Report;
+  reportTypes: ReportTypeDefinition[];
+  officerName?: string;
+}
+
+// Shows the PDF with the organization's letterhead before it is downloaded
+export const PDFPreviewDialog = ({ report, reportTypes, officerName }: PDFPreviewDialogProps) => {
+  const [open, setOpen] = useState(false);
+  // Until one is picked, follow the organization's default
+  const [template, setTemplate] = useState<PdfTemplate | null>(null);
+  const [downloading, setDownloading] = useState(false);
+  const { branding, loading, failed } = usePdfBranding(report.organizationId);
+
+  const chosenTemplate = template ?? branding.defaultTemplate;
+  const attachmentUrls = useAttachmentUrls(
+    open && chosenTemplate === 'with_photos' ? report.items.flatMap(item => item.attachments || []) : []
+  );
+
+  const handleDownload = async () => {
+    setDownloading(true);
+    await generatePDF(report, reportTypes, { officerName, branding, template: chosenTemplate });
+    setDownloading(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button>
+          <Download className="h-4 w-4 mr-2" />
+          Download PDF
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[95vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>PDF Preview</DialogTitle>
+          <DialogDescription>
+            {PDF_TEMPLATES.find(t => t.value === chosenTemplate)?.description}
+          </DialogDescription>
+        </DialogHeader>
+
+        {failed && (
+          <div className="flex items-start gap-2 rounded-lg border border-amber-500/50 bg-amber-500/10 p-3 text-sm">
+            <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0 text-amber-600" />
+            <span>Your organization's branding couldn't be loaded, so this PDF uses the default letterhead.</span>
+          </div>
+        )}
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Select value={chosenTemplate} onValueChange={(value) => setTemplate(value as PdfTemplate)}>
+            <SelectTrigger className="sm:w-56" aria-label="Template">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PDF_TEMPLATES.map(t => (
+                <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button className="sm:ml-auto" onClick={handleDownload} disabled={loading || downloading}>
+            {downloading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+            Download
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <PDFViewer className="w-full h-[65vh] rounded border" showToolbar={false}>
+            <PDFReport
+              report={report}
+              reportTypes={reportTypes}
+              officerName={officerName}
+              attachmentUrls={attachmentUrls}
+              branding={branding}
+              template={chosenTemplate}
+            />
+          </PDFViewer>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,131 +1,248 @@
 import { Document, Page, Text, View, StyleSheet, pdf, Image } from '@react-pdf/renderer';
 import { Report } from '@/types/report';
+import { ReportTypeDefinition } from '@/types/reportType';
+import { DEFAULT_PDF_BRANDING, PdfBranding, PdfTemplate } from '@/types/branding';
+import { attachmentService } from '@/services/attachmentService';
+import { brandingService } from '@/services/brandingService';
+import { toast } from '@/hooks/use-toast';
+import { getJourneyLegs } from '@/lib/legs';
+import { getOutcomeFacts } from '@/lib/outcomes';
+import { getReportTypeLabel, getReportTypePdfTitle, toReportTypeSlug } from '@/lib/reportTypes';
 
-const styles = StyleSheet.create({
-  page: {
-    flexDirection: 'column',
-    backgroundColor: '#ffffff',
-    padding: 30,
-    fontFamily: 'Helvetica',
-  },
-  logo: {
-    width: 100,
-    height: 100,
-    marginBottom: 10,
-    marginTop: 10,
-    alignSelf: 'center',
-    objectFit: 'contain',
-  },
-  header: {
-    marginBottom: 20,
-    paddingBottom: 10,
-    borderBottomWidth: 2,
-    borderBottomColor: '#333333',
-    textAlign: 'center',
-  },
-  title: {
-    fontSize: 24,
-    fontWeight: 'bold',
-    marginBottom: 10,
-    textAlign: 'center',
-  },
-  subtitle: {
-    fontSize: 12,
-    marginBottom: 5,
-  },
-  table: {
-    display: 'flex',
-    width: 'auto',
-    borderStyle: 'solid',
-    borderWidth: 1,
-    borderRightWidth: 0,
-    borderBottomWidth: 0,
-    marginTop: 20,
-  },
-  tableRow: {
-    margin: 'auto',
-    flexDirection: 'row',
-  },
-  tableHeader: {
-    backgroundColor: '#f5f5f5',
-  },
-  tableCol: {
-    width: '33.33%',
-    borderStyle: 'solid',
-    borderWidth: 1,
-    borderLeftWidth: 0,
-    borderTopWidth: 0,
-  },
-  tableCellHeader: {
-    margin: 5,
-    fontSize: 12,
-    fontWeight: 'bold',
-  },
-  tableCell: {
-    margin: 5,
-    fontSize: 10,
-  },
-  totalRow: {
-    backgroundColor: '#e8e8e8',
-    fontWeight: 'bold',
-  },
-  description: {
-    marginTop: 15,
-    marginBottom: 15,
-    padding: 10,
-    backgroundColor: '#f9f9f9',
-    borderLeftWidth: 3,
-    borderLeftColor: '#333333',
-  },
-  descriptionTitle: {
-    fontSize: 12,
-    fontWeight: 'bold',
-    marginBottom: 5,
-  },
-  descriptionText: {
-    fontSize: 10,
-    lineHeight: 1.5,
-  },
-  paymentSection: {
-    marginTop: 20,
-    padding: 15,
-    backgroundColor: '#f0f9ff',
-    borderRadius: 5,
-    borderWidth: 1,
-    borderColor: '#0ea5e9',
-  },
-  paymentTitle: {
-    fontSize: 14,
-    fontWeight: 'bold',
-    marginBottom: 10,
-    color: '#0c4a6e',
-    textAlign: 'center',
-  },
-  paymentText: {
-    fontSize: 11,
-    marginBottom: 8,
-    textAlign: 'center',
-  },
-  accountInfo: {
-    fontSize: 12,
-    fontWeight: 'bold',
-    textAlign: 'center',
-    color: '#0c4a6e',
-  },
-  footer: {
-    position: 'absolute',
-    bottom: 30,
-    left: 30,
-    right: 30,
-    textAlign: 'center',
-    fontSize: 10,
-    color: '#666666',
-  },
+// Colours come from the organization's branding; the compact template tightens the spacing
+const createStyles = (branding: PdfBranding, compact: boolean) => StyleSheet.create({
+    page: {
+      flexDirection: 'column',
+      backgroundColor: '#ffffff',
+      padding: 30,
+      fontFamily: 'Helvetica',
+    },
+    logo: {
+      width: compact ? 60 : 100,
+      height: compact ? 60 : 100,
+      marginBottom: 10,
+      marginTop: 10,
+      alignSelf: 'center',
+      objectFit: 'contain',
+    },
+    header: {
+      marginBottom: 20,
+      paddingBottom: 10,
+      borderBottomWidth: 2,
+      borderBottomColor: branding.primaryColor,
+      textAlign: 'center',
+    },
+    title: {
+      fontSize: compact ? 18 : 24,
+      fontWeight: 'bold',
+      marginBottom: compact ? 6 : 10,
+      color: branding.primaryColor,
+      textAlign: 'center',
+    },
+    subtitle: {
+      fontSize: 12,
+      marginBottom: 5,
+    },
+    table: {
+      display: 'flex',
+      width: 'auto',
+      borderStyle: 'solid',
+      borderWidth: 1,
+      borderRightWidth: 0,
+      borderBottomWidth: 0,
+      marginTop: compact ? 10 : 20,
+    },
+    tableRow: {
+      margin: 'auto',
+      flexDirection: 'row',
+    },
+    tableHeader: {
+      backgroundColor: '#f5f5f5',
+    },
+    tableCol: {
+      width: '25%',
+      borderStyle: 'solid',
+      borderWidth: 1,
+      borderLeftWidth: 0,
+      borderTopWidth: 0,
+    },
+    tableCellHeader: {
+      margin: 5,
+      fontSize: 12,
+      fontWeight: 'bold',
+    },
+    tableCell: {
+      margin: 5,
+      fontSize: 10,
+    },
+    loanCell: {
+      marginHorizontal: 5,
+      marginBottom: 5,
+      fontSize: 8,
+      color: '#555555',
+    },
+    flaggedRow: {
+      backgroundColor: '#fef3c7',
+    },
+    totalRow: {
+      backgroundColor: '#e8e8e8',
+      fontWeight: 'bold',
+    },
+    description: {
+      marginTop: 15,
+      marginBottom: 15,
+      padding: 10,
+      backgroundColor: '#f9f9f9',
+      borderLeftWidth: 3,
+      borderLeftColor: branding.primaryColor,
+    },
+    descriptionTitle: {
+      fontSize: 12,
+      fontWeight: 'bold',
+      marginBottom: 5,
+    },
+    descriptionText: {
+      fontSize: 10,
+      lineHeight: 1.5,
+    },
+    outcomeRow: {
+      flexDirection: 'row',
+      fontSize: 10,
+      marginBottom: 3,
+    },
+    outcomeLabel: {
+      width: '50%',
+      color: '#666666',
+    },
+    paymentSection: {
+      marginTop: compact ? 12 : 20,
+      padding: 15,
+      backgroundColor: '#f0f9ff',
+      borderRadius: 5,
+      borderWidth: 1,
+      borderColor: branding.accentColor,
+    },
+    paymentTitle: {
+      fontSize: 14,
+      fontWeight: 'bold',
+      marginBottom: 10,
+      color: branding.primaryColor,
+      textAlign: 'center',
+    },
+    paymentText: {
+      fontSize: 11,
+      marginBottom: 8,
+      textAlign: 'center',
+    },
+    accountInfo: {
+      fontSize: 12,
+      fontWeight: 'bold',
+      textAlign: 'center',
+      color: branding.primaryColor,
+    },
+    exceptions: {
+      marginTop: 20,
+      padding: 10,
+      borderWidth: 1,
+      borderColor: '#f59e0b',
+      backgroundColor: '#fffbeb',
+    },
+    exceptionsTitle: {
+      fontSize: 12,
+      fontWeight: 'bold',
+      marginBottom: 8,
+      color: '#92400e',
+    },
+    exceptionItem: {
+      marginBottom: 8,
+    },
+    exceptionHeading: {
+      fontSize: 10,
+      fontWeight: 'bold',
+      marginBottom: 2,
+    },
+    exceptionText: {
+      fontSize: 9,
+      lineHeight: 1.4,
+    },
+    letterhead: {
+      fontSize: 14,
+      fontWeight: 'bold',
+      textAlign: 'center',
+      color: branding.primaryColor,
+    },
+    address: {
+      fontSize: 9,
+      textAlign: 'center',
+      color: '#666666',
+      marginTop: 2,
+      marginBottom: 10,
+    },
+    signatory: {
+      marginTop: 30,
+      width: 200,
+    },
+    signatureLine: {
+      borderBottomWidth: 1,
+      borderBottomColor: '#333333',
+      height: 30,
+      marginBottom: 5,
+    },
+    signatoryName: {
+      fontSize: 11,
+      fontWeight: 'bold',
+    },
+    signatoryTitle: {
+      fontSize: 10,
+      color: '#666666',
+    },
+    footer: {
+      position: 'absolute',
+      bottom: 30,
+      left: 30,
+      right: 30,
+      textAlign: 'center',
+      fontSize: 10,
+      color: '#666666',
+    },
+    appendixTitle: {
+      fontSize: 16,
+      fontWeight: 'bold',
+      marginBottom: 15,
+      paddingBottom: 5,
+      borderBottomWidth: 1,
+      borderBottomColor: branding.primaryColor,
+    },
+    appendixGrid: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+    },
+    appendixItem: {
+      width: '50%',
+      padding: 5,
+      marginBottom: 10,
+    },
+    appendixImage: {
+      width: '100%',
+      height: 200,
+      objectFit: 'contain',
+      backgroundColor: '#f5f5f5',
+    },
+    appendixCaption: {
+      fontSize: 9,
+      marginTop: 4,
+      color: '#333333',
+    },
 });
 
 interface PDFReportProps {
   report: Report;
+  reportTypes?: ReportTypeDefinition[];
   officerName?: string;
+  attachmentUrls?: Record<string, string>;
+  branding?: PdfBranding;
+  // Defaults to the organization's chosen template
+  template?: PdfTemplate;
 }
 
 const sanitizeCost = (input: number | string): number => {
@@ -141,100 +258,245 @@ const formatNaira = (amount: number | string) => {
   return `₦${clean.toLocaleString('en-NG')}`;
 };
 
-export const PDFReport = ({ report, officerName = "Excel Shogbola" }: PDFReportProps) => (
-  <Document>
-    <Page size="A4" style={styles.page}>
-      <Image src="/Noltlogo.png" style={styles.logo} />
+export const PDFReport = ({
+  report,
+  reportTypes = [],
+  officerName = "Excel Shogbola",
+  attachmentUrls = {},
+  branding = DEFAULT_PDF_BRANDING,
+  template = branding.defaultTemplate,
+}: PDFReportProps) => {
+  const isCompact = template === 'compact';
+  const styles = createStyles(branding, isCompact);
+  const legs = getJourneyLegs(report.items);
+  const outcomeFacts = isCompact ? [] : getOutcomeFacts(report.outcome);
+  const evidence = template !== 'with_photos' ? [] : report.items.flatMap((item, index) =>
+    (item.attachments || [])
+      .filter(attachment => attachmentUrls[attachment.storagePath])
+      .map(attachment => ({ attachment, item, index }))
+  );
+  const exceptions = isCompact ? [] : report.items
+    .map((item, index) => ({ item, index }))
+    .filter(({ item }) => (item.policyViolations || []).length > 0);
 
-      <View style={styles.header}>
-        <Text style={styles.title}>
-          {report.reportType.charAt(0).toUpperCase() + report.reportType.slice(1)} Report
-        </Text>
-        <Text style={styles.subtitle}>Date: {new Date(report.reportDate).toLocaleDateString()}</Text>
-        <Text style={styles.subtitle}>Officer: {officerName}</Text>
-        <Text style={styles.subtitle}>Type: {report.reportType}</Text>
-        <Text style={styles.subtitle}>Generated: {new Date(report.createdAt).toLocaleDateString()}</Text>
-      </View>
-
-      {report.description && (
-        <View style={styles.description}>
-          <Text style={styles.descriptionTitle}>Description</Text>
-          <Text style={styles.descriptionText}>{report.description}</Text>
+  return (
+    <Document>
+      <Page size="A4" style={styles.page}>
+        <Image src={branding.logoUrl} style={styles.logo} />
+        {branding.headerText && <Text style={styles.letterhead}>{branding.headerText}</Text>}
+        {branding.address && <Text style={styles.address}>{branding.address}</Text>}
+
+        <View style={styles.header}>
+          <Text style={styles.title}>{getReportTypePdfTitle(reportTypes, report.reportType)}</Text>
+          <Text style={styles.subtitle}>Date: {new Date(report.reportDate).toLocaleDateString()}</Text>
+          <Text style={styles.subtitle}>Officer: {officerName}</Text>
+          <Text style={styles.subtitle}>Type: {getReportTypeLabel(reportTypes, report.reportType)}</Text>
+          <Text style={styles.subtitle}>Generated: {new Date(report.createdAt).toLocaleDateString()}</Text>
         </View>
-      )}
 
-      <View style={styles.table}>
-        <View style={[styles.tableRow, styles.tableHeader]}>
-          <View style={styles.tableCol}>
-            <Text style={styles.tableCellHeader}>Location</Text>
+        {report.description && !isCompact && (
+          <View style={styles.description}>
+            <Text style={styles.descriptionTitle}>Description</Text>
+            <Text style={styles.descriptionText}>{report.description}</Text>
           </View>
-          <View style={styles.tableCol}>
-            <Text style={styles.tableCellHeader}>Transport Mode</Text>
-          </View>
-          <View style={styles.tableCol}>
-            <Text style={styles.tableCellHeader}>Cost</Text>
+        )}
+
+        {outcomeFacts.length > 0 && (
+          <View style={styles.description}>
+            <Text style={styles.descriptionTitle}>Visit Outcome</Text>
+            {outcomeFacts.map(fact => (
+              <View key={fact.label} style={styles.outcomeRow}>
+                <Text style={styles.outcomeLabel}>{fact.label}</Text>
+                <Text>{fact.value}</Text>
+              </View>
+            ))}
           </View>
-        </View>
+        )}
 
-        {report.items.map((item, index) => (
-          <View style={styles.tableRow} key={index}>
+        <View style={styles.table}>
+          <View style={[styles.tableRow, styles.tableHeader]}>
+            <View style={styles.tableCol}>
+              <Text style={styles.tableCellHeader}>From</Text>
+            </View>
             <View style={styles.tableCol}>
-              <Text style={styles.tableCell}>{item.location}</Text>
+              <Text style={styles.tableCellHeader}>To</Text>
             </View>
             <View style={styles.tableCol}>
-              <Text style={styles.tableCell}>{item.transportation}</Text>
+              <Text style={styles.tableCellHeader}>Transport Mode</Text>
             </View>
             <View style={styles.tableCol}>
-              <Text style={styles.tableCell}>{formatNaira(item.cost)}</Text>
+              <Text style={styles.tableCellHeader}>Cost</Text>
             </View>
           </View>
-        ))}
 
-        <View style={[styles.tableRow, styles.totalRow]}>
-          <View style={styles.tableCol}>
-            <Text style={styles.tableCellHeader}>TOTAL</Text>
-          </View>
-          <View style={styles.tableCol}>
-            <Text style={styles.tableCellHeader}></Text>
+          {legs.map(({ item, from, to }, index) => (
+            <View
+              style={(item.policyViolations || []).length > 0 ? [styles.tableRow, styles.flaggedRow] : styles.tableRow}
+              key={index}
+            >
+              <View style={styles.tableCol}>
+                <Text style={styles.tableCell}>{from || '-'}</Text>
+              </View>
+              <View style={styles.tableCol}>
+                <Text style={styles.tableCell}>{to}{item.isRoundTrip ? ' (return)' : ''}</Text>
+                {!isCompact && (item.loans || []).length > 0 && (
+                  <Text style={styles.loanCell}>
+                    Loan: {item.loans.map(loan => loan.loanReference).join(', ')}
+                  </Text>
+                )}
+              </View>
+              <View style={styles.tableCol}>
+                <Text style={styles.tableCell}>{item.transportation}</Text>
+              </View>
+              <View style={styles.tableCol}>
+                <Text style={styles.tableCell}>
+                  {formatNaira(item.cost)}{(item.policyViolations || []).length > 0 ? ' *' : ''}
+                </Text>
+              </View>
+            </View>
+          ))}
+
+          <View style={[styles.tableRow, styles.totalRow]}>
+            <View style={styles.tableCol}>
+              <Text style={styles.tableCellHeader}>TOTAL</Text>
+            </View>
+            <View style={styles.tableCol}>
+              <Text style={styles.tableCellHeader}></Text>
+            </View>
+            <View style={styles.tableCol}>
+              <Text style={styles.tableCellHeader}></Text>
+            </View>
+            <View style={styles.tableCol}>
+              <Text style={styles.tableCellHeader}>{formatNaira(report.totalCost)}</Text>
+            </View>
           </View>
-          <View style={styles.tableCol}>
-            <Text style={styles.tableCellHeader}>{formatNaira(report.totalCost)}</Text>
+        </View>
+
+        {exceptions.length > 0 && (
+          <View style={styles.exceptions} wrap={false}>
+            <Text style={styles.exceptionsTitle}>* Journeys above fare policy</Text>
+            {exceptions.map(({ item, index }) => (
+              <View style={styles.exceptionItem} key={item.id}>
+                <Text style={styles.exceptionHeading}>
+                  Item {index + 1}: {item.location} ({item.transportation}, {formatNaira(item.cost)})
+                </Text>
+                {item.policyViolations.map((violation) => (
+                  <Text style={styles.exceptionText} key={`${violation.kind}-${violation.policyId}`}>
+                    - {violation.message}
+                  </Text>
+                ))}
+                <Text style={styles.exceptionText}>
+                  Justification: {item.justification || 'None given'}
+                </Text>
+              </View>
+            ))}
           </View>
+        )}
+
+        <View style={styles.paymentSection}>
+          <Text style={styles.paymentTitle}>PAYMENT INFORMATION</Text>
+          <Text style={styles.paymentText}>
+            Kindly proceed with payment to the account details below:
+          </Text>
+          <Text style={styles.accountInfo}>
+            Account Number: {report.accountNumber}
+          </Text>
+          <Text style={styles.accountInfo}>
+            Account Name: {report.accountName}
+          </Text>
+          <Text style={styles.accountInfo}>
+            Bank Name: {report.bankName}
+          </Text>
         </View>
-      </View>
 
-      <View style={styles.paymentSection}>
-        <Text style={styles.paymentTitle}>PAYMENT INFORMATION</Text>
-        <Text style={styles.paymentText}>
-          Kindly proceed with payment to the account details below:
-        </Text>
-        <Text style={styles.accountInfo}>
-          Account Number: {report.accountNumber}
-        </Text>
-        <Text style={styles.accountInfo}>
-          Account Name: {report.accountName}
-        </Text>
-        <Text style={styles.accountInfo}>
-          Bank Name: {report.bankName}
+        {branding.signatoryName && (
+          <View style={styles.signatory} wrap={false}>
+            <View style={styles.signatureLine} />
+            <Text style={styles.signatoryName}>{branding.signatoryName}</Text>
+            {branding.signatoryTitle && <Text style={styles.signatoryTitle}>{branding.signatoryTitle}</Text>}
+          </View>
+        )}
+
+        <Text style={styles.footer} fixed>
+          {branding.footerText}
         </Text>
-      </View>
+      </Page>
+
+      {evidence.length > 0 && (
+        <Page size="A4" style={styles.page}>
+          <Text style={styles.appendixTitle}>Appendix: Receipts & Evidence</Text>
+          <View style={styles.appendixGrid}>
+            {evidence.map(({ attachment, item, index }) => (
+              <View style={styles.appendixItem} key={attachment.id} wrap={false}>
+                <Image src={attachmentUrls[attachment.storagePath]} style={styles.appendixImage} />
+                <Text style={styles.appendixCaption}>
+                  Item {index + 1}: {item.location} ({item.transportation}, {formatNaira(item.cost)})
+                </Text>
+              </View>
+            ))}
+          </View>
+        </Page>
+      )}
+    </Document>
+  );
+};
 
-      <Text style={styles.footer}>
-        This is an official field report generated by the verification system.
-      </Text>
-    </Page>
-  </Document>
-);
+interface GeneratePDFOptions {
+  officerName?: string;
+  // Loaded for the report's organization when not given
+  branding?: PdfBranding;
+  template?: PdfTemplate;
+}
+
+export const generatePDF = async (
+  report: Report,
+  reportTypes: ReportTypeDefinition[] = [],
+  { officerName, branding, template }: GeneratePDFOptions = {}
+) => {
+  let letterhead = branding ?? DEFAULT_PDF_BRANDING;
+  if (!branding) {
+    try {
+      letterhead = await brandingService.get(report.organizationId);
+    } catch (error) {
+      // Fall back to the default letterhead rather than failing the download
+      console.error('Error loading PDF branding:', error);
+      toast({
+        title: "Letterhead Unavailable",
+        description: "Your organization's branding couldn't be loaded, so this PDF uses the default letterhead.",
+        variant: "destructive",
+      });
+    }
+  }
+  const chosenTemplate = template ?? letterhead.defaultTemplate;
+
+  const storagePaths = chosenTemplate === 'with_photos'
+    ? report.items.flatMap(item => (item.attachments || []).map(a => a.storagePath))
+    : [];
+  let attachmentUrls: Record<string, string> = {};
+  try {
+    attachmentUrls = await attachmentService.getSignedUrls(storagePaths);
+  } catch (error) {
+    // Still produce the report itself if the evidence cannot be fetched
+    console.error('Error loading attachments for PDF:', error);
+  }
 
-export const generatePDF = async (report: Report, officerName?: string) => {
-  const doc = <PDFReport report={report} officerName={officerName} />;
+  const doc = (
+    <PDFReport
+      report={report}
+      reportTypes={reportTypes}
+      officerName={officerName}
+      attachmentUrls={attachmentUrls}
+      branding={letterhead}
+      template={chosenTemplate}
+    />
+  );
   const asPdf = pdf(doc);
   const blob = await asPdf.toBlob();
 
   const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
   link.href = url;
-  link.download = `${report.reportType}-report-${report.reportDate}.pdf`;
+  link.download = `${toReportTypeSlug(getReportTypePdfTitle(reportTypes, report.reportType))}-${report.reportDate}.pdf`;
   link.click();
 
   URL.revokeObjectURL(url);
@@ -0,0 +1,132 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ImageOff, Save } from "lucide-react";
+import { PDF_TEMPLATES, PdfBrandingInput, PdfTemplate } from "@/types/branding";
+import { usePdfBranding } from "@/hooks/usePdfBranding";
+
+interface PdfBrandingSettingsProps {
+  organizationId: string;
+}
+
+// Admin form for the letterhead printed on this organization's PDF reports
+export const PdfBrandingSettings = ({ organizationId }: PdfBrandingSettingsProps) => {
+  const { branding, saveBranding } = usePdfBranding(organizationId);
+  const [form, setForm] = useState<PdfBrandingInput>(branding);
+  const [logoFile, setLogoFile] = useState<File | null>(null);
+  const [removeLogo, setRemoveLogo] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  // Start from the saved branding once it loads, and again after each save
+  useEffect(() => {
+    setForm(branding);
+    setLogoFile(null);
+    setRemoveLogo(false);
+  }, [branding]);
+
+  const update = (changes: Partial<PdfBrandingInput>) => setForm(prev => ({ ...prev, ...changes }));
+
+  const handleSave = async () => {
+    setSaving(true);
+    await saveBranding(
+      {
+        ...form,
+        headerText: form.headerText?.trim() || null,
+        address: form.address?.trim() || null,
+        footerText: form.footerText.trim(),
+        signatoryName: form.signatoryName?.trim() || null,
+        signatoryTitle: form.signatoryTitle?.trim() || null,
+      },
+      { file: logoFile, remove: removeLogo }
+    );
+    setSaving(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>PDF Branding</Label>
+      <div className="flex items-center gap-3">
+        {!removeLogo && !logoFile && (
+          <img src={branding.logoUrl} alt="Current logo" className="h-12 w-12 rounded border object-contain" />
+        )}
+        <Input
+          type="file"
+          accept="image/png,image/jpeg"
+          aria-label="Logo"
+          onChange={(e) => {
+            setLogoFile(e.target.files?.[0] ?? null);
+            setRemoveLogo(false);
+          }}
+        />
+        {branding.logoPath && !removeLogo && (
+          <Button type="button" variant="ghost" size="sm" onClick={() => { setRemoveLogo(true); setLogoFile(null); }}>
+            <ImageOff className="h-4 w-4 mr-1" />
+            Default
+          </Button>
+        )}
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        <Input
+          className="col-span-2"
+          placeholder="Letterhead, e.g. organization name"
+          value={form.headerText ?? ""}
+          onChange={(e) => update({ headerText: e.target.value })}
+        />
+        <Input
+          type="color"
+          value={form.primaryColor}
+          onChange={(e) => update({ primaryColor: e.target.value })}
+          aria-label="Heading and rule colour"
+          className="p-1"
+        />
+        <Input
+          type="color"
+          value={form.accentColor}
+          onChange={(e) => update({ accentColor: e.target.value })}
+          aria-label="Payment box colour"
+          className="p-1"
+        />
+      </div>
+      <Textarea
+        placeholder="Address"
+        value={form.address ?? ""}
+        onChange={(e) => update({ address: e.target.value })}
+        rows={2}
+      />
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        <Input
+          placeholder="Signatory name"
+          value={form.signatoryName ?? ""}
+          onChange={(e) => update({ signatoryName: e.target.value })}
+        />
+        <Input
+          placeholder="Signatory title"
+          value={form.signatoryTitle ?? ""}
+          onChange={(e) => update({ signatoryTitle: e.target.value })}
+        />
+      </div>
+      <Input
+        placeholder="Footer text"
+        value={form.footerText}
+        onChange={(e) => update({ footerText: e.target.value })}
+      />
+      <Select value={form.defaultTemplate} onValueChange={(value) => update({ defaultTemplate: value as PdfTemplate })}>
+        <SelectTrigger aria-label="Default template">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {PDF_TEMPLATES.map(template => (
+            <SelectItem key={template.value} value={template.value}>Default: {template.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button type="button" variant="outline" onClick={handleSave} disabled={saving || !form.footerText.trim()} className="w-full">
+        <Save className="h-4 w-4 mr-2" />
+        Save Branding
+      </Button>
+    </div>
+  );
+};
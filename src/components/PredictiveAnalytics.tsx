@@ -33,37 +33,32 @@ import {
   Route,
   Sparkles
 } from "lucide-react";
-import { Report } from "@/types/report";
+import { ReportStats } from "@/types/report";
 
 interface PredictiveAnalyticsProps {
-  reports: Report[];
+  stats: ReportStats;
 }
 
-export const PredictiveAnalytics = ({ reports }: PredictiveAnalyticsProps) => {
+export const PredictiveAnalytics = ({ stats }: PredictiveAnalyticsProps) => {
   const [predictionPeriod, setPredictionPeriod] = useState("3months");
 
   // Predictive analytics calculations
   const predictions = useMemo(() => {
-    if (reports.length === 0) return null;
+    if (stats.journeys.length === 0) return null;
 
-    const allItems = reports.flatMap(report => 
-      report.items.map(item => ({
-        ...item,
-        reportType: report.reportType,
-        reportDate: report.reportDate,
-        month: new Date(report.reportDate).toISOString().slice(0, 7),
-        monthName: new Date(report.reportDate).toLocaleDateString('en-US', { month: 'short' })
-      }))
-    );
+    const journeys = stats.journeys.map(stat => ({
+      ...stat,
+      monthName: new Date(`${stat.month}-01T00:00:00`).toLocaleDateString('en-US', { month: 'short' })
+    }));
 
     // Calculate historical trends
-    const monthlyData = allItems.reduce((acc, item) => {
-      const monthKey = item.monthName;
+    const monthlyData = journeys.reduce((acc, stat) => {
+      const monthKey = stat.monthName;
       if (!acc[monthKey]) {
         acc[monthKey] = { month: monthKey, totalCost: 0, visitCount: 0, averageCost: 0 };
       }
-      acc[monthKey].totalCost += item.cost;
-      acc[monthKey].visitCount += 1;
+      acc[monthKey].totalCost += stat.totalCost;
+      acc[monthKey].visitCount += stat.journeys;
       acc[monthKey].averageCost = acc[monthKey].totalCost / acc[monthKey].visitCount;
       return acc;
     }, {} as { [key: string]: any });
@@ -98,8 +93,8 @@ export const PredictiveAnalytics = ({ reports }: PredictiveAnalyticsProps) => {
     const predictedVisits = Math.round(avgVisitsPerMonth * (1 + (growthRate / 100)));
 
     // Optimal visit scheduling
-    const locationFrequency = allItems.reduce((acc, item) => {
-      acc[item.location] = (acc[item.location] || 0) + 1;
+    const locationFrequency = journeys.reduce((acc, stat) => {
+      acc[stat.location] = (acc[stat.location] || 0) + stat.journeys;
       return acc;
     }, {} as { [key: string]: number });
 
@@ -109,12 +104,12 @@ export const PredictiveAnalytics = ({ reports }: PredictiveAnalyticsProps) => {
       .map(([location, visits]) => ({ location, visits }));
 
     // Risk assessment
-    const highCostLocations = allItems.reduce((acc, item) => {
-      if (!acc[item.location]) {
-        acc[item.location] = { location: item.location, totalCost: 0, visitCount: 0 };
+    const highCostLocations = journeys.reduce((acc, stat) => {
+      if (!acc[stat.location]) {
+        acc[stat.location] = { location: stat.location, totalCost: 0, visitCount: 0 };
       }
-      acc[item.location].totalCost += item.cost;
-      acc[item.location].visitCount += 1;
+      acc[stat.location].totalCost += stat.totalCost;
+      acc[stat.location].visitCount += stat.journeys;
       return acc;
     }, {} as { [key: string]: any });
 
@@ -133,7 +128,7 @@ export const PredictiveAnalytics = ({ reports }: PredictiveAnalyticsProps) => {
       currentAvgCost,
       efficiencyScore: Math.max(0, 100 - (currentAvgCost / 100))
     };
-  }, [reports]);
+  }, [stats]);
 
   if (!predictions) {
     return (
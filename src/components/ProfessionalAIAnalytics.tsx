@@ -27,10 +27,7 @@ import {
   TrendingDown, 
   Minus, 
   MapPin, 
-  Car, 
-  Train, 
-  Bus, 
-  Bike,
+  Car,   
   Route,
   Target,
   Zap,
@@ -52,18 +49,22 @@ import {
   Shield,
   Rocket
 } from "lucide-react";
-import { Report } from "@/types/report";
+import { ReportStats } from "@/types/report";
+import { ReportTypeDefinition } from "@/types/reportType";
+import { useTransportModes } from "@/hooks/useTransportModes";
+import { TransportModeIcon } from "./TransportModeIcon";
 import { aiService } from "@/services/aiService";
 import { useToast } from "@/hooks/use-toast";
 import { AIConfigPanel } from "@/components/AIConfigPanel";
 
 interface ProfessionalAIAnalyticsProps {
-  reports: Report[];
+  stats: ReportStats;
+  reportTypes: ReportTypeDefinition[];
 }
 
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8', '#82ca9d'];
 
-export const ProfessionalAIAnalytics = ({ reports }: ProfessionalAIAnalyticsProps) => {
+export const ProfessionalAIAnalytics = ({ stats, reportTypes }: ProfessionalAIAnalyticsProps) => {
   const [activeTab, setActiveTab] = useState("dashboard");
   const [aiConfig, setAiConfig] = useState({
     apiKey: '',
@@ -76,27 +77,21 @@ export const ProfessionalAIAnalytics = ({ reports }: ProfessionalAIAnalyticsProp
   const [aiInsights, setAiInsights] = useState<any>(null);
   const [loading, setLoading] = useState(false);
   const [showConfig, setShowConfig] = useState(false);
+  const { allModes: transportModes } = useTransportModes();
   const { toast } = useToast();
 
   // Enhanced data analysis
   const analyzeData = () => {
-    if (reports.length === 0) return null;
+    if (stats.journeys.length === 0) return null;
 
-    const allItems = reports.flatMap(report => 
-      report.items.map(item => ({
-        ...item,
-        reportType: report.reportType,
-        reportDate: report.reportDate,
-        month: new Date(report.reportDate).toISOString().slice(0, 7)
-      }))
-    );
-
-    const totalCost = allItems.reduce((sum, item) => sum + item.cost, 0);
-    const averageCost = totalCost / allItems.length;
-    const uniqueLocations = [...new Set(allItems.map(item => item.location))];
+    const journeys = stats.journeys;
+    const totalVisits = journeys.reduce((sum, stat) => sum + stat.journeys, 0);
+    const totalCost = journeys.reduce((sum, stat) => sum + stat.totalCost, 0);
+    const averageCost = totalCost / totalVisits;
+    const uniqueLocations = [...new Set(journeys.map(stat => stat.location))];
     
-    const transportCounts = allItems.reduce((acc, item) => {
-      acc[item.transportation] = (acc[item.transportation] || 0) + 1;
+    const transportCounts = journeys.reduce((acc, stat) => {
+      acc[stat.transportation] = (acc[stat.transportation] || 0) + stat.journeys;
       return acc;
     }, {} as { [key: string]: number });
 
@@ -104,19 +99,19 @@ export const ProfessionalAIAnalytics = ({ reports }: ProfessionalAIAnalyticsProp
       .sort(([,a], [,b]) => b - a)[0]?.[0] || 'Unknown';
 
     // Monthly trends
-    const monthlyData = allItems.reduce((acc, item) => {
-      const month = item.month;
+    const monthlyData = journeys.reduce((acc, stat) => {
+      const month = stat.month;
       if (!acc[month]) acc[month] = { cost: 0, visits: 0 };
-      acc[month].cost += item.cost;
-      acc[month].visits += 1;
+      acc[month].cost += stat.totalCost;
+      acc[month].visits += stat.journeys;
       return acc;
     }, {} as { [key: string]: { cost: number; visits: number } });
 
     // Location analysis
     const locationAnalysis = uniqueLocations.map(location => {
-      const locationItems = allItems.filter(item => item.location === location);
-      const totalCost = locationItems.reduce((sum, item) => sum + item.cost, 0);
-      const visitCount = locationItems.length;
+      const locationStats = journeys.filter(stat => stat.location === location);
+      const totalCost = locationStats.reduce((sum, stat) => sum + stat.totalCost, 0);
+      const visitCount = locationStats.reduce((sum, stat) => sum + stat.journeys, 0);
       const averageCost = totalCost / visitCount;
       
       return {
@@ -129,13 +124,13 @@ export const ProfessionalAIAnalytics = ({ reports }: ProfessionalAIAnalyticsProp
     }).sort((a, b) => b.visitCount - a.visitCount);
 
     return {
-      totalVisits: allItems.length,
+      totalVisits,
       totalCost,
       averageCost,
       uniqueLocations: uniqueLocations.length,
       preferredTransport,
       mostFrequentLocations: uniqueLocations.slice(0, 5),
-      monthlyData: Object.entries(monthlyData).map(([month, data]) => ({
+      monthlyData: Object.entries(monthlyData).sort(([a], [b]) => a.localeCompare(b)).map(([month, data]) => ({
         month,
         cost: data.cost,
         visits: data.visits,
@@ -145,28 +140,24 @@ export const ProfessionalAIAnalytics = ({ reports }: ProfessionalAIAnalyticsProp
       transportBreakdown: Object.entries(transportCounts).map(([type, count]) => ({
         type,
         count,
-        percentage: (count / allItems.length) * 100
+        percentage: (count / totalVisits) * 100
       }))
     };
   };
 
   const analysis = analyzeData();
 
-  const getTransportIcon = (transport: string) => {
-    const lower = transport.toLowerCase();
-    if (lower.includes('car')) return <Car className="h-4 w-4" />;
-    if (lower.includes('train')) return <Train className="h-4 w-4" />;
-    if (lower.includes('bus')) return <Bus className="h-4 w-4" />;
-    if (lower.includes('bike')) return <Bike className="h-4 w-4" />;
-    return <Car className="h-4 w-4" />;
-  };
+  const getTransportIcon = (transport: string) => (
+    <TransportModeIcon name={transport} modes={transportModes} />
+  );
 
   const handleAIAnalysis = async () => {
     setLoading(true);
     try {
       aiService.setConfig(aiConfig);
       const response = await aiService.analyzeTransportData({
-        reports,
+        stats,
+        reportTypes,
         analysisType: 'comprehensive',
         focusAreas: ['cost-optimization', 'route-efficiency', 'predictive-insights']
       });
@@ -188,7 +179,7 @@ export const ProfessionalAIAnalytics = ({ reports }: ProfessionalAIAnalyticsProp
   };
 
   // Show empty state if no reports
-  if (reports.length === 0) {
+  if (stats.reports.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center min-h-[400px] text-center">
         <AlertCircle className="h-12 w-12 text-muted-foreground mb-4" />
@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AtSign, CheckCircle, CornerDownRight, MessageSquare, RotateCcw, Send } from "lucide-react";
+import { CommentThread, MentionCandidate, NewComment, ReportComment } from "@/types/comment";
+import { splitMentions, toMentionToken } from "@/lib/reportComments";
+
+interface ReportCommentsProps {
+  threads: CommentThread[];
+  // Comments posted here start threads on this journey rather than the whole report
+  reportItemId?: string;
+  currentUserId?: string;
+  authorEmails?: Record<string, string>;
+  candidates?: MentionCandidate[];
+  canRequestResponse?: boolean;
+  // Reviewers can resolve any thread; everyone else only their own
+  canResolveAny?: boolean;
+  onAdd: (comment: NewComment) => Promise<boolean>;
+  onSetResolved: (commentId: string, resolved: boolean) => Promise<boolean>;
+}
+
+interface CommentComposerProps {
+  placeholder: string;
+  candidates: MentionCandidate[];
+  canRequestResponse?: boolean;
+  onSubmit: (body: string, requiresResponse: boolean) => Promise<boolean>;
+}
+
+const CommentComposer = ({ placeholder, candidates, canRequestResponse = false, onSubmit }: CommentComposerProps) => {
+  const [body, setBody] = useState("");
+  const [requiresResponse, setRequiresResponse] = useState(false);
+  const [posting, setPosting] = useState(false);
+
+  const handleMention = (userId: string) => {
+    const candidate = candidates.find(c => c.userId === userId);
+    if (!candidate) return;
+    setBody(prev => `${prev}${prev && !prev.endsWith(' ') ? ' ' : ''}${toMentionToken(candidate)} `);
+  };
+
+  const handleSubmit = async () => {
+    if (!body.trim()) return;
+    setPosting(true);
+    const success = await onSubmit(body, requiresResponse);
+    setPosting(false);
+    if (success) {
+      setBody("");
+      setRequiresResponse(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Textarea placeholder={placeholder} value={body} onChange={(e) => setBody(e.target.value)} rows={2} />
+      <div className="flex flex-wrap items-center gap-2">
+        {candidates.length > 0 && (
+          // Always empty, so the picker is ready for the next mention
+          <Select value="" onValueChange={handleMention}>
+            <SelectTrigger className="w-40" aria-label="Mention a team member">
+              <AtSign className="h-4 w-4" />
+              <SelectValue placeholder="Mention" />
+            </SelectTrigger>
+            <SelectContent>
+              {candidates.map(candidate => (
+                <SelectItem key={candidate.userId} value={candidate.userId}>{candidate.email}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {canRequestResponse && (
+          <label className="flex items-center gap-2 text-sm">
+            <Switch checked={requiresResponse} onCheckedChange={setRequiresResponse} />
+            Officer must respond before approval
+          </label>
+        )}
+        <Button size="sm" className="ml-auto" onClick={handleSubmit} disabled={posting || !body.trim()}>
+          <Send className="h-4 w-4 mr-2" />
+          Post
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export const ReportComments = ({
+  threads,
+  reportItemId,
+  currentUserId,
+  authorEmails = {},
+  candidates = [],
+  canRequestResponse = false,
+  canResolveAny = false,
+  onAdd,
+  onSetResolved,
+}: ReportCommentsProps) => {
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+
+  const getAuthorName = (authorId: string) =>
+    authorId === currentUserId ? 'You' : authorEmails[authorId] ?? 'Team member';
+
+  const renderComment = (comment: ReportComment) => (
+    <div className="space-y-1">
+      <div className="text-xs text-muted-foreground">
+        <span className="font-medium text-foreground">{getAuthorName(comment.authorId)}</span>
+        {' · '}
+        {new Date(comment.createdAt).toLocaleString()}
+      </div>
+      <p className="text-sm whitespace-pre-wrap">
+        {splitMentions(comment.body, candidates).map((part, index) => (
+          part.isMention
+            ? <span key={index} className="font-medium text-primary">{part.text}</span>
+            : <span key={index}>{part.text}</span>
+        ))}
+      </p>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      {threads.map(({ comment, replies, awaitingResponse }) => {
+        const canResolve = canResolveAny || comment.authorId === currentUserId;
+
+        return (
+          <div
+            key={comment.id}
+            className={`rounded-lg border p-3 space-y-3 ${comment.resolvedAt ? 'opacity-70' : ''} ${awaitingResponse ? 'border-amber-500' : ''}`}
+          >
+            <div className="flex flex-wrap items-start justify-between gap-2">
+              {renderComment(comment)}
+              <div className="flex flex-wrap items-center gap-2">
+                {awaitingResponse && (
+                  <Badge variant="outline" className="border-amber-500 text-amber-700 dark:text-amber-300">
+                    Response required
+                  </Badge>
+                )}
+                {comment.resolvedAt && <Badge variant="secondary">Resolved</Badge>}
+                {canResolve && (
+                  <Button variant="ghost" size="sm" onClick={() => onSetResolved(comment.id, !comment.resolvedAt)}>
+                    {comment.resolvedAt ? (
+                      <>
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        Reopen
+                      </>
+                    ) : (
+                      <>
+                        <CheckCircle className="h-4 w-4 mr-2" />
+                        Resolve
+                      </>
+                    )}
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {replies.length > 0 && (
+              <div className="space-y-3 border-l-2 pl-4">
+                {replies.map(reply => (
+                  <div key={reply.id}>{renderComment(reply)}</div>
+                ))}
+              </div>
+            )}
+
+            {replyingTo === comment.id ? (
+              <div className="pl-4">
+                <CommentComposer
+                  placeholder="Write a reply..."
+                  candidates={candidates}
+                  onSubmit={async (body) => {
+                    const success = await onAdd({ body, parentId: comment.id });
+                    if (success) setReplyingTo(null);
+                    return success;
+                  }}
+                />
+              </div>
+            ) : !comment.resolvedAt && (
+              <Button variant="ghost" size="sm" onClick={() => setReplyingTo(comment.id)}>
+                <CornerDownRight className="h-4 w-4 mr-2" />
+                Reply
+              </Button>
+            )}
+          </div>
+        );
+      })}
+
+      {threads.length === 0 && !reportItemId && (
+        <p className="flex items-center gap-2 text-sm text-muted-foreground">
+          <MessageSquare className="h-4 w-4" />
+          No comments yet.
+        </p>
+      )}
+
+      <CommentComposer
+        placeholder={reportItemId ? "Ask about this journey..." : "Comment on this report..."}
+        candidates={candidates}
+        canRequestResponse={canRequestResponse}
+        onSubmit={(body, requiresResponse) => onAdd({ body, reportItemId, requiresResponse })}
+      />
+    </div>
+  );
+};
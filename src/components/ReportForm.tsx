@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -6,60 +6,320 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Trash2, Plus, Save, X } from "lucide-react";
-import { Report, ReportItem, REPORT_TYPES } from "@/types/report";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Trash2, Plus, Save, Send, X, Crosshair, Loader2, AlertTriangle, ArrowUp, ArrowDown, Repeat } from "lucide-react";
+import { AttachmentChanges, FormDraft, PendingAttachment, Report, ReportAttachment, ReportItem, ReportStatus } from "@/types/report";
+import { ReportOutcome } from "@/types/outcome";
 import { useToast } from "@/hooks/use-toast";
+import { usePayees } from "@/hooks/usePayees";
+import { useTransportModes } from "@/hooks/useTransportModes";
+import { useFarePolicies } from "@/hooks/useFarePolicies";
+import { useLocations } from "@/hooks/useLocations";
+import { useCustomers } from "@/hooks/useCustomers";
+import { useReportTypes } from "@/hooks/useReportTypes";
+import { compressImage } from "@/lib/imageCompression";
+import { formatCoordinates, getCurrentCheckIn } from "@/lib/geo";
+import { findTransportMode, formatFareCap } from "@/lib/transportModes";
+import { evaluateFarePolicies } from "@/lib/farePolicy";
+import { createEmptyOutcome, getOutcomeIssue } from "@/lib/outcomes";
+import { findReportType, getMissingRequiredFields } from "@/lib/reportTypes";
+import { NIGERIAN_BANKS, findBankByCode, findBankByName, validateAccountNumber } from "@/lib/banks";
+import { ItemAttachments } from "./ItemAttachments";
+import { LocationInput } from "./LocationInput";
+import { LoanPicker } from "./LoanPicker";
+import { OutcomeFields } from "./OutcomeFields";
+
+const CAPTURE_GPS_KEY = 'fieldflow.captureGps';
+const AUTOSAVE_DELAY_MS = 1000;
+// Select value for a free-text bank name saved before the bank list existed
+const UNLISTED_BANK = 'unlisted';
+
+// A new leg starts where the previous one ended
+const createEmptyItem = (origin = ""): ReportItem => ({
+  id: crypto.randomUUID(),
+  origin,
+  location: "",
+  transportation: "",
+  cost: 0,
+  isRoundTrip: false,
+});
+
+const hasItemContent = (item: ReportItem) =>
+  !!(item.origin?.trim() || item.location.trim() || item.transportation.trim() || item.cost > 0);
 
 interface ReportFormProps {
-  onSubmit: (report: Omit<Report, 'id' | 'createdAt'>) => void;
+  onSubmit: (report: Omit<Report, 'id' | 'createdAt'>, attachmentChanges: AttachmentChanges) => void;
   editingReport?: Report | null;
+  // Organization whose transport modes are offered and whose fare policies apply
+  organizationId?: string | null;
+  // The officer's other reports, counted towards daily fare caps
+  otherReports?: Report[];
+  // Autosaved contents to restore; takes precedence over editingReport
+  initialDraft?: FormDraft | null;
+  onAutosave?: (draft: FormDraft) => void;
   onCancelEdit?: () => void;
 }
 
-export const ReportForm = ({ onSubmit, editingReport, onCancelEdit }: ReportFormProps) => {
+// Initial values are read once; the parent remounts the form (via key) to switch reports
+export const ReportForm = ({
+  onSubmit,
+  editingReport,
+  organizationId,
+  otherReports = [],
+  initialDraft,
+  onAutosave,
+  onCancelEdit,
+}: ReportFormProps) => {
   const { toast } = useToast();
-  const [reportType, setReportType] = useState<string>("");
-  const [reportDate, setReportDate] = useState("");
-  const [description, setDescription] = useState("");
-  const [accountNumber, setAccountNumber] = useState("");
-  const [accountName, setAccountName] = useState("");
-  const [bankName, setBankName] = useState("");
-  const [items, setItems] = useState<ReportItem[]>([
-    { id: crypto.randomUUID(), location: "", transportation: "", cost: 0 }
-  ]);
+  const initial = initialDraft?.reportData ?? editingReport;
+  const [reportType, setReportType] = useState<string>(initial?.reportType ?? "");
+  const [reportDate, setReportDate] = useState(initial?.reportDate ?? "");
+  const [description, setDescription] = useState(initial?.description ?? "");
+  const [outcome, setOutcome] = useState<ReportOutcome | null>(
+    () => initial?.outcome ?? createEmptyOutcome(initial?.reportType ?? "")
+  );
+  const [accountNumber, setAccountNumber] = useState(initial?.accountNumber ?? "");
+  const [accountName, setAccountName] = useState(initial?.accountName ?? "");
+  const [bankName, setBankName] = useState(initial?.bankName ?? "");
+  const [bankCode, setBankCode] = useState(() => findBankByName(initial?.bankName ?? "")?.code ?? "");
+  const [rememberPayee, setRememberPayee] = useState(true);
+  const [items, setItems] = useState<ReportItem[]>(() =>
+    initial?.items.length ? initial.items : [createEmptyItem()]
+  );
+  // Object URLs don't survive a reload, so restored photos get fresh previews
+  const [pendingAttachments, setPendingAttachments] = useState<PendingAttachment[]>(() =>
+    (initialDraft?.attachmentChanges.added || []).map(pending => ({
+      ...pending,
+      previewUrl: URL.createObjectURL(pending.file),
+    }))
+  );
+  const [removedAttachments, setRemovedAttachments] = useState<ReportAttachment[]>(
+    initialDraft?.attachmentChanges.removed || []
+  );
+  const [captureGps, setCaptureGps] = useState(() => localStorage.getItem(CAPTURE_GPS_KEY) === 'true');
+  const [locatingItemId, setLocatingItemId] = useState<string | null>(null);
+  const [autosavedAt, setAutosavedAt] = useState<Date | null>(null);
+  const { payees, savePayee, deletePayee } = usePayees();
+  const { modes: transportModes } = useTransportModes(organizationId);
+  const { policies } = useFarePolicies(organizationId);
+  const { locations } = useLocations(organizationId);
+  const { customers } = useCustomers(organizationId);
+  const { reportTypes, resolvedTypes } = useReportTypes(organizationId);
+
+  const selectedBank = findBankByCode(bankCode);
+  const savedPayee = payees.find(p => p.bankCode === bankCode && p.accountNumber === accountNumber);
+  // Only flag the number once it is complete, so typing isn't interrupted
+  const accountNumberError = accountNumber.length === 10 ? validateAccountNumber(accountNumber, selectedBank) : null;
+  const violations = evaluateFarePolicies(items, {
+    reportType,
+    reportDate,
+    policies,
+    modes: transportModes,
+    otherReports,
+    reportTypes: resolvedTypes,
+  });
+  const selectedType = findReportType(resolvedTypes, reportType);
+  // A report keeps its type after an admin hides it, so still offer it when editing
+  const typeOptions = selectedType && !selectedType.isActive ? [...reportTypes, selectedType] : reportTypes;
+
+  const onAutosaveRef = useRef(onAutosave);
+  const pendingDraftRef = useRef<FormDraft | null>(null);
+  const autosaveTimerRef = useRef<number>();
+  const isFirstRenderRef = useRef(true);
+  onAutosaveRef.current = onAutosave;
+
+  // Persist the form shortly after the officer stops typing
+  useEffect(() => {
+    if (isFirstRenderRef.current) {
+      isFirstRenderRef.current = false;
+      return;
+    }
+
+    const filledItems = items.filter(hasItemContent);
+    const isEmpty = !reportType && !reportDate && !description.trim() && !accountNumber.trim()
+      && !accountName.trim() && !bankName.trim() && filledItems.length === 0 && pendingAttachments.length === 0;
+    if (isEmpty) return;
 
+    pendingDraftRef.current = {
+      reportData: {
+        reportType: reportType as Report['reportType'],
+        reportDate,
+        description,
+        outcome,
+        accountNumber,
+        accountName,
+        bankName,
+        items: filledItems,
+        totalCost: filledItems.reduce((sum, item) => sum + item.cost, 0),
+        status: editingReport?.status ?? 'draft',
+      },
+      attachmentChanges: { added: pendingAttachments, removed: removedAttachments },
+    };
+
+    window.clearTimeout(autosaveTimerRef.current);
+    autosaveTimerRef.current = window.setTimeout(() => {
+      if (!pendingDraftRef.current) return;
+      onAutosaveRef.current?.(pendingDraftRef.current);
+      pendingDraftRef.current = null;
+      setAutosavedAt(new Date());
+    }, AUTOSAVE_DELAY_MS);
+  }, [reportType, reportDate, description, outcome, accountNumber, accountName, bankName, items, pendingAttachments, removedAttachments, editingReport?.status]);
+
+  // Don't lose the last keystrokes when switching tabs or closing the page
+  useEffect(() => {
+    const flushAutosave = () => {
+      window.clearTimeout(autosaveTimerRef.current);
+      if (pendingDraftRef.current) onAutosaveRef.current?.(pendingDraftRef.current);
+      pendingDraftRef.current = null;
+    };
+
+    window.addEventListener('pagehide', flushAutosave);
+    return () => {
+      window.removeEventListener('pagehide', flushAutosave);
+      flushAutosave();
+    };
+  }, []);
+
+  const captureCheckIn = useCallback(async (itemId: string) => {
+    setLocatingItemId(itemId);
+    try {
+      const checkIn = await getCurrentCheckIn();
+      setItems(prev => prev.map(item => item.id === itemId ? { ...item, checkIn } : item));
+    } catch (error) {
+      console.error('Error capturing location:', error);
+      toast({
+        title: "Location Unavailable",
+        description: "Could not get your position. Check that location access is allowed.",
+        variant: "destructive"
+      });
+    } finally {
+      setLocatingItemId(null);
+    }
+  }, [toast]);
+
+  // Journeys not filled in yet are the ones being made now, e.g. a new report's first.
+  // They are checked in when the form opens with capture on, and when it is switched on.
+  const checkedInBlankItemsRef = useRef(false);
   useEffect(() => {
-    if (editingReport) {
-      setReportType(editingReport.reportType);
-      setReportDate(editingReport.reportDate);
-      setDescription(editingReport.description);
-      setAccountNumber(editingReport.accountNumber);
-      setAccountName(editingReport.accountName);
-      setBankName(editingReport.bankName);
-      setItems(editingReport.items);
+    if (!captureGps) {
+      checkedInBlankItemsRef.current = false;
+      return;
     }
-  }, [editingReport]);
+    if (checkedInBlankItemsRef.current) return;
+
+    checkedInBlankItemsRef.current = true;
+    items
+      .filter(item => !item.checkIn && !hasItemContent(item))
+      .forEach(item => captureCheckIn(item.id));
+  }, [captureGps, items, captureCheckIn]);
+
+  const selectPayee = (payeeId: string) => {
+    const payee = payees.find(p => p.id === payeeId);
+    if (!payee) return;
+    setAccountNumber(payee.accountNumber);
+    setAccountName(payee.accountName);
+    setBankCode(payee.bankCode);
+    setBankName(payee.bankName);
+  };
+
+  const selectBank = (code: string) => {
+    const bank = findBankByCode(code);
+    if (!bank) return;
+    setBankCode(bank.code);
+    setBankName(bank.name);
+  };
+
+  const handleCaptureGpsChange = (checked: boolean) => {
+    localStorage.setItem(CAPTURE_GPS_KEY, String(checked));
+    setCaptureGps(checked);
+  };
 
   const addItem = () => {
-    setItems([...items, { id: crypto.randomUUID(), location: "", transportation: "", cost: 0 }]);
+    const item = createEmptyItem(items[items.length - 1]?.location.trim() ?? "");
+    setItems([...items, item]);
+    if (captureGps) captureCheckIn(item.id);
+  };
+
+  const moveItem = (id: string, offset: -1 | 1) => {
+    const index = items.findIndex(item => item.id === id);
+    const target = index + offset;
+    if (index < 0 || target < 0 || target >= items.length) return;
+    const reordered = [...items];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setItems(reordered);
   };
 
   const removeItem = (id: string) => {
     if (items.length > 1) {
+      // Saved photos of a removed item are deleted from storage on save
+      const removedItem = items.find(item => item.id === id);
+      setRemovedAttachments(prev => [...prev, ...(removedItem?.attachments || [])]);
       setItems(items.filter(item => item.id !== id));
     }
   };
 
-  const updateItem = (id: string, field: keyof ReportItem, value: string | number) => {
+  const updateItem = <K extends keyof ReportItem>(id: string, field: K, value: ReportItem[K]) => {
     setItems(items.map(item => 
       item.id === id ? { ...item, [field]: value } : item
     ));
   };
 
+  const addAttachments = async (itemId: string, files: File[]) => {
+    try {
+      const compressed = await Promise.all(files.map(async (file) => {
+        const blob = await compressImage(file);
+        return {
+          id: crypto.randomUUID(),
+          itemId,
+          file: blob,
+          fileName: file.name,
+          previewUrl: URL.createObjectURL(blob),
+        };
+      }));
+      setPendingAttachments(prev => [...prev, ...compressed]);
+    } catch (error) {
+      console.error('Error processing photo:', error);
+      toast({
+        title: "Photo Not Added",
+        description: "That file could not be read as an image.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const removePendingAttachment = (pending: PendingAttachment) => {
+    URL.revokeObjectURL(pending.previewUrl);
+    setPendingAttachments(prev => prev.filter(p => p.id !== pending.id));
+  };
+
+  const removeSavedAttachment = (itemId: string, attachment: ReportAttachment) => {
+    setRemovedAttachments(prev => [...prev, attachment]);
+    setItems(items.map(item =>
+      item.id === itemId
+        ? { ...item, attachments: (item.attachments || []).filter(a => a.id !== attachment.id) }
+        : item
+    ));
+  };
+
+  const resetAttachments = () => {
+    pendingAttachments.forEach(p => URL.revokeObjectURL(p.previewUrl));
+    setPendingAttachments([]);
+    setRemovedAttachments([]);
+  };
+
+  // Findings differ by report type, so switching type starts a fresh outcome
+  const handleReportTypeChange = (value: string) => {
+    setReportType(value);
+    if (outcome?.type !== value) setOutcome(createEmptyOutcome(value));
+  };
+
   const totalCost = items.reduce((sum, item) => sum + item.cost, 0);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
+    const submitter = (e.nativeEvent as SubmitEvent).submitter as HTMLButtonElement | null;
+    const status: ReportStatus = submitter?.value === 'draft' ? 'draft' : 'submitted';
     
     if (!reportType || !reportDate || !accountNumber.trim() || !accountName.trim() || !bankName.trim()) {
       toast({
@@ -70,6 +330,16 @@ export const ReportForm = ({ onSubmit, editingReport, onCancelEdit }: ReportForm
       return;
     }
 
+    const accountError = validateAccountNumber(accountNumber.trim(), selectedBank);
+    if (accountError) {
+      toast({
+        title: "Check Account Number",
+        description: accountError,
+        variant: "destructive"
+      });
+      return;
+    }
+
     const validItems = items.filter(item => 
       item.location.trim() && item.transportation.trim() && item.cost > 0
     );
@@ -83,26 +353,66 @@ export const ReportForm = ({ onSubmit, editingReport, onCancelEdit }: ReportForm
       return;
     }
 
+    const outcomeIssue = getOutcomeIssue(outcome);
+    if (status === 'submitted' && outcomeIssue) {
+      toast({
+        title: "Visit Outcome Incomplete",
+        description: outcomeIssue,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const photoCounts = Object.fromEntries(validItems.map(item => [
+      item.id,
+      (item.attachments || []).length + pendingAttachments.filter(p => p.itemId === item.id).length,
+    ]));
+    const missingFields = getMissingRequiredFields(selectedType, { description, items: validItems }, photoCounts);
+    if (status === 'submitted' && missingFields.length > 0) {
+      toast({
+        title: "Missing Information",
+        description: `${selectedType?.label} reports need: ${missingFields.join(', ').toLowerCase()}.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const unjustified = validItems.filter(item => violations[item.id].length > 0 && !item.justification?.trim());
+    if (status === 'submitted' && unjustified.length > 0) {
+      toast({
+        title: "Justification Required",
+        description: `Explain why ${unjustified.length === 1 ? "the flagged journey is" : `${unjustified.length} flagged journeys are`} above fare policy before submitting.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    // The explicit save supersedes any autosave still waiting
+    window.clearTimeout(autosaveTimerRef.current);
+    pendingDraftRef.current = null;
+
     onSubmit({
-      reportType: reportType as any,
+      reportType: reportType as Report['reportType'],
       reportDate,
       description,
+      outcome,
       accountNumber,
       accountName,
       bankName,
-      items: validItems,
-      totalCost
-    });
-
-    // Reset form if not editing
-    if (!editingReport) {
-      setReportType("");
-      setReportDate("");
-      setDescription("");
-      setAccountNumber("");
-      setAccountName("");
-      setBankName("");
-      setItems([{ id: crypto.randomUUID(), location: "", transportation: "", cost: 0 }]);
+      // A justification only matters while the journey is over policy
+      items: validItems.map(item => violations[item.id].length > 0 ? item : { ...item, justification: null }),
+      totalCost,
+      status
+    }, { added: pendingAttachments, removed: removedAttachments });
+
+    // Keep the payee book current; saved payees move to the top of the picker
+    if (selectedBank && (savedPayee || rememberPayee)) {
+      savePayee({
+        accountNumber: accountNumber.trim(),
+        accountName: accountName.trim(),
+        bankCode: selectedBank.code,
+        bankName: selectedBank.name,
+      });
     }
   };
 
@@ -110,10 +420,16 @@ export const ReportForm = ({ onSubmit, editingReport, onCancelEdit }: ReportForm
     setReportType("");
     setReportDate("");
     setDescription("");
+    setOutcome(null);
     setAccountNumber("");
     setAccountName("");
     setBankName("");
-    setItems([{ id: crypto.randomUUID(), location: "", transportation: "", cost: 0 }]);
+    setBankCode("");
+    const item = createEmptyItem();
+    setItems([item]);
+    // Cancelling an edit remounts the form, which checks in on open
+    if (captureGps && !editingReport) captureCheckIn(item.id);
+    resetAttachments();
     onCancelEdit?.();
   };
 
@@ -125,17 +441,23 @@ export const ReportForm = ({ onSubmit, editingReport, onCancelEdit }: ReportForm
         </CardTitle>
       </CardHeader>
       <CardContent>
+        {editingReport?.status === 'rejected' && editingReport.reviewNote && (
+          <div className="mb-6 rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-sm">
+            <div className="font-semibold text-destructive">Returned by reviewer</div>
+            <p className="text-foreground">{editingReport.reviewNote}</p>
+          </div>
+        )}
         <form onSubmit={handleSubmit} className="space-y-6">
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
             <div className="space-y-2">
               <Label htmlFor="reportType">Report Type</Label>
-              <Select value={reportType} onValueChange={setReportType}>
+              <Select value={reportType} onValueChange={handleReportTypeChange}>
                 <SelectTrigger>
                   <SelectValue placeholder="Select report type" />
                 </SelectTrigger>
                 <SelectContent>
-                  {REPORT_TYPES.map((type) => (
-                    <SelectItem key={type.value} value={type.value}>
+                  {typeOptions.map((type) => (
+                    <SelectItem key={type.id} value={type.slug}>
                       {type.label}
                     </SelectItem>
                   ))}
@@ -156,7 +478,9 @@ export const ReportForm = ({ onSubmit, editingReport, onCancelEdit }: ReportForm
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="description">Description</Label>
+            <Label htmlFor="description">
+              Description{selectedType?.requiredFields.includes('description') ? " *" : ""}
+            </Label>
             <Textarea
               id="description"
               placeholder="Brief description of the field work activities..."
@@ -166,18 +490,60 @@ export const ReportForm = ({ onSubmit, editingReport, onCancelEdit }: ReportForm
             />
           </div>
 
+          {outcome && (
+            <div className="space-y-3 rounded-lg border p-4">
+              <Label className="text-lg font-semibold">Visit Outcome</Label>
+              <OutcomeFields outcome={outcome} onChange={setOutcome} />
+            </div>
+          )}
+
           <div className="space-y-4">
-            <Label className="text-lg font-semibold">Payment Details *</Label>
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+              <Label className="text-lg font-semibold">Payment Details *</Label>
+              {payees.length > 0 && (
+                <div className="flex items-center gap-2">
+                  <Select value={savedPayee?.id ?? ""} onValueChange={selectPayee}>
+                    <SelectTrigger className="w-full sm:w-72">
+                      <SelectValue placeholder="Use a saved payee" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {payees.map((payee) => (
+                        <SelectItem key={payee.id} value={payee.id}>
+                          {payee.accountName} · {payee.bankName} ••{payee.accountNumber.slice(-4)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {savedPayee && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deletePayee(savedPayee.id)}
+                      aria-label="Remove saved payee"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              )}
+            </div>
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
               <div className="space-y-2">
                 <Label htmlFor="accountNumber">Account Number</Label>
                 <Input
                   id="accountNumber"
-                  placeholder="e.g., 1234567890"
+                  placeholder="e.g., 0123456789"
+                  inputMode="numeric"
+                  maxLength={10}
                   value={accountNumber}
-                  onChange={(e) => setAccountNumber(e.target.value)}
+                  onChange={(e) => setAccountNumber(e.target.value.replace(/\D/g, ""))}
+                  aria-invalid={!!accountNumberError}
                   required
                 />
+                {accountNumberError && (
+                  <p className="text-xs text-destructive">{accountNumberError}</p>
+                )}
               </div>
               
               <div className="space-y-2">
@@ -193,36 +559,111 @@ export const ReportForm = ({ onSubmit, editingReport, onCancelEdit }: ReportForm
               
               <div className="space-y-2">
                 <Label htmlFor="bankName">Bank Name</Label>
-                <Input
-                  id="bankName"
-                  placeholder="e.g., First Bank Nigeria"
-                  value={bankName}
-                  onChange={(e) => setBankName(e.target.value)}
-                  required
-                />
+                <Select value={bankCode || (bankName ? UNLISTED_BANK : "")} onValueChange={selectBank}>
+                  <SelectTrigger id="bankName">
+                    <SelectValue placeholder="Select bank" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {!bankCode && bankName && (
+                      <SelectItem value={UNLISTED_BANK}>{bankName}</SelectItem>
+                    )}
+                    {NIGERIAN_BANKS.map((bank) => (
+                      <SelectItem key={bank.code} value={bank.code}>
+                        {bank.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
             </div>
+            {selectedBank && !savedPayee && (
+              <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Checkbox checked={rememberPayee} onCheckedChange={(checked) => setRememberPayee(checked === true)} />
+                Save these details to my payee book
+              </label>
+            )}
           </div>
 
           <div className="space-y-4">
             <div className="flex items-center justify-between">
               <Label className="text-lg font-semibold">Journey Records</Label>
-              <Button type="button" onClick={addItem} variant="outline" size="sm">
-                <Plus className="h-4 w-4 mr-2" />
-                Add Item
-              </Button>
+              <div className="flex items-center gap-3">
+                <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Switch checked={captureGps} onCheckedChange={handleCaptureGpsChange} />
+                  GPS check-in
+                </label>
+                <Button type="button" onClick={addItem} variant="outline" size="sm">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Item
+                </Button>
+              </div>
             </div>
 
             {items.map((item, index) => (
               <Card key={item.id} className="p-3 sm:p-4">
-                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 items-end">
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                  <span className="text-sm font-semibold">Leg {index + 1}</span>
+                  <div className="flex items-center gap-1">
+                    <label className="flex items-center gap-2 text-sm text-muted-foreground mr-2">
+                      <Switch
+                        checked={!!item.isRoundTrip}
+                        onCheckedChange={(checked) => updateItem(item.id, 'isRoundTrip', checked)}
+                      />
+                      <Repeat className="h-4 w-4" />
+                      Round trip
+                    </label>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => moveItem(item.id, -1)}
+                      disabled={index === 0}
+                      aria-label="Move leg up"
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => moveItem(item.id, 1)}
+                      disabled={index === items.length - 1}
+                      aria-label="Move leg down"
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="icon"
+                      onClick={() => removeItem(item.id)}
+                      disabled={items.length === 1}
+                      aria-label="Remove leg"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 items-start">
                   <div className="space-y-2">
-                    <Label htmlFor={`location-${item.id}`}>Location</Label>
-                    <Input
+                    <Label htmlFor={`origin-${item.id}`}>From</Label>
+                    <LocationInput
+                      id={`origin-${item.id}`}
+                      placeholder={index === 0 ? "e.g., Office" : "Previous stop"}
+                      value={item.origin ?? ""}
+                      locations={locations}
+                      onChange={(value) => updateItem(item.id, 'origin', value)}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor={`location-${item.id}`}>To</Label>
+                    <LocationInput
                       id={`location-${item.id}`}
                       placeholder="e.g., Ajah, Lekki Phase 1"
                       value={item.location}
-                      onChange={(e) => updateItem(item.id, 'location', e.target.value)}
+                      locations={locations}
+                      onChange={(value) => updateItem(item.id, 'location', value)}
                     />
                   </div>
                   
@@ -236,15 +677,25 @@ export const ReportForm = ({ onSubmit, editingReport, onCancelEdit }: ReportForm
                         <SelectValue placeholder="Select transport mode" />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="Bus">Bus</SelectItem>
-                        <SelectItem value="Keke">Keke</SelectItem>
-                        <SelectItem value="Bike">Bike</SelectItem>
+                        {item.transportation && !findTransportMode(transportModes, item.transportation) && (
+                          <SelectItem value={item.transportation}>{item.transportation}</SelectItem>
+                        )}
+                        {transportModes.map((mode) => (
+                          <SelectItem key={mode.id} value={mode.name}>
+                            {mode.name}
+                          </SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
+                    {(() => {
+                      const mode = findTransportMode(transportModes, item.transportation);
+                      const cap = mode && formatFareCap(mode);
+                      return cap ? <p className="text-xs text-muted-foreground">Fare cap: {cap}</p> : null;
+                    })()}
                   </div>
                   
                   <div className="space-y-2">
-                    <Label htmlFor={`cost-${item.id}`}>Cost (₦)</Label>
+                    <Label htmlFor={`cost-${item.id}`}>{item.isRoundTrip ? "Cost there & back (₦)" : "Cost (₦)"}</Label>
                     <Input
                       id={`cost-${item.id}`}
                       type="number"
@@ -255,16 +706,63 @@ export const ReportForm = ({ onSubmit, editingReport, onCancelEdit }: ReportForm
                       onChange={(e) => updateItem(item.id, 'cost', parseFloat(e.target.value) || 0)}
                     />
                   </div>
-                  
+                </div>
+                {violations[item.id].length > 0 && (
+                  <div className="mt-3 space-y-2 rounded-md border border-amber-500/50 bg-amber-500/10 p-3">
+                    {violations[item.id].map((violation) => (
+                      <p key={`${violation.kind}-${violation.policyId}`} className="flex items-start gap-2 text-xs text-amber-700 dark:text-amber-400">
+                        <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                        {violation.message}
+                      </p>
+                    ))}
+                    <Input
+                      placeholder="Why did this journey cost more than policy allows?"
+                      value={item.justification ?? ""}
+                      onChange={(e) => updateItem(item.id, 'justification', e.target.value)}
+                      aria-label="Justification"
+                    />
+                  </div>
+                )}
+                <div className="mt-3 flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
                   <Button
                     type="button"
-                    variant="outline"
-                    size="icon"
-                    onClick={() => removeItem(item.id)}
-                    disabled={items.length === 1}
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => captureCheckIn(item.id)}
+                    disabled={locatingItemId === item.id}
                   >
-                    <Trash2 className="h-4 w-4" />
+                    {locatingItemId === item.id
+                      ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      : <Crosshair className="h-4 w-4 mr-2" />}
+                    {item.checkIn ? "Re-check in" : "Check in here"}
                   </Button>
+                  {item.checkIn && (
+                    <span>
+                      {formatCoordinates(item.checkIn.coordinates)}
+                      {item.checkIn.accuracy !== null && ` ±${Math.round(item.checkIn.accuracy)}m`}
+                      {` at ${new Date(item.checkIn.capturedAt).toLocaleTimeString()}`}
+                    </span>
+                  )}
+                </div>
+                {customers.length > 0 && (
+                  <div className="mt-3 space-y-2">
+                    <Label htmlFor={`loans-${item.id}`}>Loans Visited For</Label>
+                    <LoanPicker
+                      id={`loans-${item.id}`}
+                      value={item.loans || []}
+                      customers={customers}
+                      onChange={(loans) => updateItem(item.id, 'loans', loans)}
+                    />
+                  </div>
+                )}
+                <div className="mt-3">
+                  <ItemAttachments
+                    attachments={item.attachments || []}
+                    pending={pendingAttachments.filter(p => p.itemId === item.id)}
+                    onAddFiles={(files) => addAttachments(item.id, files)}
+                    onRemoveAttachment={(attachment) => removeSavedAttachment(item.id, attachment)}
+                    onRemovePending={removePendingAttachment}
+                  />
                 </div>
               </Card>
             ))}
@@ -276,18 +774,27 @@ export const ReportForm = ({ onSubmit, editingReport, onCancelEdit }: ReportForm
               <Badge variant="secondary" className="text-lg px-4 py-1">
                 ₦{totalCost.toLocaleString()}
               </Badge>
+              {autosavedAt && (
+                <div className="text-xs text-muted-foreground mt-1">
+                  Autosaved at {autosavedAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </div>
+              )}
             </div>
             
-            <div className="flex gap-2">
+            <div className="flex flex-wrap justify-center gap-2">
               {editingReport && onCancelEdit && (
                 <Button type="button" variant="outline" size="lg" onClick={handleCancel}>
                   <X className="h-4 w-4 mr-2" />
                   Cancel
                 </Button>
               )}
-              <Button type="submit" size="lg">
+              <Button type="submit" name="status" value="draft" variant="outline" size="lg">
                 <Save className="h-4 w-4 mr-2" />
-                {editingReport ? "Update Report" : "Generate PDF Report"}
+                Save Draft
+              </Button>
+              <Button type="submit" name="status" value="submitted" size="lg">
+                <Send className="h-4 w-4 mr-2" />
+                {editingReport ? "Submit for Approval" : "Submit & Generate PDF"}
               </Button>
             </div>
           </div>
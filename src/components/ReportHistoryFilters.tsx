@@ -0,0 +1,134 @@
+import { FormEvent, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Search, X } from "lucide-react";
+import { ReportFilters, ReportStatus, REPORT_STATUSES } from "@/types/report";
+import { ReportTypeDefinition } from "@/types/reportType";
+import { useTransportModes } from "@/hooks/useTransportModes";
+import { EMPTY_REPORT_FILTERS, hasActiveFilters } from "@/lib/reportFilters";
+
+const ANY = 'any';
+
+interface ReportHistoryFiltersProps {
+  filters: ReportFilters;
+  reportTypes: ReportTypeDefinition[];
+  organizationId?: string | null;
+  onChange: (filters: ReportFilters) => void;
+}
+
+export const ReportHistoryFilters = ({ filters, reportTypes, organizationId, onChange }: ReportHistoryFiltersProps) => {
+  const { modes } = useTransportModes(organizationId);
+  // Typed fields only apply on submit, so each keystroke doesn't start a search
+  const [query, setQuery] = useState(filters.query);
+  const [minCost, setMinCost] = useState(filters.minCost?.toString() ?? "");
+  const [maxCost, setMaxCost] = useState(filters.maxCost?.toString() ?? "");
+
+  // Follow the URL when it changes underneath, e.g. on back navigation
+  useEffect(() => {
+    setQuery(filters.query);
+    setMinCost(filters.minCost?.toString() ?? "");
+    setMaxCost(filters.maxCost?.toString() ?? "");
+  }, [filters.query, filters.minCost, filters.maxCost]);
+
+  const toCost = (value: string) => (value.trim() === "" ? null : Math.max(0, Number(value)) || 0);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    onChange({ ...filters, query: query.trim(), minCost: toCost(minCost), maxCost: toCost(maxCost) });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <div className="flex gap-2">
+        <Input
+          placeholder="Search descriptions and places visited"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+        <Button type="submit" variant="outline">
+          <Search className="h-4 w-4 sm:mr-2" />
+          <span className="hidden sm:inline">Search</span>
+        </Button>
+        {hasActiveFilters(filters) && (
+          <Button type="button" variant="ghost" onClick={() => onChange(EMPTY_REPORT_FILTERS)}>
+            <X className="h-4 w-4 sm:mr-2" />
+            <span className="hidden sm:inline">Clear</span>
+          </Button>
+        )}
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-7 gap-2">
+        <Select
+          value={filters.reportType ?? ANY}
+          onValueChange={(value) => onChange({ ...filters, reportType: value === ANY ? null : value })}
+        >
+          <SelectTrigger aria-label="Report type">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any report type</SelectItem>
+            {reportTypes.map(type => (
+              <SelectItem key={type.id} value={type.slug}>{type.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={filters.status ?? ANY}
+          onValueChange={(value) => onChange({ ...filters, status: value === ANY ? null : value as ReportStatus })}
+        >
+          <SelectTrigger aria-label="Status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any status</SelectItem>
+            {REPORT_STATUSES.filter(status => status.value !== 'draft').map(status => (
+              <SelectItem key={status.value} value={status.value}>{status.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={filters.transportMode ?? ANY}
+          onValueChange={(value) => onChange({ ...filters, transportMode: value === ANY ? null : value })}
+        >
+          <SelectTrigger aria-label="Transport mode">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any mode</SelectItem>
+            {modes.map(mode => (
+              <SelectItem key={mode.id} value={mode.name}>{mode.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="date"
+          aria-label="From date"
+          value={filters.dateFrom ?? ""}
+          onChange={(e) => onChange({ ...filters, dateFrom: e.target.value || null })}
+        />
+        <Input
+          type="date"
+          aria-label="To date"
+          value={filters.dateTo ?? ""}
+          onChange={(e) => onChange({ ...filters, dateTo: e.target.value || null })}
+        />
+        <Input
+          type="number"
+          min="0"
+          placeholder="Min ₦"
+          value={minCost}
+          onChange={(e) => setMinCost(e.target.value)}
+          onBlur={handleSubmit}
+        />
+        <Input
+          type="number"
+          min="0"
+          placeholder="Max ₦"
+          value={maxCost}
+          onChange={(e) => setMaxCost(e.target.value)}
+          onBlur={handleSubmit}
+        />
+      </div>
+    </form>
+  );
+};
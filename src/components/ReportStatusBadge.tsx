@@ -0,0 +1,32 @@
+import { Badge } from "@/components/ui/badge";
+import { ReportStatus, REPORT_STATUSES } from "@/types/report";
+
+interface ReportStatusBadgeProps {
+  status: ReportStatus;
+  className?: string;
+}
+
+const getStatusColor = (status: ReportStatus) => {
+  switch (status) {
+    case 'submitted':
+      return 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-100';
+    case 'approved':
+      return 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900 dark:text-emerald-100';
+    case 'rejected':
+      return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100';
+    case 'paid':
+      return 'bg-violet-100 text-violet-800 dark:bg-violet-900 dark:text-violet-100';
+    default:
+      return 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-100';
+  }
+};
+
+export const ReportStatusBadge = ({ status, className = "" }: ReportStatusBadgeProps) => {
+  const label = REPORT_STATUSES.find(s => s.value === status)?.label ?? status;
+
+  return (
+    <Badge className={`${getStatusColor(status)} ${className}`}>
+      {label}
+    </Badge>
+  );
+};
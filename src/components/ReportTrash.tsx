@@ -0,0 +1,81 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { RotateCcw, Trash2 } from "lucide-react";
+import { TRASH_RETENTION_DAYS } from "@/types/report";
+import { ReportTypeDefinition } from "@/types/reportType";
+import { useTrash } from "@/hooks/useTrash";
+import { ReportTypeBadge } from "./ReportTypeBadge";
+
+interface ReportTrashProps {
+  reportTypes: ReportTypeDefinition[];
+  enabled?: boolean;
+}
+
+// Deleted reports waiting out the retention window; hidden while the trash is empty
+export const ReportTrash = ({ reportTypes, enabled = true }: ReportTrashProps) => {
+  const { trashedReports, restoreReport, purgeReport } = useTrash(enabled);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const handleAction = async (reportId: string, action: (reportId: string) => Promise<boolean>) => {
+    setBusyId(reportId);
+    await action(reportId);
+    setBusyId(null);
+  };
+
+  if (trashedReports.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Trash2 className="h-5 w-5" />
+          Trash
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Deleted reports are kept for {TRASH_RETENTION_DAYS} days before they are removed for good.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {trashedReports.map(report => (
+          <div key={report.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-lg border p-3">
+            <div className="space-y-1 min-w-0">
+              <div className="flex flex-wrap items-center gap-2">
+                <ReportTypeBadge reportType={report.reportType} reportTypes={reportTypes} />
+                <span className="text-sm">{new Date(report.reportDate).toLocaleDateString()}</span>
+                <span className="text-sm font-medium">₦{report.totalCost.toLocaleString()}</span>
+              </div>
+              {report.description && (
+                <p className="text-sm text-muted-foreground truncate">{report.description}</p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Deleted {new Date(report.deletedAt).toLocaleDateString()} · removed for good on{" "}
+                {new Date(report.purgeAt).toLocaleDateString()}
+              </p>
+            </div>
+            <div className="flex gap-2 shrink-0">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleAction(report.id, restoreReport)}
+                disabled={busyId !== null}
+              >
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Restore
+              </Button>
+              <Button
+                variant="destructive"
+                size="sm"
+                onClick={() => handleAction(report.id, purgeReport)}
+                disabled={busyId !== null}
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete Forever
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,24 @@
+import { Badge } from "@/components/ui/badge";
+import { ReportTypeDefinition } from "@/types/reportType";
+import { getReportTypeColor, getReportTypeLabel } from "@/lib/reportTypes";
+
+interface ReportTypeBadgeProps {
+  reportType: string;
+  reportTypes: ReportTypeDefinition[];
+  className?: string;
+}
+
+// Tinted with the type's colour so it reads in both light and dark themes
+export const ReportTypeBadge = ({ reportType, reportTypes, className = "" }: ReportTypeBadgeProps) => {
+  const color = getReportTypeColor(reportTypes, reportType);
+
+  return (
+    <Badge
+      variant="outline"
+      className={className}
+      style={{ backgroundColor: `${color}26`, borderColor: color, color }}
+    >
+      {getReportTypeLabel(reportTypes, reportType).toUpperCase()}
+    </Badge>
+  );
+};
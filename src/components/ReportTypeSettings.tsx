@@ -0,0 +1,143 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { EyeOff, Plus, Trash2 } from "lucide-react";
+import { RequiredReportField, REQUIRED_REPORT_FIELDS } from "@/types/reportType";
+import { useReportTypes } from "@/hooks/useReportTypes";
+import { DEFAULT_REPORT_TYPE_COLOR, toReportTypeSlug } from "@/lib/reportTypes";
+
+interface ReportTypeSettingsProps {
+  organizationId: string;
+  isAdmin: boolean;
+}
+
+export const ReportTypeSettings = ({ organizationId, isAdmin }: ReportTypeSettingsProps) => {
+  const { resolvedTypes, createReportType, updateReportType, deleteReportType } = useReportTypes(organizationId);
+  const [label, setLabel] = useState("");
+  const [color, setColor] = useState(DEFAULT_REPORT_TYPE_COLOR);
+  const [pdfTitle, setPdfTitle] = useState("");
+  const [requiredFields, setRequiredFields] = useState<RequiredReportField[]>([]);
+
+  const slug = toReportTypeSlug(label);
+
+  const toggleRequiredField = (field: RequiredReportField, checked: boolean) => {
+    setRequiredFields(prev => checked ? [...prev, field] : prev.filter(f => f !== field));
+  };
+
+  const handleCreate = async () => {
+    if (!slug) return;
+    const success = await createReportType(organizationId, {
+      slug,
+      label: label.trim(),
+      color,
+      pdfTitle: pdfTitle.trim() || null,
+      requiredFields,
+    });
+    if (success) {
+      setLabel("");
+      setPdfTitle("");
+      setRequiredFields([]);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Report Types</Label>
+      <div className="space-y-1">
+        {resolvedTypes.map(type => (
+          <div key={type.id} className="flex items-center justify-between gap-2 text-sm">
+            <div className="flex items-center gap-2 min-w-0">
+              <span className="h-3 w-3 rounded-full flex-shrink-0" style={{ backgroundColor: type.color }} />
+              <span className={type.isActive ? "" : "text-muted-foreground line-through"}>{type.label}</span>
+              {type.requiredFields.length > 0 && (
+                <span className="text-xs text-muted-foreground truncate">
+                  requires {type.requiredFields
+                    .map(field => REQUIRED_REPORT_FIELDS.find(f => f.value === field)?.label.toLowerCase())
+                    .join(', ')}
+                </span>
+              )}
+              {!type.organizationId && <Badge variant="outline">Default</Badge>}
+            </div>
+            {isAdmin && (type.organizationId ? (
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={type.isActive}
+                  onCheckedChange={(checked) => updateReportType(type.id, { isActive: checked })}
+                  aria-label={`Offer ${type.label} in the report form`}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => deleteReportType(type.id)}
+                  aria-label={`Delete ${type.label}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              // Defaults are shared, so hiding one stores a disabled copy for this organization
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => createReportType(organizationId, { ...type, isActive: false })}
+              >
+                <EyeOff className="h-4 w-4 mr-1" />
+                Hide
+              </Button>
+            ))}
+          </div>
+        ))}
+      </div>
+      {isAdmin && (
+        <div className="space-y-2 pt-2">
+          <div className="grid grid-cols-2 sm:grid-cols-6 gap-2">
+            <Input
+              className="col-span-2 sm:col-span-3"
+              placeholder="e.g., Collateral Inspection"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+            />
+            <Input
+              type="color"
+              value={color}
+              onChange={(e) => setColor(e.target.value)}
+              aria-label="Badge and chart colour"
+              className="p-1"
+            />
+            <Input
+              className="col-span-2 sm:col-span-2"
+              placeholder="PDF title (optional)"
+              value={pdfTitle}
+              onChange={(e) => setPdfTitle(e.target.value)}
+            />
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {REQUIRED_REPORT_FIELDS.map(field => (
+              <div key={field.value} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  id={`required-${field.value}`}
+                  checked={requiredFields.includes(field.value)}
+                  onCheckedChange={(checked) => toggleRequiredField(field.value, checked === true)}
+                />
+                <Label htmlFor={`required-${field.value}`} className="font-normal">Require {field.label.toLowerCase()}</Label>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Using the name of a default type replaces it for this organization.
+          </p>
+          <Button type="button" variant="outline" onClick={handleCreate} disabled={!slug} className="w-full">
+            <Plus className="h-4 w-4 mr-2" />
+            Report Type
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
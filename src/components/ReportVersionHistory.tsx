@@ -0,0 +1,110 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import { Report } from "@/types/report";
+import { ReportTypeDefinition } from "@/types/reportType";
+import { useReportVersions } from "@/hooks/useReportVersions";
+import { buildReportVersions } from "@/lib/reportVersions";
+
+interface ReportVersionHistoryProps {
+  report: Report;
+  reportTypes: ReportTypeDefinition[];
+  currentUserId?: string;
+  authorEmails?: Record<string, string>;
+  canRestore?: boolean;
+}
+
+const ACTION_LABELS = {
+  insert: 'Created',
+  update: 'Edited',
+  delete: 'Deleted',
+};
+
+export const ReportVersionHistory = ({
+  report,
+  reportTypes,
+  currentUserId,
+  authorEmails = {},
+  canRestore = false,
+}: ReportVersionHistoryProps) => {
+  const { entries, loading, restoreVersion } = useReportVersions(report.id, report.updatedAt);
+  const [restoringId, setRestoringId] = useState<number | null>(null);
+  const versions = useMemo(() => buildReportVersions(entries, reportTypes), [entries, reportTypes]);
+
+  const getActorName = (actorId: string | null) => {
+    if (!actorId) return 'System';
+    if (actorId === currentUserId) return 'You';
+    return authorEmails[actorId] ?? 'Team member';
+  };
+
+  const handleRestore = async (transactionId: number) => {
+    setRestoringId(transactionId);
+    await restoreVersion(transactionId);
+    setRestoringId(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <History className="h-5 w-5" />
+          History
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No changes have been recorded for this report.</p>
+        ) : (
+          <ol className="space-y-4">
+            {versions.map(version => (
+              <li key={version.transactionId} className="border-l-2 pl-4 space-y-2">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="font-medium">{ACTION_LABELS[version.action]}</span>
+                    <span className="text-muted-foreground">
+                      by {getActorName(version.actorId)} · {new Date(version.changedAt).toLocaleString()}
+                    </span>
+                    {version.isCurrent && <Badge variant="secondary">Current</Badge>}
+                  </div>
+                  {canRestore && !version.isCurrent && version.action !== 'delete' && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRestore(version.transactionId)}
+                      disabled={restoringId !== null}
+                    >
+                      {restoringId === version.transactionId
+                        ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        : <RotateCcw className="h-4 w-4 mr-2" />}
+                      Restore
+                    </Button>
+                  )}
+                </div>
+                {version.changes.length > 0 && (
+                  <dl className="space-y-1 text-sm">
+                    {version.changes.map((change, index) => (
+                      <div key={`${change.label}-${index}`} className="grid grid-cols-1 sm:grid-cols-[10rem_1fr] gap-x-3">
+                        <dt className="text-muted-foreground">{change.label}</dt>
+                        <dd className="break-words">
+                          <span className="line-through text-destructive/80">{change.before}</span>
+                          {' → '}
+                          <span className="text-green-700 dark:text-green-400">{change.after}</span>
+                        </dd>
+                      </div>
+                    ))}
+                  </dl>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,32 +1,97 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { ArrowLeft, Download, Edit, Calendar, MapPin } from "lucide-react";
-import { Report } from "@/types/report";
-import { generatePDF } from "./PDFReport";
+import { Textarea } from "@/components/ui/textarea";
+import { ArrowLeft, Edit, Calendar, MapPin, Send, Undo2, CheckCircle, XCircle, Banknote, Crosshair, AlertTriangle, Repeat, MessageSquare } from "lucide-react";
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { LiveUpdate, Report, ReportStatus, isReportEditable } from "@/types/report";
+import { ReportTypeDefinition } from "@/types/reportType";
+import { AppRole, FINANCE_ROLES, REVIEWER_ROLES } from "@/types/auth";
+import { MentionCandidate } from "@/types/comment";
+import { PDFPreviewDialog } from "./PDFPreviewDialog";
+import { ReportStatusBadge } from "./ReportStatusBadge";
+import { LiveUpdateIndicator } from "./LiveUpdateIndicator";
+import { ReportVersionHistory } from "./ReportVersionHistory";
+import { ReportComments } from "./ReportComments";
+import { ReportTypeBadge } from "./ReportTypeBadge";
+import { ItemAttachments } from "./ItemAttachments";
+import { useLocations } from "@/hooks/useLocations";
+import { useReportComments } from "@/hooks/useReportComments";
+import { CHECK_IN_MISMATCH_KM, formatCoordinates, haversineKm } from "@/lib/geo";
+import { resolveLocation } from "@/lib/gazetteer";
+import { countFlaggedItems } from "@/lib/farePolicy";
+import { getJourneyLegs } from "@/lib/legs";
+import { getOutcomeFacts } from "@/lib/outcomes";
 
 interface ReportViewerProps {
   report: Report;
+  reportTypes: ReportTypeDefinition[];
+  currentUserId?: string;
+  authorEmails?: Record<string, string>;
+  // Team members who can be @mentioned in comments
+  mentionCandidates?: MentionCandidate[];
+  // Set when someone else changed the report while it was open
+  liveUpdate?: LiveUpdate;
+  role?: AppRole;
   onBack: () => void;
   onEdit: (report: Report) => void;
+  onChangeStatus?: (reportId: string, status: ReportStatus, reviewNote?: string) => Promise<boolean>;
 }
 
-export const ReportViewer = ({ report, onBack, onEdit }: ReportViewerProps) => {
-  const handleDownload = async () => {
-    await generatePDF(report);
+export const ReportViewer = ({
+  report,
+  reportTypes,
+  currentUserId,
+  authorEmails,
+  mentionCandidates = [],
+  liveUpdate,
+  role = 'officer',
+  onBack,
+  onEdit,
+  onChangeStatus,
+}: ReportViewerProps) => {
+  const [reviewNote, setReviewNote] = useState("");
+  const [updatingStatus, setUpdatingStatus] = useState(false);
+  const [commentingItemId, setCommentingItemId] = useState<string | null>(null);
+  const { locations } = useLocations(report.organizationId);
+  const { threads, awaitingResponseCount, addComment, setThreadResolved } =
+    useReportComments(report.id, report.userId, mentionCandidates);
+
+  const isOwner = !report.userId || report.userId === currentUserId;
+  const canEdit = isOwner && isReportEditable(report);
+  const canWithdraw = isOwner && report.status === 'submitted';
+  const canReview = !isOwner && REVIEWER_ROLES.includes(role) && report.status === 'submitted';
+  const canMarkPaid = FINANCE_ROLES.includes(role) && report.status === 'approved';
+  const isReviewer = REVIEWER_ROLES.includes(role);
+  const itemIds = new Set(report.items.map(item => item.id));
+  const reportThreads = threads.filter(thread => !thread.comment.reportItemId || !itemIds.has(thread.comment.reportItemId));
+  const flaggedCount = countFlaggedItems(report.items);
+  const outcomeFacts = getOutcomeFacts(report.outcome);
+
+  // Distance between the check-in and the declared location's known coordinates
+  const getCheckInDistance = (item: Report['items'][number]) => {
+    if (!item.checkIn) return null;
+    const known = resolveLocation(item.location, locations);
+    return known?.coordinates ? haversineKm(item.checkIn.coordinates, known.coordinates) : null;
+  };
+
+  const handleStatusChange = async (status: ReportStatus, note?: string) => {
+    if (!onChangeStatus) return;
+    setUpdatingStatus(true);
+    const success = await onChangeStatus(report.id, status, note);
+    setUpdatingStatus(false);
+    if (success) setReviewNote("");
   };
 
-  const getReportTypeColor = (type: string) => {
-    switch (type) {
-      case 'verification':
-        return 'bg-blue-100 text-blue-800';
-      case 'recovery':
-        return 'bg-red-100 text-red-800';
-      case 'post-disbursement':
-        return 'bg-green-100 text-green-800';
-      default:
-        return 'bg-gray-100 text-gray-800';
-    }
+  const commentProps = {
+    currentUserId,
+    authorEmails,
+    candidates: mentionCandidates,
+    canRequestResponse: isReviewer && !isOwner,
+    canResolveAny: isReviewer,
+    onAdd: addComment,
+    onSetResolved: setThreadResolved,
   };
 
   return (
@@ -37,14 +102,11 @@ export const ReportViewer = ({ report, onBack, onEdit }: ReportViewerProps) => {
           Back to Reports
         </Button>
         <div className="flex gap-2">
-          <Button variant="outline" onClick={() => onEdit(report)}>
+          <Button variant="outline" onClick={() => onEdit(report)} disabled={!canEdit}>
             <Edit className="h-4 w-4 mr-2" />
             Edit Report
           </Button>
-          <Button onClick={handleDownload}>
-            <Download className="h-4 w-4 mr-2" />
-            Download PDF
-          </Button>
+          <PDFPreviewDialog report={report} reportTypes={reportTypes} officerName={authorEmails?.[report.userId]} />
         </div>
       </div>
 
@@ -54,9 +116,8 @@ export const ReportViewer = ({ report, onBack, onEdit }: ReportViewerProps) => {
             <div>
               <CardTitle className="text-xl sm:text-2xl font-bold mb-2">Field Report</CardTitle>
               <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4">
-                <Badge className={getReportTypeColor(report.reportType)}>
-                  {report.reportType.replace('-', ' ').toUpperCase()}
-                </Badge>
+                <ReportTypeBadge reportType={report.reportType} reportTypes={reportTypes} className="w-fit" />
+                <ReportStatusBadge status={report.status} className="w-fit" />
                 <div className="flex items-center gap-1 text-sm text-muted-foreground">
                   <Calendar className="h-4 w-4" />
                   {new Date(report.reportDate).toLocaleDateString()}
@@ -66,10 +127,44 @@ export const ReportViewer = ({ report, onBack, onEdit }: ReportViewerProps) => {
             <div className="text-left sm:text-right">
               <div className="text-sm text-muted-foreground">Total Cost</div>
               <div className="text-2xl font-bold">₦{report.totalCost.toLocaleString()}</div>
+              {liveUpdate && (
+                <LiveUpdateIndicator liveUpdate={liveUpdate} currentUserId={currentUserId} authorEmails={authorEmails} />
+              )}
             </div>
           </div>
         </CardHeader>
         <CardContent className="space-y-6">
+          {report.reviewNote && (report.status === 'rejected' || report.status === 'approved') && (
+            <div className={`rounded-lg border p-3 text-sm ${report.status === 'rejected' ? 'border-destructive/50 bg-destructive/10' : 'bg-muted/30'}`}>
+              <div className="font-semibold mb-1">Reviewer note</div>
+              <p className="text-muted-foreground">{report.reviewNote}</p>
+            </div>
+          )}
+
+          {awaitingResponseCount > 0 && (
+            <div className="flex items-start gap-2 rounded-lg border border-amber-500/50 bg-amber-500/10 p-3 text-sm">
+              <MessageSquare className="h-4 w-4 mt-0.5 flex-shrink-0 text-amber-600" />
+              <div>
+                <div className="font-semibold">
+                  {awaitingResponseCount} comment{awaitingResponseCount !== 1 ? 's' : ''} waiting for {isOwner ? 'your' : "the officer's"} response
+                </div>
+                <p className="text-muted-foreground">The report can't be approved until each one is answered or resolved.</p>
+              </div>
+            </div>
+          )}
+
+          {flaggedCount > 0 && (
+            <div className="flex items-start gap-2 rounded-lg border border-amber-500/50 bg-amber-500/10 p-3 text-sm">
+              <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0 text-amber-600" />
+              <div>
+                <div className="font-semibold">
+                  {flaggedCount} journey{flaggedCount !== 1 ? 's' : ''} above fare policy
+                </div>
+                <p className="text-muted-foreground">Flagged lines are highlighted below with the officer's justification.</p>
+              </div>
+            </div>
+          )}
+
           {report.description && (
             <div>
               <h3 className="font-semibold mb-2">Description</h3>
@@ -77,41 +172,209 @@ export const ReportViewer = ({ report, onBack, onEdit }: ReportViewerProps) => {
             </div>
           )}
 
+          {outcomeFacts.length > 0 && (
+            <div>
+              <h3 className="font-semibold mb-2">Visit Outcome</h3>
+              <dl className="grid grid-cols-1 sm:grid-cols-3 gap-x-4 gap-y-2 text-sm">
+                {outcomeFacts.map(fact => (
+                  <div key={fact.label}>
+                    <dt className="text-muted-foreground">{fact.label}</dt>
+                    <dd className="font-medium">{fact.value}</dd>
+                  </div>
+                ))}
+              </dl>
+            </div>
+          )}
+
           <div>
             <h3 className="font-semibold mb-4">Journey Records</h3>
             <div className="space-y-3">
-              {report.items.map((item, index) => (
-                <Card key={item.id} className="p-4">
-                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
-                    <div>
-                      <div className="text-sm text-muted-foreground mb-1">Location</div>
-                      <div className="flex items-center gap-2">
-                        <MapPin className="h-4 w-4 text-muted-foreground" />
-                        <span className="font-medium">{item.location}</span>
+              {getJourneyLegs(report.items).map(({ item, from, to }) => {
+                const distance = getCheckInDistance(item);
+                const isFarFromDeclared = distance !== null && distance > CHECK_IN_MISMATCH_KM;
+                const violations = item.policyViolations || [];
+                const itemThreads = threads.filter(thread => thread.comment.reportItemId === item.id);
+
+                return (
+                  <Card key={item.id} className={`p-4 ${isFarFromDeclared || violations.length > 0 ? 'border-amber-500' : ''}`}>
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                      <div>
+                        <div className="text-sm text-muted-foreground mb-1">Journey</div>
+                        <div className="flex items-center gap-2">
+                          <MapPin className="h-4 w-4 text-muted-foreground" />
+                          <span className="font-medium">{from ? `${from} → ${to}` : to}</span>
+                        </div>
+                        {item.isRoundTrip && (
+                          <Badge variant="secondary" className="mt-1 gap-1">
+                            <Repeat className="h-3 w-3" />
+                            Round trip
+                          </Badge>
+                        )}
+                        {(item.loans || []).length > 0 && (
+                          <div className="mt-2 flex flex-wrap gap-1 text-xs">
+                            {item.loans.map(loan => (
+                              <Link
+                                key={loan.id}
+                                to={`/customers/${loan.customerId}`}
+                                className="rounded border px-2 py-0.5 hover:bg-muted"
+                              >
+                                {loan.loanReference} · {loan.customerName}
+                              </Link>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                      <div>
+                        <div className="text-sm text-muted-foreground mb-1">Transportation</div>
+                        <span className="font-medium">{item.transportation}</span>
+                      </div>
+                      <div>
+                        <div className="text-sm text-muted-foreground mb-1">Cost</div>
+                        <span className="font-semibold">₦{item.cost.toLocaleString()}</span>
                       </div>
                     </div>
-                    <div>
-                      <div className="text-sm text-muted-foreground mb-1">Transportation</div>
-                      <span className="font-medium">{item.transportation}</span>
-                    </div>
-                    <div>
-                      <div className="text-sm text-muted-foreground mb-1">Cost</div>
-                      <span className="font-semibold">₦{item.cost.toLocaleString()}</span>
-                    </div>
-                  </div>
-                </Card>
-              ))}
+                    {violations.length > 0 && (
+                      <div className="mt-3 pt-3 border-t space-y-1 text-sm">
+                        {violations.map((violation) => (
+                          <div key={`${violation.kind}-${violation.policyId}`} className="flex items-start gap-2 text-amber-700 dark:text-amber-300">
+                            <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                            <span>{violation.message}</span>
+                          </div>
+                        ))}
+                        <div className="pl-6">
+                          <span className="text-muted-foreground">Justification: </span>
+                          {item.justification || <span className="italic text-muted-foreground">None given</span>}
+                        </div>
+                      </div>
+                    )}
+                    {item.checkIn && (
+                      <div className="mt-3 pt-3 border-t flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                        <Crosshair className="h-3 w-3" />
+                        <span>
+                          Checked in at {formatCoordinates(item.checkIn.coordinates)}
+                          {item.checkIn.accuracy !== null && ` ±${Math.round(item.checkIn.accuracy)}m`}
+                          {` on ${new Date(item.checkIn.capturedAt).toLocaleString()}`}
+                        </span>
+                        {isFarFromDeclared && (
+                          <Badge variant="outline" className="border-amber-500 text-amber-700 dark:text-amber-300">
+                            <AlertTriangle className="h-3 w-3 mr-1" />
+                            {distance.toFixed(1)} km from {item.location}
+                          </Badge>
+                        )}
+                      </div>
+                    )}
+                    {item.attachments && item.attachments.length > 0 && (
+                      <div className="mt-3 pt-3 border-t">
+                        <div className="text-sm text-muted-foreground mb-2">Receipts & Evidence</div>
+                        <ItemAttachments attachments={item.attachments} />
+                      </div>
+                    )}
+                    {itemThreads.length > 0 || commentingItemId === item.id ? (
+                      <div className="mt-3 pt-3 border-t">
+                        <ReportComments {...commentProps} threads={itemThreads} reportItemId={item.id} />
+                      </div>
+                    ) : (
+                      <Button variant="ghost" size="sm" className="mt-2" onClick={() => setCommentingItemId(item.id)}>
+                        <MessageSquare className="h-4 w-4 mr-2" />
+                        Comment on this journey
+                      </Button>
+                    )}
+                  </Card>
+                );
+              })}
             </div>
           </div>
 
+          {onChangeStatus && (canEdit || canWithdraw || canReview || canMarkPaid) && (
+            <div className="pt-4 border-t space-y-3">
+              <h3 className="font-semibold">Approval</h3>
+              {canReview && (
+                <Textarea
+                  placeholder="Note for the officer (required when rejecting)..."
+                  value={reviewNote}
+                  onChange={(e) => setReviewNote(e.target.value)}
+                  rows={2}
+                />
+              )}
+              <div className="flex flex-wrap gap-2">
+                {canEdit && (
+                  <Button onClick={() => handleStatusChange('submitted')} disabled={updatingStatus}>
+                    <Send className="h-4 w-4 mr-2" />
+                    Submit for Approval
+                  </Button>
+                )}
+                {canWithdraw && (
+                  <Button variant="outline" onClick={() => handleStatusChange('draft')} disabled={updatingStatus}>
+                    <Undo2 className="h-4 w-4 mr-2" />
+                    Withdraw Submission
+                  </Button>
+                )}
+                {canReview && (
+                  <>
+                    <Button
+                      onClick={() => handleStatusChange('approved', reviewNote.trim() || undefined)}
+                      disabled={updatingStatus || awaitingResponseCount > 0}
+                    >
+                      <CheckCircle className="h-4 w-4 mr-2" />
+                      Approve
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      onClick={() => handleStatusChange('rejected', reviewNote.trim())}
+                      disabled={updatingStatus || !reviewNote.trim()}
+                    >
+                      <XCircle className="h-4 w-4 mr-2" />
+                      Reject
+                    </Button>
+                  </>
+                )}
+                {canMarkPaid && (
+                  <Button onClick={() => handleStatusChange('paid')} disabled={updatingStatus}>
+                    <Banknote className="h-4 w-4 mr-2" />
+                    Mark as Paid
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+
           <div className="pt-4 border-t">
-            <div className="text-right">
+            <div className="text-right space-y-1">
               <div className="text-sm text-muted-foreground">Report created on</div>
               <div className="text-sm">{new Date(report.createdAt).toLocaleString()}</div>
+              {report.submittedAt && (
+                <div className="text-xs text-muted-foreground">Submitted {new Date(report.submittedAt).toLocaleString()}</div>
+              )}
+              {report.reviewedAt && (
+                <div className="text-xs text-muted-foreground">Reviewed {new Date(report.reviewedAt).toLocaleString()}</div>
+              )}
+              {report.paidAt && (
+                <div className="text-xs text-muted-foreground">Paid {new Date(report.paidAt).toLocaleString()}</div>
+              )}
             </div>
           </div>
         </CardContent>
       </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <MessageSquare className="h-5 w-5" />
+            Comments
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ReportComments {...commentProps} threads={reportThreads} />
+        </CardContent>
+      </Card>
+
+      <ReportVersionHistory
+        report={report}
+        reportTypes={reportTypes}
+        currentUserId={currentUserId}
+        authorEmails={authorEmails}
+        canRestore={REVIEWER_ROLES.includes(role) && !['approved', 'paid'].includes(report.status)}
+      />
     </div>
   );
 };
\ No newline at end of file
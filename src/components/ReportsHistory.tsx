@@ -1,36 +1,70 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Download, Calendar, MapPin, Eye, Edit, Trash2 } from "lucide-react";
-import { Report } from "@/types/report";
+import { Download, Calendar, MapPin, Eye, Edit, Trash2, AlertTriangle, Loader2, SearchX, MessageSquare, AtSign } from "lucide-react";
+import { LiveUpdate, Report, ReportFilters, isReportEditable } from "@/types/report";
+import { ReportTypeDefinition } from "@/types/reportType";
 import { generatePDF } from "./PDFReport";
+import { ReportStatusBadge } from "./ReportStatusBadge";
+import { ReportTypeBadge } from "./ReportTypeBadge";
+import { SyncStateBadge } from "./SyncStateBadge";
+import { ReportHistoryFilters } from "./ReportHistoryFilters";
+import { LiveUpdateIndicator } from "./LiveUpdateIndicator";
+import { countFlaggedItems } from "@/lib/farePolicy";
+import { hasActiveFilters } from "@/lib/reportFilters";
+import { useCommentSummaries } from "@/hooks/useCommentSummaries";
 
 interface ReportsHistoryProps {
   reports: Report[];
+  reportTypes: ReportTypeDefinition[];
+  currentUserId?: string;
+  authorEmails?: Record<string, string>;
+  // Changes made in other sessions since this page was opened
+  liveUpdates?: Record<string, LiveUpdate>;
   onViewReport: (report: Report) => void;
   onEditReport: (report: Report) => void;
   onDeleteReport: (reportId: string) => void;
+  onRetrySync?: (reportId: string) => void;
+  onDiscardLocalChanges?: (reportId: string) => void;
+  filters?: ReportFilters;
+  organizationId?: string | null;
+  onFiltersChange?: (filters: ReportFilters) => void;
+  loading?: boolean;
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  onLoadMore?: () => void;
 }
 
-export const ReportsHistory = ({ reports, onViewReport, onEditReport, onDeleteReport }: ReportsHistoryProps) => {
+export const ReportsHistory = ({
+  reports,
+  reportTypes,
+  currentUserId,
+  authorEmails = {},
+  liveUpdates = {},
+  onViewReport,
+  onEditReport,
+  onDeleteReport,
+  onRetrySync,
+  onDiscardLocalChanges,
+  filters,
+  organizationId,
+  onFiltersChange,
+  loading = false,
+  hasMore = false,
+  loadingMore = false,
+  onLoadMore,
+}: ReportsHistoryProps) => {
+  const isFiltered = !!filters && hasActiveFilters(filters);
+  const { summaries } = useCommentSummaries(reports.map(report => report.id));
+
   const handleDownload = async (report: Report) => {
-    await generatePDF(report);
+    await generatePDF(report, reportTypes, { officerName: authorEmails[report.userId] });
   };
 
-  const getReportTypeColor = (type: string) => {
-    switch (type) {
-      case 'verification':
-        return 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-100';
-      case 'recovery':
-        return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100';
-      case 'post-disbursement':
-        return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100';
-      default:
-        return 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-100';
-    }
-  };
+  const canModify = (report: Report) =>
+    isReportEditable(report) && (!report.userId || report.userId === currentUserId);
 
-  if (reports.length === 0) {
+  if (reports.length === 0 && !isFiltered && !loading) {
     return (
       <div className="w-full px-4 sm:px-6 lg:px-8">
         <Card className="w-full max-w-4xl mx-auto">
@@ -54,19 +88,68 @@ export const ReportsHistory = ({ reports, onViewReport, onEditReport, onDeleteRe
             Reports History
           </CardTitle>
           <p className="text-muted-foreground text-center sm:text-left">
-            {reports.length} report{reports.length !== 1 ? 's' : ''} found
+            {reports.length}{hasMore ? '+' : ''} report{reports.length !== 1 || hasMore ? 's' : ''} found
           </p>
+          {filters && onFiltersChange && (
+            <ReportHistoryFilters
+              filters={filters}
+              reportTypes={reportTypes}
+              organizationId={organizationId}
+              onChange={onFiltersChange}
+            />
+          )}
         </CardHeader>
         <CardContent className="space-y-4 sm:space-y-6">
-          {reports.map((report) => (
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : reports.length === 0 && (
+            <div className="flex flex-col items-center justify-center py-12 text-center">
+              <SearchX className="h-12 w-12 text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">No reports match these filters.</p>
+            </div>
+          )}
+          {!loading && reports.map((report) => (
             <Card key={report.id} className="p-4 sm:p-6 hover:shadow-md transition-shadow">
               <div className="space-y-4">
                 {/* Header Section */}
                 <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
                   <div className="flex flex-col xs:flex-row xs:items-center gap-2 xs:gap-3">
-                    <Badge className={`${getReportTypeColor(report.reportType)} text-xs font-medium px-3 py-1 w-fit`}>
-                      {report.reportType.replace('-', ' ').toUpperCase()}
-                    </Badge>
+                    <ReportTypeBadge
+                      reportType={report.reportType}
+                      reportTypes={reportTypes}
+                      className="text-xs font-medium px-3 py-1 w-fit"
+                    />
+                    <ReportStatusBadge status={report.status} className="text-xs font-medium px-3 py-1 w-fit" />
+                    {report.syncState && (
+                      <SyncStateBadge syncState={report.syncState} className="text-xs font-medium px-3 py-1 w-fit" />
+                    )}
+                    {countFlaggedItems(report.items) > 0 && (
+                      <Badge variant="outline" className="border-amber-500 text-amber-700 dark:text-amber-300 text-xs font-medium px-3 py-1 w-fit">
+                        <AlertTriangle className="h-3 w-3 mr-1" />
+                        {countFlaggedItems(report.items)} over policy
+                      </Badge>
+                    )}
+                    {summaries[report.id] && (
+                      <Badge
+                        variant="outline"
+                        className={`text-xs font-medium px-3 py-1 w-fit ${summaries[report.id].awaitingResponse > 0 ? 'border-amber-500 text-amber-700 dark:text-amber-300' : ''}`}
+                      >
+                        {summaries[report.id].mentionsMe ? (
+                          <AtSign className="h-3 w-3 mr-1" />
+                        ) : (
+                          <MessageSquare className="h-3 w-3 mr-1" />
+                        )}
+                        {summaries[report.id].openThreads} open comment{summaries[report.id].openThreads !== 1 ? 's' : ''}
+                        {summaries[report.id].awaitingResponse > 0 && ` · ${summaries[report.id].awaitingResponse} awaiting reply`}
+                      </Badge>
+                    )}
+                    {report.userId && report.userId !== currentUserId && (
+                      <span className="text-sm text-muted-foreground">
+                        by {authorEmails[report.userId] ?? 'team member'}
+                      </span>
+                    )}
                     <div className="flex items-center gap-1.5 text-sm text-muted-foreground">
                       <Calendar className="h-4 w-4 flex-shrink-0" />
                       <span className="font-medium">
@@ -86,6 +169,13 @@ export const ReportsHistory = ({ reports, onViewReport, onEditReport, onDeleteRe
                     <div className="font-bold text-lg sm:text-xl text-primary">
                       ₦{report.totalCost.toLocaleString()}
                     </div>
+                    {liveUpdates[report.id] && (
+                      <LiveUpdateIndicator
+                        liveUpdate={liveUpdates[report.id]}
+                        currentUserId={currentUserId}
+                        authorEmails={authorEmails}
+                      />
+                    )}
                   </div>
                 </div>
 
@@ -119,6 +209,25 @@ export const ReportsHistory = ({ reports, onViewReport, onEditReport, onDeleteRe
                   </div>
                 </div>
 
+                {/* Sync Issues */}
+                {(report.syncState === 'conflict' || report.syncState === 'failed') && (
+                  <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 rounded-lg border border-orange-200 bg-orange-50 p-3 dark:border-orange-900 dark:bg-orange-950">
+                    <p className="text-sm text-orange-900 dark:text-orange-100">
+                      {report.syncState === 'conflict'
+                        ? 'This report was changed on the server while your edits were waiting to sync.'
+                        : 'Your offline changes could not be saved to the server.'}
+                    </p>
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => onRetrySync?.(report.id)}>
+                        {report.syncState === 'conflict' ? 'Keep Mine' : 'Retry'}
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => onDiscardLocalChanges?.(report.id)}>
+                        {report.syncState === 'conflict' ? 'Use Server Copy' : 'Discard'}
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
                 {/* Actions Section */}
                 <div className="pt-3 border-t border-muted">
                   <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 sm:gap-3">
@@ -136,6 +245,7 @@ export const ReportsHistory = ({ reports, onViewReport, onEditReport, onDeleteRe
                       variant="outline"
                       size="sm"
                       onClick={() => onEditReport(report)}
+                      disabled={!canModify(report)}
                       className="flex items-center justify-center gap-2 h-9"
                     >
                       <Edit className="h-4 w-4" />
@@ -156,6 +266,7 @@ export const ReportsHistory = ({ reports, onViewReport, onEditReport, onDeleteRe
                       variant="outline"
                       size="sm"
                       onClick={() => onDeleteReport(report.id)}
+                      disabled={!canModify(report)}
                       className="flex items-center justify-center gap-2 h-9 text-destructive hover:text-destructive hover:bg-destructive/10"
                     >
                       <Trash2 className="h-4 w-4" />
@@ -166,6 +277,12 @@ export const ReportsHistory = ({ reports, onViewReport, onEditReport, onDeleteRe
               </div>
             </Card>
           ))}
+          {hasMore && !loading && (
+            <Button variant="outline" onClick={onLoadMore} disabled={loadingMore} className="w-full">
+              {loadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Load More
+            </Button>
+          )}
         </CardContent>
       </Card>
     </div>
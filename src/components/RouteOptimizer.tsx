@@ -4,6 +4,8 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { 
   MapPin, 
   Route, 
@@ -12,23 +14,57 @@ import {
   Navigation,
   Target,
   ArrowRight,
-  Zap,
+  Ruler,
+  Home,
   TrendingUp
 } from "lucide-react";
 import { useAIAnalysis } from "@/hooks/useAIAnalysis";
+import { useLocations } from "@/hooks/useLocations";
+import { useTransportModes } from "@/hooks/useTransportModes";
 import { Report } from "@/types/report";
 import { useToast } from "@/hooks/use-toast";
+import { LocationInput } from "./LocationInput";
+import { CoverageMap } from "./CoverageMap";
+import { LegEstimate, RouteObjective, SolvedRoute, START_POINT_KEY, buildFareHistory, formatDuration, planRoute } from "@/lib/routeSolver";
 
 interface RouteOptimizerProps {
   reports: Report[];
+  organizationId?: string | null;
 }
 
-export const RouteOptimizer = ({ reports }: RouteOptimizerProps) => {
+// Select value for planning with whichever mode was used before
+const ANY_MODE = 'any';
+
+const describeLegCost = (leg: LegEstimate) => {
+  switch (leg.costSource) {
+    case 'history': return `avg of ${leg.sampleSize} past trip${leg.sampleSize !== 1 ? 's' : ''}`;
+    case 'distance': return 'estimated from fare per km';
+    case 'average': return 'typical fare, no trips on this leg yet';
+    default: return 'no fare history';
+  }
+};
+
+export const RouteOptimizer = ({ reports, organizationId }: RouteOptimizerProps) => {
   const [selectedLocations, setSelectedLocations] = useState<string[]>([]);
-  const [optimizationType, setOptimizationType] = useState<'cost' | 'time' | 'efficiency'>('cost');
+  const [optimizationType, setOptimizationType] = useState<RouteObjective>('cost');
+  const [startPoint, setStartPoint] = useState(() => localStorage.getItem(START_POINT_KEY) || "");
+  const [modeId, setModeId] = useState(ANY_MODE);
+  const [returnToStart, setReturnToStart] = useState(true);
+  const [optimizedRoute, setOptimizedRoute] = useState<SolvedRoute | null>(null);
   const { toast } = useToast();
   
-  const { routeAnalysis, transportPatterns, aiInsights } = useAIAnalysis(reports);
+  const { routeAnalysis, transportPatterns } = useAIAnalysis(reports);
+  const { locations } = useLocations(organizationId);
+  const { modes } = useTransportModes(organizationId);
+
+  const fareHistory = useMemo(() => buildFareHistory(reports, locations), [reports, locations]);
+
+  // Stops to draw on the map, closing the loop when the route returns to the start
+  const plannedStops = useMemo(() => {
+    if (!optimizedRoute) return [];
+    const returns = optimizedRoute.legs.length === optimizedRoute.stops.length;
+    return returns ? [...optimizedRoute.stops, optimizedRoute.stops[0]] : optimizedRoute.stops;
+  }, [optimizedRoute]);
 
   // Get unique locations from all reports
   const allLocations = useMemo(() => {
@@ -36,61 +72,25 @@ export const RouteOptimizer = ({ reports }: RouteOptimizerProps) => {
     reports.forEach(report => {
       report.items.forEach(item => {
         locations.add(item.location);
+        if (item.origin?.trim()) locations.add(item.origin.trim());
       });
     });
     return Array.from(locations).sort();
   }, [reports]);
 
-  // Calculate optimal route based on selected locations and optimization type
-  const optimizedRoute = useMemo(() => {
-    if (selectedLocations.length === 0) return null;
-
-    const selectedPatterns = transportPatterns.filter(p => 
-      selectedLocations.includes(p.location)
-    );
-
-    if (selectedPatterns.length === 0) return null;
-
-    // Sort by optimization criteria
-    let sortedPatterns = [...selectedPatterns];
-    switch (optimizationType) {
-      case 'cost':
-        sortedPatterns.sort((a, b) => a.averageCost - b.averageCost);
-        break;
-      case 'time':
-        // Assume time is inversely proportional to visit count (more visits = more familiar = faster)
-        sortedPatterns.sort((a, b) => b.visitCount - a.visitCount);
-        break;
-      case 'efficiency':
-        // Combine cost and visit frequency for efficiency
-        sortedPatterns.sort((a, b) => {
-          const aEfficiency = a.visitCount / a.averageCost;
-          const bEfficiency = b.visitCount / b.averageCost;
-          return bEfficiency - aEfficiency;
-        });
-        break;
-    }
-
-    const route = sortedPatterns.map(p => p.location);
-    const totalCost = sortedPatterns.reduce((sum, p) => sum + p.averageCost, 0);
-    const estimatedTime = `${route.length * 2} hours`; // Rough estimate
-    const efficiency = sortedPatterns.reduce((sum, p) => sum + (p.visitCount / p.averageCost), 0);
-
-    return {
-      route,
-      totalCost,
-      estimatedTime,
-      efficiency,
-      optimizationType
-    };
-  }, [selectedLocations, optimizationType, transportPatterns]);
-
   const handleLocationToggle = (location: string) => {
     setSelectedLocations(prev => 
       prev.includes(location) 
         ? prev.filter(l => l !== location)
         : [...prev, location]
     );
+    setOptimizedRoute(null);
+  };
+
+  const handleStartPointChange = (value: string) => {
+    setStartPoint(value);
+    localStorage.setItem(START_POINT_KEY, value.trim());
+    setOptimizedRoute(null);
   };
 
   const handleOptimizeRoute = () => {
@@ -103,17 +103,35 @@ export const RouteOptimizer = ({ reports }: RouteOptimizerProps) => {
       return;
     }
 
+    if (!startPoint.trim()) {
+      toast({
+        title: "Start Point Required",
+        description: "Enter the office or place the route starts from.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const route = planRoute(fareHistory, {
+      start: startPoint.trim(),
+      stops: selectedLocations,
+      objective: optimizationType,
+      mode: modes.find(mode => mode.id === modeId) ?? null,
+      returnToStart,
+    });
+    setOptimizedRoute(route);
+
     toast({
       title: "Route Optimized",
-      description: `Optimized route for ${selectedLocations.length} locations using ${optimizationType} criteria.`,
+      description: `Ordered ${route.stops.length - 1} visits by ${optimizationType}, starting from ${route.stops[0]}.`,
     });
   };
 
-  const getOptimizationIcon = (type: string) => {
+  const getOptimizationIcon = (type: RouteObjective) => {
     switch (type) {
       case 'cost': return <DollarSign className="h-4 w-4" />;
       case 'time': return <Clock className="h-4 w-4" />;
-      case 'efficiency': return <Zap className="h-4 w-4" />;
+      case 'distance': return <Ruler className="h-4 w-4" />;
       default: return <Route className="h-4 w-4" />;
     }
   };
@@ -129,20 +147,66 @@ export const RouteOptimizer = ({ reports }: RouteOptimizerProps) => {
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="route-start">Start Point</Label>
+              <LocationInput
+                id="route-start"
+                placeholder="Branch office, e.g., Ikeja"
+                value={startPoint}
+                locations={locations}
+                onChange={handleStartPointChange}
+              />
+            </div>
+
             <div>
               <Label htmlFor="optimization-type">Optimization Criteria</Label>
               <select
                 id="optimization-type"
                 value={optimizationType}
-                onChange={(e) => setOptimizationType(e.target.value as any)}
+                onChange={(e) => {
+                  setOptimizationType(e.target.value as RouteObjective);
+                  setOptimizedRoute(null);
+                }}
                 className="w-full mt-1 p-2 border rounded-md"
               >
-                <option value="cost">Cost Optimization</option>
-                <option value="time">Time Optimization</option>
-                <option value="efficiency">Efficiency Optimization</option>
+                <option value="cost">Lowest fare</option>
+                <option value="time">Shortest travel time</option>
+                <option value="distance">Shortest distance</option>
               </select>
             </div>
 
+            <div className="space-y-1">
+              <Label>Transport Mode</Label>
+              <Select
+                value={modeId}
+                onValueChange={(value) => {
+                  setModeId(value);
+                  setOptimizedRoute(null);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_MODE}>Any mode on record</SelectItem>
+                  {modes.map(mode => (
+                    <SelectItem key={mode.id} value={mode.id}>{mode.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm">
+              <Switch
+                checked={returnToStart}
+                onCheckedChange={(checked) => {
+                  setReturnToStart(checked);
+                  setOptimizedRoute(null);
+                }}
+              />
+              Return to start point
+            </label>
+
             <div className="md:col-span-2">
               <Label>Selected Locations ({selectedLocations.length})</Label>
               <div className="mt-1 flex flex-wrap gap-2">
@@ -236,46 +300,62 @@ export const RouteOptimizer = ({ reports }: RouteOptimizerProps) => {
           <CardContent className="space-y-4">
             <div className="flex items-center gap-2 text-sm text-muted-foreground">
               <Badge variant="outline">{optimizationType} optimization</Badge>
-              <span>• {optimizedRoute.route.length} locations</span>
+              <span>• {optimizedRoute.stops.length - 1} visits</span>
             </div>
 
             <div className="space-y-3">
-              {optimizedRoute.route.map((location, index) => (
-                <div key={location} className="flex items-center gap-3">
-                  <div className="w-6 h-6 bg-primary text-white rounded-full flex items-center justify-center text-xs font-semibold">
-                    {index + 1}
-                  </div>
-                  <div className="flex-1">
-                    <div className="font-medium">{location}</div>
-                    {index < optimizedRoute.route.length - 1 && (
-                      <div className="text-xs text-muted-foreground mt-1">
-                        <ArrowRight className="h-3 w-3 inline mr-1" />
-                        Next: {optimizedRoute.route[index + 1]}
-                      </div>
-                    )}
+              {optimizedRoute.stops.map((location, index) => {
+                const leg = optimizedRoute.legs[index];
+                return (
+                  <div key={location} className="flex items-start gap-3">
+                    <div className="w-6 h-6 bg-primary text-white rounded-full flex items-center justify-center text-xs font-semibold">
+                      {index === 0 ? <Home className="h-3 w-3" /> : index}
+                    </div>
+                    <div className="flex-1">
+                      <div className="font-medium">{location}</div>
+                      {leg && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          <ArrowRight className="h-3 w-3 inline mr-1" />
+                          {leg.to} · ₦{leg.cost.toFixed(0)} ({describeLegCost(leg)})
+                          {leg.distanceKm !== null && ` · ${leg.distanceKm.toFixed(1)} km · ${formatDuration(leg.minutes)}`}
+                        </div>
+                      )}
+                    </div>
                   </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4 pt-4 border-t">
               <div className="text-center">
                 <div className="text-2xl font-bold">₦{optimizedRoute.totalCost.toFixed(0)}</div>
-                <div className="text-sm text-muted-foreground">Estimated Cost</div>
+                <div className="text-sm text-muted-foreground">Estimated Fare</div>
               </div>
               <div className="text-center">
-                <div className="text-2xl font-bold">{optimizedRoute.estimatedTime}</div>
-                <div className="text-sm text-muted-foreground">Estimated Time</div>
+                <div className="text-2xl font-bold">{formatDuration(optimizedRoute.totalMinutes)}</div>
+                <div className="text-sm text-muted-foreground">Travel Time</div>
               </div>
               <div className="text-center">
-                <div className="text-2xl font-bold">{optimizedRoute.efficiency.toFixed(1)}</div>
-                <div className="text-sm text-muted-foreground">Efficiency Score</div>
+                <div className="text-2xl font-bold">{optimizedRoute.totalDistanceKm.toFixed(1)} km</div>
+                <div className="text-sm text-muted-foreground">Distance</div>
               </div>
             </div>
+            {optimizedRoute.unmeasuredLegs > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {optimizedRoute.unmeasuredLegs} leg{optimizedRoute.unmeasuredLegs !== 1 ? 's' : ''} left out of time and distance:
+                add coordinates for these places in the locations gazetteer.
+              </p>
+            )}
           </CardContent>
         </Card>
       )}
 
+      <CoverageMap
+        reports={reports}
+        locations={locations}
+        route={plannedStops}
+      />
+
       {/* Route Analysis Insights */}
       <Card>
         <CardHeader>
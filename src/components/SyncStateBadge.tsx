@@ -0,0 +1,28 @@
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, CloudOff } from "lucide-react";
+import { SyncState } from "@/types/report";
+
+interface SyncStateBadgeProps {
+  syncState: SyncState;
+  className?: string;
+}
+
+const SYNC_STATE_LABELS: Record<SyncState, string> = {
+  pending: 'Waiting to sync',
+  conflict: 'Sync conflict',
+  failed: 'Sync failed',
+};
+
+export const SyncStateBadge = ({ syncState, className = "" }: SyncStateBadgeProps) => {
+  const color = syncState === 'pending'
+    ? 'bg-sky-100 text-sky-800 dark:bg-sky-900 dark:text-sky-100'
+    : 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-100';
+  const Icon = syncState === 'pending' ? CloudOff : AlertTriangle;
+
+  return (
+    <Badge className={`${color} gap-1 ${className}`}>
+      <Icon className="h-3 w-3" />
+      {SYNC_STATE_LABELS[syncState]}
+    </Badge>
+  );
+};
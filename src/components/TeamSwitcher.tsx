@@ -0,0 +1,42 @@
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Organization, Team } from "@/types/organization";
+
+const PERSONAL_VALUE = "personal";
+
+interface TeamSwitcherProps {
+  organizations: Organization[];
+  teams: Team[];
+  activeTeamId: string | null;
+  onChange: (teamId: string | null) => void;
+}
+
+export const TeamSwitcher = ({ organizations, teams, activeTeamId, onChange }: TeamSwitcherProps) => {
+  return (
+    <Select
+      value={activeTeamId ?? PERSONAL_VALUE}
+      onValueChange={(value) => onChange(value === PERSONAL_VALUE ? null : value)}
+    >
+      <SelectTrigger className="w-[200px]">
+        <SelectValue placeholder="Select team" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={PERSONAL_VALUE}>My Reports</SelectItem>
+        {organizations.map((organization) => {
+          const organizationTeams = teams.filter(team => team.organizationId === organization.id);
+          if (organizationTeams.length === 0) return null;
+
+          return (
+            <SelectGroup key={organization.id}>
+              <SelectLabel>{organization.name}</SelectLabel>
+              {organizationTeams.map((team) => (
+                <SelectItem key={team.id} value={team.id}>
+                  {team.name}
+                </SelectItem>
+              ))}
+            </SelectGroup>
+          );
+        })}
+      </SelectContent>
+    </Select>
+  );
+};
@@ -0,0 +1,37 @@
+import { Bike, Bus, Car, CarFront, CarTaxiFront, Footprints, Ship, Train, Truck, LucideProps } from "lucide-react";
+import { TransportIcon, TransportMode } from "@/types/transport";
+import { findTransportMode } from "@/lib/transportModes";
+
+const ICONS: Record<TransportIcon, React.ComponentType<LucideProps>> = {
+  bus: Bus,
+  taxi: CarTaxiFront,
+  bike: Bike,
+  car: Car,
+  ride: CarFront,
+  ferry: Ship,
+  train: Train,
+  truck: Truck,
+  walk: Footprints,
+};
+
+// Guess from the name for journeys logged under modes that no longer exist
+const guessIcon = (name: string): TransportIcon => {
+  const lower = name.toLowerCase();
+  if (lower.includes('train')) return 'train';
+  if (lower.includes('bus')) return 'bus';
+  if (lower.includes('bike') || lower.includes('okada')) return 'bike';
+  if (lower.includes('keke') || lower.includes('taxi')) return 'taxi';
+  if (lower.includes('ferry') || lower.includes('boat')) return 'ferry';
+  return 'car';
+};
+
+interface TransportModeIconProps {
+  name: string;
+  modes: TransportMode[];
+  className?: string;
+}
+
+export const TransportModeIcon = ({ name, modes, className = "h-4 w-4" }: TransportModeIconProps) => {
+  const Icon = ICONS[findTransportMode(modes, name)?.icon ?? guessIcon(name)] ?? Car;
+  return <Icon className={className} />;
+};
@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { EyeOff, Plus, Trash2 } from "lucide-react";
+import { TransportIcon, TRANSPORT_ICONS } from "@/types/transport";
+import { useTransportModes } from "@/hooks/useTransportModes";
+import { DEFAULT_TRANSPORT_COLOR, formatFareCap, resolveTransportModes } from "@/lib/transportModes";
+import { TransportModeIcon } from "./TransportModeIcon";
+
+interface TransportModeSettingsProps {
+  organizationId: string;
+  isAdmin: boolean;
+}
+
+const parseCap = (value: string) => {
+  const amount = parseFloat(value);
+  return amount > 0 ? amount : null;
+};
+
+export const TransportModeSettings = ({ organizationId, isAdmin }: TransportModeSettingsProps) => {
+  const { allModes, createMode, updateMode, deleteMode } = useTransportModes(organizationId);
+  const [name, setName] = useState("");
+  const [icon, setIcon] = useState<TransportIcon>("car");
+  const [color, setColor] = useState(DEFAULT_TRANSPORT_COLOR);
+  const [fareCapFlat, setFareCapFlat] = useState("");
+  const [fareCapPerKm, setFareCapPerKm] = useState("");
+
+  // Include disabled modes so admins can switch them back on
+  const modes = resolveTransportModes(allModes, organizationId);
+
+  const handleCreate = async () => {
+    if (!name.trim()) return;
+    const success = await createMode(organizationId, {
+      name: name.trim(),
+      icon,
+      color,
+      fareCapFlat: parseCap(fareCapFlat),
+      fareCapPerKm: parseCap(fareCapPerKm),
+    });
+    if (success) {
+      setName("");
+      setFareCapFlat("");
+      setFareCapPerKm("");
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Transport Modes</Label>
+      <div className="space-y-1">
+        {modes.map(mode => (
+          <div key={mode.id} className="flex items-center justify-between gap-2 text-sm">
+            <div className="flex items-center gap-2 min-w-0">
+              <span className="h-3 w-3 rounded-full flex-shrink-0" style={{ backgroundColor: mode.color }} />
+              <TransportModeIcon name={mode.name} modes={modes} />
+              <span className={mode.isActive ? "" : "text-muted-foreground line-through"}>{mode.name}</span>
+              {formatFareCap(mode) && (
+                <span className="text-xs text-muted-foreground truncate">{formatFareCap(mode)}</span>
+              )}
+              {!mode.organizationId && <Badge variant="outline">Default</Badge>}
+            </div>
+            {isAdmin && (mode.organizationId ? (
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={mode.isActive}
+                  onCheckedChange={(checked) => updateMode(mode.id, { isActive: checked })}
+                  aria-label={`Offer ${mode.name} in the report form`}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => deleteMode(mode.id)}
+                  aria-label={`Delete ${mode.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              // Defaults are shared, so hiding one stores a disabled copy for this organization
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => createMode(organizationId, { ...mode, isActive: false })}
+              >
+                <EyeOff className="h-4 w-4 mr-1" />
+                Hide
+              </Button>
+            ))}
+          </div>
+        ))}
+      </div>
+      {isAdmin && (
+        <div className="grid grid-cols-2 sm:grid-cols-6 gap-2 pt-2">
+          <Input
+            className="col-span-2"
+            placeholder="e.g., Okada"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <Select value={icon} onValueChange={(value) => setIcon(value as TransportIcon)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TRANSPORT_ICONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="color"
+            value={color}
+            onChange={(e) => setColor(e.target.value)}
+            aria-label="Chart colour"
+            className="p-1"
+          />
+          <Input
+            type="number"
+            min="0"
+            placeholder="Max ₦/trip"
+            value={fareCapFlat}
+            onChange={(e) => setFareCapFlat(e.target.value)}
+          />
+          <Input
+            type="number"
+            min="0"
+            placeholder="Max ₦/km"
+            value={fareCapPerKm}
+            onChange={(e) => setFareCapPerKm(e.target.value)}
+          />
+          <Button type="button" variant="outline" onClick={handleCreate} className="col-span-2 sm:col-span-6">
+            <Plus className="h-4 w-4 mr-2" />
+            Transport Mode
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,6 @@
+import { ToastAction, ToastActionElement } from "@/components/ui/toast";
+
+// Undo button for toasts raised from hooks, which can't render JSX themselves
+export const undoToastAction = (onUndo: () => void): ToastActionElement => (
+  <ToastAction altText="Undo" onClick={onUndo}>Undo</ToastAction>
+);
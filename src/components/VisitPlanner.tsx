@@ -0,0 +1,489 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarDays, FilePlus, Loader2, Plus, Save, Trash2, AlertTriangle } from "lucide-react";
+import { Report } from "@/types/report";
+import { DAILY_LIMIT_TYPES, DailyLimitType, Itinerary, ItinerarySettings, PendingVisit, PlannedVisit, VISIT_PRIORITIES, VisitPriority } from "@/types/itinerary";
+import { useItineraries } from "@/hooks/useItineraries";
+import { useLocations } from "@/hooks/useLocations";
+import { useReportTypes } from "@/hooks/useReportTypes";
+import { useTransportModes } from "@/hooks/useTransportModes";
+import { useToast } from "@/hooks/use-toast";
+import { findTransportMode } from "@/lib/transportModes";
+import { START_POINT_KEY, buildFareHistory, formatDuration } from "@/lib/routeSolver";
+import { VisitPlan, buildDayReport, isVisitLate, planVisits } from "@/lib/visitPlanner";
+import { LocationInput } from "./LocationInput";
+
+interface VisitPlannerProps {
+  reports: Report[];
+  organizationId?: string | null;
+  // Saves a draft report and opens it; resolves to its id, or null if it could not be saved
+  onCreateDraft: (reportData: Omit<Report, 'id' | 'createdAt'>) => Promise<string | null>;
+}
+
+// Select value for planning with whichever mode was used before
+const ANY_MODE = 'any';
+
+const createEmptyVisit = (reportType = 'verification'): PendingVisit => ({
+  id: crypto.randomUUID(),
+  location: "",
+  reportType,
+  priority: 'medium',
+  dueDate: null,
+  notes: "",
+});
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' });
+
+const formatLoad = (load: number, settings: Pick<ItinerarySettings, 'limitType' | 'dailyLimit'>) =>
+  settings.limitType === 'budget'
+    ? `₦${Math.round(load).toLocaleString()} of ₦${settings.dailyLimit.toLocaleString()}`
+    : `${formatDuration(load)} of ${formatDuration(settings.dailyLimit)}`;
+
+// Saved visits grouped by the day they were scheduled for
+const groupByDay = (visits: PlannedVisit[]) => {
+  const days = new Map<string, PlannedVisit[]>();
+  visits.filter(visit => visit.scheduledDate).forEach(visit => {
+    days.set(visit.scheduledDate, [...(days.get(visit.scheduledDate) || []), visit]);
+  });
+  return Array.from(days.entries());
+};
+
+const PriorityBadge = ({ priority }: { priority: VisitPriority }) => (
+  <Badge variant={priority === 'high' ? "destructive" : priority === 'medium' ? "secondary" : "outline"} className="text-xs">
+    {VISIT_PRIORITIES.find(p => p.value === priority)?.label}
+  </Badge>
+);
+
+// Spreads pending visits over working days and keeps the resulting itineraries
+export const VisitPlanner = ({ reports, organizationId, onCreateDraft }: VisitPlannerProps) => {
+  const [title, setTitle] = useState("");
+  const [startPoint, setStartPoint] = useState(() => localStorage.getItem(START_POINT_KEY) || "");
+  const [startDate, setStartDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [limitType, setLimitType] = useState<DailyLimitType>('time');
+  const [limitValue, setLimitValue] = useState("8");
+  const [visitMinutes, setVisitMinutes] = useState("45");
+  const [modeId, setModeId] = useState(ANY_MODE);
+  const [returnToStart, setReturnToStart] = useState(true);
+  const [visits, setVisits] = useState<PendingVisit[]>([createEmptyVisit()]);
+  const [plan, setPlan] = useState<VisitPlan | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [convertingDay, setConvertingDay] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const { locations } = useLocations(organizationId);
+  const { modes } = useTransportModes(organizationId);
+  const { reportTypes } = useReportTypes(organizationId);
+  const { itineraries, saveItinerary, linkVisitsToReport, deleteItinerary } = useItineraries();
+  const fareHistory = useMemo(() => buildFareHistory(reports, locations), [reports, locations]);
+
+  const selectedMode = modes.find(mode => mode.id === modeId) ?? null;
+  const settings: ItinerarySettings = {
+    title: title.trim(),
+    startPoint: startPoint.trim(),
+    startDate,
+    limitType,
+    // Time limits are entered in hours but planned in minutes
+    dailyLimit: (parseFloat(limitValue) || 0) * (limitType === 'time' ? 60 : 1),
+    visitMinutes: parseInt(visitMinutes) || 0,
+    transportMode: selectedMode?.name ?? null,
+    returnToStart,
+  };
+
+  const updateVisit = (id: string, changes: Partial<PendingVisit>) => {
+    setVisits(prev => prev.map(visit => visit.id === id ? { ...visit, ...changes } : visit));
+    setPlan(null);
+  };
+
+  const removeVisit = (id: string) => {
+    setVisits(prev => prev.filter(visit => visit.id !== id));
+    setPlan(null);
+  };
+
+  const handlePlan = () => {
+    const filled = visits.filter(visit => visit.location.trim());
+    if (!settings.startPoint || !settings.startDate || settings.dailyLimit <= 0 || filled.length === 0) {
+      toast({
+        title: "Missing Details",
+        description: "Enter a start point, start date, daily limit and at least one visit.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setPlan(planVisits(filled, settings, fareHistory, selectedMode));
+  };
+
+  const handleSave = async () => {
+    if (!plan) return;
+    if (!settings.title) {
+      toast({
+        title: "Title Required",
+        description: "Give the itinerary a title, e.g., Week 34 recoveries.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const planned: PlannedVisit[] = [
+      ...plan.days.flatMap(day => day.visits),
+      ...plan.unscheduled.map(visit => ({ ...visit, scheduledDate: null, visitOrder: 0, estimatedCost: 0 })),
+    ];
+
+    setSaving(true);
+    const success = await saveItinerary(settings, planned, organizationId);
+    setSaving(false);
+    if (success) {
+      setTitle("");
+      setVisits([createEmptyVisit(reportTypes[0]?.slug)]);
+      setPlan(null);
+    }
+  };
+
+  const handleCreateDraft = async (itinerary: Itinerary, date: string, dayVisits: PlannedVisit[]) => {
+    const mode = itinerary.transportMode ? findTransportMode(modes, itinerary.transportMode) ?? null : null;
+
+    setConvertingDay(`${itinerary.id}-${date}`);
+    const reportId = await onCreateDraft(buildDayReport(itinerary, dayVisits, fareHistory, mode));
+    if (reportId) {
+      await linkVisitsToReport(dayVisits.map(visit => visit.id), reportId);
+      toast({
+        title: "Draft Report Created",
+        description: "Add the payee details and the fares actually paid, then submit.",
+      });
+    }
+    setConvertingDay(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarDays className="h-5 w-5" />
+            Visit Planner
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="itinerary-title">Title</Label>
+              <Input
+                id="itinerary-title"
+                placeholder="e.g., Week 34 recoveries"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="itinerary-start">Start Point</Label>
+              <LocationInput
+                id="itinerary-start"
+                placeholder="Branch office, e.g., Ikeja"
+                value={startPoint}
+                locations={locations}
+                onChange={(value) => {
+                  setStartPoint(value);
+                  setPlan(null);
+                }}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="itinerary-date">First Day</Label>
+              <Input
+                id="itinerary-date"
+                type="date"
+                value={startDate}
+                onChange={(e) => {
+                  setStartDate(e.target.value);
+                  setPlan(null);
+                }}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Daily Limit</Label>
+              <div className="flex gap-2">
+                <Select
+                  value={limitType}
+                  onValueChange={(value: DailyLimitType) => {
+                    setLimitType(value);
+                    setLimitValue(value === 'time' ? "8" : "5000");
+                    setPlan(null);
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DAILY_LIMIT_TYPES.map(type => (
+                      <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min="0"
+                  step={limitType === 'time' ? "0.5" : "100"}
+                  className="w-28"
+                  value={limitValue}
+                  onChange={(e) => {
+                    setLimitValue(e.target.value);
+                    setPlan(null);
+                  }}
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="visit-minutes">Minutes per Visit</Label>
+              <Input
+                id="visit-minutes"
+                type="number"
+                min="0"
+                step="5"
+                value={visitMinutes}
+                onChange={(e) => {
+                  setVisitMinutes(e.target.value);
+                  setPlan(null);
+                }}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Transport Mode</Label>
+              <Select
+                value={modeId}
+                onValueChange={(value) => {
+                  setModeId(value);
+                  setPlan(null);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_MODE}>Any mode on record</SelectItem>
+                  {modes.map(mode => (
+                    <SelectItem key={mode.id} value={mode.id}>{mode.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <Switch
+              checked={returnToStart}
+              onCheckedChange={(checked) => {
+                setReturnToStart(checked);
+                setPlan(null);
+              }}
+            />
+            Return to start point each day
+          </label>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Pending Visits ({visits.filter(visit => visit.location.trim()).length})</Label>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  setVisits(prev => [...prev, createEmptyVisit(reportTypes[0]?.slug)]);
+                  setPlan(null);
+                }}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Visit
+              </Button>
+            </div>
+            {visits.map(visit => (
+              <div key={visit.id} className="grid grid-cols-2 md:grid-cols-6 gap-2 items-start">
+                <div className="col-span-2">
+                  <LocationInput
+                    id={`visit-${visit.id}`}
+                    placeholder="Where, e.g., Yaba"
+                    value={visit.location}
+                    locations={locations}
+                    onChange={(value) => updateVisit(visit.id, { location: value })}
+                  />
+                </div>
+                <Select
+                  value={visit.reportType}
+                  onValueChange={(value) => updateVisit(visit.id, { reportType: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {reportTypes.map(type => (
+                      <SelectItem key={type.id} value={type.slug}>{type.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={visit.priority}
+                  onValueChange={(value: VisitPriority) => updateVisit(visit.id, { priority: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {VISIT_PRIORITIES.map(priority => (
+                      <SelectItem key={priority.value} value={priority.value}>{priority.label} priority</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="date"
+                  aria-label="Due date"
+                  value={visit.dueDate ?? ""}
+                  onChange={(e) => updateVisit(visit.id, { dueDate: e.target.value || null })}
+                />
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Notes"
+                    value={visit.notes ?? ""}
+                    onChange={(e) => updateVisit(visit.id, { notes: e.target.value })}
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="icon"
+                    onClick={() => removeVisit(visit.id)}
+                    disabled={visits.length === 1}
+                    aria-label="Remove visit"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <Button type="button" onClick={handlePlan} className="w-full">
+            <CalendarDays className="h-4 w-4 mr-2" />
+            Plan Itinerary
+          </Button>
+
+          {plan && (
+            <div className="space-y-3 pt-4 border-t">
+              {plan.days.map(day => (
+                <div key={day.date} className="rounded-lg border p-3 space-y-2">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <span className="font-semibold">{formatDay(day.date)}</span>
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                      {day.overLimit && <Badge variant="destructive">Over daily limit</Badge>}
+                      <span>{formatLoad(day.load, settings)}</span>
+                      <span>• ₦{Math.round(day.route.totalCost).toLocaleString()} fares</span>
+                    </div>
+                  </div>
+                  <ol className="space-y-1 text-sm">
+                    {day.visits.map((visit, index) => (
+                      <li key={visit.id} className="flex flex-wrap items-center gap-2">
+                        <span className="w-5 text-muted-foreground">{index + 1}.</span>
+                        <span className="font-medium">{visit.location}</span>
+                        <PriorityBadge priority={visit.priority} />
+                        {isVisitLate(visit) && (
+                          <Badge variant="outline" className="text-xs text-amber-700 border-amber-500">
+                            Due {formatDay(visit.dueDate)}
+                          </Badge>
+                        )}
+                        <span className="text-muted-foreground">₦{visit.estimatedCost.toLocaleString()}</span>
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              ))}
+              {plan.unscheduled.length > 0 && (
+                <div className="flex items-start gap-2 rounded-lg border border-amber-500/50 bg-amber-500/10 p-3 text-sm">
+                  <AlertTriangle className="h-4 w-4 text-amber-600 mt-0.5 flex-shrink-0" />
+                  <span>
+                    {plan.unscheduled.length} visit{plan.unscheduled.length !== 1 ? 's' : ''} did not fit in the next {plan.days.length} working days:{" "}
+                    {plan.unscheduled.map(visit => visit.location).join(", ")}
+                  </span>
+                </div>
+              )}
+              <Button type="button" onClick={handleSave} disabled={saving} className="w-full">
+                {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                Save Itinerary
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {itineraries.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Saved Itineraries</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {itineraries.map(itinerary => {
+              const unscheduled = itinerary.visits.filter(visit => !visit.scheduledDate);
+              return (
+                <div key={itinerary.id} className="rounded-lg border p-3 space-y-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <div>
+                      <div className="font-semibold">{itinerary.title}</div>
+                      <div className="text-xs text-muted-foreground">
+                        From {itinerary.startPoint} • {itinerary.visits.length} visits
+                        {itinerary.transportMode && ` • ${itinerary.transportMode}`}
+                      </div>
+                    </div>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteItinerary(itinerary.id)}
+                      aria-label="Delete itinerary"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  {groupByDay(itinerary.visits).map(([date, dayVisits]) => {
+                    const converted = dayVisits.every(visit => visit.reportId);
+                    const converting = convertingDay === `${itinerary.id}-${date}`;
+                    return (
+                      <div key={date} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 text-sm">
+                        <div>
+                          <span className="font-medium">{formatDay(date)}</span>
+                          <span className="text-muted-foreground">
+                            {" "}• {dayVisits.map(visit => visit.location).join(" → ")}
+                          </span>
+                        </div>
+                        {converted ? (
+                          <Badge variant="secondary">Draft created</Badge>
+                        ) : (
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleCreateDraft(itinerary, date, dayVisits)}
+                            disabled={convertingDay !== null}
+                          >
+                            {converting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FilePlus className="h-4 w-4 mr-2" />}
+                            Create Draft Report
+                          </Button>
+                        )}
+                      </div>
+                    );
+                  })}
+                  {unscheduled.length > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      Not scheduled: {unscheduled.map(visit => visit.location).join(", ")}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
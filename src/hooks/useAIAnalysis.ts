@@ -5,9 +5,12 @@ import {
   RouteAnalysis, 
   AIInsights, 
   AIReport, 
-  TransportEfficiency 
+  TransportEfficiency,
+  LocationData
 } from '@/types/ai';
 import { useToast } from '@/hooks/use-toast';
+import { centroid, haversineKm } from '@/lib/geo';
+import { getRouteTrips, sortByLegOrder } from '@/lib/legs';
 
 export const useAIAnalysis = (reports: Report[]) => {
   const [loading, setLoading] = useState(false);
@@ -25,6 +28,34 @@ export const useAIAnalysis = (reports: Report[]) => {
     );
   }, [reports]);
 
+  // Per-location visit history, positioned at the centroid of its GPS check-ins
+  const locationData = useMemo((): LocationData[] => {
+    const byLocation = new Map<string, typeof allTransportItems>();
+    allTransportItems.forEach(item => {
+      byLocation.set(item.location, [...(byLocation.get(item.location) || []), item]);
+    });
+
+    return Array.from(byLocation.entries()).map(([name, items]) => ({
+      name,
+      coordinates: centroid(items.filter(item => item.checkIn).map(item => item.checkIn!.coordinates)),
+      visitHistory: items.map(item => ({
+        date: item.reportDate,
+        cost: item.cost,
+        transportation: item.transportation,
+        reportType: item.reportType,
+      })),
+    }));
+  }, [allTransportItems]);
+
+  // Average distance between consecutive checked-in items within a report
+  const averageDistance = useMemo(() => {
+    const distances = reports.flatMap(report => {
+      const points = sortByLegOrder(report.items).filter(item => item.checkIn).map(item => item.checkIn!.coordinates);
+      return points.slice(1).map((point, i) => haversineKm(points[i], point));
+    });
+    return distances.length > 0 ? distances.reduce((a, b) => a + b, 0) / distances.length : 0;
+  }, [reports]);
+
   // Analyze transport patterns by location
   const transportPatterns = useMemo((): TransportPattern[] => {
     const locationMap = new Map<string, {
@@ -91,25 +122,22 @@ export const useAIAnalysis = (reports: Report[]) => {
 
   // Analyze routes and frequent paths
   const routeAnalysis = useMemo((): RouteAnalysis => {
-    const routeMap = new Map<string, { frequency: number; totalCost: number; costs: number[] }>();
+    const routeMap = new Map<string, { from: string; to: string; frequency: number; totalCost: number; costs: number[] }>();
     const coverageMap: { [area: string]: { visitCount: number; lastVisit: string; averageCost: number; efficiency: number } } = {};
 
-    // Analyze routes between consecutive visits in reports
+    // Count the trips actually made on each report's journey legs
     reports.forEach(report => {
-      const sortedItems = report.items.sort((a, b) => a.location.localeCompare(b.location));
-      for (let i = 0; i < sortedItems.length - 1; i++) {
-        const from = sortedItems[i].location;
-        const to = sortedItems[i + 1].location;
-        const routeKey = `${from} → ${to}`;
-        
+      getRouteTrips(report.items).forEach(trip => {
+        const routeKey = `${trip.from} → ${trip.to}`;
+
         if (!routeMap.has(routeKey)) {
-          routeMap.set(routeKey, { frequency: 0, totalCost: 0, costs: [] });
+          routeMap.set(routeKey, { from: trip.from, to: trip.to, frequency: 0, totalCost: 0, costs: [] });
         }
         const route = routeMap.get(routeKey)!;
         route.frequency++;
-        route.totalCost += sortedItems[i].cost;
-        route.costs.push(sortedItems[i].cost);
-      }
+        route.totalCost += trip.cost;
+        route.costs.push(trip.cost);
+      });
     });
 
     // Build coverage map
@@ -124,15 +152,14 @@ export const useAIAnalysis = (reports: Report[]) => {
       coverageMap[area].efficiency = Math.max(0, 100 - (coverageMap[area].averageCost / 50));
     });
 
-    const frequentRoutes = Array.from(routeMap.entries())
-      .map(([route, data]) => {
-        const [from, to] = route.split(' → ');
-        const averageCost = data.totalCost / data.frequency;
+    const frequentRoutes = Array.from(routeMap.values())
+      .map(route => {
+        const averageCost = route.totalCost / route.frequency;
         const efficiency = Math.max(0, 100 - (averageCost / 50));
         return {
-          from,
-          to,
-          frequency: data.frequency,
+          from: route.from,
+          to: route.to,
+          frequency: route.frequency,
           averageCost,
           efficiency
         };
@@ -241,7 +268,7 @@ export const useAIAnalysis = (reports: Report[]) => {
       },
       efficiencyMetrics: {
         visitsPerMonth,
-        averageDistance: 0, // Would need coordinates for accurate calculation
+        averageDistance,
         timeOptimization: 'Consider batch visits to nearby locations',
         efficiencyScore
       },
@@ -271,7 +298,7 @@ export const useAIAnalysis = (reports: Report[]) => {
         }
       }
     };
-  }, [allTransportItems, transportPatterns]);
+  }, [allTransportItems, transportPatterns, averageDistance]);
 
   // Generate transport efficiency analysis
   const transportEfficiency = useMemo((): TransportEfficiency[] => {
@@ -357,6 +384,7 @@ export const useAIAnalysis = (reports: Report[]) => {
     routeAnalysis,
     aiInsights: generateAIInsights,
     transportEfficiency,
+    locationData,
     generateAIReport,
     allTransportItems
   };
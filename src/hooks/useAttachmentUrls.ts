@@ -0,0 +1,26 @@
+import { useState, useEffect } from 'react';
+import { ReportAttachment } from '@/types/report';
+import { attachmentService } from '@/services/attachmentService';
+
+// Resolve signed URLs for private attachment objects, keyed by storage path
+export const useAttachmentUrls = (attachments: ReportAttachment[]) => {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const pathsKey = attachments.map(a => a.storagePath).sort().join('|');
+
+  useEffect(() => {
+    if (!pathsKey) return;
+    let cancelled = false;
+
+    attachmentService.getSignedUrls(pathsKey.split('|'))
+      .then((signed) => {
+        if (!cancelled) setUrls(signed);
+      })
+      .catch((error) => console.error('Error loading attachments:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pathsKey]);
+
+  return urls;
+};
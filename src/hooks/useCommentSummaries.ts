@@ -0,0 +1,34 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { CommentSummary } from '@/types/comment';
+import { commentKeys } from '@/lib/queryKeys';
+
+const NO_SUMMARIES: Record<string, CommentSummary> = {};
+
+// Open comment threads per report, for badges in report lists; reports without any are left out
+export const useCommentSummaries = (reportIds: string[]) => {
+  const fetchSummaries = async (): Promise<Record<string, CommentSummary>> => {
+    try {
+      const { data, error } = await supabase.rpc('report_comment_summaries', { _report_ids: reportIds });
+
+      if (error) throw error;
+
+      return Object.fromEntries((data || []).map(summary => [summary.report_id, {
+        openThreads: summary.open_threads,
+        awaitingResponse: summary.awaiting_response,
+        mentionsMe: summary.mentions_me,
+      }]));
+    } catch (error) {
+      console.error('Error fetching comment summaries:', error);
+      throw error;
+    }
+  };
+
+  const { data: summaries = NO_SUMMARIES } = useQuery({
+    queryKey: commentKeys.summaries(reportIds),
+    queryFn: fetchSummaries,
+    enabled: reportIds.length > 0,
+  });
+
+  return { summaries };
+};
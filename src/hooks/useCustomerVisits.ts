@@ -0,0 +1,51 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { CustomerVisit } from '@/types/customer';
+import { Report, ReportStatus } from '@/types/report';
+
+// Every journey made for a customer's loans, newest first
+export const useCustomerVisits = (customerId?: string) => {
+  const [visits, setVisits] = useState<CustomerVisit[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchVisits = useCallback(async () => {
+    if (!customerId) return;
+
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase.rpc('list_customer_visits', { _customer_id: customerId });
+
+      if (error) throw error;
+
+      setVisits((data || []).map(visit => ({
+        loanId: visit.loan_id,
+        reportId: visit.report_id,
+        reportItemId: visit.report_item_id,
+        reportDate: visit.report_date,
+        reportType: visit.report_type,
+        status: visit.status as ReportStatus,
+        userId: visit.user_id,
+        origin: visit.origin,
+        location: visit.location,
+        transportation: visit.transportation,
+        cost: Number(visit.cost),
+        allocatedCost: Number(visit.allocated_cost),
+      })));
+    } catch (error) {
+      console.error('Error fetching customer visits:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [customerId]);
+
+  useEffect(() => {
+    fetchVisits();
+  }, [fetchVisits]);
+
+  return {
+    visits,
+    loading,
+    refreshVisits: fetchVisits,
+  };
+};
@@ -0,0 +1,169 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Customer, Loan, LoanStatus } from '@/types/customer';
+import { useToast } from '@/hooks/use-toast';
+
+export type CustomerInput = Pick<Customer, 'customerRef' | 'fullName' | 'phone' | 'address'>;
+export type LoanInput = Pick<Loan, 'loanReference' | 'principal' | 'disbursedOn'>;
+
+// An organization's borrowers and their loans, by name
+export const useCustomers = (organizationId?: string | null) => {
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const fetchCustomers = useCallback(async () => {
+    if (!organizationId) {
+      setCustomers([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from('customers')
+        .select(`
+          id, organization_id, customer_ref, full_name, phone, address,
+          loans ( id, customer_id, loan_reference, principal, disbursed_on, status )
+        `)
+        .eq('organization_id', organizationId)
+        .order('full_name');
+
+      if (error) throw error;
+
+      setCustomers((data || []).map(customer => ({
+        id: customer.id,
+        organizationId: customer.organization_id,
+        customerRef: customer.customer_ref,
+        fullName: customer.full_name,
+        phone: customer.phone,
+        address: customer.address,
+        loans: (customer.loans || [])
+          .map(loan => ({
+            id: loan.id,
+            customerId: loan.customer_id,
+            loanReference: loan.loan_reference,
+            principal: loan.principal !== null ? Number(loan.principal) : null,
+            disbursedOn: loan.disbursed_on,
+            status: loan.status as LoanStatus,
+          }))
+          .sort((a, b) => a.loanReference.localeCompare(b.loanReference)),
+      })));
+    } catch (error) {
+      console.error('Error fetching customers:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId]);
+
+  const createCustomer = async (customer: CustomerInput) => {
+    if (!organizationId) return false;
+
+    try {
+      const { error } = await supabase
+        .from('customers')
+        .insert({
+          organization_id: organizationId,
+          customer_ref: customer.customerRef,
+          full_name: customer.fullName,
+          phone: customer.phone,
+          address: customer.address,
+        });
+
+      if (error) throw error;
+
+      await fetchCustomers();
+
+      toast({
+        title: "Customer Added",
+        description: `${customer.fullName} can now be linked to journeys.`,
+      });
+
+      return true;
+    } catch (error) {
+      console.error('Error creating customer:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add customer. The customer number may already be in use.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const createLoan = async (customerId: string, loan: LoanInput) => {
+    if (!organizationId) return false;
+
+    try {
+      const { error } = await supabase
+        .from('loans')
+        .insert({
+          organization_id: organizationId,
+          customer_id: customerId,
+          loan_reference: loan.loanReference,
+          principal: loan.principal,
+          disbursed_on: loan.disbursedOn,
+        });
+
+      if (error) throw error;
+
+      await fetchCustomers();
+
+      toast({
+        title: "Loan Added",
+        description: `Loan ${loan.loanReference} can now be linked to journeys.`,
+      });
+
+      return true;
+    } catch (error) {
+      console.error('Error creating loan:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add loan. The reference may already be in use.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const setLoanStatus = async (loanId: string, status: LoanStatus) => {
+    try {
+      const { error } = await supabase
+        .from('loans')
+        .update({ status })
+        .eq('id', loanId);
+
+      if (error) throw error;
+
+      setCustomers(prev => prev.map(customer => ({
+        ...customer,
+        loans: customer.loans.map(loan => loan.id === loanId ? { ...loan, status } : loan),
+      })));
+
+      return true;
+    } catch (error) {
+      console.error('Error updating loan status:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update loan. Please try again.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  useEffect(() => {
+    fetchCustomers();
+  }, [fetchCustomers]);
+
+  return {
+    customers,
+    loading,
+    createCustomer,
+    createLoan,
+    setLoanStatus,
+    refreshCustomers: fetchCustomers,
+  };
+};
@@ -0,0 +1,83 @@
+import { useState, useEffect } from 'react';
+import { FormDraft, LocalDraft, Report, ReportDraft, isReportEditable } from '@/types/report';
+import { deleteLocalDraft, listLocalDrafts, putLocalDraft } from '@/lib/localDrafts';
+
+const toTime = (timestamp?: string | null) => (timestamp ? new Date(timestamp).getTime() : 0);
+
+// Drafts autosaved on this device, merged with the user's draft reports from the server
+export const useDrafts = (userId: string | undefined, reports: Report[]) => {
+  const [localDrafts, setLocalDrafts] = useState<LocalDraft[]>([]);
+
+  useEffect(() => {
+    if (!userId) {
+      setLocalDrafts([]);
+      return;
+    }
+
+    listLocalDrafts(userId)
+      .then(setLocalDrafts)
+      .catch((error) => console.error('Error loading drafts:', error));
+  }, [userId]);
+
+  const saveLocalDraft = async (id: string, draft: FormDraft) => {
+    if (!userId) return;
+
+    const localDraft: LocalDraft = { ...draft, id, userId, savedAt: new Date().toISOString() };
+    setLocalDrafts(prev => [...prev.filter(d => d.id !== id), localDraft]);
+
+    try {
+      await putLocalDraft(localDraft);
+    } catch (error) {
+      console.error('Error saving draft:', error);
+    }
+  };
+
+  const removeLocalDraft = async (id: string) => {
+    setLocalDrafts(prev => prev.filter(d => d.id !== id));
+
+    try {
+      await deleteLocalDraft(id);
+    } catch (error) {
+      console.error('Error removing draft:', error);
+    }
+  };
+
+  const getLocalDraft = (id: string) => localDrafts.find(d => d.id === id) ?? null;
+
+  const drafts = new Map<string, ReportDraft>();
+
+  reports
+    .filter(report => report.status === 'draft' && (!report.userId || report.userId === userId))
+    .forEach(report => {
+      drafts.set(report.id, { report, localDraft: null, savedAt: report.updatedAt ?? report.createdAt });
+    });
+
+  localDrafts.forEach(localDraft => {
+    const serverCopy = reports.find(r => r.id === localDraft.id);
+
+    // Edits to a report that has since been submitted can't be resumed
+    if (serverCopy && !isReportEditable(serverCopy)) return;
+
+    drafts.set(localDraft.id, {
+      report: {
+        ...serverCopy,
+        ...localDraft.reportData,
+        id: localDraft.id,
+        userId,
+        status: serverCopy?.status ?? 'draft',
+        createdAt: serverCopy?.createdAt ?? localDraft.savedAt,
+        updatedAt: serverCopy?.updatedAt,
+        syncState: serverCopy?.syncState,
+      },
+      localDraft,
+      savedAt: localDraft.savedAt,
+    });
+  });
+
+  return {
+    drafts: [...drafts.values()].sort((a, b) => toTime(b.savedAt) - toTime(a.savedAt)),
+    getLocalDraft,
+    saveLocalDraft,
+    removeLocalDraft,
+  };
+};
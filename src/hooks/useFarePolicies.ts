@@ -0,0 +1,144 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { FarePolicy, FarePolicyType } from '@/types/policy';
+import { Report } from '@/types/report';
+import { useToast } from '@/hooks/use-toast';
+
+export type FarePolicyInput = Pick<FarePolicy, 'policyType' | 'transportMode' | 'location' | 'reportType' | 'maxCost'>;
+
+// Fare policies of an organization; `policies` holds the active ones
+export const useFarePolicies = (organizationId?: string | null) => {
+  const [allPolicies, setAllPolicies] = useState<FarePolicy[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const fetchPolicies = useCallback(async () => {
+    if (!organizationId) {
+      setAllPolicies([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from('fare_policies')
+        .select('id, organization_id, policy_type, transport_mode, location, report_type, max_cost, is_active')
+        .eq('organization_id', organizationId)
+        .order('created_at');
+
+      if (error) throw error;
+
+      setAllPolicies((data || []).map(policy => ({
+        id: policy.id,
+        organizationId: policy.organization_id,
+        policyType: policy.policy_type as FarePolicyType,
+        transportMode: policy.transport_mode,
+        location: policy.location,
+        reportType: policy.report_type,
+        maxCost: Number(policy.max_cost),
+        isActive: policy.is_active,
+      })));
+    } catch (error) {
+      console.error('Error fetching fare policies:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId]);
+
+  const createPolicy = async (policy: FarePolicyInput) => {
+    if (!organizationId) return false;
+
+    try {
+      const { error } = await supabase
+        .from('fare_policies')
+        .insert({
+          organization_id: organizationId,
+          policy_type: policy.policyType,
+          transport_mode: policy.transportMode,
+          location: policy.location,
+          report_type: policy.reportType,
+          max_cost: policy.maxCost,
+        });
+
+      if (error) throw error;
+
+      await fetchPolicies();
+
+      toast({
+        title: "Fare Policy Added",
+        description: "Journeys are now checked against the new limit.",
+      });
+
+      return true;
+    } catch (error) {
+      console.error('Error creating fare policy:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add fare policy. Please try again.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const setPolicyActive = async (policyId: string, isActive: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('fare_policies')
+        .update({ is_active: isActive })
+        .eq('id', policyId);
+
+      if (error) throw error;
+
+      setAllPolicies(prev => prev.map(p => p.id === policyId ? { ...p, isActive } : p));
+      return true;
+    } catch (error) {
+      console.error('Error updating fare policy:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update fare policy. Please try again.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  // Violations already stored on submitted journeys are kept
+  const deletePolicy = async (policyId: string) => {
+    try {
+      const { error } = await supabase
+        .from('fare_policies')
+        .delete()
+        .eq('id', policyId);
+
+      if (error) throw error;
+
+      setAllPolicies(prev => prev.filter(p => p.id !== policyId));
+      return true;
+    } catch (error) {
+      console.error('Error deleting fare policy:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete fare policy. Please try again.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  useEffect(() => {
+    fetchPolicies();
+  }, [fetchPolicies]);
+
+  return {
+    policies: allPolicies.filter(policy => policy.isActive),
+    allPolicies,
+    loading,
+    createPolicy,
+    setPolicyActive,
+    deletePolicy,
+    refreshPolicies: fetchPolicies,
+  };
+};
@@ -0,0 +1,177 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { DailyLimitType, Itinerary, ItinerarySettings, PlannedVisit, VisitPriority } from '@/types/itinerary';
+import { Report } from '@/types/report';
+import { useToast } from '@/hooks/use-toast';
+
+// The signed-in officer's saved multi-day visit plans, newest first
+export const useItineraries = () => {
+  const [itineraries, setItineraries] = useState<Itinerary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const fetchItineraries = async () => {
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from('itineraries')
+        .select(`
+          id, organization_id, title, start_point, start_date, limit_type, daily_limit,
+          visit_minutes, transport_mode, return_to_start, created_at,
+          itinerary_visits (
+            id, location, report_type, priority, due_date, notes,
+            scheduled_date, visit_order, estimated_cost, report_id
+          )
+        `)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      setItineraries((data || []).map(itinerary => ({
+        id: itinerary.id,
+        organizationId: itinerary.organization_id,
+        title: itinerary.title,
+        startPoint: itinerary.start_point,
+        startDate: itinerary.start_date,
+        limitType: itinerary.limit_type as DailyLimitType,
+        dailyLimit: Number(itinerary.daily_limit),
+        visitMinutes: itinerary.visit_minutes,
+        transportMode: itinerary.transport_mode,
+        returnToStart: itinerary.return_to_start,
+        createdAt: itinerary.created_at,
+        visits: (itinerary.itinerary_visits || [])
+          .map(visit => ({
+            id: visit.id,
+            location: visit.location,
+            reportType: visit.report_type,
+            priority: visit.priority as VisitPriority,
+            dueDate: visit.due_date,
+            notes: visit.notes,
+            scheduledDate: visit.scheduled_date,
+            visitOrder: visit.visit_order,
+            estimatedCost: Number(visit.estimated_cost),
+            reportId: visit.report_id,
+          }))
+          .sort((a, b) =>
+            (a.scheduledDate ?? '9999-12-31').localeCompare(b.scheduledDate ?? '9999-12-31') || a.visitOrder - b.visitOrder
+          ),
+      })));
+    } catch (error) {
+      console.error('Error fetching itineraries:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Save a planned itinerary with all of its visits in one transaction
+  const saveItinerary = async (settings: ItinerarySettings, visits: PlannedVisit[], organizationId?: string | null) => {
+    try {
+      const { error } = await supabase.rpc('save_itinerary', {
+        _itinerary: {
+          organization_id: organizationId ?? null,
+          title: settings.title,
+          start_point: settings.startPoint,
+          start_date: settings.startDate,
+          limit_type: settings.limitType,
+          daily_limit: settings.dailyLimit,
+          visit_minutes: settings.visitMinutes,
+          transport_mode: settings.transportMode,
+          return_to_start: settings.returnToStart,
+        },
+        _visits: visits.map(visit => ({
+          location: visit.location,
+          report_type: visit.reportType,
+          priority: visit.priority,
+          due_date: visit.dueDate,
+          notes: visit.notes ?? null,
+          scheduled_date: visit.scheduledDate,
+          visit_order: visit.visitOrder,
+          estimated_cost: visit.estimatedCost,
+        })),
+      });
+
+      if (error) throw error;
+
+      await fetchItineraries();
+
+      toast({
+        title: "Itinerary Saved",
+        description: `${settings.title} is ready. Turn each day into a draft report when you set out.`,
+      });
+
+      return true;
+    } catch (error) {
+      console.error('Error saving itinerary:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save itinerary. Please try again.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  // Record the draft report a planned day was turned into
+  const linkVisitsToReport = async (visitIds: string[], reportId: string) => {
+    try {
+      const { error } = await supabase
+        .from('itinerary_visits')
+        .update({ report_id: reportId })
+        .in('id', visitIds);
+
+      if (error) throw error;
+
+      setItineraries(prev => prev.map(itinerary => ({
+        ...itinerary,
+        visits: itinerary.visits.map(visit => visitIds.includes(visit.id) ? { ...visit, reportId } : visit),
+      })));
+
+      return true;
+    } catch (error) {
+      console.error('Error linking itinerary visits:', error);
+      return false;
+    }
+  };
+
+  const deleteItinerary = async (itineraryId: string) => {
+    try {
+      const { error } = await supabase
+        .from('itineraries')
+        .delete()
+        .eq('id', itineraryId);
+
+      if (error) throw error;
+
+      setItineraries(prev => prev.filter(i => i.id !== itineraryId));
+
+      toast({
+        title: "Itinerary Deleted",
+        description: "Draft reports created from it are kept.",
+      });
+
+      return true;
+    } catch (error) {
+      console.error('Error deleting itinerary:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete itinerary. Please try again.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  useEffect(() => {
+    fetchItineraries();
+  }, []);
+
+  return {
+    itineraries,
+    loading,
+    saveItinerary,
+    linkVisitsToReport,
+    deleteItinerary,
+    refreshItineraries: fetchItineraries,
+  };
+};
@@ -0,0 +1,148 @@
+import { useState, useEffect, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { ItemLocationUsage, KnownLocation } from '@/types/location';
+import { useToast } from '@/hooks/use-toast';
+
+export type LocationInput = Omit<KnownLocation, 'id' | 'organizationId'>;
+
+// The shared gazetteer with the organization's own entries, plus the admin tools that keep
+// journey locations consistent. An organization's entry replaces a shared one of the same name.
+export const useLocations = (organizationId?: string | null) => {
+  const [allLocations, setAllLocations] = useState<KnownLocation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const fetchLocations = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('locations')
+        .select('id, organization_id, name, aliases, lga, state, latitude, longitude')
+        .order('name');
+
+      if (error) throw error;
+
+      setAllLocations((data || []).map(location => ({
+        id: location.id,
+        organizationId: location.organization_id,
+        name: location.name,
+        aliases: location.aliases || [],
+        lga: location.lga,
+        state: location.state,
+        coordinates: location.latitude !== null && location.longitude !== null
+          ? { lat: location.latitude, lng: location.longitude }
+          : null,
+      })));
+    } catch (error) {
+      console.error('Error fetching locations:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const locations = useMemo(() => {
+    const own = allLocations.filter(location => organizationId && location.organizationId === organizationId);
+    const ownNames = new Set(own.map(location => location.name.toLowerCase()));
+    const shared = allLocations.filter(location => !location.organizationId && !ownNames.has(location.name.toLowerCase()));
+    return [...own, ...shared].sort((a, b) => a.name.localeCompare(b.name));
+  }, [allLocations, organizationId]);
+
+  const createLocation = async (targetOrganizationId: string, location: LocationInput) => {
+    try {
+      const { error } = await supabase
+        .from('locations')
+        .insert({
+          organization_id: targetOrganizationId,
+          name: location.name,
+          aliases: location.aliases,
+          lga: location.lga,
+          state: location.state,
+          latitude: location.coordinates?.lat ?? null,
+          longitude: location.coordinates?.lng ?? null,
+        });
+
+      if (error) throw error;
+
+      await fetchLocations();
+
+      toast({
+        title: "Location Added",
+        description: `${location.name} is now suggested in the report form.`,
+      });
+
+      return true;
+    } catch (error) {
+      console.error('Error creating location:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add location. The name may already be in use.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  // Spellings used for journey locations across an organization's reports
+  const listItemLocations = async (organizationId: string): Promise<ItemLocationUsage[]> => {
+    try {
+      const { data, error } = await supabase.rpc('list_item_locations', { _organization_id: organizationId });
+
+      if (error) throw error;
+
+      return (data || []).map(usage => ({
+        location: usage.location,
+        itemCount: Number(usage.item_count),
+      }));
+    } catch (error) {
+      console.error('Error listing item locations:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load journey locations. Please try again.",
+        variant: "destructive",
+      });
+      return [];
+    }
+  };
+
+  // Rewrite journey locations to a canonical entry; the spellings become its aliases
+  const mergeItemLocations = async (organizationId: string, location: KnownLocation, variants: string[]) => {
+    try {
+      const { data: merged, error } = await supabase.rpc('merge_item_locations', {
+        _organization_id: organizationId,
+        _location_id: location.id,
+        _variants: variants,
+      });
+
+      if (error) throw error;
+
+      await fetchLocations();
+
+      toast({
+        title: "Locations Merged",
+        description: `${merged} journey${merged !== 1 ? 's' : ''} now use ${location.name}.`,
+      });
+
+      return true;
+    } catch (error) {
+      console.error('Error merging locations:', error);
+      toast({
+        title: "Error",
+        description: "Failed to merge locations. Please try again.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  useEffect(() => {
+    fetchLocations();
+  }, []);
+
+  return {
+    locations,
+    loading,
+    createLocation,
+    listItemLocations,
+    mergeItemLocations,
+    refreshLocations: fetchLocations,
+  };
+};
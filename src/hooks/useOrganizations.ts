@@ -0,0 +1,196 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Organization, OrganizationMember, Team } from '@/types/organization';
+import { AppRole } from '@/types/auth';
+import { useToast } from '@/hooks/use-toast';
+
+const ACTIVE_TEAM_KEY = 'fieldflow.activeTeamId';
+
+export const useOrganizations = (userId?: string) => {
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [activeTeamId, setActiveTeamIdState] = useState<string | null>(
+    () => localStorage.getItem(ACTIVE_TEAM_KEY)
+  );
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  // Fetch organizations, members and teams visible to the user
+  const fetchOrganizations = useCallback(async () => {
+    try {
+      setLoading(true);
+
+      const [orgsResult, membersResult, teamsResult] = await Promise.all([
+        supabase.from('organizations').select('id, name').order('name'),
+        supabase.from('organization_members').select('organization_id, user_id, email, role'),
+        supabase.from('teams').select('id, organization_id, name, team_members ( user_id )').order('name'),
+      ]);
+
+      if (orgsResult.error) throw orgsResult.error;
+      if (membersResult.error) throw membersResult.error;
+      if (teamsResult.error) throw teamsResult.error;
+
+      setOrganizations(orgsResult.data || []);
+      setMembers((membersResult.data || []).map(member => ({
+        organizationId: member.organization_id,
+        userId: member.user_id,
+        email: member.email,
+        role: member.role as AppRole,
+      })));
+      setTeams((teamsResult.data || []).map(team => ({
+        id: team.id,
+        organizationId: team.organization_id,
+        name: team.name,
+        memberIds: (team.team_members || []).map(tm => tm.user_id),
+      })));
+    } catch (error) {
+      console.error('Error fetching organizations:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load your teams. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  const setActiveTeamId = (teamId: string | null) => {
+    if (teamId) {
+      localStorage.setItem(ACTIVE_TEAM_KEY, teamId);
+    } else {
+      localStorage.removeItem(ACTIVE_TEAM_KEY);
+    }
+    setActiveTeamIdState(teamId);
+  };
+
+  // Role of the current user in the given organization
+  const getRole = (organizationId?: string | null): AppRole => {
+    const membership = members.find(m => m.organizationId === organizationId && m.userId === userId);
+    return membership?.role ?? 'officer';
+  };
+
+  const createOrganization = async (name: string) => {
+    try {
+      const { data, error } = await supabase.rpc('create_organization', { _name: name });
+      if (error) throw error;
+
+      await fetchOrganizations();
+
+      toast({
+        title: "Organization Created",
+        description: `${name} has been created. You are its admin.`,
+      });
+
+      return data;
+    } catch (error) {
+      console.error('Error creating organization:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create organization. Please try again.",
+        variant: "destructive",
+      });
+      return null;
+    }
+  };
+
+  const createTeam = async (organizationId: string, name: string) => {
+    try {
+      const { error } = await supabase
+        .from('teams')
+        .insert({ organization_id: organizationId, name });
+
+      if (error) throw error;
+
+      await fetchOrganizations();
+
+      toast({
+        title: "Team Created",
+        description: `${name} has been added.`,
+      });
+
+      return true;
+    } catch (error) {
+      console.error('Error creating team:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create team. Please try again.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const addMember = async (organizationId: string, email: string, role: AppRole) => {
+    try {
+      const { error } = await supabase.rpc('add_organization_member', {
+        _organization_id: organizationId,
+        _email: email,
+        _role: role,
+      });
+
+      if (error) throw error;
+
+      await fetchOrganizations();
+
+      toast({
+        title: "Member Added",
+        description: `${email} is now a ${role}.`,
+      });
+
+      return true;
+    } catch (error) {
+      console.error('Error adding member:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add member. Make sure they have signed up first.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const setTeamMembership = async (teamId: string, memberId: string, isMember: boolean) => {
+    try {
+      const { error } = isMember
+        ? await supabase.from('team_members').insert({ team_id: teamId, user_id: memberId })
+        : await supabase.from('team_members').delete().eq('team_id', teamId).eq('user_id', memberId);
+
+      if (error) throw error;
+
+      await fetchOrganizations();
+      return true;
+    } catch (error) {
+      console.error('Error updating team membership:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update team membership. Please try again.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  useEffect(() => {
+    if (userId) fetchOrganizations();
+  }, [userId, fetchOrganizations]);
+
+  const activeTeam = teams.find(team => team.id === activeTeamId) ?? null;
+
+  return {
+    organizations,
+    members,
+    teams,
+    loading,
+    activeTeam,
+    activeRole: getRole(activeTeam?.organizationId),
+    setActiveTeamId,
+    getRole,
+    createOrganization,
+    createTeam,
+    addMember,
+    setTeamMembership,
+    refreshOrganizations: fetchOrganizations,
+  };
+};
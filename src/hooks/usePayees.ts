@@ -0,0 +1,100 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Payee } from '@/types/payee';
+import { useToast } from '@/hooks/use-toast';
+
+// The signed-in user's saved bank accounts, most recently used first
+export const usePayees = () => {
+  const [payees, setPayees] = useState<Payee[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const fetchPayees = async () => {
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from('payees')
+        .select('id, account_number, account_name, bank_code, bank_name, last_used_at')
+        .order('last_used_at', { ascending: false });
+
+      if (error) throw error;
+
+      setPayees((data || []).map(payee => ({
+        id: payee.id,
+        accountNumber: payee.account_number,
+        accountName: payee.account_name,
+        bankCode: payee.bank_code,
+        bankName: payee.bank_name,
+        lastUsedAt: payee.last_used_at,
+      })));
+    } catch (error) {
+      console.error('Error fetching payees:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Add a payee, or refresh its name and last use if the account is already saved
+  const savePayee = async (payee: Omit<Payee, 'id' | 'lastUsedAt'>) => {
+    try {
+      const { error } = await supabase
+        .from('payees')
+        .upsert({
+          account_number: payee.accountNumber,
+          account_name: payee.accountName,
+          bank_code: payee.bankCode,
+          bank_name: payee.bankName,
+          last_used_at: new Date().toISOString(),
+        }, { onConflict: 'user_id,bank_code,account_number' });
+
+      if (error) throw error;
+
+      await fetchPayees();
+      return true;
+    } catch (error) {
+      console.error('Error saving payee:', error);
+      return false;
+    }
+  };
+
+  const deletePayee = async (payeeId: string) => {
+    try {
+      const { error } = await supabase
+        .from('payees')
+        .delete()
+        .eq('id', payeeId);
+
+      if (error) throw error;
+
+      setPayees(prev => prev.filter(p => p.id !== payeeId));
+
+      toast({
+        title: "Payee Removed",
+        description: "The bank account has been removed from your payee book.",
+      });
+
+      return true;
+    } catch (error) {
+      console.error('Error deleting payee:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove payee. Please try again.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  useEffect(() => {
+    fetchPayees();
+  }, []);
+
+  return {
+    payees,
+    loading,
+    savePayee,
+    deletePayee,
+    refreshPayees: fetchPayees,
+  };
+};
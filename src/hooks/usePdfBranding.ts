@@ -0,0 +1,73 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { DEFAULT_PDF_BRANDING, PdfBrandingInput } from '@/types/branding';
+import { useToast } from '@/hooks/use-toast';
+import { brandingService } from '@/services/brandingService';
+import { brandingKeys } from '@/lib/queryKeys';
+
+// Pass `file` to replace the logo, or `remove` to go back to the default one
+export interface LogoChange {
+  file?: File | null;
+  remove?: boolean;
+}
+
+// The organization's PDF letterhead, or the default one when it has none
+export const usePdfBranding = (organizationId?: string | null) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: branding = DEFAULT_PDF_BRANDING, isLoading: loading, isError: failed } = useQuery({
+    queryKey: brandingKeys.organization(organizationId),
+    queryFn: async () => {
+      try {
+        return await brandingService.get(organizationId);
+      } catch (error) {
+        console.error('Error fetching PDF branding:', error);
+        throw error;
+      }
+    },
+  });
+
+  const saveBranding = async (input: PdfBrandingInput, logo: LogoChange = {}) => {
+    if (!organizationId) return false;
+
+    try {
+      const previousLogoPath = branding.logoPath;
+      let logoPath = logo.remove ? null : previousLogoPath;
+      if (logo.file) logoPath = await brandingService.uploadLogo(organizationId, logo.file);
+
+      await brandingService.save(organizationId, { ...input, logoPath });
+
+      // The old logo is only dropped once nothing points at it
+      if (previousLogoPath && previousLogoPath !== logoPath) {
+        await brandingService.removeLogo(previousLogoPath).catch(error =>
+          console.error('Error removing previous logo:', error)
+        );
+      }
+
+      await queryClient.invalidateQueries({ queryKey: brandingKeys.organization(organizationId) });
+
+      toast({
+        title: "Branding Saved",
+        description: "New PDF reports will use this letterhead.",
+      });
+
+      return true;
+    } catch (error) {
+      console.error('Error saving PDF branding:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save PDF branding. Logos must be PNG or JPEG and under 1 MB.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  return {
+    branding,
+    loading,
+    // The default letterhead stands in when the organization's couldn't be loaded
+    failed,
+    saveBranding,
+  };
+};
@@ -0,0 +1,126 @@
+import { useEffect, useMemo } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { MentionCandidate, NewComment, ReportComment } from '@/types/comment';
+import { useToast } from '@/hooks/use-toast';
+import { commentKeys } from '@/lib/queryKeys';
+import { buildCommentThreads, findMentions } from '@/lib/reportComments';
+
+// Comment threads on one report and its journeys, kept live while the report is open
+export const useReportComments = (reportId: string, reportOwnerId?: string, candidates: MentionCandidate[] = []) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const fetchComments = async (): Promise<ReportComment[]> => {
+    try {
+      const { data, error } = await supabase
+        .from('report_comments')
+        .select('id, report_id, report_item_id, parent_id, author_id, body, mentions, requires_response, resolved_at, resolved_by, created_at')
+        .eq('report_id', reportId)
+        .order('created_at');
+
+      if (error) throw error;
+
+      return (data || []).map(comment => ({
+        id: comment.id,
+        reportId: comment.report_id,
+        reportItemId: comment.report_item_id,
+        parentId: comment.parent_id,
+        authorId: comment.author_id,
+        body: comment.body,
+        mentions: comment.mentions,
+        requiresResponse: comment.requires_response,
+        resolvedAt: comment.resolved_at,
+        resolvedBy: comment.resolved_by,
+        createdAt: comment.created_at,
+      }));
+    } catch (error) {
+      console.error('Error fetching comments:', error);
+      throw error;
+    }
+  };
+
+  const { data: comments = [], isLoading: loading } = useQuery({
+    queryKey: commentKeys.report(reportId),
+    queryFn: fetchComments,
+  });
+
+  const threads = useMemo(() => buildCommentThreads(comments, reportOwnerId), [comments, reportOwnerId]);
+
+  // Also refreshes the counts shown in the history list
+  const refreshComments = () => queryClient.invalidateQueries({ queryKey: commentKeys.all });
+
+  const addComment = async (comment: NewComment) => {
+    try {
+      const { error } = await supabase
+        .from('report_comments')
+        .insert({
+          report_id: reportId,
+          report_item_id: comment.reportItemId ?? null,
+          parent_id: comment.parentId ?? null,
+          body: comment.body.trim(),
+          mentions: findMentions(comment.body, candidates),
+          requires_response: comment.requiresResponse ?? false,
+        });
+
+      if (error) throw error;
+
+      await refreshComments();
+      return true;
+    } catch (error) {
+      console.error('Error adding comment:', error);
+      toast({
+        title: "Error",
+        description: "Failed to post comment. Please try again.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const setThreadResolved = async (commentId: string, resolved: boolean) => {
+    try {
+      const { error } = await supabase.rpc('resolve_report_comment', {
+        _comment_id: commentId,
+        _resolved: resolved,
+      });
+
+      if (error) throw error;
+
+      await refreshComments();
+      return true;
+    } catch (error) {
+      console.error('Error resolving comment thread:', error);
+      toast({
+        title: "Error",
+        description: `Failed to ${resolved ? 'resolve' : 'reopen'} the thread. Please try again.`,
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  // Comments from other people arrive while the report is open
+  useEffect(() => {
+    const channel = supabase
+      .channel(`report-comments:${reportId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'report_comments', filter: `report_id=eq.${reportId}` },
+        () => queryClient.invalidateQueries({ queryKey: commentKeys.all })
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [reportId, queryClient]);
+
+  return {
+    threads,
+    loading,
+    awaitingResponseCount: threads.filter(thread => thread.awaitingResponse).length,
+    addComment,
+    setThreadResolved,
+  };
+};
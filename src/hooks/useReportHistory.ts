@@ -0,0 +1,41 @@
+import { useMemo } from 'react';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { ReportCursor, ReportFilters } from '@/types/report';
+import { useToast } from '@/hooks/use-toast';
+import { reportService } from '@/services/reportService';
+import { reportKeys } from '@/lib/queryKeys';
+
+// Submitted reports matching the filters, loaded from the server a page at a time
+export const useReportHistory = (teamId: string | null | undefined, filters: ReportFilters, enabled = true) => {
+  const { toast } = useToast();
+
+  const { data, isLoading, isFetchingNextPage, hasNextPage, fetchNextPage } = useInfiniteQuery({
+    queryKey: reportKeys.history(teamId, filters),
+    queryFn: async ({ pageParam }) => {
+      try {
+        return await reportService.search(teamId, filters, pageParam);
+      } catch (error) {
+        console.error('Error searching reports:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load report history. Please try again.",
+          variant: "destructive",
+        });
+        throw error;
+      }
+    },
+    initialPageParam: null as ReportCursor | null,
+    getNextPageParam: lastPage => lastPage.nextCursor,
+    enabled,
+  });
+
+  const reports = useMemo(() => data?.pages.flatMap(page => page.reports) ?? [], [data]);
+
+  return {
+    reports,
+    loading: isLoading,
+    loadingMore: isFetchingNextPage,
+    hasMore: hasNextPage,
+    loadMore: () => fetchNextPage(),
+  };
+};
@@ -0,0 +1,36 @@
+import { useQuery } from '@tanstack/react-query';
+import { ReportStats } from '@/types/report';
+import { useToast } from '@/hooks/use-toast';
+import { reportService } from '@/services/reportService';
+import { reportKeys } from '@/lib/queryKeys';
+
+const NO_STATS: ReportStats = { reports: [], journeys: [] };
+
+// Report and journey totals summed on the server, for the header count and analytics
+export const useReportStats = (teamId: string | null | undefined, enabled = true) => {
+  const { toast } = useToast();
+
+  const { data = NO_STATS, isLoading } = useQuery({
+    queryKey: reportKeys.stats(teamId),
+    queryFn: async () => {
+      try {
+        return await reportService.getStats(teamId);
+      } catch (error) {
+        console.error('Error loading report statistics:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load report statistics. Please try again.",
+          variant: "destructive",
+        });
+        throw error;
+      }
+    },
+    enabled,
+  });
+
+  return {
+    stats: data,
+    totalReports: data.reports.reduce((sum, stat) => sum + stat.reports, 0),
+    loading: isLoading,
+  };
+};
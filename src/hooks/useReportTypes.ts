@@ -0,0 +1,156 @@
+import { useState, useEffect, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { RequiredReportField, ReportTypeDefinition } from '@/types/reportType';
+import { useToast } from '@/hooks/use-toast';
+import { resolveReportTypes } from '@/lib/reportTypes';
+
+export type ReportTypeInput = Pick<ReportTypeDefinition, 'slug' | 'label' | 'color' | 'pdfTitle' | 'requiredFields'>;
+
+// Report types visible to the user; `reportTypes` holds the active ones for the given organization
+export const useReportTypes = (organizationId?: string | null) => {
+  const [allReportTypes, setAllReportTypes] = useState<ReportTypeDefinition[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const fetchReportTypes = async () => {
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from('report_types')
+        .select('id, organization_id, slug, label, color, pdf_title, required_fields, is_active, sort_order')
+        .order('sort_order')
+        .order('label');
+
+      if (error) throw error;
+
+      setAllReportTypes((data || []).map(type => ({
+        id: type.id,
+        organizationId: type.organization_id,
+        slug: type.slug,
+        label: type.label,
+        color: type.color,
+        pdfTitle: type.pdf_title,
+        requiredFields: type.required_fields as RequiredReportField[],
+        isActive: type.is_active,
+        sortOrder: type.sort_order,
+      })));
+    } catch (error) {
+      console.error('Error fetching report types:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const createReportType = async (targetOrganizationId: string, type: ReportTypeInput & { isActive?: boolean }) => {
+    try {
+      const { error } = await supabase
+        .from('report_types')
+        .insert({
+          organization_id: targetOrganizationId,
+          slug: type.slug,
+          label: type.label,
+          color: type.color,
+          pdf_title: type.pdfTitle,
+          required_fields: type.requiredFields,
+          is_active: type.isActive ?? true,
+          sort_order: allReportTypes.filter(t => t.organizationId === targetOrganizationId).length + 1,
+        });
+
+      if (error) throw error;
+
+      await fetchReportTypes();
+
+      if (type.isActive !== false) {
+        toast({
+          title: "Report Type Added",
+          description: `${type.label} is now available in the report form.`,
+        });
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error creating report type:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add report type. The name may already be in use.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const updateReportType = async (typeId: string, changes: Partial<Omit<ReportTypeInput, 'slug'>> & { isActive?: boolean }) => {
+    try {
+      const { error } = await supabase
+        .from('report_types')
+        .update({
+          ...(changes.label !== undefined && { label: changes.label }),
+          ...(changes.color !== undefined && { color: changes.color }),
+          ...(changes.pdfTitle !== undefined && { pdf_title: changes.pdfTitle }),
+          ...(changes.requiredFields !== undefined && { required_fields: changes.requiredFields }),
+          ...(changes.isActive !== undefined && { is_active: changes.isActive }),
+        })
+        .eq('id', typeId);
+
+      if (error) throw error;
+
+      await fetchReportTypes();
+      return true;
+    } catch (error) {
+      console.error('Error updating report type:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update report type. Please try again.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  // Past reports keep the slug, so deleting only removes the type from the form
+  const deleteReportType = async (typeId: string) => {
+    try {
+      const { error } = await supabase
+        .from('report_types')
+        .delete()
+        .eq('id', typeId);
+
+      if (error) throw error;
+
+      setAllReportTypes(prev => prev.filter(t => t.id !== typeId));
+      return true;
+    } catch (error) {
+      console.error('Error deleting report type:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete report type. Please try again.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  useEffect(() => {
+    fetchReportTypes();
+  }, []);
+
+  // Memoised so charts keyed on the types don't recompute every render
+  const resolvedTypes = useMemo(
+    () => resolveReportTypes(allReportTypes, organizationId),
+    [allReportTypes, organizationId]
+  );
+  const reportTypes = useMemo(() => resolvedTypes.filter(type => type.isActive), [resolvedTypes]);
+
+  return {
+    reportTypes,
+    // Includes hidden types, so older reports still show their label and colour
+    resolvedTypes,
+    allReportTypes,
+    loading,
+    createReportType,
+    updateReportType,
+    deleteReportType,
+    refreshReportTypes: fetchReportTypes,
+  };
+};
@@ -0,0 +1,84 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { AuditAction, ReportAuditEntry } from '@/types/audit';
+import { useToast } from '@/hooks/use-toast';
+import { reportKeys } from '@/lib/queryKeys';
+
+// Raised when a restored version fails a submission check; the message says which
+const RESUBMIT_ERROR_CODES = ['PT412', 'PT422', 'PT428'];
+
+// The audit trail of one report, oldest change first
+export const useReportVersions = (reportId: string, updatedAt?: string) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const fetchEntries = async (): Promise<ReportAuditEntry[]> => {
+    try {
+      const { data, error } = await supabase
+        .from('report_audit_log')
+        .select('id, table_name, record_id, action, actor_id, new_data, transaction_id, changed_at')
+        .eq('report_id', reportId)
+        .order('id');
+
+      if (error) throw error;
+
+      return (data || []).map(entry => ({
+        id: entry.id,
+        tableName: entry.table_name as ReportAuditEntry['tableName'],
+        recordId: entry.record_id,
+        action: entry.action as AuditAction,
+        actorId: entry.actor_id,
+        newData: entry.new_data as Record<string, unknown> | null,
+        transactionId: entry.transaction_id,
+        changedAt: entry.changed_at,
+      }));
+    } catch (error) {
+      console.error('Error fetching report history:', error);
+      throw error;
+    }
+  };
+
+  const { data: entries = [], isLoading: loading } = useQuery({
+    queryKey: reportKeys.versions(reportId, updatedAt),
+    queryFn: fetchEntries,
+  });
+
+  // Supervisors only, until the report is approved; a submitted report is submitted again so
+  // its checks run on the restored version, and payee details are never restored
+  const restoreVersion = async (transactionId: number) => {
+    try {
+      const { error } = await supabase.rpc('restore_report_version', {
+        _report_id: reportId,
+        _transaction_id: transactionId,
+      });
+
+      if (error) throw error;
+
+      await queryClient.invalidateQueries({ queryKey: reportKeys.all });
+
+      toast({
+        title: "Version Restored",
+        description: "The report's details and journeys are back to the selected version.",
+      });
+
+      return true;
+    } catch (error) {
+      console.error('Error restoring report version:', error);
+      const { code, message } = (error ?? {}) as { code?: string; message?: string };
+      toast({
+        title: "Error",
+        description: code && RESUBMIT_ERROR_CODES.includes(code) && message
+          ? `This version can't be submitted again: ${message}`
+          : "Failed to restore this version. Please try again.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  return {
+    entries,
+    loading,
+    restoreVersion,
+  };
+};
@@ -1,62 +1,209 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { RealtimeChannel } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
-import { Report, ReportItem } from '@/types/report';
+import { Json } from '@/integrations/supabase/types';
+import { AttachmentChanges, LiveUpdate, Report, ReportStatus, TRASH_RETENTION_DAYS } from '@/types/report';
 import { useToast } from '@/hooks/use-toast';
+import { undoToastAction } from '@/components/UndoToastAction';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+import { attachmentService } from '@/services/attachmentService';
+import { reportService } from '@/services/reportService';
+import { reportKeys } from '@/lib/queryKeys';
+import {
+  QueueEntry,
+  cacheReports,
+  completeQueueEntry,
+  enqueue,
+  getQueueEntry,
+  listQueue,
+  loadCachedReports,
+  putQueueEntry,
+  removeFromQueue,
+} from '@/lib/offlineQueue';
 
-export const useReports = () => {
-  const [reports, setReports] = useState<Report[]>([]);
-  const [loading, setLoading] = useState(true);
+// Raised by save_report when the report changed since the client loaded it
+const CONFLICT_ERROR_CODE = 'PT409';
+// Raised on submit when a journey over fare policy has no justification
+const POLICY_ERROR_CODE = 'PT422';
+// Raised on submit while fields the report type requires are still empty
+const REQUIRED_FIELDS_ERROR_CODE = 'PT412';
+// Raised on approval while a reviewer's comment still needs the officer's reply
+const AWAITING_RESPONSE_ERROR_CODE = 'PT428';
+const UNIQUE_VIOLATION_CODE = '23505';
+// Realtime echoes of this session's own writes arrive within this window and are ignored
+const OWN_WRITE_WINDOW_MS = 10 * 1000;
+// save_report changes the report and each item, so wait for the burst before fetching
+const REALTIME_BATCH_MS = 500;
+
+const getErrorCode = (error: unknown) => (error as { code?: string } | null)?.code;
+
+const getErrorMessage = (error: unknown) =>
+  (error as { message?: string } | null)?.message || 'Unknown error';
+
+const isConflictError = (error: unknown) => getErrorCode(error) === CONFLICT_ERROR_CODE;
+
+const isPolicyError = (error: unknown) => getErrorCode(error) === POLICY_ERROR_CODE;
+
+const isRequiredFieldsError = (error: unknown) => getErrorCode(error) === REQUIRED_FIELDS_ERROR_CODE;
+
+const isAwaitingResponseError = (error: unknown) => getErrorCode(error) === AWAITING_RESPONSE_ERROR_CODE;
+
+// supabase-js reports failed fetches as errors with the browser's message
+const isNetworkError = (error: unknown) =>
+  !navigator.onLine || error instanceof TypeError || /failed to fetch|network/i.test(getErrorMessage(error));
+
+// Read the stored session rather than asking the server, so this works offline
+const getSessionUserId = async () => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.user.id ?? null;
+};
+
+// Show queued changes on top of the server (or cached) list
+const applyQueue = (serverReports: Report[], queue: QueueEntry[], teamId?: string | null) => {
+  const entries = new Map(queue.map(entry => [entry.reportId, entry]));
+
+  const existing = serverReports
+    .filter(report => {
+      const entry = entries.get(report.id);
+      return !(entry?.kind === 'delete' && entry.status !== 'conflict');
+    })
+    .map(report => {
+      const entry = entries.get(report.id);
+      if (!entry) return report;
+      return {
+        ...report,
+        ...entry.reportData,
+        id: report.id,
+        createdAt: report.createdAt,
+        updatedAt: report.updatedAt,
+        syncState: entry.status,
+      };
+    });
+
+  const created = queue
+    .filter(entry =>
+      entry.kind === 'create'
+      && !serverReports.some(report => report.id === entry.reportId)
+      && (!teamId || entry.reportData?.teamId === teamId)
+    )
+    .map(entry => ({
+      ...entry.reportData,
+      id: entry.reportId,
+      userId: entry.userId,
+      createdAt: entry.queuedAt,
+      syncState: entry.status,
+    }) as Report)
+    .reverse();
+
+  return [...created, ...existing];
+};
+
+// Put a report in a cached list, in place if it is already there
+const upsertReport = (reports: Report[], report: Report) =>
+  reports.some(r => r.id === report.id)
+    ? reports.map(r => (r.id === report.id ? report : r))
+    : [report, ...reports];
+
+const NO_REPORTS: Report[] = [];
+
+interface CachedReportsContext {
+  previous?: Report[];
+}
+
+interface SaveReportVariables {
+  userId: string;
+  reportId: string;
+  kind: 'create' | 'update';
+  reportData: Omit<Report, 'id' | 'createdAt'>;
+  attachmentChanges?: AttachmentChanges;
+  baseUpdatedAt: string | null;
+}
+
+// Shape a report for the save_report RPC; total_cost is computed server-side
+const toSavePayload = (reportData: Omit<Report, 'id' | 'createdAt'>, reportId?: string) => ({
+  _report: {
+    id: reportId ?? null,
+    team_id: reportData.teamId ?? null,
+    report_type: reportData.reportType,
+    report_date: reportData.reportDate,
+    description: reportData.description,
+    outcome: (reportData.outcome ?? null) as unknown as Json,
+    account_number: reportData.accountNumber,
+    account_name: reportData.accountName,
+    bank_name: reportData.bankName,
+    status: reportData.status,
+  },
+  // Legs are saved in the order the form lists them
+  _items: reportData.items.map((item, index) => ({
+    id: item.id,
+    origin: item.origin?.trim() || null,
+    location: item.location,
+    leg_order: index,
+    is_round_trip: !!item.isRoundTrip,
+    transportation: item.transportation,
+    cost: item.cost,
+    latitude: item.checkIn?.coordinates.lat ?? null,
+    longitude: item.checkIn?.coordinates.lng ?? null,
+    location_accuracy: item.checkIn?.accuracy ?? null,
+    captured_at: item.checkIn?.capturedAt ?? null,
+    justification: item.justification?.trim() || null,
+    loan_ids: (item.loans || []).map(loan => loan.id),
+  })),
+});
+
+// With a team selected, lists that team's reports; otherwise the user's own
+export const useReports = (teamId?: string | null) => {
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+  // Kept stable per team so the realtime subscription only restarts when the team changes
+  const listKey = useMemo(() => reportKeys.list(teamId), [teamId]);
+
+  // The server refused a submit over fare policy, e.g. after a limit changed
+  const notifyPolicyError = () => toast({
+    title: "Justification Required",
+    description: "Some journeys are above your organization's fare policy. Explain each flagged journey, then submit again.",
+    variant: "destructive",
+  });
+
+  // The server's message lists what is missing, e.g. after the type's requirements changed
+  const notifyRequiredFieldsError = (error: unknown) => toast({
+    title: "Required Details Missing",
+    description: getErrorMessage(error),
+    variant: "destructive",
+  });
+
+  const [liveUpdates, setLiveUpdates] = useState<Record<string, LiveUpdate>>({});
+  const ownWritesRef = useRef(new Map<string, number>());
+  const servedFromCacheRef = useRef(false);
+  const syncingRef = useRef(false);
+  const isOnline = useOnlineStatus();
 
-  // Fetch reports from database
-  const fetchReports = async () => {
+  // Fetch reports from database, falling back to the offline cache
+  const fetchReports = async (): Promise<Report[]> => {
     try {
-      setLoading(true);
-      
-      const { data: reportsData, error: reportsError } = await supabase
-        .from('reports')
-        .select(`
-          id,
-          report_type,
-          report_date,
-          description,
-          total_cost,
-          account_number,
-          account_name,
-          bank_name,
-          created_at,
-          updated_at,
-          report_items (
-            id,
-            location,
-            transportation,
-            cost
-          )
-        `)
-        .order('created_at', { ascending: false });
-
-      if (reportsError) throw reportsError;
-
-      // Transform database data to match Report interface
-      const transformedReports: Report[] = (reportsData || []).map(dbReport => ({
-        id: dbReport.id,
-        reportType: dbReport.report_type as 'verification' | 'recovery' | 'post-disbursement',
-        reportDate: dbReport.report_date,
-        description: dbReport.description || '',
-        totalCost: Number(dbReport.total_cost),
-        accountNumber: dbReport.account_number || '',
-        accountName: dbReport.account_name || '',
-        bankName: dbReport.bank_name || '',
-        createdAt: dbReport.created_at,
-        items: (dbReport.report_items || []).map(item => ({
-          id: item.id,
-          location: item.location,
-          transportation: item.transportation,
-          cost: Number(item.cost),
-        }))
-      }));
-
-      setReports(transformedReports);
+      const userId = await getSessionUserId();
+      if (!userId) return [];
+
+      const scope = `${userId}:${teamId ?? 'own'}`;
+      let serverReports: Report[];
+
+      try {
+        serverReports = await reportService.list(userId, teamId);
+        servedFromCacheRef.current = false;
+        cacheReports(scope, serverReports).catch(error => console.error('Error caching reports:', error));
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        serverReports = await loadCachedReports(scope);
+        servedFromCacheRef.current = true;
+      }
+
+      const queue = await listQueue(userId).catch((error) => {
+        console.error('Error reading offline queue:', error);
+        return [] as QueueEntry[];
+      });
+
+      return applyQueue(serverReports, queue, teamId);
     } catch (error) {
       console.error('Error fetching reports:', error);
       toast({
@@ -64,17 +211,300 @@ export const useReports = () => {
         description: "Failed to fetch reports. Please try again.",
         variant: "destructive",
       });
+      throw error;
+    }
+  };
+
+  const { data: reports = NO_REPORTS, isLoading: loading } = useQuery({
+    queryKey: listKey,
+    queryFn: fetchReports,
+    // Offline, the query still runs and serves the cached list with queued changes
+    networkMode: 'always',
+  });
+
+  // Reload every report list and history page, e.g. after queued changes reach the server
+  const refreshReports = () => queryClient.invalidateQueries({ queryKey: reportKeys.all });
+
+  // Show a change in the cached list straight away, keeping the old list to roll back to
+  const applyOptimistic = async (update: (current: Report[]) => Report[]): Promise<CachedReportsContext> => {
+    await queryClient.cancelQueries({ queryKey: listKey });
+    const previous = queryClient.getQueryData<Report[]>(listKey);
+    queryClient.setQueryData<Report[]>(listKey, (current = []) => update(current));
+    return { previous };
+  };
+
+  const markOwnWrite = (reportId: string) => ownWritesRef.current.set(reportId, Date.now());
+
+  const rollback = (error: unknown, context?: CachedReportsContext) => {
+    if (context?.previous) queryClient.setQueryData(listKey, context.previous);
+    // The server copy moved on; fetch it so the next attempt starts from there
+    if (isConflictError(error)) queryClient.invalidateQueries({ queryKey: listKey });
+  };
+
+  // Replace the cached copy of one report with the server's instead of reloading the list
+  const refreshReport = async (reportId: string) => {
+    const [saved] = await reportService.getByIds([reportId]);
+    queryClient.setQueryData<Report[]>(listKey, (current = []) =>
+      saved ? upsertReport(current, saved) : current.filter(r => r.id !== reportId)
+    );
+  };
+
+  // A queued change only shows up once the list is rebuilt from the offline queue
+  const settleWrite = async (result: 'saved' | 'queued' | undefined, reportId: string) => {
+    markOwnWrite(reportId);
+    if (result === 'saved') {
+      await refreshReport(reportId).catch(error => console.error('Error refreshing report:', error));
+    } else if (result === 'queued') {
+      await queryClient.invalidateQueries({ queryKey: listKey });
+    }
+    await queryClient.invalidateQueries({ queryKey: reportKeys.histories() });
+    await queryClient.invalidateQueries({ queryKey: reportKeys.stats(teamId) });
+  };
+
+  // Save a report, upload its attachment changes, then apply the requested status
+  const persistReport = async (
+    userId: string,
+    reportData: Omit<Report, 'id' | 'createdAt'>,
+    options: {
+      reportId: string;
+      isNew: boolean;
+      attachmentChanges?: AttachmentChanges;
+      expectedUpdatedAt?: string | null;
+    }
+  ) => {
+    const { reportId, isNew, attachmentChanges, expectedUpdatedAt } = options;
+    const itemIds = new Set(reportData.items.map(item => item.id));
+    const changes: AttachmentChanges = {
+      added: (attachmentChanges?.added || []).filter(pending => itemIds.has(pending.itemId)),
+      removed: attachmentChanges?.removed || [],
+    };
+    const hasAttachmentChanges = changes.added.length > 0 || changes.removed.length > 0;
+
+    // Attachments can only be written while the report is still editable
+    const payload = toSavePayload({ ...reportData, status: hasAttachmentChanges ? 'draft' : reportData.status }, reportId);
+    let { error: saveError } = await supabase.rpc('save_report', {
+      ...payload,
+      ...(!isNew && { _report_id: reportId }),
+      ...(!isNew && expectedUpdatedAt && { _expected_updated_at: expectedUpdatedAt }),
+    });
+
+    // The row already exists: an autosaved draft, or a create replayed after a dropped connection
+    if (isNew && getErrorCode(saveError) === UNIQUE_VIOLATION_CODE) {
+      ({ error: saveError } = await supabase.rpc('save_report', { ...payload, _report_id: reportId }));
+    }
+
+    if (saveError) throw saveError;
+
+    if (hasAttachmentChanges) {
+      await attachmentService.applyChanges(userId, reportId, changes);
+
+      if (reportData.status !== 'draft') {
+        const { error: statusError } = await supabase
+          .from('reports')
+          .update({ status: reportData.status })
+          .eq('id', reportId);
+
+        if (statusError) throw statusError;
+      }
+    }
+
+    return reportId;
+  };
+
+  // Move a report to the trash unless someone changed it after it was loaded
+  const removeReport = async (reportId: string, expectedUpdatedAt: string | null) => {
+    const { error } = await supabase.rpc('trash_report', {
+      _report_id: reportId,
+      ...(expectedUpdatedAt && { _expected_updated_at: expectedUpdatedAt }),
+    });
+
+    if (error) throw error;
+  };
+
+  // Write straight to the server when possible, otherwise queue the change
+  const saveOrQueue = async (change: Parameters<typeof enqueue>[0], write: () => Promise<unknown>) => {
+    const queued = await getQueueEntry(change.reportId).catch(() => undefined);
+
+    // Anything already waiting for this report has to reach the server first
+    if (navigator.onLine && !queued) {
+      try {
+        await write();
+        return 'saved';
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+      }
+    }
+
+    await enqueue(change);
+    return 'queued';
+  };
+
+  // Replay one queued change against the server
+  const replayEntry = async (userId: string, entry: QueueEntry) => {
+    if (entry.kind === 'delete') {
+      await removeReport(entry.reportId, entry.baseUpdatedAt);
+      return;
+    }
+
+    await persistReport(userId, entry.reportData, {
+      reportId: entry.reportId,
+      isNew: entry.kind === 'create',
+      attachmentChanges: entry.attachmentChanges,
+      expectedUpdatedAt: entry.baseUpdatedAt,
+    });
+  };
+
+  // Send queued offline changes in the order they were made
+  const syncQueue = async () => {
+    if (syncingRef.current || !navigator.onLine) return;
+    syncingRef.current = true;
+
+    let synced = 0;
+    let conflicts = 0;
+    let failures = 0;
+
+    try {
+      const userId = await getSessionUserId();
+      if (!userId) return;
+
+      const queue = await listQueue(userId);
+
+      for (const entry of queue) {
+        if (entry.status === 'conflict') continue;
+
+        try {
+          await replayEntry(userId, entry);
+          await completeQueueEntry(entry);
+          synced++;
+        } catch (error) {
+          // Still offline; try again on the next reconnect
+          if (isNetworkError(error)) break;
+
+          console.error('Error syncing report:', error);
+          const conflict = isConflictError(error);
+          if (conflict) {
+            conflicts++;
+          } else {
+            failures++;
+          }
+          await putQueueEntry({
+            ...entry,
+            status: conflict ? 'conflict' : 'failed',
+            error: getErrorMessage(error),
+          });
+        }
+      }
+    } catch (error) {
+      console.error('Error syncing offline changes:', error);
     } finally {
-      setLoading(false);
+      syncingRef.current = false;
+    }
+
+    if (synced || conflicts || failures || servedFromCacheRef.current) {
+      await refreshReports();
+    }
+
+    if (synced) {
+      toast({
+        title: "Offline Changes Synced",
+        description: `${synced} queued change${synced !== 1 ? 's were' : ' was'} saved to the server.`,
+      });
+    }
+
+    if (conflicts || failures) {
+      toast({
+        title: "Some Changes Need Attention",
+        description: conflicts
+          ? "A report was changed on the server while you were offline. Choose which version to keep."
+          : "Some queued changes could not be saved. Retry them from your reports history.",
+        variant: "destructive",
+      });
     }
   };
 
-  // Create a new report
-  const createReport = async (reportData: Omit<Report, 'id' | 'createdAt'>) => {
+  // Creates and updates; the form's copy shows in the list while it is being saved
+  const saveMutation = useMutation({
+    mutationFn: ({ userId, reportId, kind, reportData, attachmentChanges, baseUpdatedAt }: SaveReportVariables) =>
+      saveOrQueue(
+        { reportId, userId, kind, reportData, attachmentChanges, baseUpdatedAt },
+        () => persistReport(userId, reportData, {
+          reportId,
+          isNew: kind === 'create',
+          attachmentChanges,
+          expectedUpdatedAt: baseUpdatedAt,
+        })
+      ),
+    networkMode: 'always',
+    onMutate: ({ userId, reportId, reportData }) => {
+      markOwnWrite(reportId);
+      return applyOptimistic(current => {
+        const existing = current.find(r => r.id === reportId);
+        return upsertReport(current, {
+          ...existing,
+          ...reportData,
+          id: reportId,
+          userId,
+          createdAt: existing?.createdAt ?? new Date().toISOString(),
+          updatedAt: existing?.updatedAt,
+        });
+      });
+    },
+    onError: (error, _variables, context) => rollback(error, context),
+    onSuccess: (result, { reportId }) => settleWrite(result, reportId),
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ reportId, status, reviewNote }: { reportId: string; status: ReportStatus; reviewNote?: string }) => {
+      const { error } = await supabase
+        .from('reports')
+        .update({
+          status,
+          ...(reviewNote !== undefined && { review_note: reviewNote }),
+        })
+        .eq('id', reportId);
+
+      if (error) throw error;
+    },
+    networkMode: 'always',
+    onMutate: ({ reportId, status, reviewNote }) => {
+      markOwnWrite(reportId);
+      return applyOptimistic(current => current.map(r => (
+        r.id === reportId ? { ...r, status, ...(reviewNote !== undefined && { reviewNote }) } : r
+      )));
+    },
+    onError: (error, _variables, context) => rollback(error, context),
+    onSuccess: (_data, { reportId }) => settleWrite('saved', reportId),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: ({ userId, reportId, baseUpdatedAt }: { userId: string; reportId: string; baseUpdatedAt: string | null }) =>
+      saveOrQueue(
+        { reportId, userId, kind: 'delete', reportData: null, baseUpdatedAt },
+        () => removeReport(reportId, baseUpdatedAt)
+      ),
+    networkMode: 'always',
+    onMutate: ({ reportId }) => {
+      markOwnWrite(reportId);
+      return applyOptimistic(current => current.filter(r => r.id !== reportId));
+    },
+    onError: (error, _variables, context) => rollback(error, context),
+    // The queue hides a pending delete, so only the history pages and totals need reloading
+    onSuccess: () => Promise.all([
+      queryClient.invalidateQueries({ queryKey: reportKeys.histories() }),
+      queryClient.invalidateQueries({ queryKey: reportKeys.stats(teamId) }),
+    ]),
+  });
+
+  // Create a new report; pass the id of an autosaved draft to finish it in place
+  const createReport = async (
+    reportData: Omit<Report, 'id' | 'createdAt'>,
+    attachmentChanges?: AttachmentChanges,
+    reportId: string = crypto.randomUUID()
+  ) => {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
+      const userId = await getSessionUserId();
       
-      if (!user) {
+      if (!userId) {
         toast({
           title: "Authentication Required",
           description: "Please sign in to create reports.",
@@ -83,51 +513,44 @@ export const useReports = () => {
         return null;
       }
 
-      // Insert report
-      const { data: reportResult, error: reportError } = await supabase
-        .from('reports')
-        .insert({
-          user_id: user.id,
-          report_type: reportData.reportType,
-          report_date: reportData.reportDate,
-          description: reportData.description,
-          total_cost: reportData.totalCost,
-          account_number: reportData.accountNumber,
-          account_name: reportData.accountName,
-          bank_name: reportData.bankName,
-        })
-        .select()
-        .single();
-
-      if (reportError) throw reportError;
-
-      // Insert report items
-      if (reportData.items.length > 0) {
-        const { error: itemsError } = await supabase
-          .from('report_items')
-          .insert(
-            reportData.items.map(item => ({
-              report_id: reportResult.id,
-              location: item.location,
-              transportation: item.transportation,
-              cost: item.cost,
-            }))
-          );
-
-        if (itemsError) throw itemsError;
-      }
-
-      // Refresh reports list
-      await fetchReports();
-
-      toast({
-        title: "Report Created Successfully",
-        description: "Your field report has been saved to the database.",
+      // The id is chosen up front so a queued create replays as the same report
+      const result = await saveMutation.mutateAsync({
+        userId,
+        reportId,
+        kind: 'create',
+        reportData,
+        attachmentChanges,
+        baseUpdatedAt: null,
       });
 
-      return reportResult.id;
+      if (result === 'queued') {
+        toast({
+          title: "Saved Offline",
+          description: "You're offline. The report will be sent as soon as you reconnect.",
+        });
+      } else {
+        toast({
+          title: reportData.status === 'draft' ? "Draft Saved" : "Report Submitted Successfully",
+          description: reportData.status === 'draft'
+            ? "Your draft has been saved. Submit it when it is ready for approval."
+            : "Your field report has been saved and sent for approval.",
+        });
+      }
+
+      return reportId;
     } catch (error) {
       console.error('Error creating report:', error);
+
+      if (isPolicyError(error)) {
+        notifyPolicyError();
+        return null;
+      }
+
+      if (isRequiredFieldsError(error)) {
+        notifyRequiredFieldsError(error);
+        return null;
+      }
+
       toast({
         title: "Error",
         description: "Failed to create report. Please try again.",
@@ -138,11 +561,15 @@ export const useReports = () => {
   };
 
   // Update an existing report
-  const updateReport = async (reportId: string, reportData: Omit<Report, 'id' | 'createdAt'>) => {
+  const updateReport = async (
+    reportId: string,
+    reportData: Omit<Report, 'id' | 'createdAt'>,
+    attachmentChanges?: AttachmentChanges
+  ) => {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
+      const userId = await getSessionUserId();
       
-      if (!user) {
+      if (!userId) {
         toast({
           title: "Authentication Required",
           description: "Please sign in to update reports.",
@@ -151,72 +578,159 @@ export const useReports = () => {
         return false;
       }
 
-      // Update report
-      const { error: reportError } = await supabase
-        .from('reports')
-        .update({
-          report_type: reportData.reportType,
-          report_date: reportData.reportDate,
-          description: reportData.description,
-          total_cost: reportData.totalCost,
-          account_number: reportData.accountNumber,
-          account_name: reportData.accountName,
-          bank_name: reportData.bankName,
-        })
-        .eq('id', reportId)
-        .eq('user_id', user.id);
-
-      if (reportError) throw reportError;
-
-      // Delete existing items and insert new ones
-      const { error: deleteError } = await supabase
-        .from('report_items')
-        .delete()
-        .eq('report_id', reportId);
-
-      if (deleteError) throw deleteError;
-
-      if (reportData.items.length > 0) {
-        const { error: itemsError } = await supabase
-          .from('report_items')
-          .insert(
-            reportData.items.map(item => ({
-              report_id: reportId,
-              location: item.location,
-              transportation: item.transportation,
-              cost: item.cost,
-            }))
-          );
-
-        if (itemsError) throw itemsError;
+      const baseUpdatedAt = reports.find(r => r.id === reportId)?.updatedAt ?? null;
+
+      // Save the report and its items in one transaction
+      const result = await saveMutation.mutateAsync({
+        userId,
+        reportId,
+        kind: 'update',
+        reportData,
+        attachmentChanges,
+        baseUpdatedAt,
+      });
+
+      if (result === 'queued') {
+        toast({
+          title: "Saved Offline",
+          description: "You're offline. Your changes will be sent as soon as you reconnect.",
+        });
+      } else {
+        toast({
+          title: reportData.status === 'draft' ? "Draft Updated" : "Report Submitted Successfully",
+          description: reportData.status === 'draft'
+            ? "Your draft has been updated."
+            : "Your field report has been updated and sent for approval.",
+        });
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error updating report:', error);
+
+      if (isPolicyError(error)) {
+        notifyPolicyError();
+        return false;
       }
 
-      // Refresh reports list
-      await fetchReports();
+      if (isRequiredFieldsError(error)) {
+        notifyRequiredFieldsError(error);
+        return false;
+      }
+
+      if (isConflictError(error)) {
+        toast({
+          title: "Report Changed Elsewhere",
+          description: "This report was modified after you opened it. Reopen it to see the latest version.",
+          variant: "destructive",
+        });
+        return false;
+      }
 
       toast({
-        title: "Report Updated Successfully",
-        description: "Your field report has been updated.",
+        title: "Error",
+        description: "Failed to update report. Please try again.",
+        variant: "destructive",
       });
+      return false;
+    }
+  };
+
+  // Quietly keep a server-side copy of a draft being written; no toasts or list reload
+  const saveDraft = async (reportId: string, reportData: Omit<Report, 'id' | 'createdAt'>) => {
+    const existing = reports.find(r => r.id === reportId);
+
+    // Never pull a submitted report back to draft
+    if (existing && existing.status !== 'draft') return false;
+
+    try {
+      const userId = await getSessionUserId();
+      if (!userId) return false;
+
+      const draftData = { ...reportData, status: 'draft' as const };
+      markOwnWrite(reportId);
+      const baseUpdatedAt = existing?.updatedAt ?? null;
+      let updatedAt: string | undefined;
+
+      const result = await saveOrQueue(
+        { reportId, userId, kind: existing ? 'update' : 'create', reportData: draftData, baseUpdatedAt },
+        async () => {
+          await persistReport(userId, draftData, { reportId, isNew: !existing, expectedUpdatedAt: baseUpdatedAt });
+
+          // Keep the conflict check for the next save pointed at this write
+          const { data } = await supabase.from('reports').select('updated_at').eq('id', reportId).single();
+          updatedAt = data?.updated_at;
+        }
+      );
+
+      queryClient.setQueryData<Report[]>(listKey, (current = []) => [
+        {
+          ...existing,
+          ...draftData,
+          id: reportId,
+          userId,
+          createdAt: existing?.createdAt ?? new Date().toISOString(),
+          updatedAt: updatedAt ?? existing?.updatedAt,
+          syncState: result === 'queued' ? 'pending' : existing?.syncState,
+        },
+        ...current.filter(r => r.id !== reportId),
+      ]);
 
       return true;
     } catch (error) {
-      console.error('Error updating report:', error);
+      console.error('Error autosaving draft:', error);
+      return false;
+    }
+  };
+
+  // Move a report through the approval workflow
+  const updateReportStatus = async (reportId: string, status: ReportStatus, reviewNote?: string) => {
+    try {
+      await statusMutation.mutateAsync({ reportId, status, reviewNote });
+
+      toast({
+        title: "Report Status Updated",
+        description: `The report is now ${status}.`,
+      });
+
+      return true;
+    } catch (error) {
+      console.error('Error updating report status:', error);
+
+      if (isPolicyError(error)) {
+        notifyPolicyError();
+        return false;
+      }
+
+      if (isRequiredFieldsError(error)) {
+        notifyRequiredFieldsError(error);
+        return false;
+      }
+
+      if (isAwaitingResponseError(error)) {
+        toast({
+          title: "Response Required",
+          description: "The officer has to answer or you have to resolve the flagged comments before this report can be approved.",
+          variant: "destructive",
+        });
+        return false;
+      }
+
       toast({
         title: "Error",
-        description: "Failed to update report. Please try again.",
+        description: "Failed to update report status. Please try again.",
         variant: "destructive",
       });
       return false;
     }
   };
 
-  // Delete a report
+  // Move a report to the trash
   const deleteReport = async (reportId: string) => {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
+      const userId = await getSessionUserId();
       
-      if (!user) {
+      if (!userId) {
         toast({
           title: "Authentication Required",
           description: "Please sign in to delete reports.",
@@ -225,25 +739,31 @@ export const useReports = () => {
         return false;
       }
 
-      const { error } = await supabase
-        .from('reports')
-        .delete()
-        .eq('id', reportId)
-        .eq('user_id', user.id);
-
-      if (error) throw error;
+      const baseUpdatedAt = reports.find(r => r.id === reportId)?.updatedAt ?? null;
 
-      // Refresh reports list
-      await fetchReports();
+      const result = await deleteMutation.mutateAsync({ userId, reportId, baseUpdatedAt });
 
       toast({
-        title: "Report Deleted",
-        description: "The report has been successfully deleted.",
+        title: "Report Moved to Trash",
+        description: result === 'queued'
+          ? "You're offline. The report will be moved to the trash when you reconnect."
+          : `You can restore it from the trash for ${TRASH_RETENTION_DAYS} days.`,
+        action: undoToastAction(() => restoreReport(reportId)),
       });
 
       return true;
     } catch (error) {
       console.error('Error deleting report:', error);
+
+      if (isConflictError(error)) {
+        toast({
+          title: "Report Changed Elsewhere",
+          description: "This report was modified after you loaded it, so it was not deleted.",
+          variant: "destructive",
+        });
+        return false;
+      }
+
       toast({
         title: "Error",
         description: "Failed to delete report. Please try again.",
@@ -253,16 +773,191 @@ export const useReports = () => {
     }
   };
 
+  // Take a report back out of the trash; a delete still waiting offline is simply dropped
+  const restoreReport = async (reportId: string) => {
+    try {
+      const queued = await getQueueEntry(reportId).catch(() => undefined);
+
+      if (queued?.kind === 'delete') {
+        await removeFromQueue(reportId);
+      } else {
+        markOwnWrite(reportId);
+        const { error } = await supabase.rpc('restore_trashed_report', { _report_id: reportId });
+        if (error) throw error;
+      }
+
+      await refreshReports();
+
+      toast({
+        title: "Report Restored",
+        description: "The report is back in your list.",
+      });
+
+      return true;
+    } catch (error) {
+      console.error('Error restoring report:', error);
+      toast({
+        title: "Error",
+        description: "Failed to restore report. Please try again.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  // Retry a queued change; for conflicts this keeps the local version
+  const retrySync = async (reportId: string) => {
+    try {
+      const entry = await getQueueEntry(reportId);
+      if (!entry) return false;
+
+      await putQueueEntry({
+        ...entry,
+        status: 'pending',
+        error: undefined,
+        ...(entry.status === 'conflict' && { baseUpdatedAt: null }),
+      });
+
+      await refreshReports();
+      await syncQueue();
+      return true;
+    } catch (error) {
+      console.error('Error retrying sync:', error);
+      toast({
+        title: "Error",
+        description: "Failed to retry the queued change. Please try again.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  // Drop a queued change and go back to the server's version
+  const discardLocalChanges = async (reportId: string) => {
+    try {
+      await removeFromQueue(reportId);
+      await refreshReports();
+      return true;
+    } catch (error) {
+      console.error('Error discarding local changes:', error);
+      toast({
+        title: "Error",
+        description: "Failed to discard local changes. Please try again.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  // Merge changes made elsewhere (another tab, the officer's phone, a supervisor's review) into the cache
+  useEffect(() => {
+    let cancelled = false;
+    let channel: RealtimeChannel | null = null;
+    let batchTimer: ReturnType<typeof setTimeout> | undefined;
+    const changed = new Set<string>();
+
+    const isOwnWrite = (reportId: string) =>
+      Date.now() - (ownWritesRef.current.get(reportId) ?? 0) < OWN_WRITE_WINDOW_MS;
+
+    const applyRemoteChanges = async (userId: string) => {
+      const reportIds = [...changed].filter(id => !isOwnWrite(id));
+      changed.clear();
+      if (reportIds.length === 0) return;
+
+      try {
+        const updated = await reportService.getByIds(reportIds);
+        if (cancelled) return;
+
+        const inScope = (report: Report) => (teamId ? report.teamId === teamId : report.userId === userId);
+        queryClient.setQueryData<Report[]>(listKey, (current = []) => reportIds.reduce((list, reportId) => {
+          const existing = list.find(r => r.id === reportId);
+          const server = updated.find(r => r.id === reportId);
+          // Local changes still waiting to sync win until they are replayed
+          if (existing?.syncState) return list;
+          return server && inScope(server) ? upsertReport(list, server) : list.filter(r => r.id !== reportId);
+        }, current));
+
+        const receivedAt = new Date().toISOString();
+        setLiveUpdates(prev => ({
+          ...prev,
+          ...Object.fromEntries(updated.map(report => [report.id, { updatedBy: report.updatedBy ?? null, receivedAt }])),
+        }));
+
+        await queryClient.invalidateQueries({ queryKey: reportKeys.histories() });
+        await queryClient.invalidateQueries({ queryKey: reportKeys.stats(teamId) });
+      } catch (error) {
+        console.error('Error applying realtime changes:', error);
+      }
+    };
+
+    const queueChange = (userId: string, reportId?: string) => {
+      if (!reportId) return;
+      changed.add(reportId);
+      clearTimeout(batchTimer);
+      batchTimer = setTimeout(() => applyRemoteChanges(userId), REALTIME_BATCH_MS);
+    };
+
+    getSessionUserId().then((userId) => {
+      if (cancelled || !userId) return;
+
+      const isCached = (reportId?: string) =>
+        !!queryClient.getQueryData<Report[]>(listKey)?.some(r => r.id === reportId);
+
+      channel = supabase
+        .channel(`reports:${teamId ?? userId}`)
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'reports',
+            filter: teamId ? `team_id=eq.${teamId}` : `user_id=eq.${userId}`,
+          },
+          (payload) => queueChange(userId, (payload.new as { id?: string }).id)
+        )
+        // Deletes can't be filtered and only carry the id, so match them against the cache
+        .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'reports' }, (payload) => {
+          const reportId = (payload.old as { id?: string }).id;
+          if (isCached(reportId)) queueChange(userId, reportId);
+        })
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'report_items' }, (payload) => {
+          const reportId = (payload.new as { report_id?: string }).report_id;
+          if (isCached(reportId)) queueChange(userId, reportId);
+        })
+        .subscribe();
+    });
+
+    return () => {
+      cancelled = true;
+      clearTimeout(batchTimer);
+      if (channel) supabase.removeChannel(channel);
+    };
+  }, [teamId, listKey, queryClient]);
+
+  // The replay below runs the latest syncQueue, but only starts when the connection changes
+  const syncQueueRef = useRef(syncQueue);
+  useEffect(() => {
+    syncQueueRef.current = syncQueue;
+  });
+
+  // Replay the offline queue on load and whenever the connection comes back
   useEffect(() => {
-    fetchReports();
-  }, []);
+    if (isOnline) syncQueueRef.current();
+  }, [isOnline]);
 
   return {
     reports,
     loading,
+    isOnline,
+    liveUpdates,
     createReport,
     updateReport,
+    saveDraft,
+    updateReportStatus,
     deleteReport,
-    refreshReports: fetchReports,
+    restoreReport,
+    retrySync,
+    discardLocalChanges,
+    refreshReports,
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,148 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { TransportIcon, TransportMode } from '@/types/transport';
+import { useToast } from '@/hooks/use-toast';
+import { resolveTransportModes } from '@/lib/transportModes';
+
+export type TransportModeInput = Pick<TransportMode, 'name' | 'icon' | 'color' | 'fareCapPerKm' | 'fareCapFlat'>;
+
+// Transport modes visible to the user; `modes` holds the active ones for the given organization
+export const useTransportModes = (organizationId?: string | null) => {
+  const [allModes, setAllModes] = useState<TransportMode[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const fetchModes = async () => {
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from('transport_modes')
+        .select('id, organization_id, name, icon, color, fare_cap_per_km, fare_cap_flat, is_active, sort_order')
+        .order('sort_order')
+        .order('name');
+
+      if (error) throw error;
+
+      setAllModes((data || []).map(mode => ({
+        id: mode.id,
+        organizationId: mode.organization_id,
+        name: mode.name,
+        icon: mode.icon as TransportIcon,
+        color: mode.color,
+        fareCapPerKm: mode.fare_cap_per_km !== null ? Number(mode.fare_cap_per_km) : null,
+        fareCapFlat: mode.fare_cap_flat !== null ? Number(mode.fare_cap_flat) : null,
+        isActive: mode.is_active,
+        sortOrder: mode.sort_order,
+      })));
+    } catch (error) {
+      console.error('Error fetching transport modes:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const createMode = async (targetOrganizationId: string, mode: TransportModeInput & { isActive?: boolean }) => {
+    try {
+      const { error } = await supabase
+        .from('transport_modes')
+        .insert({
+          organization_id: targetOrganizationId,
+          name: mode.name,
+          icon: mode.icon,
+          color: mode.color,
+          fare_cap_per_km: mode.fareCapPerKm,
+          fare_cap_flat: mode.fareCapFlat,
+          is_active: mode.isActive ?? true,
+          sort_order: allModes.filter(m => m.organizationId === targetOrganizationId).length + 1,
+        });
+
+      if (error) throw error;
+
+      await fetchModes();
+
+      if (mode.isActive !== false) {
+        toast({
+          title: "Transport Mode Added",
+          description: `${mode.name} is now available in the report form.`,
+        });
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error creating transport mode:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add transport mode. The name may already be in use.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const updateMode = async (modeId: string, changes: Partial<TransportModeInput> & { isActive?: boolean }) => {
+    try {
+      const { error } = await supabase
+        .from('transport_modes')
+        .update({
+          ...(changes.name !== undefined && { name: changes.name }),
+          ...(changes.icon !== undefined && { icon: changes.icon }),
+          ...(changes.color !== undefined && { color: changes.color }),
+          ...(changes.fareCapPerKm !== undefined && { fare_cap_per_km: changes.fareCapPerKm }),
+          ...(changes.fareCapFlat !== undefined && { fare_cap_flat: changes.fareCapFlat }),
+          ...(changes.isActive !== undefined && { is_active: changes.isActive }),
+        })
+        .eq('id', modeId);
+
+      if (error) throw error;
+
+      await fetchModes();
+      return true;
+    } catch (error) {
+      console.error('Error updating transport mode:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update transport mode. Please try again.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  // Past journey items keep the mode name, so deleting only removes it from the form
+  const deleteMode = async (modeId: string) => {
+    try {
+      const { error } = await supabase
+        .from('transport_modes')
+        .delete()
+        .eq('id', modeId);
+
+      if (error) throw error;
+
+      setAllModes(prev => prev.filter(m => m.id !== modeId));
+      return true;
+    } catch (error) {
+      console.error('Error deleting transport mode:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete transport mode. Please try again.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  useEffect(() => {
+    fetchModes();
+  }, []);
+
+  return {
+    modes: resolveTransportModes(allModes, organizationId).filter(mode => mode.isActive),
+    allModes,
+    loading,
+    createMode,
+    updateMode,
+    deleteMode,
+    refreshModes: fetchModes,
+  };
+};
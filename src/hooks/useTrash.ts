@@ -0,0 +1,109 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { ReportStatus, TrashedReport } from '@/types/report';
+import { useToast } from '@/hooks/use-toast';
+import { attachmentService } from '@/services/attachmentService';
+import { reportKeys } from '@/lib/queryKeys';
+
+// The signed-in user's deleted reports, most recently deleted first
+export const useTrash = (enabled = true) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const fetchTrash = async (): Promise<TrashedReport[]> => {
+    try {
+      const { data, error } = await supabase.rpc('list_trashed_reports');
+
+      if (error) throw error;
+
+      return (data || []).map(report => ({
+        id: report.id,
+        reportType: report.report_type,
+        reportDate: report.report_date,
+        description: report.description,
+        totalCost: Number(report.total_cost),
+        status: report.status as ReportStatus,
+        deletedAt: report.deleted_at,
+        purgeAt: report.purge_at,
+      }));
+    } catch (error) {
+      console.error('Error fetching trash:', error);
+      throw error;
+    }
+  };
+
+  const { data: trashedReports = [], isLoading: loading } = useQuery({
+    queryKey: reportKeys.trash(),
+    queryFn: fetchTrash,
+    enabled,
+  });
+
+  const restoreReport = async (reportId: string) => {
+    try {
+      const { error } = await supabase.rpc('restore_trashed_report', { _report_id: reportId });
+
+      if (error) throw error;
+
+      await queryClient.invalidateQueries({ queryKey: reportKeys.all });
+
+      toast({
+        title: "Report Restored",
+        description: "The report is back in your list.",
+      });
+
+      return true;
+    } catch (error) {
+      console.error('Error restoring report:', error);
+      toast({
+        title: "Error",
+        description: "Failed to restore report. Please try again.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  // Removes the report, its journeys and its photos for good; the files go first, as the
+  // database can't delete them
+  const purgeReport = async (reportId: string) => {
+    try {
+      const { data: attachments, error: listError } = await supabase.rpc('list_trashed_report_attachments', {
+        _report_id: reportId,
+      });
+
+      if (listError) throw listError;
+
+      await attachmentService.removeFiles((attachments || []).map(attachment => attachment.storage_path));
+
+      const { error } = await supabase.rpc('purge_trashed_report', { _report_id: reportId });
+
+      if (error) throw error;
+
+      queryClient.setQueryData<TrashedReport[]>(reportKeys.trash(), (current = []) =>
+        current.filter(r => r.id !== reportId)
+      );
+
+      toast({
+        title: "Report Deleted",
+        description: "The report has been permanently deleted.",
+      });
+
+      return true;
+    } catch (error) {
+      console.error('Error purging report:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete report. Please try again.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  return {
+    trashedReports,
+    loading,
+    restoreReport,
+    purgeReport,
+  };
+};
@@ -14,28 +14,693 @@ export type Database = {
   }
   public: {
     Tables: {
+      customers: {
+        Row: {
+          address: string | null
+          created_at: string
+          created_by: string | null
+          customer_ref: string | null
+          full_name: string
+          id: string
+          organization_id: string
+          phone: string | null
+          updated_at: string
+        }
+        Insert: {
+          address?: string | null
+          created_at?: string
+          created_by?: string | null
+          customer_ref?: string | null
+          full_name: string
+          id?: string
+          organization_id: string
+          phone?: string | null
+          updated_at?: string
+        }
+        Update: {
+          address?: string | null
+          created_at?: string
+          created_by?: string | null
+          customer_ref?: string | null
+          full_name?: string
+          id?: string
+          organization_id?: string
+          phone?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customers_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fare_policies: {
+        Row: {
+          created_at: string
+          id: string
+          is_active: boolean
+          location: string | null
+          max_cost: number
+          organization_id: string
+          policy_type: string
+          report_type: string | null
+          transport_mode: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          location?: string | null
+          max_cost: number
+          organization_id: string
+          policy_type: string
+          report_type?: string | null
+          transport_mode?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          location?: string | null
+          max_cost?: number
+          organization_id?: string
+          policy_type?: string
+          report_type?: string | null
+          transport_mode?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fare_policies_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      itineraries: {
+        Row: {
+          created_at: string
+          daily_limit: number
+          id: string
+          limit_type: string
+          organization_id: string | null
+          return_to_start: boolean
+          start_date: string
+          start_point: string
+          title: string
+          transport_mode: string | null
+          updated_at: string
+          user_id: string
+          visit_minutes: number
+        }
+        Insert: {
+          created_at?: string
+          daily_limit: number
+          id?: string
+          limit_type: string
+          organization_id?: string | null
+          return_to_start?: boolean
+          start_date: string
+          start_point: string
+          title: string
+          transport_mode?: string | null
+          updated_at?: string
+          user_id?: string
+          visit_minutes?: number
+        }
+        Update: {
+          created_at?: string
+          daily_limit?: number
+          id?: string
+          limit_type?: string
+          organization_id?: string | null
+          return_to_start?: boolean
+          start_date?: string
+          start_point?: string
+          title?: string
+          transport_mode?: string | null
+          updated_at?: string
+          user_id?: string
+          visit_minutes?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "itineraries_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      itinerary_visits: {
+        Row: {
+          created_at: string
+          due_date: string | null
+          estimated_cost: number
+          id: string
+          itinerary_id: string
+          location: string
+          notes: string | null
+          priority: string
+          report_id: string | null
+          report_type: string
+          scheduled_date: string | null
+          visit_order: number
+        }
+        Insert: {
+          created_at?: string
+          due_date?: string | null
+          estimated_cost?: number
+          id?: string
+          itinerary_id: string
+          location: string
+          notes?: string | null
+          priority?: string
+          report_id?: string | null
+          report_type: string
+          scheduled_date?: string | null
+          visit_order?: number
+        }
+        Update: {
+          created_at?: string
+          due_date?: string | null
+          estimated_cost?: number
+          id?: string
+          itinerary_id?: string
+          location?: string
+          notes?: string | null
+          priority?: string
+          report_id?: string | null
+          report_type?: string
+          scheduled_date?: string | null
+          visit_order?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "itinerary_visits_itinerary_id_fkey"
+            columns: ["itinerary_id"]
+            isOneToOne: false
+            referencedRelation: "itineraries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "itinerary_visits_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      locations: {
+        Row: {
+          aliases: string[]
+          created_at: string
+          id: string
+          latitude: number | null
+          lga: string | null
+          longitude: number | null
+          name: string
+          organization_id: string | null
+          state: string | null
+          updated_at: string
+        }
+        Insert: {
+          aliases?: string[]
+          created_at?: string
+          id?: string
+          latitude?: number | null
+          lga?: string | null
+          longitude?: number | null
+          name: string
+          organization_id?: string | null
+          state?: string | null
+          updated_at?: string
+        }
+        Update: {
+          aliases?: string[]
+          created_at?: string
+          id?: string
+          latitude?: number | null
+          lga?: string | null
+          longitude?: number | null
+          name?: string
+          organization_id?: string | null
+          state?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "locations_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      loans: {
+        Row: {
+          created_at: string
+          customer_id: string
+          disbursed_on: string | null
+          id: string
+          loan_reference: string
+          organization_id: string
+          principal: number | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          customer_id: string
+          disbursed_on?: string | null
+          id?: string
+          loan_reference: string
+          organization_id: string
+          principal?: number | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          customer_id?: string
+          disbursed_on?: string | null
+          id?: string
+          loan_reference?: string
+          organization_id?: string
+          principal?: number | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "loans_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loans_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_members: {
+        Row: {
+          created_at: string
+          email: string
+          organization_id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          organization_id: string
+          role?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          organization_id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      payees: {
+        Row: {
+          account_name: string
+          account_number: string
+          bank_code: string
+          bank_name: string
+          created_at: string
+          id: string
+          last_used_at: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          account_name: string
+          account_number: string
+          bank_code: string
+          bank_name: string
+          created_at?: string
+          id?: string
+          last_used_at?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          account_name?: string
+          account_number?: string
+          bank_code?: string
+          bank_name?: string
+          created_at?: string
+          id?: string
+          last_used_at?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      pdf_branding: {
+        Row: {
+          accent_color: string
+          address: string | null
+          created_at: string
+          default_template: string
+          footer_text: string
+          header_text: string | null
+          logo_path: string | null
+          organization_id: string
+          primary_color: string
+          signatory_name: string | null
+          signatory_title: string | null
+          updated_at: string
+        }
+        Insert: {
+          accent_color?: string
+          address?: string | null
+          created_at?: string
+          default_template?: string
+          footer_text?: string
+          header_text?: string | null
+          logo_path?: string | null
+          organization_id: string
+          primary_color?: string
+          signatory_name?: string | null
+          signatory_title?: string | null
+          updated_at?: string
+        }
+        Update: {
+          accent_color?: string
+          address?: string | null
+          created_at?: string
+          default_template?: string
+          footer_text?: string
+          header_text?: string | null
+          logo_path?: string | null
+          organization_id?: string
+          primary_color?: string
+          signatory_name?: string | null
+          signatory_title?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pdf_branding_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: true
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      report_audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          changed_at: string
+          id: number
+          new_data: Json | null
+          old_data: Json | null
+          organization_id: string | null
+          record_id: string
+          report_id: string
+          table_name: string
+          transaction_id: number
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          changed_at?: string
+          id?: number
+          new_data?: Json | null
+          old_data?: Json | null
+          organization_id?: string | null
+          record_id: string
+          report_id: string
+          table_name: string
+          transaction_id?: number
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          changed_at?: string
+          id?: number
+          new_data?: Json | null
+          old_data?: Json | null
+          organization_id?: string | null
+          record_id?: string
+          report_id?: string
+          table_name?: string
+          transaction_id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_audit_log_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      report_comments: {
+        Row: {
+          author_id: string
+          body: string
+          created_at: string
+          id: string
+          mentions: string[]
+          parent_id: string | null
+          report_id: string
+          report_item_id: string | null
+          requires_response: boolean
+          resolved_at: string | null
+          resolved_by: string | null
+        }
+        Insert: {
+          author_id?: string
+          body: string
+          created_at?: string
+          id?: string
+          mentions?: string[]
+          parent_id?: string | null
+          report_id: string
+          report_item_id?: string | null
+          requires_response?: boolean
+          resolved_at?: string | null
+          resolved_by?: string | null
+        }
+        Update: {
+          author_id?: string
+          body?: string
+          created_at?: string
+          id?: string
+          mentions?: string[]
+          parent_id?: string | null
+          report_id?: string
+          report_item_id?: string | null
+          requires_response?: boolean
+          resolved_at?: string | null
+          resolved_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "report_comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "report_comments_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "report_comments_report_item_id_fkey"
+            columns: ["report_item_id"]
+            isOneToOne: false
+            referencedRelation: "report_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      report_item_attachments: {
+        Row: {
+          content_type: string
+          created_at: string
+          file_name: string
+          id: string
+          report_item_id: string
+          size_bytes: number
+          storage_path: string
+          user_id: string
+        }
+        Insert: {
+          content_type: string
+          created_at?: string
+          file_name: string
+          id?: string
+          report_item_id: string
+          size_bytes: number
+          storage_path: string
+          user_id: string
+        }
+        Update: {
+          content_type?: string
+          created_at?: string
+          file_name?: string
+          id?: string
+          report_item_id?: string
+          size_bytes?: number
+          storage_path?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_item_attachments_report_item_id_fkey"
+            columns: ["report_item_id"]
+            isOneToOne: false
+            referencedRelation: "report_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      report_item_loans: {
+        Row: {
+          created_at: string
+          loan_id: string
+          report_item_id: string
+        }
+        Insert: {
+          created_at?: string
+          loan_id: string
+          report_item_id: string
+        }
+        Update: {
+          created_at?: string
+          loan_id?: string
+          report_item_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_item_loans_loan_id_fkey"
+            columns: ["loan_id"]
+            isOneToOne: false
+            referencedRelation: "loans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "report_item_loans_report_item_id_fkey"
+            columns: ["report_item_id"]
+            isOneToOne: false
+            referencedRelation: "report_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       report_items: {
         Row: {
+          captured_at: string | null
           cost: number
           created_at: string
           id: string
+          is_round_trip: boolean
+          justification: string | null
+          latitude: number | null
+          leg_order: number
           location: string
+          location_accuracy: number | null
+          longitude: number | null
+          origin: string | null
+          policy_violations: Json
           report_id: string
           transportation: string
         }
         Insert: {
+          captured_at?: string | null
           cost?: number
           created_at?: string
           id?: string
+          is_round_trip?: boolean
+          justification?: string | null
+          latitude?: number | null
+          leg_order?: number
           location: string
+          location_accuracy?: number | null
+          longitude?: number | null
+          origin?: string | null
+          policy_violations?: Json
           report_id: string
           transportation: string
         }
         Update: {
+          captured_at?: string | null
           cost?: number
           created_at?: string
           id?: string
+          is_round_trip?: boolean
+          justification?: string | null
+          latitude?: number | null
+          leg_order?: number
           location?: string
+          location_accuracy?: number | null
+          longitude?: number | null
+          origin?: string | null
+          policy_violations?: Json
           report_id?: string
           transportation?: string
         }
@@ -49,18 +714,103 @@ export type Database = {
           },
         ]
       }
+      report_search: {
+        Row: {
+          document: unknown
+          report_id: string
+        }
+        Insert: {
+          document: unknown
+          report_id: string
+        }
+        Update: {
+          document?: unknown
+          report_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_search_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: true
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      report_types: {
+        Row: {
+          color: string
+          created_at: string
+          id: string
+          is_active: boolean
+          label: string
+          organization_id: string | null
+          pdf_title: string | null
+          required_fields: string[]
+          slug: string
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          label: string
+          organization_id?: string | null
+          pdf_title?: string | null
+          required_fields?: string[]
+          slug: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          label?: string
+          organization_id?: string | null
+          pdf_title?: string | null
+          required_fields?: string[]
+          slug?: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_types_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       reports: {
         Row: {
           account_name: string | null
           account_number: string | null
           bank_name: string | null
           created_at: string
+          deleted_at: string | null
+          deleted_by: string | null
           description: string | null
           id: string
+          organization_id: string | null
+          outcome: Json | null
+          paid_at: string | null
           report_date: string
           report_type: string
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          submitted_at: string | null
+          team_id: string | null
           total_cost: number
           updated_at: string
+          updated_by: string | null
           user_id: string
         }
         Insert: {
@@ -68,12 +818,24 @@ export type Database = {
           account_number?: string | null
           bank_name?: string | null
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
           id?: string
+          organization_id?: string | null
+          outcome?: Json | null
+          paid_at?: string | null
           report_date: string
           report_type: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          submitted_at?: string | null
+          team_id?: string | null
           total_cost?: number
           updated_at?: string
+          updated_by?: string | null
           user_id: string
         }
         Update: {
@@ -81,22 +843,347 @@ export type Database = {
           account_number?: string | null
           bank_name?: string | null
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
           id?: string
+          organization_id?: string | null
+          outcome?: Json | null
+          paid_at?: string | null
           report_date?: string
           report_type?: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          submitted_at?: string | null
+          team_id?: string | null
           total_cost?: number
           updated_at?: string
+          updated_by?: string | null
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "reports_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reports_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      team_members: {
+        Row: {
+          created_at: string
+          team_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          team_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          team_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_members_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      teams: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          organization_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          organization_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          organization_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "teams_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transport_modes: {
+        Row: {
+          color: string
+          created_at: string
+          fare_cap_flat: number | null
+          fare_cap_per_km: number | null
+          icon: string
+          id: string
+          is_active: boolean
+          name: string
+          organization_id: string | null
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          fare_cap_flat?: number | null
+          fare_cap_per_km?: number | null
+          icon?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          organization_id?: string | null
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          fare_cap_flat?: number | null
+          fare_cap_per_km?: number | null
+          icon?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          organization_id?: string | null
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transport_modes_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      add_organization_member: {
+        Args: { _organization_id: string; _email: string; _role: string }
+        Returns: string
+      }
+      apply_fare_policies: {
+        Args: { _report_id: string }
+        Returns: number
+      }
+      count_comments_awaiting_response: {
+        Args: { _report_id: string }
+        Returns: number
+      }
+      create_organization: {
+        Args: { _name: string }
+        Returns: string
+      }
+      describe_fare_policy_scope: {
+        Args: { _policy: Database["public"]["Tables"]["fare_policies"]["Row"] }
+        Returns: string
+      }
+      format_naira: {
+        Args: { _amount: number }
+        Returns: string
+      }
+      has_org_role: {
+        Args: { _organization_id: string; _roles: string[] }
+        Returns: boolean
+      }
+      has_team_role: {
+        Args: { _team_id: string; _roles: string[] }
+        Returns: boolean
+      }
+      is_active_report_type: {
+        Args: { _organization_id: string; _slug: string }
+        Returns: boolean
+      }
+      is_known_report_type: {
+        Args: { _organization_id: string; _slug: string }
+        Returns: boolean
+      }
+      is_org_member: {
+        Args: { _organization_id: string }
+        Returns: boolean
+      }
+      list_customer_visits: {
+        Args: { _customer_id: string }
+        Returns: {
+          loan_id: string
+          report_id: string
+          report_item_id: string
+          report_date: string
+          report_type: string
+          status: string
+          user_id: string
+          origin: string | null
+          location: string
+          transportation: string
+          cost: number
+          allocated_cost: number
+        }[]
+      }
+      list_expired_report_attachments: {
+        Args: { _cutoff: string }
+        Returns: {
+          storage_path: string
+        }[]
+      }
+      list_item_locations: {
+        Args: { _organization_id: string }
+        Returns: {
+          location: string
+          item_count: number
+        }[]
+      }
+      list_trashed_report_attachments: {
+        Args: { _report_id: string }
+        Returns: {
+          storage_path: string
+        }[]
+      }
+      list_trashed_reports: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          id: string
+          report_type: string
+          report_date: string
+          description: string | null
+          total_cost: number
+          status: string
+          deleted_at: string
+          purge_at: string
+        }[]
+      }
+      merge_item_locations: {
+        Args: { _organization_id: string; _location_id: string; _variants: string[] }
+        Returns: number
+      }
+      purge_expired_reports: {
+        Args: { _cutoff: string }
+        Returns: number
+      }
+      purge_trashed_report: {
+        Args: { _report_id: string }
+        Returns: undefined
+      }
+      refresh_report_search: {
+        Args: { _report_id: string }
+        Returns: undefined
+      }
+      report_comment_summaries: {
+        Args: { _report_ids: string[] }
+        Returns: {
+          report_id: string
+          open_threads: number
+          awaiting_response: number
+          mentions_me: boolean
+        }[]
+      }
+      report_journey_stats: {
+        Args: { _team_id?: string; _high_cost?: number }
+        Returns: {
+          month: string
+          report_type: string
+          outcomes: string[]
+          location: string
+          transportation: string
+          journeys: number
+          total_cost: number
+          high_cost_journeys: number
+          high_cost_total: number
+        }[]
+      }
+      report_outcome_tags: {
+        Args: { _outcome: Json }
+        Returns: string[]
+      }
+      report_stats: {
+        Args: { _team_id?: string }
+        Returns: {
+          month: string
+          report_type: string
+          outcomes: string[]
+          reports: number
+        }[]
+      }
+      resolve_report_comment: {
+        Args: { _comment_id: string; _resolved?: boolean }
+        Returns: undefined
+      }
+      restore_report_version: {
+        Args: { _report_id: string; _transaction_id: number }
+        Returns: undefined
+      }
+      restore_trashed_report: {
+        Args: { _report_id: string }
+        Returns: undefined
+      }
+      save_itinerary: {
+        Args: { _itinerary: Json; _visits: Json }
+        Returns: string
+      }
+      save_report: {
+        Args: {
+          _report: Json
+          _items: Json
+          _report_id?: string
+          _expected_updated_at?: string
+        }
+        Returns: string
+      }
+      search_reports: {
+        Args: {
+          _team_id?: string
+          _query?: string
+          _report_type?: string
+          _status?: string
+          _date_from?: string
+          _date_to?: string
+          _min_cost?: number
+          _max_cost?: number
+          _transport_mode?: string
+          _before_created_at?: string
+          _before_id?: string
+          _limit?: number
+        }
+        Returns: {
+          id: string
+          created_at: string
+        }[]
+      }
+      trash_report: {
+        Args: { _report_id: string; _expected_updated_at?: string }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,71 @@
+import { Bank } from '@/types/payee';
+
+export const NIGERIAN_BANKS: Bank[] = [
+  { code: '044', name: 'Access Bank', usesNuban: true },
+  { code: '063', name: 'Access Bank (Diamond)', usesNuban: true },
+  { code: '023', name: 'Citibank Nigeria', usesNuban: true },
+  { code: '050', name: 'Ecobank Nigeria', usesNuban: true },
+  { code: '070', name: 'Fidelity Bank', usesNuban: true },
+  { code: '011', name: 'First Bank of Nigeria', usesNuban: true },
+  { code: '214', name: 'First City Monument Bank', usesNuban: true },
+  { code: '103', name: 'Globus Bank', usesNuban: true },
+  { code: '058', name: 'Guaranty Trust Bank', usesNuban: true },
+  { code: '030', name: 'Heritage Bank', usesNuban: true },
+  { code: '301', name: 'Jaiz Bank', usesNuban: true },
+  { code: '082', name: 'Keystone Bank', usesNuban: true },
+  { code: '303', name: 'Lotus Bank', usesNuban: true },
+  { code: '107', name: 'Optimus Bank', usesNuban: true },
+  { code: '104', name: 'Parallex Bank', usesNuban: true },
+  { code: '076', name: 'Polaris Bank', usesNuban: true },
+  { code: '105', name: 'PremiumTrust Bank', usesNuban: true },
+  { code: '101', name: 'Providus Bank', usesNuban: true },
+  { code: '106', name: 'Signature Bank', usesNuban: true },
+  { code: '221', name: 'Stanbic IBTC Bank', usesNuban: true },
+  { code: '068', name: 'Standard Chartered Bank', usesNuban: true },
+  { code: '232', name: 'Sterling Bank', usesNuban: true },
+  { code: '100', name: 'SunTrust Bank', usesNuban: true },
+  { code: '302', name: 'TAJ Bank', usesNuban: true },
+  { code: '102', name: 'Titan Trust Bank', usesNuban: true },
+  { code: '032', name: 'Union Bank of Nigeria', usesNuban: true },
+  { code: '033', name: 'United Bank for Africa', usesNuban: true },
+  { code: '215', name: 'Unity Bank', usesNuban: true },
+  { code: '035', name: 'Wema Bank', usesNuban: true },
+  { code: '057', name: 'Zenith Bank', usesNuban: true },
+  // Wallet and microfinance accounts are often phone-number based, so only the length is checked
+  { code: '50211', name: 'Kuda Microfinance Bank', usesNuban: false },
+  { code: '50515', name: 'Moniepoint Microfinance Bank', usesNuban: false },
+  { code: '999992', name: 'OPay', usesNuban: false },
+  { code: '999991', name: 'PalmPay', usesNuban: false },
+  { code: '566', name: 'VFD Microfinance Bank', usesNuban: false },
+];
+
+const NUBAN_WEIGHTS = [3, 7, 3, 3, 7, 3, 3, 7, 3, 3, 7, 3];
+
+export const findBankByCode = (code: string) => NIGERIAN_BANKS.find(bank => bank.code === code);
+
+// Older reports stored free-text bank names, so match loosely
+export const findBankByName = (name: string) => {
+  const normalized = name.trim().toLowerCase();
+  if (!normalized) return undefined;
+  return NIGERIAN_BANKS.find(bank => bank.name.toLowerCase() === normalized);
+};
+
+// CBN NUBAN: the 10th digit is a weighted checksum of the bank code and 9-digit serial
+export const isValidNuban = (accountNumber: string, bankCode: string) => {
+  if (!/^\d{10}$/.test(accountNumber) || !/^\d{3}$/.test(bankCode)) return false;
+
+  const digits = `${bankCode}${accountNumber.slice(0, 9)}`.split('').map(Number);
+  const sum = digits.reduce((total, digit, i) => total + digit * NUBAN_WEIGHTS[i], 0);
+  const checkDigit = (10 - (sum % 10)) % 10;
+
+  return checkDigit === Number(accountNumber[9]);
+};
+
+// Returns a message describing what is wrong with the account number, or null if it looks right
+export const validateAccountNumber = (accountNumber: string, bank?: Bank) => {
+  if (!/^\d{10}$/.test(accountNumber)) return 'Account numbers must be exactly 10 digits.';
+  if (bank?.usesNuban && !isValidNuban(accountNumber, bank.code)) {
+    return `This is not a valid ${bank.name} account number. Please check it for typos.`;
+  }
+  return null;
+};
@@ -0,0 +1,71 @@
+import { KnownLocation } from '@/types/location';
+import { GeoPoint, Report } from '@/types/report';
+import { centroid } from '@/lib/geo';
+import { resolveLocation } from '@/lib/gazetteer';
+
+// A visited place as drawn on the coverage map
+export interface CoveragePoint {
+  name: string;
+  coordinates: GeoPoint;
+  visitCount: number;
+  totalCost: number;
+  averageCost: number;
+  lastVisited: string;
+}
+
+export interface Coverage {
+  points: CoveragePoint[];
+  // Places with neither gazetteer coordinates nor check-ins to position them
+  unplaced: string[];
+}
+
+// Visits grouped by gazetteer entry so aliases count together, placed at the entry's
+// coordinates or, for places not in the gazetteer, the centroid of their check-ins
+export const getCoverage = (reports: Report[], locations: KnownLocation[]): Coverage => {
+  const byPlace = new Map<string, {
+    known?: KnownLocation;
+    checkIns: GeoPoint[];
+    costs: number[];
+    lastVisited: string;
+  }>();
+
+  reports.forEach(report => {
+    report.items.filter(item => item.location.trim()).forEach(item => {
+      const known = resolveLocation(item.location, locations);
+      const name = known?.name ?? item.location.trim();
+      const place = byPlace.get(name) ?? { known, checkIns: [], costs: [], lastVisited: report.reportDate };
+
+      place.costs.push(item.cost);
+      if (item.checkIn) place.checkIns.push(item.checkIn.coordinates);
+      if (report.reportDate > place.lastVisited) place.lastVisited = report.reportDate;
+      byPlace.set(name, place);
+    });
+  });
+
+  const points: CoveragePoint[] = [];
+  const unplaced: string[] = [];
+  byPlace.forEach((place, name) => {
+    const coordinates = place.known?.coordinates ?? centroid(place.checkIns);
+    if (!coordinates) {
+      unplaced.push(name);
+      return;
+    }
+    const totalCost = place.costs.reduce((sum, cost) => sum + cost, 0);
+    points.push({
+      name,
+      coordinates,
+      visitCount: place.costs.length,
+      totalCost,
+      averageCost: totalCost / place.costs.length,
+      lastVisited: place.lastVisited,
+    });
+  });
+
+  return { points, unplaced };
+};
+
+// Green for the cheapest places through to red for the most expensive
+export const getCostColor = (cost: number, min: number, max: number) => {
+  const share = max > min ? (cost - min) / (max - min) : 0;
+  return `hsl(${Math.round(120 * (1 - share))}, 75%, 45%)`;
+};
@@ -0,0 +1,101 @@
+import { FarePolicy, PolicyViolation } from '@/types/policy';
+import { Report, ReportItem, ReportStatus } from '@/types/report';
+import { ReportTypeDefinition } from '@/types/reportType';
+import { TransportMode } from '@/types/transport';
+import { findTransportMode } from '@/lib/transportModes';
+import { getReportTypeLabel } from '@/lib/reportTypes';
+
+// Reports whose journeys count towards an officer's daily caps
+const COUNTED_STATUSES: ReportStatus[] = ['submitted', 'approved', 'paid'];
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+const formatNaira = (amount: number) => `₦${amount.toLocaleString()}`;
+
+const matchesPolicy = (policy: FarePolicy, item: Pick<ReportItem, 'location' | 'transportation'>) =>
+  (!policy.transportMode || normalize(policy.transportMode) === normalize(item.transportation))
+  && (!policy.location || normalize(policy.location) === normalize(item.location));
+
+// Which journeys a policy covers, e.g. "Keke journeys to Lekki on Recovery reports"
+export const describePolicyScope = (policy: FarePolicy, reportTypes: ReportTypeDefinition[] = []) => {
+  const reportType = policy.reportType && getReportTypeLabel(reportTypes, policy.reportType);
+  return [
+    policy.transportMode ? `${policy.transportMode} journeys` : 'journeys',
+    policy.location && `to ${policy.location}`,
+    reportType && `on ${reportType} reports`,
+  ].filter(Boolean).join(' ');
+};
+
+interface FarePolicyContext {
+  reportType: string;
+  reportDate: string;
+  policies: FarePolicy[];
+  // Active transport modes, whose fare caps are checked too
+  modes: TransportMode[];
+  // The officer's other reports; submitted ones on the same date count towards daily caps
+  otherReports: Report[];
+  // Labels the report type in violation messages
+  reportTypes?: ReportTypeDefinition[];
+}
+
+// Check journeys the way the server does on submit, keyed by item id.
+// A daily cap that is exceeded is flagged on the most expensive matching journey.
+export const evaluateFarePolicies = (items: ReportItem[], context: FarePolicyContext) => {
+  const { reportType, reportDate, policies, modes, otherReports, reportTypes = [] } = context;
+  const violations: Record<string, PolicyViolation[]> = Object.fromEntries(items.map(item => [item.id, []]));
+  const applicable = policies.filter(policy => policy.isActive && (!policy.reportType || policy.reportType === reportType));
+
+  items.forEach(item => {
+    applicable
+      .filter(policy => policy.policyType === 'max_item_cost' && matchesPolicy(policy, item) && item.cost > policy.maxCost)
+      .forEach(policy => violations[item.id].push({
+        kind: 'max_item_cost',
+        policyId: policy.id,
+        limit: policy.maxCost,
+        actual: item.cost,
+        message: `${formatNaira(item.cost)} is above the ${formatNaira(policy.maxCost)} limit for ${describePolicyScope(policy, reportTypes)}`,
+      }));
+
+    const mode = findTransportMode(modes, item.transportation);
+    if (mode?.fareCapFlat && item.cost > mode.fareCapFlat) {
+      violations[item.id].push({
+        kind: 'mode_fare_cap',
+        policyId: mode.id,
+        limit: mode.fareCapFlat,
+        actual: item.cost,
+        message: `${formatNaira(item.cost)} is above the ${mode.name} fare cap of ${formatNaira(mode.fareCapFlat)}`,
+      });
+    }
+  });
+
+  const sameDayReports = otherReports.filter(report =>
+    report.reportDate === reportDate && COUNTED_STATUSES.includes(report.status)
+  );
+
+  applicable
+    .filter(policy => policy.policyType === 'max_daily_total')
+    .forEach(policy => {
+      const matching = items.filter(item => matchesPolicy(policy, item));
+      const earlier = sameDayReports
+        .filter(report => !policy.reportType || report.reportType === policy.reportType)
+        .flatMap(report => report.items)
+        .filter(item => matchesPolicy(policy, item));
+      const dayTotal = [...matching, ...earlier].reduce((sum, item) => sum + item.cost, 0);
+
+      if (dayTotal <= policy.maxCost || matching.length === 0) return;
+
+      const flagged = [...matching].sort((a, b) => b.cost - a.cost || a.id.localeCompare(b.id))[0];
+      violations[flagged.id].push({
+        kind: 'max_daily_total',
+        policyId: policy.id,
+        limit: policy.maxCost,
+        actual: dayTotal,
+        message: `Day total of ${formatNaira(dayTotal)} is above the ${formatNaira(policy.maxCost)} daily limit for ${describePolicyScope(policy, reportTypes)}`,
+      });
+    });
+
+  return violations;
+};
+
+export const countFlaggedItems = (items: ReportItem[]) =>
+  items.filter(item => (item.policyViolations || []).length > 0).length;
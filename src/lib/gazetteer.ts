@@ -0,0 +1,106 @@
+import { KnownLocation } from '@/types/location';
+
+// Entries less similar than this are not offered as a correction
+const SUGGESTION_THRESHOLD = 0.8;
+const SEARCH_THRESHOLD = 0.6;
+
+const ABBREVIATIONS: Record<string, string> = {
+  ph: 'phase',
+  rd: 'road',
+  st: 'street',
+  str: 'street',
+  ave: 'avenue',
+  est: 'estate',
+};
+
+// "Lekki, Phase 1", "lekki ph1" and "Lekki Phase 1" all become "lekki phase 1"
+export const normalizeLocationName = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/([a-z])(\d)/g, '$1 $2')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .map(word => ABBREVIATIONS[word] ?? word)
+    .join(' ');
+
+// Spaces removed as well, so "V.I." and "VI" compare equal
+const toKey = (name: string) => normalizeLocationName(name).replace(/ /g, '');
+
+const getKeys = (location: KnownLocation) => [location.name, ...location.aliases].map(toKey);
+
+const levenshtein = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const similarity = (a: string, b: string) => {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - levenshtein(a, b) / longest;
+};
+
+// Best score of a name against a location's canonical name and aliases
+const scoreLocation = (location: KnownLocation, key: string) =>
+  Math.max(...getKeys(location).map(candidate => similarity(candidate, key)));
+
+// The entry a name refers to, by canonical name or alias
+export const resolveLocation = (name: string, locations: KnownLocation[]) => {
+  const key = toKey(name);
+  if (!key) return undefined;
+  return locations.find(location => getKeys(location).includes(key));
+};
+
+// A likely canonical entry for a misspelt name, or null when nothing is close enough
+export const suggestLocation = (name: string, locations: KnownLocation[]) => {
+  const key = toKey(name);
+  if (!key) return null;
+
+  const resolved = resolveLocation(name, locations);
+  if (resolved) return resolved;
+
+  let best: KnownLocation | null = null;
+  let bestScore = SUGGESTION_THRESHOLD;
+  for (const location of locations) {
+    const score = scoreLocation(location, key);
+    if (score >= bestScore) {
+      best = location;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+// Autocomplete matches: prefixes first, then other substrings, then close spellings
+export const searchLocations = (query: string, locations: KnownLocation[], limit = 6) => {
+  const key = toKey(query);
+  if (!key) return [];
+
+  return locations
+    .map(location => {
+      const keys = getKeys(location);
+      const score = keys.some(candidate => candidate.startsWith(key))
+        ? 3
+        : keys.some(candidate => candidate.includes(key))
+          ? 2
+          : scoreLocation(location, key);
+      return { location, score };
+    })
+    .filter(({ score }) => score >= SEARCH_THRESHOLD)
+    .sort((a, b) => b.score - a.score || a.location.name.localeCompare(b.location.name))
+    .slice(0, limit)
+    .map(({ location }) => location);
+};
+
+export const formatLocationArea = (location: KnownLocation) =>
+  [location.lga, location.state].filter(Boolean).join(', ');
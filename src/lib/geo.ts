@@ -0,0 +1,43 @@
+import { CheckIn, GeoPoint } from '@/types/report';
+
+// Check-ins further than this from the declared location are flagged for review
+export const CHECK_IN_MISMATCH_KM = 3;
+
+const EARTH_RADIUS_KM = 6371;
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+export const haversineKm = (a: GeoPoint, b: GeoPoint) => {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+};
+
+export const centroid = (points: GeoPoint[]): GeoPoint | undefined => {
+  if (points.length === 0) return undefined;
+  return {
+    lat: points.reduce((sum, p) => sum + p.lat, 0) / points.length,
+    lng: points.reduce((sum, p) => sum + p.lng, 0) / points.length,
+  };
+};
+
+export const getCurrentCheckIn = () =>
+  new Promise<CheckIn>((resolve, reject) => {
+    if (!('geolocation' in navigator)) {
+      reject(new Error('Geolocation is not supported on this device'));
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve({
+        coordinates: { lat: position.coords.latitude, lng: position.coords.longitude },
+        accuracy: position.coords.accuracy ?? null,
+        capturedAt: new Date(position.timestamp).toISOString(),
+      }),
+      (error) => reject(new Error(error.message)),
+      { enableHighAccuracy: true, timeout: 15000, maximumAge: 60000 }
+    );
+  });
+
+export const formatCoordinates = ({ lat, lng }: GeoPoint) => `${lat.toFixed(5)}, ${lng.toFixed(5)}`;
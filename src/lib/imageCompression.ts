@@ -0,0 +1,28 @@
+// Downscale and re-encode photos before upload; officers are often on mobile data
+export const compressImage = async (file: File, maxDimension = 1600, quality = 0.7): Promise<Blob> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    bitmap.close();
+    throw new Error('Canvas is not supported in this browser');
+  }
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const compressed = await new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Image compression failed'))),
+      'image/jpeg',
+      quality
+    );
+  });
+
+  // Small JPEGs can grow when re-encoded; keep whichever is lighter
+  return file.type === 'image/jpeg' && file.size <= compressed.size ? file : compressed;
+};
@@ -0,0 +1,38 @@
+import { ReportItem } from '@/types/report';
+
+export interface JourneyLeg {
+  item: ReportItem;
+  // Recorded origin, else the previous leg's destination; null for the first legacy item
+  from: string | null;
+  to: string;
+}
+
+// A single trip between two places, as counted for route analysis
+export interface RouteTrip {
+  from: string;
+  to: string;
+  cost: number;
+  transportation: string;
+}
+
+export const sortByLegOrder = <T extends Pick<ReportItem, 'legOrder'>>(items: T[]) =>
+  [...items].sort((a, b) => (a.legOrder ?? 0) - (b.legOrder ?? 0));
+
+export const getJourneyLegs = (items: ReportItem[]): JourneyLeg[] =>
+  sortByLegOrder(items).map((item, index, sorted) => ({
+    item,
+    from: item.origin?.trim() || (index > 0 ? sorted[index - 1].location : null),
+    to: item.location,
+  }));
+
+// Trips made on a report's journey; a round trip counts both ways, each at half the fare
+export const getRouteTrips = (items: ReportItem[]): RouteTrip[] =>
+  getJourneyLegs(items)
+    .filter(leg => leg.from && leg.from !== leg.to)
+    .flatMap(({ item, from, to }) => item.isRoundTrip
+      ? [
+          { from, to, cost: item.cost / 2, transportation: item.transportation },
+          { from: to, to: from, cost: item.cost / 2, transportation: item.transportation },
+        ]
+      : [{ from, to, cost: item.cost, transportation: item.transportation }]
+    );
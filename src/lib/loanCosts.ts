@@ -0,0 +1,35 @@
+import { CustomerVisit } from '@/types/customer';
+import { ReportStatus } from '@/types/report';
+
+// Fares count once a report is submitted; drafts and rejected reports may still change
+const COUNTED_STATUSES: ReportStatus[] = ['submitted', 'approved', 'paid'];
+
+export const isCountedVisit = (visit: Pick<CustomerVisit, 'status'>) => COUNTED_STATUSES.includes(visit.status);
+
+export interface LoanCostSummary {
+  journeyCount: number;
+  // Distinct days the loan was visited on
+  visitDays: number;
+  totalCost: number;
+  lastVisit: string | null;
+}
+
+// Transport spent on each loan, from its share of every counted journey
+export const summarizeLoanCosts = (visits: CustomerVisit[]) => {
+  const summaries = new Map<string, LoanCostSummary & { days: Set<string> }>();
+
+  visits.filter(isCountedVisit).forEach(visit => {
+    const summary = summaries.get(visit.loanId)
+      ?? { journeyCount: 0, visitDays: 0, totalCost: 0, lastVisit: null, days: new Set<string>() };
+    summary.journeyCount++;
+    summary.totalCost += visit.allocatedCost;
+    summary.days.add(visit.reportDate);
+    summary.visitDays = summary.days.size;
+    if (!summary.lastVisit || visit.reportDate > summary.lastVisit) summary.lastVisit = visit.reportDate;
+    summaries.set(visit.loanId, summary);
+  });
+
+  return new Map<string, LoanCostSummary>(
+    Array.from(summaries.entries()).map(([loanId, { days, ...summary }]) => [loanId, summary])
+  );
+};
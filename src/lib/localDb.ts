@@ -0,0 +1,46 @@
+// IndexedDB database holding everything the app keeps on the device
+const DB_NAME = 'fieldflow-offline';
+const DB_VERSION = 2;
+
+export const QUEUE_STORE = 'queue';
+export const REPORTS_STORE = 'reports';
+export const DRAFTS_STORE = 'drafts';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          db.createObjectStore(QUEUE_STORE, { keyPath: 'reportId' });
+          db.createObjectStore(REPORTS_STORE, { keyPath: 'scope' });
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore(DRAFTS_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
@@ -0,0 +1,13 @@
+import { LocalDraft } from '@/types/report';
+import { DRAFTS_STORE, runRequest } from '@/lib/localDb';
+
+export const listLocalDrafts = async (userId: string) => {
+  const drafts = await runRequest<LocalDraft[]>(DRAFTS_STORE, 'readonly', store => store.getAll());
+  return drafts.filter(draft => draft.userId === userId);
+};
+
+export const putLocalDraft = (draft: LocalDraft) =>
+  runRequest<IDBValidKey>(DRAFTS_STORE, 'readwrite', store => store.put(draft));
+
+export const deleteLocalDraft = (id: string) =>
+  runRequest<undefined>(DRAFTS_STORE, 'readwrite', store => store.delete(id));
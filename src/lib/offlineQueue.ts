@@ -0,0 +1,125 @@
+import { AttachmentChanges, Report, SyncState } from '@/types/report';
+import { QUEUE_STORE, REPORTS_STORE, runRequest } from '@/lib/localDb';
+
+export type QueuedReportData = Omit<Report, 'id' | 'createdAt'>;
+
+// One entry per report: later edits are folded into the change already waiting
+export interface QueueEntry {
+  reportId: string;
+  userId: string;
+  kind: 'create' | 'update' | 'delete';
+  reportData: QueuedReportData | null;
+  attachmentChanges: AttachmentChanges;
+  // updated_at of the server copy the change was based on; null to overwrite
+  baseUpdatedAt: string | null;
+  queuedAt: string;
+  changedAt: string;
+  status: SyncState;
+  error?: string;
+}
+
+interface CachedReports {
+  scope: string;
+  reports: Report[];
+  cachedAt: string;
+}
+
+const mergeAttachmentChanges = (
+  previous: AttachmentChanges,
+  next: AttachmentChanges,
+  reportData: QueuedReportData | null
+): AttachmentChanges => {
+  const itemIds = new Set((reportData?.items || []).map(item => item.id));
+  return {
+    added: [...previous.added, ...next.added].filter(pending => itemIds.has(pending.itemId)),
+    removed: [...previous.removed, ...next.removed],
+  };
+};
+
+export const listQueue = async (userId: string) => {
+  const entries = await runRequest<QueueEntry[]>(QUEUE_STORE, 'readonly', store => store.getAll());
+  return entries
+    .filter(entry => entry.userId === userId)
+    .sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+};
+
+export const getQueueEntry = (reportId: string) =>
+  runRequest<QueueEntry | undefined>(QUEUE_STORE, 'readonly', store => store.get(reportId));
+
+export const putQueueEntry = (entry: QueueEntry) =>
+  runRequest<IDBValidKey>(QUEUE_STORE, 'readwrite', store => store.put(entry));
+
+export const removeFromQueue = (reportId: string) =>
+  runRequest<undefined>(QUEUE_STORE, 'readwrite', store => store.delete(reportId));
+
+// Record a change, folding it into anything already queued for the same report
+export const enqueue = async (
+  change: Pick<QueueEntry, 'reportId' | 'userId' | 'kind' | 'reportData' | 'baseUpdatedAt'> & {
+    attachmentChanges?: AttachmentChanges;
+  }
+) => {
+  const previous = await getQueueEntry(change.reportId);
+  const attachmentChanges = change.attachmentChanges || { added: [], removed: [] };
+  const now = new Date().toISOString();
+
+  if (!previous) {
+    await putQueueEntry({
+      ...change,
+      attachmentChanges,
+      queuedAt: now,
+      changedAt: now,
+      status: 'pending',
+    });
+    return;
+  }
+
+  // Deleting a report the server has never seen just drops it
+  if (previous.kind === 'create' && change.kind === 'delete') {
+    await removeFromQueue(change.reportId);
+    return;
+  }
+
+  await putQueueEntry({
+    ...previous,
+    kind: previous.kind === 'create' ? 'create' : change.kind,
+    reportData: change.reportData,
+    attachmentChanges: mergeAttachmentChanges(previous.attachmentChanges, attachmentChanges, change.reportData),
+    changedAt: now,
+    status: previous.status === 'conflict' ? 'conflict' : 'pending',
+    error: undefined,
+  });
+};
+
+// Drop a replayed entry, keeping anything queued for the report while it was syncing
+export const completeQueueEntry = async (replayed: QueueEntry) => {
+  const latest = await getQueueEntry(replayed.reportId);
+  if (!latest || latest.changedAt === replayed.changedAt) {
+    await removeFromQueue(replayed.reportId);
+    return;
+  }
+
+  const uploadedIds = new Set(replayed.attachmentChanges.added.map(pending => pending.id));
+  const removedIds = new Set(replayed.attachmentChanges.removed.map(attachment => attachment.id));
+
+  // The server now holds what was just written, so the rest applies on top of it
+  await putQueueEntry({
+    ...latest,
+    kind: latest.kind === 'delete' ? 'delete' : 'update',
+    baseUpdatedAt: null,
+    attachmentChanges: {
+      added: latest.attachmentChanges.added.filter(pending => !uploadedIds.has(pending.id)),
+      removed: latest.attachmentChanges.removed.filter(attachment => !removedIds.has(attachment.id)),
+    },
+  });
+};
+
+// Last known server copy of a report list, shown while offline
+export const cacheReports = (scope: string, reports: Report[]) =>
+  runRequest<IDBValidKey>(REPORTS_STORE, 'readwrite', store =>
+    store.put({ scope, reports, cachedAt: new Date().toISOString() } as CachedReports)
+  );
+
+export const loadCachedReports = async (scope: string) => {
+  const cached = await runRequest<CachedReports | undefined>(REPORTS_STORE, 'readonly', store => store.get(scope));
+  return cached?.reports || [];
+};
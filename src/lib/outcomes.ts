@@ -0,0 +1,77 @@
+import { CONTACT_OUTCOMES, ReportOutcome, UTILISATION_CHECKS } from '@/types/outcome';
+
+export const createEmptyOutcome = (reportType: string): ReportOutcome | null => {
+  switch (reportType) {
+    case 'verification':
+      return { type: 'verification', addressConfirmed: false, businessSighted: false, photosTaken: false };
+    case 'recovery':
+      return { type: 'recovery', contactOutcome: null, amountCollected: null, promiseToPayDate: null };
+    case 'post-disbursement':
+      return { type: 'post-disbursement', checks: [] };
+    default:
+      return null;
+  }
+};
+
+// Why an outcome can't be submitted yet, if anything
+export const getOutcomeIssue = (outcome: ReportOutcome | null | undefined) => {
+  if (outcome?.type !== 'recovery') return null;
+  if (!outcome.contactOutcome) return 'Record who was met on the recovery visit.';
+  if (outcome.amountCollected !== null && outcome.amountCollected < 0) return 'The amount collected cannot be negative.';
+  return null;
+};
+
+export interface OutcomeFact {
+  label: string;
+  value: string;
+}
+
+const yesNo = (value: boolean) => value ? 'Yes' : 'No';
+
+// An outcome as label/value pairs, for the report viewer and PDF
+export const getOutcomeFacts = (outcome: ReportOutcome | null | undefined): OutcomeFact[] => {
+  switch (outcome?.type) {
+    case 'verification':
+      return [
+        { label: 'Address confirmed', value: yesNo(outcome.addressConfirmed) },
+        { label: 'Business sighted', value: yesNo(outcome.businessSighted) },
+        { label: 'Photos taken', value: yesNo(outcome.photosTaken) },
+      ];
+    case 'recovery':
+      return [
+        {
+          label: 'Contact',
+          value: CONTACT_OUTCOMES.find(c => c.value === outcome.contactOutcome)?.label ?? 'Not recorded',
+        },
+        { label: 'Amount collected', value: `₦${(outcome.amountCollected ?? 0).toLocaleString()}` },
+        {
+          label: 'Promise to pay',
+          value: outcome.promiseToPayDate ? new Date(outcome.promiseToPayDate).toLocaleDateString() : 'None',
+        },
+      ];
+    case 'post-disbursement':
+      return UTILISATION_CHECKS.map(check => ({
+        label: check.label,
+        value: yesNo(outcome.checks.includes(check.value)),
+      }));
+    default:
+      return [];
+  }
+};
+
+export const ANY_OUTCOME = 'any';
+
+// Outcome filters for analytics, each matching reports of one type; the server's
+// report_outcome_tags works out which filters a report matches
+export const OUTCOME_FILTERS = [
+  { value: 'address_confirmed', label: 'Address confirmed' },
+  { value: 'address_unconfirmed', label: 'Address not confirmed' },
+  { value: 'payment_collected', label: 'Payment collected' },
+  { value: 'promise_to_pay', label: 'Promise to pay' },
+  { value: 'no_contact', label: 'No contact made' },
+  { value: 'utilisation_complete', label: 'All utilisation checks met' },
+  { value: 'utilisation_gaps', label: 'Utilisation checks missed' },
+];
+
+export const matchesOutcomeFilter = (outcomes: string[], filter: string) =>
+  filter === ANY_OUTCOME || outcomes.includes(filter);
@@ -0,0 +1,26 @@
+import { ReportFilters } from '@/types/report';
+import { toReportFilterParams } from '@/lib/reportFilters';
+
+// Cache keys for report queries; invalidating `all` refreshes every list and history page
+export const reportKeys = {
+  all: ['reports'] as const,
+  list: (teamId?: string | null) => [...reportKeys.all, 'list', teamId ?? null] as const,
+  histories: () => [...reportKeys.all, 'history'] as const,
+  history: (teamId: string | null | undefined, filters: ReportFilters) =>
+    [...reportKeys.histories(), teamId ?? null, toReportFilterParams(filters).toString()] as const,
+  trash: () => [...reportKeys.all, 'trash'] as const,
+  stats: (teamId?: string | null) => [...reportKeys.all, 'stats', teamId ?? null] as const,
+  // Keyed on the report's last change so a new save loads the new version
+  versions: (reportId: string, updatedAt?: string) => [...reportKeys.all, 'versions', reportId, updatedAt ?? null] as const,
+};
+
+// Comments are keyed apart from reports so report refreshes don't reload every thread
+export const commentKeys = {
+  all: ['report-comments'] as const,
+  report: (reportId: string) => [...commentKeys.all, 'report', reportId] as const,
+  summaries: (reportIds: string[]) => [...commentKeys.all, 'summaries', [...reportIds].sort().join(',')] as const,
+};
+
+export const brandingKeys = {
+  organization: (organizationId?: string | null) => ['pdf-branding', organizationId ?? null] as const,
+};
@@ -0,0 +1,62 @@
+import { CommentThread, MentionCandidate, ReportComment } from '@/types/comment';
+
+// Same rule as count_comments_awaiting_response
+const isAwaitingResponse = (comment: ReportComment, replies: ReportComment[], reportOwnerId?: string) =>
+  comment.requiresResponse
+  && !comment.resolvedAt
+  && !replies.some(reply => reply.authorId === reportOwnerId);
+
+// Group comments into threads, oldest thread first
+export const buildCommentThreads = (comments: ReportComment[], reportOwnerId?: string): CommentThread[] => {
+  const replies = new Map<string, ReportComment[]>();
+  comments
+    .filter(comment => comment.parentId)
+    .forEach(comment => replies.set(comment.parentId, [...(replies.get(comment.parentId) ?? []), comment]));
+
+  return comments
+    .filter(comment => !comment.parentId)
+    .map(comment => {
+      const threadReplies = replies.get(comment.id) ?? [];
+      return {
+        comment,
+        replies: threadReplies,
+        awaitingResponse: isAwaitingResponse(comment, threadReplies, reportOwnerId),
+      };
+    });
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Matches `@email` for any of the candidates, longest email first so one can't cut another short
+const mentionPattern = (candidates: MentionCandidate[]) => {
+  const emails = candidates.map(c => c.email).filter(Boolean).sort((a, b) => b.length - a.length);
+  return emails.length > 0 ? new RegExp(`@(${emails.map(escapeRegExp).join('|')})`, 'gi') : null;
+};
+
+export const toMentionToken = (candidate: MentionCandidate) => `@${candidate.email}`;
+
+// Users mentioned in a comment body
+export const findMentions = (body: string, candidates: MentionCandidate[]) => {
+  const pattern = mentionPattern(candidates);
+  if (!pattern) return [];
+
+  const emails = new Set([...body.matchAll(pattern)].map(match => match[1].toLowerCase()));
+  return candidates.filter(c => emails.has(c.email.toLowerCase())).map(c => c.userId);
+};
+
+// Split a comment body into plain text and mentions for display
+export const splitMentions = (body: string, candidates: MentionCandidate[]) => {
+  const pattern = mentionPattern(candidates);
+  if (!pattern) return [{ text: body, isMention: false }];
+
+  const parts: { text: string; isMention: boolean }[] = [];
+  let lastIndex = 0;
+  for (const match of body.matchAll(pattern)) {
+    if (match.index > lastIndex) parts.push({ text: body.slice(lastIndex, match.index), isMention: false });
+    parts.push({ text: match[0], isMention: true });
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < body.length) parts.push({ text: body.slice(lastIndex), isMention: false });
+
+  return parts;
+};
@@ -0,0 +1,83 @@
+import { Report, ReportFilters, ReportStatus, REPORT_STATUSES } from '@/types/report';
+
+export const EMPTY_REPORT_FILTERS: ReportFilters = {
+  query: '',
+  reportType: null,
+  status: null,
+  dateFrom: null,
+  dateTo: null,
+  minCost: null,
+  maxCost: null,
+  transportMode: null,
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const parseDate = (value: string | null) => (value && DATE_PATTERN.test(value) ? value : null);
+
+const parseCost = (value: string | null) => {
+  if (!value) return null;
+  const amount = Number(value);
+  return Number.isFinite(amount) && amount >= 0 ? amount : null;
+};
+
+// Anything in the URL that isn't a valid filter is ignored rather than reported
+export const parseReportFilters = (params: URLSearchParams): ReportFilters => {
+  const status = params.get('status');
+
+  return {
+    query: params.get('q')?.trim() ?? '',
+    reportType: params.get('type') || null,
+    status: REPORT_STATUSES.some(s => s.value === status) ? status as ReportStatus : null,
+    dateFrom: parseDate(params.get('from')),
+    dateTo: parseDate(params.get('to')),
+    minCost: parseCost(params.get('min')),
+    maxCost: parseCost(params.get('max')),
+    transportMode: params.get('mode') || null,
+  };
+};
+
+// Only set filters are written, so an unfiltered view keeps a clean URL
+export const toReportFilterParams = (filters: ReportFilters) => {
+  const params = new URLSearchParams();
+  const entries: [string, string | number | null][] = [
+    ['q', filters.query.trim() || null],
+    ['type', filters.reportType],
+    ['status', filters.status],
+    ['from', filters.dateFrom],
+    ['to', filters.dateTo],
+    ['min', filters.minCost],
+    ['max', filters.maxCost],
+    ['mode', filters.transportMode],
+  ];
+
+  entries.forEach(([key, value]) => {
+    if (value !== null && value !== '') params.set(key, String(value));
+  });
+
+  return params;
+};
+
+export const REPORT_FILTER_PARAMS = ['q', 'type', 'status', 'from', 'to', 'min', 'max', 'mode'];
+
+export const hasActiveFilters = (filters: ReportFilters) => toReportFilterParams(filters).toString() !== '';
+
+// Same rules as the search_reports function, for reports only held on this device
+export const matchesReportFilters = (report: Report, filters: ReportFilters) => {
+  const words = filters.query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  const text = [report.description, ...report.items.flatMap(item => [item.origin, item.location])]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+
+  return words.every(word => text.includes(word))
+    && (!filters.reportType || report.reportType === filters.reportType)
+    && (!filters.status || report.status === filters.status)
+    && (!filters.dateFrom || report.reportDate >= filters.dateFrom)
+    && (!filters.dateTo || report.reportDate <= filters.dateTo)
+    && (filters.minCost === null || report.totalCost >= filters.minCost)
+    && (filters.maxCost === null || report.totalCost <= filters.maxCost)
+    && (!filters.transportMode || report.items.some(
+      item => item.transportation.toLowerCase() === filters.transportMode.toLowerCase()
+    ));
+};
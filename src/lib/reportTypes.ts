@@ -0,0 +1,56 @@
+import { Report, ReportItem } from '@/types/report';
+import { REQUIRED_REPORT_FIELDS, ReportTypeDefinition } from '@/types/reportType';
+
+export const DEFAULT_REPORT_TYPE_COLOR = '#6B7280';
+
+// Types that apply to an organization: its own, plus defaults it hasn't overridden by slug
+export const resolveReportTypes = (types: ReportTypeDefinition[], organizationId?: string | null) => {
+  const own = types.filter(type => organizationId && type.organizationId === organizationId);
+  const ownSlugs = new Set(own.map(type => type.slug));
+  const defaults = types.filter(type => !type.organizationId && !ownSlugs.has(type.slug));
+
+  return [...own, ...defaults].sort((a, b) => a.sortOrder - b.sortOrder || a.label.localeCompare(b.label));
+};
+
+export const findReportType = (types: ReportTypeDefinition[], slug: string) =>
+  types.find(type => type.slug === slug);
+
+// Reports keep the slug of a type that was since deleted, so fall back to a readable form of it
+export const getReportTypeLabel = (types: ReportTypeDefinition[], slug: string) =>
+  findReportType(types, slug)?.label
+    ?? slug.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+export const getReportTypeColor = (types: ReportTypeDefinition[], slug: string) =>
+  findReportType(types, slug)?.color ?? DEFAULT_REPORT_TYPE_COLOR;
+
+export const getReportTypePdfTitle = (types: ReportTypeDefinition[], slug: string) =>
+  findReportType(types, slug)?.pdfTitle?.trim() || `${getReportTypeLabel(types, slug)} Report`;
+
+// "Collateral Inspection" -> "collateral-inspection"
+export const toReportTypeSlug = (label: string) =>
+  label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+// Required fields of the report's type that are still empty
+export const getMissingRequiredFields = (
+  type: ReportTypeDefinition | undefined,
+  report: Pick<Report, 'description'> & { items: ReportItem[] },
+  photoCounts: Record<string, number> = {},
+) => {
+  if (!type) return [];
+
+  return REQUIRED_REPORT_FIELDS
+    .filter(field => type.requiredFields.includes(field.value))
+    .filter(field => {
+      switch (field.value) {
+        case 'description':
+          return !report.description.trim();
+        case 'check_in':
+          return report.items.some(item => !item.checkIn);
+        case 'photos':
+          return report.items.some(item => !photoCounts[item.id]);
+        case 'loans':
+          return report.items.some(item => !item.loans?.length);
+      }
+    })
+    .map(field => field.label);
+};
@@ -0,0 +1,151 @@
+import { AuditAction, FieldChange, ReportAuditEntry, ReportVersion } from '@/types/audit';
+import { REPORT_STATUSES } from '@/types/report';
+import { ReportOutcome } from '@/types/outcome';
+import { ReportTypeDefinition } from '@/types/reportType';
+import { getOutcomeFacts } from '@/lib/outcomes';
+import { getReportTypeLabel } from '@/lib/reportTypes';
+
+type Row = Record<string, unknown>;
+
+const REPORT_FIELDS = [
+  { key: 'report_type', label: 'Report type' },
+  { key: 'report_date', label: 'Date' },
+  { key: 'description', label: 'Description' },
+  { key: 'outcome', label: 'Visit outcome' },
+  { key: 'status', label: 'Status' },
+  { key: 'review_note', label: 'Reviewer note' },
+  { key: 'total_cost', label: 'Total cost' },
+  { key: 'account_number', label: 'Account number' },
+  { key: 'account_name', label: 'Account name' },
+  { key: 'bank_name', label: 'Bank' },
+  { key: 'deleted_at', label: 'Moved to trash' },
+];
+
+const ITEM_FIELDS = [
+  { key: 'origin', label: 'from' },
+  { key: 'location', label: 'to' },
+  { key: 'transportation', label: 'transport' },
+  { key: 'cost', label: 'cost' },
+  { key: 'is_round_trip', label: 'round trip' },
+  { key: 'justification', label: 'justification' },
+];
+
+const EMPTY_VALUE = '—';
+
+const formatValue = (key: string, value: unknown, reportTypes: ReportTypeDefinition[]) => {
+  if (value === null || value === undefined || value === '') return EMPTY_VALUE;
+
+  switch (key) {
+    case 'report_type':
+      return getReportTypeLabel(reportTypes, String(value));
+    case 'status':
+      return REPORT_STATUSES.find(s => s.value === value)?.label ?? String(value);
+    case 'outcome':
+      return getOutcomeFacts(value as ReportOutcome).map(fact => `${fact.label}: ${fact.value}`).join('; ') || EMPTY_VALUE;
+    case 'cost':
+    case 'total_cost':
+      return `₦${Number(value).toLocaleString()}`;
+    case 'deleted_at':
+      return new Date(String(value)).toLocaleString();
+    default:
+      return typeof value === 'boolean' ? (value ? 'Yes' : 'No') : String(value);
+  }
+};
+
+const isSameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const describeLeg = (item: Row) =>
+  [item.origin, item.location].filter(Boolean).join(' → ') + `, ${item.transportation}, ₦${Number(item.cost).toLocaleString()}`;
+
+// Field-level differences between two states of a report and its items
+const diffVersions = (
+  before: { report: Row | null; items: Map<string, Row> },
+  after: { report: Row | null; items: Map<string, Row> },
+  reportTypes: ReportTypeDefinition[],
+): FieldChange[] => {
+  const changes: FieldChange[] = [];
+
+  if (before.report && after.report) {
+    REPORT_FIELDS
+      .filter(({ key }) => !isSameValue(before.report[key], after.report[key]))
+      .forEach(({ key, label }) => changes.push({
+        label,
+        before: formatValue(key, before.report[key], reportTypes),
+        after: formatValue(key, after.report[key], reportTypes),
+      }));
+  }
+
+  const itemIds = new Set([...before.items.keys(), ...after.items.keys()]);
+  itemIds.forEach(itemId => {
+    const previous = before.items.get(itemId);
+    const next = after.items.get(itemId);
+    const leg = `Leg ${Number((next ?? previous).leg_order ?? 0) + 1}`;
+
+    if (!previous) {
+      changes.push({ label: `${leg} added`, before: EMPTY_VALUE, after: describeLeg(next) });
+    } else if (!next) {
+      changes.push({ label: `${leg} removed`, before: describeLeg(previous), after: EMPTY_VALUE });
+    } else {
+      ITEM_FIELDS
+        .filter(({ key }) => !isSameValue(previous[key], next[key]))
+        .forEach(({ key, label }) => changes.push({
+          label: `${leg} ${label}`,
+          before: formatValue(key, previous[key], reportTypes),
+          after: formatValue(key, next[key], reportTypes),
+        }));
+    }
+  });
+
+  return changes;
+};
+
+// Replay the audit log, oldest first, into versions listed newest first
+export const buildReportVersions = (entries: ReportAuditEntry[], reportTypes: ReportTypeDefinition[] = []) => {
+  const groups: ReportAuditEntry[][] = [];
+  entries.forEach(entry => {
+    const group = groups[groups.length - 1];
+    if (group && group[0].transactionId === entry.transactionId) {
+      group.push(entry);
+    } else {
+      groups.push([entry]);
+    }
+  });
+
+  let report: Row | null = null;
+  const items = new Map<string, Row>();
+  const versions: ReportVersion[] = [];
+
+  groups.forEach(group => {
+    const before = { report, items: new Map(items) };
+    let action: AuditAction = 'update';
+
+    group.forEach(entry => {
+      if (entry.tableName === 'reports') {
+        report = entry.newData;
+        // A save that creates a report also updates it, e.g. to set the status last
+        if (entry.action !== 'update') action = entry.action;
+      } else if (entry.newData) {
+        items.set(entry.recordId, entry.newData);
+      } else {
+        items.delete(entry.recordId);
+      }
+    });
+
+    const changes = action === 'update' ? diffVersions(before, { report, items }, reportTypes) : [];
+    // Saves that only touched untracked columns, like cached policy checks, aren't worth a version
+    if (action === 'update' && changes.length === 0) return;
+
+    versions.push({
+      transactionId: group[0].transactionId,
+      action,
+      actorId: group[0].actorId,
+      changedAt: group[0].changedAt,
+      changes,
+      isCurrent: false,
+    });
+  });
+
+  if (versions.length > 0) versions[versions.length - 1].isCurrent = true;
+
+  return versions.reverse();
+};
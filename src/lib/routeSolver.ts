@@ -0,0 +1,217 @@
+import { KnownLocation } from '@/types/location';
+import { Report } from '@/types/report';
+import { TransportIcon, TransportMode } from '@/types/transport';
+import { haversineKm } from '@/lib/geo';
+import { normalizeLocationName, resolveLocation } from '@/lib/gazetteer';
+import { getRouteTrips, RouteTrip } from '@/lib/legs';
+
+export type RouteObjective = 'cost' | 'time' | 'distance';
+
+// Remembers the officer's branch office between sessions
+export const START_POINT_KEY = 'routeStartPoint';
+
+// Roads are rarely straight; scales straight-line distance to a rough road distance
+const ROAD_FACTOR = 1.3;
+
+// Typical door-to-door speeds in city traffic
+const SPEED_KMH: Record<TransportIcon, number> = {
+  bus: 15,
+  taxi: 18,
+  bike: 22,
+  car: 20,
+  ride: 20,
+  ferry: 20,
+  train: 30,
+  truck: 15,
+  walk: 5,
+};
+const DEFAULT_SPEED_KMH = 18;
+
+const MAX_IMPROVEMENT_PASSES = 50;
+
+// Where a leg's cost estimate came from, best first
+export type LegCostSource = 'history' | 'distance' | 'average' | 'none';
+
+export interface LegEstimate {
+  from: string;
+  to: string;
+  cost: number;
+  costSource: LegCostSource;
+  // Past trips the cost is averaged over when it comes from history
+  sampleSize: number;
+  // null when either end has no gazetteer coordinates
+  distanceKm: number | null;
+  minutes: number | null;
+}
+
+export interface SolvedRoute {
+  // Visit order, starting with the start point
+  stops: string[];
+  legs: LegEstimate[];
+  totalCost: number;
+  totalDistanceKm: number;
+  totalMinutes: number;
+  // Legs left out of the distance and time totals
+  unmeasuredLegs: number;
+}
+
+export interface RoutePlanOptions {
+  start: string;
+  stops: string[];
+  objective: RouteObjective;
+  // null to use whichever mode was recorded
+  mode: TransportMode | null;
+  returnToStart: boolean;
+}
+
+interface TripSample extends RouteTrip {
+  distanceKm: number | null;
+}
+
+const pairKey = (a: string, b: string) =>
+  [normalizeLocationName(a), normalizeLocationName(b)].sort().join('|');
+
+const sameMode = (trip: RouteTrip, mode: TransportMode | null) =>
+  !mode || normalizeLocationName(trip.transportation) === normalizeLocationName(mode.name);
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+// Historical fares between places, looked up in either direction
+export interface FareHistory {
+  byPair: Map<string, TripSample[]>;
+  samples: TripSample[];
+  locations: KnownLocation[];
+}
+
+// Approximate road distance between two gazetteer entries
+export const getRoadDistanceKm = (from: string, to: string, locations: KnownLocation[]) => {
+  const a = resolveLocation(from, locations)?.coordinates;
+  const b = resolveLocation(to, locations)?.coordinates;
+  return a && b ? haversineKm(a, b) * ROAD_FACTOR : null;
+};
+
+export const buildFareHistory = (reports: Report[], locations: KnownLocation[]): FareHistory => {
+  const byPair = new Map<string, TripSample[]>();
+  const samples = reports
+    .flatMap(report => getRouteTrips(report.items))
+    .filter(trip => trip.cost > 0)
+    .map(trip => ({ ...trip, distanceKm: getRoadDistanceKm(trip.from, trip.to, locations) }));
+
+  samples.forEach(sample => {
+    const key = pairKey(sample.from, sample.to);
+    byPair.set(key, [...(byPair.get(key) || []), sample]);
+  });
+
+  return { byPair, samples, locations };
+};
+
+// Naira per km paid on a mode, over trips whose distance is known
+const getRatePerKm = (history: FareHistory, mode: TransportMode | null) => {
+  const measured = history.samples.filter(trip => sameMode(trip, mode) && trip.distanceKm);
+  const km = measured.reduce((sum, trip) => sum + trip.distanceKm, 0);
+  return km > 0 ? measured.reduce((sum, trip) => sum + trip.cost, 0) / km : null;
+};
+
+export const estimateLeg = (history: FareHistory, from: string, to: string, mode: TransportMode | null): LegEstimate => {
+  const distanceKm = getRoadDistanceKm(from, to, history.locations);
+  const speed = mode ? SPEED_KMH[mode.icon] ?? DEFAULT_SPEED_KMH : DEFAULT_SPEED_KMH;
+  const minutes = distanceKm !== null ? (distanceKm / speed) * 60 : null;
+  const leg = { from, to, distanceKm, minutes };
+
+  const trips = (history.byPair.get(pairKey(from, to)) || []).filter(trip => sameMode(trip, mode));
+  if (trips.length > 0) {
+    return { ...leg, cost: average(trips.map(trip => trip.cost)), costSource: 'history', sampleSize: trips.length };
+  }
+
+  const rate = getRatePerKm(history, mode);
+  if (rate !== null && distanceKm !== null) {
+    return { ...leg, cost: rate * distanceKm, costSource: 'distance', sampleSize: 0 };
+  }
+
+  const modeTrips = history.samples.filter(trip => sameMode(trip, mode));
+  if (modeTrips.length > 0) {
+    return { ...leg, cost: average(modeTrips.map(trip => trip.cost)), costSource: 'average', sampleSize: 0 };
+  }
+
+  return { ...leg, cost: 0, costSource: 'none', sampleSize: 0 };
+};
+
+const legWeight = (leg: LegEstimate, objective: RouteObjective) =>
+  objective === 'cost' ? leg.cost : objective === 'time' ? leg.minutes : leg.distanceKm;
+
+// Unmeasured legs weigh the average of the measured ones, so they neither attract nor repel the route
+const buildWeights = (legs: LegEstimate[][], objective: RouteObjective) => {
+  const known = legs
+    .flatMap((row, i) => row.filter((_, j) => i !== j))
+    .map(leg => legWeight(leg, objective))
+    .filter((weight): weight is number => weight !== null);
+  const fallback = average(known);
+  return legs.map(row => row.map(leg => legWeight(leg, objective) ?? fallback));
+};
+
+const pathWeight = (order: number[], weights: number[][], returnToStart: boolean) => {
+  const closed = returnToStart ? [...order, order[0]] : order;
+  return closed.slice(1).reduce((sum, node, index) => sum + weights[closed[index]][node], 0);
+};
+
+// Visit order over a weight matrix, index 0 being the fixed start:
+// nearest neighbour to get going, then 2-opt until no reversal shortens the route
+export const solveVisitOrder = (weights: number[][], returnToStart = false) => {
+  const unvisited = new Set(weights.map((_, index) => index).slice(1));
+  const order = [0];
+  while (unvisited.size > 0) {
+    const last = order[order.length - 1];
+    let next = -1;
+    unvisited.forEach(candidate => {
+      if (next < 0 || weights[last][candidate] < weights[last][next]) next = candidate;
+    });
+    order.push(next);
+    unvisited.delete(next);
+  }
+
+  let best = order;
+  let bestWeight = pathWeight(best, weights, returnToStart);
+  for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES; pass++) {
+    let improved = false;
+    for (let i = 1; i < best.length - 1; i++) {
+      for (let j = i + 1; j < best.length; j++) {
+        const candidate = [...best.slice(0, i), ...best.slice(i, j + 1).reverse(), ...best.slice(j + 1)];
+        const candidateWeight = pathWeight(candidate, weights, returnToStart);
+        if (candidateWeight < bestWeight - 1e-9) {
+          best = candidate;
+          bestWeight = candidateWeight;
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+  return best;
+};
+
+export const planRoute = (history: FareHistory, options: RoutePlanOptions): SolvedRoute => {
+  const places = [options.start, ...options.stops.filter(stop => stop !== options.start)];
+  const matrix = places.map(from => places.map(to => estimateLeg(history, from, to, options.mode)));
+  const order = solveVisitOrder(buildWeights(matrix, options.objective), options.returnToStart);
+
+  const visits = options.returnToStart ? [...order, 0] : order;
+  const legs = visits.slice(1).map((node, index) => matrix[visits[index]][node]);
+  const measured = legs.filter(leg => leg.distanceKm !== null);
+
+  return {
+    stops: order.map(node => places[node]),
+    legs,
+    totalCost: legs.reduce((sum, leg) => sum + leg.cost, 0),
+    totalDistanceKm: measured.reduce((sum, leg) => sum + leg.distanceKm, 0),
+    totalMinutes: measured.reduce((sum, leg) => sum + leg.minutes, 0),
+    unmeasuredLegs: legs.length - measured.length,
+  };
+};
+
+export const formatDuration = (minutes: number) => {
+  const rounded = Math.round(minutes);
+  if (rounded < 60) return `${rounded} min`;
+  const hours = Math.floor(rounded / 60);
+  return rounded % 60 ? `${hours} h ${rounded % 60} min` : `${hours} h`;
+};
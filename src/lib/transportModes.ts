@@ -0,0 +1,27 @@
+import { TransportMode } from '@/types/transport';
+
+export const DEFAULT_TRANSPORT_COLOR = '#82ca9d';
+
+const normalize = (name: string) => name.trim().toLowerCase();
+
+// Modes that apply to an organization: its own, plus defaults it hasn't overridden by name
+export const resolveTransportModes = (modes: TransportMode[], organizationId?: string | null) => {
+  const own = modes.filter(mode => organizationId && mode.organizationId === organizationId);
+  const ownNames = new Set(own.map(mode => normalize(mode.name)));
+  const defaults = modes.filter(mode => !mode.organizationId && !ownNames.has(normalize(mode.name)));
+
+  return [...own, ...defaults].sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name));
+};
+
+// Items store the mode name, so historical entries are matched by name
+export const findTransportMode = (modes: TransportMode[], name: string) =>
+  modes.find(mode => normalize(mode.name) === normalize(name));
+
+export const getTransportColor = (modes: TransportMode[], name: string) =>
+  findTransportMode(modes, name)?.color ?? DEFAULT_TRANSPORT_COLOR;
+
+export const formatFareCap = (mode: TransportMode) => {
+  if (mode.fareCapFlat) return `up to ₦${mode.fareCapFlat.toLocaleString()} per trip`;
+  if (mode.fareCapPerKm) return `up to ₦${mode.fareCapPerKm.toLocaleString()}/km`;
+  return null;
+};
@@ -0,0 +1,183 @@
+import { ItinerarySettings, PendingVisit, PlannedVisit, VisitPriority } from '@/types/itinerary';
+import { Report, ReportItem } from '@/types/report';
+import { TransportMode } from '@/types/transport';
+import { FareHistory, SolvedRoute, estimateLeg, planRoute } from '@/lib/routeSolver';
+
+// Working days planned ahead before remaining visits are left unscheduled
+const MAX_PLANNING_DAYS = 10;
+
+const PRIORITY_RANK: Record<VisitPriority, number> = { high: 0, medium: 1, low: 2 };
+
+export interface PlannedDay {
+  date: string;
+  visits: PlannedVisit[];
+  route: SolvedRoute;
+  // Minutes or naira used against the daily limit
+  load: number;
+  // A single visit that alone exceeds the limit still gets a day of its own
+  overLimit: boolean;
+}
+
+export interface VisitPlan {
+  days: PlannedDay[];
+  unscheduled: PendingVisit[];
+}
+
+// Dates are plain YYYY-MM-DD strings; UTC keeps the arithmetic clear of time zones
+const addDays = (date: string, days: number) => {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+};
+
+const isWeekend = (date: string) => [0, 6].includes(new Date(`${date}T00:00:00Z`).getUTCDay());
+
+const nextWorkingDay = (date: string) => {
+  let day = date;
+  while (isWeekend(day)) day = addDays(day, 1);
+  return day;
+};
+
+export const isVisitLate = (visit: PlannedVisit) =>
+  !!(visit.dueDate && visit.scheduledDate && visit.scheduledDate > visit.dueDate);
+
+// Visits due by the day come first, then by priority, then by due date
+const byUrgency = (date: string) => (a: PendingVisit, b: PendingVisit) => {
+  const aDue = a.dueDate !== null && a.dueDate <= date ? 0 : 1;
+  const bDue = b.dueDate !== null && b.dueDate <= date ? 0 : 1;
+  return aDue - bDue
+    || PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority]
+    || (a.dueDate ?? '9999-12-31').localeCompare(b.dueDate ?? '9999-12-31');
+};
+
+const routeDay = (visits: PendingVisit[], settings: ItinerarySettings, history: FareHistory, mode: TransportMode | null) =>
+  planRoute(history, {
+    start: settings.startPoint,
+    stops: visits.map(visit => visit.location),
+    objective: settings.limitType === 'budget' ? 'cost' : 'time',
+    mode,
+    returnToStart: settings.returnToStart,
+  });
+
+const getLoad = (route: SolvedRoute, visitCount: number, settings: ItinerarySettings) =>
+  settings.limitType === 'budget'
+    ? route.totalCost
+    : route.totalMinutes + visitCount * settings.visitMinutes;
+
+// Put the day's visits in route order, with the fare of the leg reaching each one
+const toPlannedVisits = (visits: PendingVisit[], route: SolvedRoute, date: string): PlannedVisit[] => {
+  const unassigned = [...visits];
+  const ordered = route.stops.slice(1).flatMap((stop, index) => {
+    const matchIndex = unassigned.findIndex(visit => visit.location === stop);
+    if (matchIndex < 0) return [];
+    const [visit] = unassigned.splice(matchIndex, 1);
+    return [{ visit, cost: route.legs[index]?.cost ?? 0 }];
+  });
+
+  // Visits at the start point itself need no leg
+  return [...ordered, ...unassigned.map(visit => ({ visit, cost: 0 }))].map(({ visit, cost }, index) => ({
+    ...visit,
+    scheduledDate: date,
+    visitOrder: index,
+    estimatedCost: Math.round(cost),
+  }));
+};
+
+// Spread visits over working days from the start date, filling each day greedily
+// up to its time or fare limit; each day's visits are ordered by the route solver
+export const planVisits = (
+  visits: PendingVisit[],
+  settings: ItinerarySettings,
+  history: FareHistory,
+  mode: TransportMode | null
+): VisitPlan => {
+  const days: PlannedDay[] = [];
+  let remaining = visits.filter(visit => visit.location.trim());
+  let date = nextWorkingDay(settings.startDate);
+
+  while (remaining.length > 0 && days.length < MAX_PLANNING_DAYS) {
+    const candidates = [...remaining].sort(byUrgency(date));
+    let chosen: PendingVisit[] = [];
+    let route: SolvedRoute | null = null;
+
+    for (const visit of candidates) {
+      const attempt = routeDay([...chosen, visit], settings, history, mode);
+      if (getLoad(attempt, chosen.length + 1, settings) <= settings.dailyLimit) {
+        chosen = [...chosen, visit];
+        route = attempt;
+      }
+    }
+
+    const overLimit = chosen.length === 0;
+    if (overLimit) {
+      chosen = [candidates[0]];
+      route = routeDay(chosen, settings, history, mode);
+    }
+
+    days.push({
+      date,
+      visits: toPlannedVisits(chosen, route, date),
+      route,
+      load: getLoad(route, chosen.length, settings),
+      overLimit,
+    });
+    remaining = remaining.filter(visit => !chosen.includes(visit));
+    date = nextWorkingDay(addDays(date, 1));
+  }
+
+  return { days, unscheduled: remaining };
+};
+
+// Most common visit type of the day; a report carries a single type
+const getDayReportType = (visits: PlannedVisit[]): Report['reportType'] => {
+  const counts = new Map<Report['reportType'], number>();
+  visits.forEach(visit => counts.set(visit.reportType, (counts.get(visit.reportType) || 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 'verification';
+};
+
+// A draft report for one planned day, with a leg for every visit and the way back if planned
+export const buildDayReport = (
+  settings: ItinerarySettings,
+  visits: PlannedVisit[],
+  history: FareHistory,
+  mode: TransportMode | null
+): Omit<Report, 'id' | 'createdAt'> => {
+  const ordered = [...visits].sort((a, b) => a.visitOrder - b.visitOrder);
+  const stops = [settings.startPoint, ...ordered.map(visit => visit.location)];
+  const items: ReportItem[] = ordered.map((visit, index) => ({
+    id: crypto.randomUUID(),
+    origin: stops[index],
+    location: visit.location,
+    legOrder: index,
+    isRoundTrip: false,
+    transportation: settings.transportMode ?? '',
+    cost: visit.estimatedCost,
+  }));
+
+  const lastStop = stops[stops.length - 1];
+  if (settings.returnToStart && lastStop !== settings.startPoint) {
+    items.push({
+      id: crypto.randomUUID(),
+      origin: lastStop,
+      location: settings.startPoint,
+      legOrder: items.length,
+      isRoundTrip: false,
+      transportation: settings.transportMode ?? '',
+      cost: Math.round(estimateLeg(history, lastStop, settings.startPoint, mode).cost),
+    });
+  }
+
+  const notes = ordered.filter(visit => visit.notes?.trim()).map(visit => `${visit.location}: ${visit.notes.trim()}`);
+
+  return {
+    reportType: getDayReportType(ordered),
+    reportDate: ordered[0]?.scheduledDate ?? settings.startDate,
+    description: [`Planned visits from "${settings.title}"`, ...notes].join('\n'),
+    items,
+    totalCost: items.reduce((sum, item) => sum + item.cost, 0),
+    accountNumber: '',
+    accountName: '',
+    bankName: '',
+    status: 'draft',
+  };
+};
@@ -0,0 +1,246 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Loader2, Plus } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useOrganizations } from "@/hooks/useOrganizations";
+import { useCustomers } from "@/hooks/useCustomers";
+import { useCustomerVisits } from "@/hooks/useCustomerVisits";
+import { useReportTypes } from "@/hooks/useReportTypes";
+import { ReportStatusBadge } from "@/components/ReportStatusBadge";
+import { isCountedVisit, summarizeLoanCosts } from "@/lib/loanCosts";
+import { getReportTypeLabel } from "@/lib/reportTypes";
+import { REVIEWER_ROLES } from "@/types/auth";
+import { LOAN_STATUSES, LoanStatus } from "@/types/customer";
+
+const CustomerDetail = () => {
+  const { customerId } = useParams<{ customerId: string }>();
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const { activeTeam, activeRole } = useOrganizations(user?.id);
+  const { customers, loading, createLoan, setLoanStatus } = useCustomers(activeTeam?.organizationId);
+  const { visits, loading: visitsLoading } = useCustomerVisits(customerId);
+  const { resolvedTypes: reportTypes } = useReportTypes(activeTeam?.organizationId);
+  const [loanReference, setLoanReference] = useState("");
+  const [principal, setPrincipal] = useState("");
+  const [disbursedOn, setDisbursedOn] = useState("");
+
+  const canManage = REVIEWER_ROLES.includes(activeRole);
+  const customer = customers.find(c => c.id === customerId);
+  const loanSummaries = useMemo(() => summarizeLoanCosts(visits), [visits]);
+  const countedTotal = visits.filter(isCountedVisit).reduce((sum, visit) => sum + visit.allocatedCost, 0);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/auth');
+    }
+  }, [user, authLoading, navigate]);
+
+  const handleCreateLoan = async () => {
+    if (!customer || !loanReference.trim()) return;
+    const success = await createLoan(customer.id, {
+      loanReference: loanReference.trim(),
+      principal: principal ? parseFloat(principal) : null,
+      disbursedOn: disbursedOn || null,
+    });
+    if (success) {
+      setLoanReference("");
+      setPrincipal("");
+      setDisbursedOn("");
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!user) return null;
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <div className="container mx-auto px-4 py-6 sm:py-8 space-y-6">
+        <Button variant="outline" onClick={() => navigate('/customers')}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          All Customers
+        </Button>
+
+        {!customer ? (
+          <Card>
+            <CardContent className="py-8 text-center text-muted-foreground">
+              This customer was not found in your active organization.
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <div>
+              <h1 className="text-2xl sm:text-3xl font-bold">{customer.fullName}</h1>
+              <p className="text-muted-foreground">
+                {[customer.customerRef && `No. ${customer.customerRef}`, customer.phone, customer.address]
+                  .filter(Boolean)
+                  .join(' · ')}
+              </p>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Loans</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {customer.loans.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No loans recorded for this customer.</p>
+                ) : (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {customer.loans.map(loan => {
+                      const summary = loanSummaries.get(loan.id);
+                      const totalCost = summary?.totalCost ?? 0;
+
+                      return (
+                        <div key={loan.id} className="rounded-lg border p-4 space-y-3">
+                          <div className="flex items-start justify-between gap-2">
+                            <div>
+                              <div className="font-semibold">{loan.loanReference}</div>
+                              <div className="text-xs text-muted-foreground">
+                                {loan.principal !== null && `₦${loan.principal.toLocaleString()}`}
+                                {loan.disbursedOn && ` · disbursed ${new Date(loan.disbursedOn).toLocaleDateString()}`}
+                              </div>
+                            </div>
+                            {canManage ? (
+                              <Select value={loan.status} onValueChange={(value) => setLoanStatus(loan.id, value as LoanStatus)}>
+                                <SelectTrigger className="w-36">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {LOAN_STATUSES.map(status => (
+                                    <SelectItem key={status.value} value={status.value}>{status.label}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            ) : (
+                              <span className="text-sm text-muted-foreground">
+                                {LOAN_STATUSES.find(s => s.value === loan.status)?.label}
+                              </span>
+                            )}
+                          </div>
+                          <div className="grid grid-cols-3 gap-2 text-sm">
+                            <div>
+                              <div className="text-muted-foreground">Journeys</div>
+                              <div className="font-medium">{summary?.journeyCount ?? 0}</div>
+                            </div>
+                            <div>
+                              <div className="text-muted-foreground">Visit days</div>
+                              <div className="font-medium">{summary?.visitDays ?? 0}</div>
+                            </div>
+                            <div>
+                              <div className="text-muted-foreground">Transport</div>
+                              <div className="font-medium">₦{totalCost.toLocaleString()}</div>
+                            </div>
+                          </div>
+                          {loan.principal ? (
+                            <div className="text-xs text-muted-foreground">
+                              {((totalCost / loan.principal) * 100).toFixed(2)}% of principal spent on visits
+                              {summary?.lastVisit && ` · last visited ${new Date(summary.lastVisit).toLocaleDateString()}`}
+                            </div>
+                          ) : summary?.lastVisit && (
+                            <div className="text-xs text-muted-foreground">
+                              Last visited {new Date(summary.lastVisit).toLocaleDateString()}
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+
+                {canManage && (
+                  <div className="grid grid-cols-1 sm:grid-cols-4 gap-2">
+                    <Input placeholder="Loan reference" value={loanReference} onChange={(e) => setLoanReference(e.target.value)} />
+                    <Input
+                      type="number"
+                      placeholder="Principal (₦)"
+                      value={principal}
+                      onChange={(e) => setPrincipal(e.target.value)}
+                    />
+                    <Input
+                      type="date"
+                      aria-label="Disbursed on"
+                      value={disbursedOn}
+                      onChange={(e) => setDisbursedOn(e.target.value)}
+                    />
+                    <Button type="button" variant="outline" onClick={handleCreateLoan} disabled={!loanReference.trim()}>
+                      <Plus className="h-4 w-4 mr-2" />
+                      Loan
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Visits</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {visitsLoading ? (
+                  <div className="flex justify-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin" />
+                  </div>
+                ) : visits.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No journeys have been linked to this customer's loans.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Loan</TableHead>
+                        <TableHead>Type</TableHead>
+                        <TableHead>Journey</TableHead>
+                        <TableHead>Transport</TableHead>
+                        <TableHead className="text-right">Fare share</TableHead>
+                        <TableHead>Status</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {visits.map(visit => (
+                        <TableRow key={`${visit.reportItemId}-${visit.loanId}`}>
+                          <TableCell>{new Date(visit.reportDate).toLocaleDateString()}</TableCell>
+                          <TableCell>{customer.loans.find(l => l.id === visit.loanId)?.loanReference}</TableCell>
+                          <TableCell>{getReportTypeLabel(reportTypes, visit.reportType)}</TableCell>
+                          <TableCell>{visit.origin ? `${visit.origin} → ${visit.location}` : visit.location}</TableCell>
+                          <TableCell>{visit.transportation}</TableCell>
+                          <TableCell className="text-right">
+                            ₦{visit.allocatedCost.toLocaleString()}
+                            {visit.allocatedCost !== visit.cost && (
+                              <div className="text-xs text-muted-foreground">of ₦{visit.cost.toLocaleString()}</div>
+                            )}
+                          </TableCell>
+                          <TableCell><ReportStatusBadge status={visit.status} /></TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                    <TableFooter>
+                      <TableRow>
+                        <TableCell colSpan={5}>Submitted, approved and paid</TableCell>
+                        <TableCell className="text-right">₦{countedTotal.toLocaleString()}</TableCell>
+                        <TableCell />
+                      </TableRow>
+                    </TableFooter>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CustomerDetail;
@@ -0,0 +1,162 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { ArrowLeft, Loader2, Plus, Search, Users } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useOrganizations } from "@/hooks/useOrganizations";
+import { useCustomers } from "@/hooks/useCustomers";
+import { REVIEWER_ROLES } from "@/types/auth";
+
+const Customers = () => {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const { activeTeam, activeRole, organizations } = useOrganizations(user?.id);
+  const organizationId = activeTeam?.organizationId;
+  const { customers, loading, createCustomer } = useCustomers(organizationId);
+  const [search, setSearch] = useState("");
+  const [customerRef, setCustomerRef] = useState("");
+  const [fullName, setFullName] = useState("");
+  const [phone, setPhone] = useState("");
+  const [address, setAddress] = useState("");
+
+  const canManage = REVIEWER_ROLES.includes(activeRole);
+  const organizationName = organizations.find(o => o.id === organizationId)?.name;
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/auth');
+    }
+  }, [user, authLoading, navigate]);
+
+  const query = search.trim().toLowerCase();
+  const filtered = customers.filter(customer =>
+    !query
+    || customer.fullName.toLowerCase().includes(query)
+    || customer.customerRef?.toLowerCase().includes(query)
+    || customer.loans.some(loan => loan.loanReference.toLowerCase().includes(query))
+  );
+
+  const handleCreate = async () => {
+    if (!fullName.trim()) return;
+    const success = await createCustomer({
+      customerRef: customerRef.trim() || null,
+      fullName: fullName.trim(),
+      phone: phone.trim() || null,
+      address: address.trim() || null,
+    });
+    if (success) {
+      setCustomerRef("");
+      setFullName("");
+      setPhone("");
+      setAddress("");
+    }
+  };
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!user) return null;
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <div className="container mx-auto px-4 py-6 sm:py-8 space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold flex items-center gap-2">
+              <Users className="h-7 w-7" />
+              Customers
+            </h1>
+            {organizationName && <p className="text-muted-foreground">{organizationName}</p>}
+          </div>
+          <Button variant="outline" onClick={() => navigate('/')}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Reports
+          </Button>
+        </div>
+
+        {!organizationId ? (
+          <Card>
+            <CardContent className="py-8 text-center text-muted-foreground">
+              Select a team in an organization to see its customers.
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {canManage && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Add Customer</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-2">
+                    <Input placeholder="Customer number" value={customerRef} onChange={(e) => setCustomerRef(e.target.value)} />
+                    <Input placeholder="Full name" value={fullName} onChange={(e) => setFullName(e.target.value)} />
+                    <Input placeholder="Phone" value={phone} onChange={(e) => setPhone(e.target.value)} />
+                    <Input placeholder="Address" value={address} onChange={(e) => setAddress(e.target.value)} />
+                    <Button type="button" variant="outline" onClick={handleCreate} disabled={!fullName.trim()}>
+                      <Plus className="h-4 w-4 mr-2" />
+                      Customer
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                className="pl-9"
+                placeholder="Search by name, customer number or loan reference"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+              />
+            </div>
+
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin" />
+              </div>
+            ) : filtered.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">
+                {customers.length === 0 ? "No customers have been added yet." : "No customers match your search."}
+              </p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {filtered.map(customer => (
+                  <Link key={customer.id} to={`/customers/${customer.id}`}>
+                    <Card className="h-full hover:border-primary/50 transition-colors">
+                      <CardContent className="p-4 space-y-2">
+                        <div className="flex items-start justify-between gap-2">
+                          <div>
+                            <div className="font-semibold">{customer.fullName}</div>
+                            {customer.customerRef && (
+                              <div className="text-xs text-muted-foreground">No. {customer.customerRef}</div>
+                            )}
+                          </div>
+                          <Badge variant="outline">
+                            {customer.loans.length} loan{customer.loans.length !== 1 ? 's' : ''}
+                          </Badge>
+                        </div>
+                        {customer.address && <div className="text-sm text-muted-foreground">{customer.address}</div>}
+                      </CardContent>
+                    </Card>
+                  </Link>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Customers;
@@ -1,56 +1,157 @@
-import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useState, useEffect, useMemo, ReactNode } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { ReportForm } from "@/components/ReportForm";
 import { ReportsHistory } from "@/components/ReportsHistory";
+import { ReportTrash } from "@/components/ReportTrash";
 import { ReportViewer } from "@/components/ReportViewer";
 import { generatePDF } from "@/components/PDFReport";
-import { Report } from "@/types/report";
+import { AttachmentChanges, FormDraft, Report, ReportDraft, ReportFilters, isReportEditable } from "@/types/report";
 import { useReports } from "@/hooks/useReports";
 import { useAuth } from "@/hooks/useAuth";
-import { FileText, History, Loader2, LogOut, Brain, BarChart3, TrendingUp, MessageSquare } from "lucide-react";
+import { useOrganizations } from "@/hooks/useOrganizations";
+import { useDrafts } from "@/hooks/useDrafts";
+import { useReportTypes } from "@/hooks/useReportTypes";
+import { useReportHistory } from "@/hooks/useReportHistory";
+import { useReportStats } from "@/hooks/useReportStats";
+import { hasActiveFilters, matchesReportFilters, parseReportFilters, toReportFilterParams } from "@/lib/reportFilters";
+import { CloudOff, FileText, History, Loader2, LogOut, Brain, BarChart3, TrendingUp, MessageSquare, Route, Users } from "lucide-react";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import { ProfessionalAIAnalytics } from "@/components/ProfessionalAIAnalytics";
 import { EnhancedDataVisualization } from "@/components/EnhancedDataVisualization";
 import { PredictiveAnalytics } from "@/components/PredictiveAnalytics";
+import { RouteOptimizer } from "@/components/RouteOptimizer";
+import { VisitPlanner } from "@/components/VisitPlanner";
 import { AIChatInterface } from "@/components/AIChatInterface";
 import { MobileResponsiveWrapper } from "@/components/MobileResponsiveWrapper";
+import { TeamSwitcher } from "@/components/TeamSwitcher";
+import { OrganizationSettings } from "@/components/OrganizationSettings";
+import { DraftsPanel } from "@/components/DraftsPanel";
 
 const Index = () => {
   const { user, loading: authLoading, signOut, session } = useAuth();
   const navigate = useNavigate();
-  const { reports, loading, createReport, updateReport, deleteReport } = useReports();
-  const [activeTab, setActiveTab] = useState("create");
+  const {
+    organizations,
+    members,
+    teams,
+    activeTeam,
+    setActiveTeamId,
+    getRole,
+    createOrganization,
+    createTeam,
+    addMember,
+    setTeamMembership,
+  } = useOrganizations(user?.id);
+  const {
+    reports,
+    isOnline,
+    liveUpdates,
+    createReport,
+    updateReport,
+    saveDraft,
+    updateReportStatus,
+    deleteReport,
+    retrySync,
+    discardLocalChanges,
+  } = useReports(activeTeam?.id);
+  const { resolvedTypes: reportTypes } = useReportTypes(activeTeam?.organizationId);
+  // History filters live in the URL so a filtered view can be shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const historyFilters = useMemo(() => parseReportFilters(searchParams), [searchParams]);
+  const {
+    reports: historyReports,
+    loading: historyLoading,
+    loadingMore,
+    hasMore,
+    loadMore,
+  } = useReportHistory(activeTeam?.id, historyFilters, isOnline);
+  const { stats, totalReports, loading: statsLoading } = useReportStats(activeTeam?.id);
+  const [activeTab, setActiveTab] = useState(() => hasActiveFilters(historyFilters) ? "history" : "create");
   const [viewingReport, setViewingReport] = useState<Report | null>(null);
   const [editingReport, setEditingReport] = useState<Report | null>(null);
+  const [pdfReportId, setPdfReportId] = useState<string | null>(null);
+  // Id the report being written will have once saved; autosaved drafts are stored under it
+  const [newDraftId, setNewDraftId] = useState(() => crypto.randomUUID());
+  const { drafts, getLocalDraft, saveLocalDraft, removeLocalDraft } = useDrafts(user?.id, reports);
+  const formDraftId = editingReport?.id ?? newDraftId;
 
-  const handleReportSubmit = async (reportData: Omit<Report, 'id' | 'createdAt'>) => {
-    if (editingReport) {
-      const success = await updateReport(editingReport.id, reportData);
+  // New reports are filed under the team currently selected in the switcher
+  const withTeam = (formData: Omit<Report, 'id' | 'createdAt'>) => ({
+    ...formData,
+    teamId: editingReport ? editingReport.teamId : activeTeam?.id ?? null,
+  });
+
+  const handleReportSubmit = async (formData: Omit<Report, 'id' | 'createdAt'>, attachmentChanges: AttachmentChanges) => {
+    const reportData = withTeam(formData);
+    const nextTab = reportData.status === 'draft' ? "create" : "history";
+
+    // Drafts only kept on this device have never reached the server
+    if (editingReport && reports.some(r => r.id === editingReport.id)) {
+      const success = await updateReport(editingReport.id, reportData, attachmentChanges);
       if (success) {
+        removeLocalDraft(editingReport.id);
         setEditingReport(null);
-        setActiveTab("history");
+        setActiveTab(nextTab);
       }
     } else {
-      const reportId = await createReport(reportData);
+      const reportId = await createReport(reportData, attachmentChanges, formDraftId);
       if (reportId) {
-        const newReport: Report = {
-          ...reportData,
-          id: reportId,
-          createdAt: new Date().toISOString(),
-        };
-        await generatePDF(newReport);
-        setActiveTab("history");
+        removeLocalDraft(reportId);
+        // Generate the PDF once the saved report, with its attachments, is loaded
+        if (reportData.status === 'submitted') setPdfReportId(reportId);
+        if (editingReport) {
+          setEditingReport(null);
+        } else {
+          setNewDraftId(crypto.randomUUID());
+        }
+        setActiveTab(nextTab);
       }
     }
   };
 
+  // Keep every change on this device, and a draft row on the server once it can be saved
+  const handleAutosave = (draft: FormDraft) => {
+    const reportData = withTeam(draft.reportData);
+    saveLocalDraft(formDraftId, { ...draft, reportData });
+
+    if (reportData.status === 'draft' && reportData.reportType && reportData.reportDate) {
+      saveDraft(formDraftId, reportData);
+    }
+  };
+
+  // Save a day planned in an itinerary as a server draft and open it in the form
+  const handleItineraryDraft = async (reportData: Omit<Report, 'id' | 'createdAt'>) => {
+    const reportId = crypto.randomUUID();
+    const draftData = { ...reportData, teamId: activeTeam?.id ?? null };
+    const saved = await saveDraft(reportId, draftData);
+    if (!saved) return null;
+
+    setEditingReport({ ...draftData, id: reportId, createdAt: new Date().toISOString() });
+    setViewingReport(null);
+    setActiveTab("create");
+    return reportId;
+  };
+
+  const handleResumeDraft = (draft: ReportDraft) => {
+    setEditingReport(draft.report);
+    setActiveTab("create");
+  };
+
+  const handleDiscardDraft = async (draft: ReportDraft) => {
+    await removeLocalDraft(draft.report.id);
+    if (draft.report.status === 'draft' && reports.some(r => r.id === draft.report.id)) {
+      await deleteReport(draft.report.id);
+    }
+  };
+
   const handleViewReport = (report: Report) => {
     setViewingReport(report);
   };
 
   const handleEditReport = (report: Report) => {
+    if (!isReportEditable(report)) return;
     setEditingReport(report);
     setViewingReport(null);
     setActiveTab("create");
@@ -60,19 +161,43 @@ const Index = () => {
     await deleteReport(reportId);
   };
 
+  const handleFiltersChange = (filters: ReportFilters) => {
+    setSearchParams(toReportFilterParams(filters), { replace: true });
+  };
+
+  // Server pages with local changes still waiting to sync shown on top; offline, filter the cached list
+  const visibleHistory = useMemo(() => {
+    const localHistory = reports
+      .filter(r => r.status !== 'draft' || r.syncState === 'conflict' || r.syncState === 'failed')
+      .filter(r => matchesReportFilters(r, historyFilters));
+    if (!isOnline) return localHistory;
+
+    const unsynced = localHistory.filter(r => r.syncState);
+    return [...unsynced, ...historyReports.filter(r => !unsynced.some(u => u.id === r.id))];
+  }, [reports, historyReports, historyFilters, isOnline]);
+
   const handleBackToReports = () => setViewingReport(null);
   const handleCancelEdit = () => {
     setEditingReport(null);
     setActiveTab("history");
   };
 
+  useEffect(() => {
+    const savedReport = pdfReportId && reports.find(r => r.id === pdfReportId);
+    if (savedReport) {
+      setPdfReportId(null);
+      // Only the officer's own saved reports are downloaded from here
+      generatePDF(savedReport, reportTypes, { officerName: user?.email });
+    }
+  }, [pdfReportId, reports, reportTypes, user?.email]);
+
   useEffect(() => {
     if (!authLoading && !user) {
       navigate('/auth');
     }
   }, [user, authLoading, navigate]);
 
-  if (authLoading || loading) {
+  if (authLoading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
         <div className="flex items-center gap-2">
@@ -85,14 +210,35 @@ const Index = () => {
 
   if (!user) return null;
 
+  // Includes the user, who has no member entry when outside any organization
+  const authorEmails: Record<string, string> = {
+    ...Object.fromEntries(members.map(m => [m.userId, m.email])),
+    ...(user.email && { [user.id]: user.email }),
+  };
+
   if (viewingReport) {
+    // Keep the viewer in sync after status changes refresh the list
+    const currentReport = reports.find(r => r.id === viewingReport.id) ?? viewingReport;
+    // The report's team and its officer can be mentioned in comments
+    const mentionIds = new Set([...(teams.find(t => t.id === currentReport.teamId)?.memberIds ?? []), currentReport.userId]);
+    const mentionCandidates = members
+      .filter(m => m.organizationId === currentReport.organizationId && mentionIds.has(m.userId) && m.userId !== user.id)
+      .map(m => ({ userId: m.userId, email: m.email }));
+
     return (
       <div className="min-h-screen bg-background">
         <div className="container mx-auto px-4 py-8">
           <ReportViewer
-            report={viewingReport}
+            report={currentReport}
+            reportTypes={reportTypes}
+            currentUserId={user.id}
+            authorEmails={authorEmails}
+            mentionCandidates={mentionCandidates}
+            liveUpdate={liveUpdates[currentReport.id]}
+            role={getRole(currentReport.organizationId)}
             onBack={handleBackToReports}
             onEdit={handleEditReport}
+            onChangeStatus={updateReportStatus}
           />
         </div>
       </div>
@@ -101,6 +247,14 @@ const Index = () => {
 
   const getInitials = (email: string) => email?.charAt(0)?.toUpperCase() ?? "?";
 
+  // Analytics wait for the server's totals; the rest of the page doesn't
+  const withStats = (content: ReactNode) => statsLoading ? (
+    <div className="flex items-center justify-center gap-2 min-h-[400px]">
+      <Loader2 className="h-6 w-6 animate-spin" />
+      <span>Loading statistics...</span>
+    </div>
+  ) : content;
+
   return (
     <div className="min-h-screen bg-background text-foreground transition-colors">
       <div className="container mx-auto px-4 py-6 sm:py-8">
@@ -114,7 +268,7 @@ const Index = () => {
               Create professional field reports for verification and recovery visits
             </p>
             <p className="text-sm text-muted-foreground mt-2">
-              Total Reports Created: <strong>{reports.length}</strong>
+              Total Reports Created: <strong>{statsLoading ? '…' : totalReports}</strong>
             </p>
             {session?.user && (
               <p className="text-xs text-muted-foreground mt-1">
@@ -124,7 +278,7 @@ const Index = () => {
           </div>
 
           {/* User info and controls */}
-          <div className="flex flex-col sm:flex-row items-center gap-3">
+          <div className="flex flex-col sm:flex-row sm:flex-wrap items-center justify-center gap-3">
             <div className="flex items-center gap-2 bg-muted rounded-full px-4 py-1 text-sm text-muted-foreground border">
               <div className="bg-primary text-white rounded-full w-6 h-6 flex items-center justify-center text-xs font-semibold">
                 {getInitials(user.email)}
@@ -132,6 +286,29 @@ const Index = () => {
               <span>{user.email}</span>
             </div>
 
+            <TeamSwitcher
+              organizations={organizations}
+              teams={teams}
+              activeTeamId={activeTeam?.id ?? null}
+              onChange={setActiveTeamId}
+            />
+
+            <OrganizationSettings
+              organizations={organizations}
+              members={members}
+              teams={teams}
+              getRole={getRole}
+              onCreateOrganization={createOrganization}
+              onCreateTeam={createTeam}
+              onAddMember={addMember}
+              onSetTeamMembership={setTeamMembership}
+            />
+
+            <Button variant="outline" onClick={() => navigate('/customers')} className="flex items-center gap-2">
+              <Users className="h-4 w-4" />
+              <span>Customers</span>
+            </Button>
+
             <ThemeToggle />
 
             <Button variant="outline" onClick={signOut} className="flex items-center gap-2">
@@ -141,9 +318,16 @@ const Index = () => {
           </div>
         </div>
 
+        {!isOnline && (
+          <div className="flex items-center justify-center gap-2 rounded-lg border bg-muted px-4 py-2 mb-6 text-sm text-muted-foreground">
+            <CloudOff className="h-4 w-4" />
+            <span>You're offline. Reports you save will sync automatically when you reconnect.</span>
+          </div>
+        )}
+
         {/* Tabs */}
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-6 max-w-4xl mx-auto mb-6 sm:mb-8">
+          <TabsList className="grid w-full grid-cols-7 max-w-4xl mx-auto mb-6 sm:mb-8">
             <TabsTrigger value="create" className="flex items-center gap-2">
               <FileText className="h-4 w-4" />
               <span className="hidden sm:inline">Create</span>
@@ -169,6 +353,11 @@ const Index = () => {
               <span className="hidden sm:inline">Predict</span>
               <span className="sm:hidden">Predict</span>
             </TabsTrigger>
+            <TabsTrigger value="routes" className="flex items-center gap-2">
+              <Route className="h-4 w-4" />
+              <span className="hidden sm:inline">Routes</span>
+              <span className="sm:hidden">Routes</span>
+            </TabsTrigger>
             <TabsTrigger value="chat" className="flex items-center gap-2">
               <MessageSquare className="h-4 w-4" />
               <span className="hidden sm:inline">Chat</span>
@@ -177,43 +366,81 @@ const Index = () => {
           </TabsList>
 
           <TabsContent value="create" className="space-y-6">
+            {!editingReport && (
+              <DraftsPanel
+                drafts={drafts.filter(d => d.report.id !== formDraftId)}
+                reportTypes={reportTypes}
+                onResume={handleResumeDraft}
+                onDiscard={handleDiscardDraft}
+              />
+            )}
             <ReportForm
+              key={formDraftId}
               onSubmit={handleReportSubmit}
               editingReport={editingReport}
+              organizationId={editingReport ? editingReport.organizationId : activeTeam?.organizationId}
+              otherReports={reports.filter(r => r.userId === user.id && r.id !== formDraftId)}
+              initialDraft={getLocalDraft(formDraftId)}
+              onAutosave={handleAutosave}
               onCancelEdit={handleCancelEdit}
             />
           </TabsContent>
 
           <TabsContent value="history" className="space-y-6">
             <ReportsHistory
-              reports={reports}
+              reports={visibleHistory}
+              reportTypes={reportTypes}
+              currentUserId={user.id}
+              authorEmails={authorEmails}
+              liveUpdates={liveUpdates}
               onViewReport={handleViewReport}
               onEditReport={handleEditReport}
               onDeleteReport={handleDeleteReport}
+              onRetrySync={retrySync}
+              onDiscardLocalChanges={discardLocalChanges}
+              filters={historyFilters}
+              organizationId={activeTeam?.organizationId}
+              onFiltersChange={handleFiltersChange}
+              loading={isOnline && historyLoading}
+              hasMore={isOnline && hasMore}
+              loadingMore={loadingMore}
+              onLoadMore={loadMore}
             />
+            <ReportTrash reportTypes={reportTypes} enabled={isOnline} />
           </TabsContent>
 
           <TabsContent value="analytics" className="space-y-6">
             <MobileResponsiveWrapper>
-              <ProfessionalAIAnalytics reports={reports} />
+              {withStats(<ProfessionalAIAnalytics stats={stats} reportTypes={reportTypes} />)}
             </MobileResponsiveWrapper>
           </TabsContent>
 
           <TabsContent value="visualization" className="space-y-6">
             <MobileResponsiveWrapper>
-              <EnhancedDataVisualization reports={reports} />
+              {withStats(<EnhancedDataVisualization stats={stats} reportTypes={reportTypes} />)}
             </MobileResponsiveWrapper>
           </TabsContent>
 
           <TabsContent value="predictions" className="space-y-6">
             <MobileResponsiveWrapper>
-              <PredictiveAnalytics reports={reports} />
+              {withStats(<PredictiveAnalytics stats={stats} />)}
+            </MobileResponsiveWrapper>
+          </TabsContent>
+
+          <TabsContent value="routes" className="space-y-6">
+            <MobileResponsiveWrapper className="space-y-6">
+              <RouteOptimizer reports={reports} organizationId={activeTeam?.organizationId} />
+              <VisitPlanner
+                reports={reports}
+                organizationId={activeTeam?.organizationId}
+                onCreateDraft={handleItineraryDraft}
+              />
             </MobileResponsiveWrapper>
           </TabsContent>
 
           <TabsContent value="chat" className="space-y-6">
             <MobileResponsiveWrapper>
-              <AIChatInterface reports={reports} />
+              {withStats(<AIChatInterface stats={stats} reportTypes={reportTypes} />)}
             </MobileResponsiveWrapper>
           </TabsContent>
         </Tabs>
@@ -1,4 +1,7 @@
 import { AIAPIConfig, AIAnalysisRequest, AIAnalysisResponse } from '@/types/ai';
+import { ReportStats } from '@/types/report';
+import { ReportTypeDefinition } from '@/types/reportType';
+import { getReportTypeLabel } from '@/lib/reportTypes';
 
 class AIService {
   private config: AIAPIConfig | null = null;
@@ -158,7 +161,7 @@ class AIService {
   }
 
     async analyzeTransportData(request: AIAnalysisRequest): Promise<AIAnalysisResponse> {
-    const dataSummary = this.prepareDataSummary(request.reports);
+    const dataSummary = this.prepareDataSummary(request.stats, request.reportTypes);
 
     const prompt = `
 Transport Analytics Report
@@ -198,26 +201,34 @@ ${request.customPrompt || ''}
     return this.generateFallbackResponse(prompt);
   }
 
-  private prepareDataSummary(reports: any[]): string {
-    if (reports.length === 0) return 'No reports available for analysis.';
-
-    const allItems = reports.flatMap(report => report.items || []);
-    const totalCost = allItems.reduce((sum: number, item: any) => sum + (item.cost || 0), 0);
-    const averageCost = totalCost / allItems.length;
-    const uniqueLocations = [...new Set(allItems.map((item: any) => item.location))];
+  private prepareDataSummary(stats: ReportStats, reportTypes: ReportTypeDefinition[] = []): string {
+    const totalReports = stats.reports.reduce((sum, stat) => sum + stat.reports, 0);
+    if (totalReports === 0) return 'No reports available for analysis.';
+
+    const totalItems = stats.journeys.reduce((sum, stat) => sum + stat.journeys, 0);
+    const totalCost = stats.journeys.reduce((sum, stat) => sum + stat.totalCost, 0);
+    const averageCost = totalItems > 0 ? totalCost / totalItems : 0;
+    const uniqueLocations = new Set(stats.journeys.map(stat => stat.location));
+    const typeCounts = stats.reports.reduce((acc: Record<string, number>, stat) => {
+      const label = getReportTypeLabel(reportTypes, stat.reportType);
+      acc[label] = (acc[label] || 0) + stat.reports;
+      return acc;
+    }, {});
+    const months = stats.reports.map(stat => stat.month).sort();
 
     return `
-- Total Reports: ${reports.length}
-- Total Transport Items: ${allItems.length}
+- Total Reports: ${totalReports}
+- Total Transport Items: ${totalItems}
 - Total Cost: ₦${totalCost.toLocaleString()}
 - Average Cost per Visit: ₦${averageCost.toFixed(0)}
-- Unique Locations: ${uniqueLocations.length}
-- Date Range: ${reports[0]?.reportDate || 'N/A'} to ${reports[reports.length - 1]?.reportDate || 'N/A'}
+- Unique Locations: ${uniqueLocations.size}
+- Report Types: ${Object.entries(typeCounts).map(([label, count]) => `${label} (${count})`).join(', ')}
+- Date Range: ${months[0]} to ${months[months.length - 1]}
     `;
   }
 
-  async generatePredictiveInsights(reports: any[]): Promise<any> {
-    const dataSummary = this.prepareDataSummary(reports);
+  async generatePredictiveInsights(stats: ReportStats): Promise<any> {
+    const dataSummary = this.prepareDataSummary(stats);
     
     const prompt = `
 Predictive Transport Analytics
@@ -241,10 +252,8 @@ Focus on actionable insights and specific recommendations.
     return this.generateFallbackResponse(prompt);
   }
 
-  async generateRouteOptimization(reports: any[]): Promise<any> {
-    const locations = [...new Set(reports.flatMap(report => 
-      (report.items || []).map((item: any) => item.location)
-    ))];
+  async generateRouteOptimization(stats: ReportStats): Promise<any> {
+    const locations = [...new Set(stats.journeys.map(stat => stat.location))];
 
     const prompt = `
 Route Optimization Analysis
@@ -268,8 +277,8 @@ Focus on practical, implementable solutions.
     return this.generateFallbackResponse(prompt);
   }
 
-  async generateEfficiencyReport(reports: any[]): Promise<any> {
-    const dataSummary = this.prepareDataSummary(reports);
+  async generateEfficiencyReport(stats: ReportStats): Promise<any> {
+    const dataSummary = this.prepareDataSummary(stats);
     
     const prompt = `
 Transport Efficiency Analysis
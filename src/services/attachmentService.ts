@@ -0,0 +1,86 @@
+import { supabase } from '@/integrations/supabase/client';
+import { AttachmentChanges, PendingAttachment, ReportAttachment } from '@/types/report';
+
+const BUCKET = 'report-attachments';
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+class AttachmentService {
+  // Objects live under <user_id>/<report_id>/<item_id>/ to match the bucket policies
+  private buildPath(userId: string, reportId: string, pending: PendingAttachment) {
+    return `${userId}/${reportId}/${pending.itemId}/${pending.id}.jpg`;
+  }
+
+  async upload(userId: string, reportId: string, pending: PendingAttachment): Promise<void> {
+    const storagePath = this.buildPath(userId, reportId, pending);
+
+    const { error: uploadError } = await supabase.storage
+      .from(BUCKET)
+      .upload(storagePath, pending.file, { contentType: pending.file.type || 'image/jpeg' });
+
+    if (uploadError) throw uploadError;
+
+    const { error: insertError } = await supabase
+      .from('report_item_attachments')
+      .insert({
+        id: pending.id,
+        report_item_id: pending.itemId,
+        user_id: userId,
+        storage_path: storagePath,
+        file_name: pending.fileName,
+        content_type: pending.file.type || 'image/jpeg',
+        size_bytes: pending.file.size,
+      });
+
+    if (insertError) {
+      // Don't leave an orphaned object behind
+      await supabase.storage.from(BUCKET).remove([storagePath]);
+      throw insertError;
+    }
+  }
+
+  async remove(attachment: ReportAttachment): Promise<void> {
+    const { error } = await supabase
+      .from('report_item_attachments')
+      .delete()
+      .eq('id', attachment.id);
+
+    if (error) throw error;
+
+    await supabase.storage.from(BUCKET).remove([attachment.storagePath]);
+  }
+
+  // Files of a report being purged; the attachment rows go with the report
+  async removeFiles(storagePaths: string[]): Promise<void> {
+    if (storagePaths.length === 0) return;
+
+    const { error } = await supabase.storage.from(BUCKET).remove(storagePaths);
+
+    if (error) throw error;
+  }
+
+  async applyChanges(userId: string, reportId: string, changes: AttachmentChanges): Promise<void> {
+    for (const attachment of changes.removed) {
+      await this.remove(attachment);
+    }
+    for (const pending of changes.added) {
+      await this.upload(userId, reportId, pending);
+    }
+  }
+
+  async getSignedUrls(storagePaths: string[]): Promise<Record<string, string>> {
+    if (storagePaths.length === 0) return {};
+
+    const { data, error } = await supabase.storage
+      .from(BUCKET)
+      .createSignedUrls(storagePaths, SIGNED_URL_TTL_SECONDS);
+
+    if (error) throw error;
+
+    return (data || []).reduce((acc, entry) => {
+      if (entry.path && entry.signedUrl) acc[entry.path] = entry.signedUrl;
+      return acc;
+    }, {} as Record<string, string>);
+  }
+}
+
+export const attachmentService = new AttachmentService();
@@ -0,0 +1,79 @@
+import { supabase } from '@/integrations/supabase/client';
+import { DEFAULT_PDF_BRANDING, PdfBranding, PdfBrandingInput, PdfTemplate } from '@/types/branding';
+
+const BUCKET = 'organization-branding';
+
+class BrandingService {
+  getLogoUrl(logoPath: string | null) {
+    return logoPath
+      ? supabase.storage.from(BUCKET).getPublicUrl(logoPath).data.publicUrl
+      : DEFAULT_PDF_BRANDING.logoUrl;
+  }
+
+  // Falls back to the default letterhead for personal reports and unbranded organizations
+  async get(organizationId?: string | null): Promise<PdfBranding> {
+    if (!organizationId) return DEFAULT_PDF_BRANDING;
+
+    const { data, error } = await supabase
+      .from('pdf_branding')
+      .select('organization_id, logo_path, primary_color, accent_color, header_text, address, footer_text, signatory_name, signatory_title, default_template')
+      .eq('organization_id', organizationId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return DEFAULT_PDF_BRANDING;
+
+    return {
+      organizationId: data.organization_id,
+      logoPath: data.logo_path,
+      logoUrl: this.getLogoUrl(data.logo_path),
+      primaryColor: data.primary_color,
+      accentColor: data.accent_color,
+      headerText: data.header_text,
+      address: data.address,
+      footerText: data.footer_text,
+      signatoryName: data.signatory_name,
+      signatoryTitle: data.signatory_title,
+      defaultTemplate: data.default_template as PdfTemplate,
+    };
+  }
+
+  async save(organizationId: string, branding: PdfBrandingInput & { logoPath: string | null }): Promise<void> {
+    const { error } = await supabase
+      .from('pdf_branding')
+      .upsert({
+        organization_id: organizationId,
+        logo_path: branding.logoPath,
+        primary_color: branding.primaryColor,
+        accent_color: branding.accentColor,
+        header_text: branding.headerText,
+        address: branding.address,
+        footer_text: branding.footerText,
+        signatory_name: branding.signatoryName,
+        signatory_title: branding.signatoryTitle,
+        default_template: branding.defaultTemplate,
+      });
+
+    if (error) throw error;
+  }
+
+  // A new name for every upload, so PDFs and caches never show a stale logo
+  async uploadLogo(organizationId: string, file: File): Promise<string> {
+    const extension = file.type === 'image/png' ? 'png' : 'jpg';
+    const logoPath = `${organizationId}/logo-${crypto.randomUUID()}.${extension}`;
+
+    const { error } = await supabase.storage
+      .from(BUCKET)
+      .upload(logoPath, file, { contentType: file.type });
+
+    if (error) throw error;
+    return logoPath;
+  }
+
+  async removeLogo(logoPath: string): Promise<void> {
+    const { error } = await supabase.storage.from(BUCKET).remove([logoPath]);
+    if (error) throw error;
+  }
+}
+
+export const brandingService = new BrandingService();
@@ -0,0 +1,227 @@
+import { QueryData } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { HIGH_COST_FARE, Report, ReportCursor, ReportFilters, ReportStats, ReportStatus } from '@/types/report';
+import { PolicyViolation } from '@/types/policy';
+import { ReportOutcome } from '@/types/outcome';
+import { sortByLegOrder } from '@/lib/legs';
+
+export const REPORT_PAGE_SIZE = 20;
+
+// How many of the newest reports are kept on hand for drafts, fare caps and route planning
+export const RECENT_REPORT_LIMIT = 50;
+
+const REPORT_COLUMNS = `
+  id,
+  user_id,
+  organization_id,
+  team_id,
+  report_type,
+  report_date,
+  description,
+  outcome,
+  total_cost,
+  account_number,
+  account_name,
+  bank_name,
+  status,
+  submitted_at,
+  reviewed_at,
+  review_note,
+  paid_at,
+  created_at,
+  updated_at,
+  updated_by,
+  report_items (
+    id,
+    origin,
+    location,
+    leg_order,
+    is_round_trip,
+    transportation,
+    cost,
+    latitude,
+    longitude,
+    location_accuracy,
+    captured_at,
+    policy_violations,
+    justification,
+    report_item_attachments (
+      id,
+      storage_path,
+      file_name,
+      content_type,
+      size_bytes
+    ),
+    report_item_loans (
+      loans (
+        id,
+        loan_reference,
+        customer_id,
+        customers ( full_name )
+      )
+    )
+  )
+` as const;
+
+const selectReports = () => supabase.from('reports').select(REPORT_COLUMNS);
+
+type ReportRow = QueryData<ReturnType<typeof selectReports>>[number];
+
+// Transform database data to match Report interface
+const toReport = (dbReport: ReportRow): Report => ({
+  id: dbReport.id,
+  userId: dbReport.user_id,
+  organizationId: dbReport.organization_id,
+  teamId: dbReport.team_id,
+  reportType: dbReport.report_type,
+  reportDate: dbReport.report_date,
+  description: dbReport.description || '',
+  outcome: dbReport.outcome as unknown as ReportOutcome | null,
+  totalCost: Number(dbReport.total_cost),
+  accountNumber: dbReport.account_number || '',
+  accountName: dbReport.account_name || '',
+  bankName: dbReport.bank_name || '',
+  status: dbReport.status as ReportStatus,
+  submittedAt: dbReport.submitted_at,
+  reviewedAt: dbReport.reviewed_at,
+  reviewNote: dbReport.review_note,
+  paidAt: dbReport.paid_at,
+  createdAt: dbReport.created_at,
+  updatedAt: dbReport.updated_at,
+  updatedBy: dbReport.updated_by,
+  items: sortByLegOrder((dbReport.report_items || []).map(item => ({
+    id: item.id,
+    origin: item.origin,
+    location: item.location,
+    legOrder: item.leg_order,
+    isRoundTrip: item.is_round_trip,
+    transportation: item.transportation,
+    cost: Number(item.cost),
+    checkIn: item.latitude !== null && item.longitude !== null
+      ? {
+          coordinates: { lat: item.latitude, lng: item.longitude },
+          accuracy: item.location_accuracy,
+          capturedAt: item.captured_at,
+        }
+      : null,
+    policyViolations: (item.policy_violations || []) as unknown as PolicyViolation[],
+    justification: item.justification,
+    loans: (item.report_item_loans || [])
+      .filter(link => link.loans)
+      .map(({ loans: loan }) => ({
+        id: loan.id,
+        loanReference: loan.loan_reference,
+        customerId: loan.customer_id,
+        customerName: loan.customers?.full_name ?? '',
+      })),
+    attachments: (item.report_item_attachments || []).map(attachment => ({
+      id: attachment.id,
+      storagePath: attachment.storage_path,
+      fileName: attachment.file_name,
+      contentType: attachment.content_type,
+      sizeBytes: attachment.size_bytes,
+    })),
+  })))
+});
+
+class ReportService {
+  // The newest reports in the team, or the user's own when no team is selected, plus the
+  // user's drafts and rejected reports however old; older reports are reached through search
+  async list(userId: string, teamId?: string | null): Promise<Report[]> {
+    let recent = selectReports().order('created_at', { ascending: false }).limit(RECENT_REPORT_LIMIT);
+    let open = selectReports().eq('user_id', userId).in('status', ['draft', 'rejected']);
+
+    recent = teamId ? recent.eq('team_id', teamId) : recent.eq('user_id', userId);
+    if (teamId) open = open.eq('team_id', teamId);
+
+    const [recentResult, openResult] = await Promise.all([recent, open]);
+
+    if (recentResult.error) throw recentResult.error;
+    if (openResult.error) throw openResult.error;
+
+    const recentRows = recentResult.data || [];
+    const olderOpenRows = (openResult.data || []).filter(row => !recentRows.some(r => r.id === row.id));
+
+    return [...recentRows, ...olderOpenRows]
+      .map(toReport)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async getByIds(ids: string[]): Promise<Report[]> {
+    if (ids.length === 0) return [];
+
+    const { data, error } = await selectReports().in('id', ids);
+
+    if (error) throw error;
+
+    return (data || []).map(toReport);
+  }
+
+  // One page of non-draft reports matching the filters, newest first
+  async search(
+    teamId: string | null | undefined,
+    filters: ReportFilters,
+    cursor: ReportCursor | null = null,
+    limit = REPORT_PAGE_SIZE,
+  ): Promise<{ reports: Report[]; nextCursor: ReportCursor | null }> {
+    const { data, error } = await supabase.rpc('search_reports', {
+      _team_id: teamId ?? null,
+      _query: filters.query.trim() || null,
+      _report_type: filters.reportType,
+      _status: filters.status,
+      _date_from: filters.dateFrom,
+      _date_to: filters.dateTo,
+      _min_cost: filters.minCost,
+      _max_cost: filters.maxCost,
+      _transport_mode: filters.transportMode,
+      _before_created_at: cursor?.createdAt ?? null,
+      _before_id: cursor?.id ?? null,
+      _limit: limit,
+    });
+
+    if (error) throw error;
+
+    const matches = data || [];
+    const byId = new Map((await this.getByIds(matches.map(match => match.id))).map(report => [report.id, report]));
+    const last = matches[matches.length - 1];
+
+    return {
+      // Keep the order the search returned
+      reports: matches.map(match => byId.get(match.id)).filter((report): report is Report => !!report),
+      nextCursor: matches.length === limit && last ? { createdAt: last.created_at, id: last.id } : null,
+    };
+  }
+
+  // Report and journey totals for analytics, over the same reports as the list
+  async getStats(teamId?: string | null): Promise<ReportStats> {
+    const [reportsResult, journeysResult] = await Promise.all([
+      supabase.rpc('report_stats', { _team_id: teamId ?? null }),
+      supabase.rpc('report_journey_stats', { _team_id: teamId ?? null, _high_cost: HIGH_COST_FARE }),
+    ]);
+
+    if (reportsResult.error) throw reportsResult.error;
+    if (journeysResult.error) throw journeysResult.error;
+
+    return {
+      reports: (reportsResult.data || []).map(row => ({
+        month: row.month,
+        reportType: row.report_type,
+        outcomes: row.outcomes,
+        reports: row.reports,
+      })),
+      journeys: (journeysResult.data || []).map(row => ({
+        month: row.month,
+        reportType: row.report_type,
+        outcomes: row.outcomes,
+        location: row.location,
+        transportation: row.transportation,
+        journeys: row.journeys,
+        totalCost: Number(row.total_cost),
+        highCostJourneys: row.high_cost_journeys,
+        highCostTotal: Number(row.high_cost_total),
+      })),
+    };
+  }
+}
+
+export const reportService = new ReportService();
@@ -1,3 +1,6 @@
+import { GeoPoint, ReportStats } from './report';
+import { ReportTypeDefinition } from './reportType';
+
 export interface TransportPattern {
   location: string;
   visitCount: number;
@@ -97,7 +100,7 @@ export interface AIReport {
 
 export interface LocationData {
   name: string;
-  coordinates?: { lat: number; lng: number };
+  coordinates?: GeoPoint;
   visitHistory: Array<{
     date: string;
     cost: number;
@@ -125,10 +128,12 @@ export interface AIAPIConfig {
 }
 
 export interface AIAnalysisRequest {
-  reports: any[];
+  stats: ReportStats;
   analysisType: string;
   focusAreas: string[];
   customPrompt?: string;
+  // Names the report types in the data summary
+  reportTypes?: ReportTypeDefinition[];
 }
 
 export interface AIAnalysisResponse {
@@ -0,0 +1,29 @@
+export type AuditAction = 'insert' | 'update' | 'delete';
+
+// One logged change to a report or one of its items, with the row as it was afterwards
+export interface ReportAuditEntry {
+  id: number;
+  tableName: 'reports' | 'report_items';
+  recordId: string;
+  action: AuditAction;
+  actorId: string | null;
+  newData: Record<string, unknown> | null;
+  transactionId: number;
+  changedAt: string;
+}
+
+export interface FieldChange {
+  label: string;
+  before: string;
+  after: string;
+}
+
+// Everything written together in one save, compared with the version before it
+export interface ReportVersion {
+  transactionId: number;
+  action: AuditAction;
+  actorId: string | null;
+  changedAt: string;
+  changes: FieldChange[];
+  isCurrent: boolean;
+}
@@ -0,0 +1,4 @@
+export type AppRole = 'officer' | 'supervisor' | 'finance' | 'admin';
+
+export const REVIEWER_ROLES: AppRole[] = ['supervisor', 'admin'];
+export const FINANCE_ROLES: AppRole[] = ['finance', 'admin'];
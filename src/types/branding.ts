@@ -0,0 +1,40 @@
+export const PDF_TEMPLATES = [
+  { value: 'compact', label: 'Compact', description: 'One page: journeys, total and payment details' },
+  { value: 'detailed', label: 'Detailed', description: 'Adds the description, visit outcome, loans and fare policy exceptions' },
+  { value: 'with_photos', label: 'Detailed with photos', description: 'Detailed, plus an appendix of receipts and evidence' },
+] as const;
+
+export type PdfTemplate = typeof PDF_TEMPLATES[number]['value'];
+
+// An organization's letterhead for PDF reports
+export interface PdfBranding {
+  // null until the organization saves its own branding
+  organizationId: string | null;
+  logoPath: string | null;
+  logoUrl: string;
+  primaryColor: string;
+  accentColor: string;
+  headerText: string | null;
+  address: string | null;
+  footerText: string;
+  signatoryName: string | null;
+  signatoryTitle: string | null;
+  defaultTemplate: PdfTemplate;
+}
+
+export type PdfBrandingInput = Omit<PdfBranding, 'organizationId' | 'logoPath' | 'logoUrl'>;
+
+// What reports looked like before branding existed, used until an organization sets its own
+export const DEFAULT_PDF_BRANDING: PdfBranding = {
+  organizationId: null,
+  logoPath: null,
+  logoUrl: '/Noltlogo.png',
+  primaryColor: '#333333',
+  accentColor: '#0ea5e9',
+  headerText: null,
+  address: null,
+  footerText: 'This is an official field report generated by the verification system.',
+  signatoryName: null,
+  signatoryTitle: null,
+  defaultTemplate: 'with_photos',
+};
@@ -0,0 +1,42 @@
+export interface ReportComment {
+  id: string;
+  reportId: string;
+  // Null for comments on the report as a whole
+  reportItemId: string | null;
+  // Null for the first comment of a thread
+  parentId: string | null;
+  authorId: string;
+  body: string;
+  mentions: string[];
+  requiresResponse: boolean;
+  resolvedAt: string | null;
+  resolvedBy: string | null;
+  createdAt: string;
+}
+
+// A first comment and its replies, oldest first
+export interface CommentThread {
+  comment: ReportComment;
+  replies: ReportComment[];
+  // Flagged by a reviewer, unresolved and not yet answered by the report's owner
+  awaitingResponse: boolean;
+}
+
+export interface CommentSummary {
+  openThreads: number;
+  awaitingResponse: number;
+  mentionsMe: boolean;
+}
+
+export interface NewComment {
+  body: string;
+  reportItemId?: string | null;
+  parentId?: string | null;
+  requiresResponse?: boolean;
+}
+
+// Someone who can be @mentioned on a report
+export interface MentionCandidate {
+  userId: string;
+  email: string;
+}
@@ -0,0 +1,54 @@
+import { Report, ReportStatus } from './report';
+
+export const LOAN_STATUSES = [
+  { value: 'active', label: 'Active' },
+  { value: 'closed', label: 'Closed' },
+  { value: 'written_off', label: 'Written off' },
+] as const;
+
+export type LoanStatus = typeof LOAN_STATUSES[number]['value'];
+
+export interface Loan {
+  id: string;
+  customerId: string;
+  loanReference: string;
+  principal: number | null;
+  disbursedOn: string | null;
+  status: LoanStatus;
+}
+
+export interface Customer {
+  id: string;
+  organizationId: string;
+  // The customer's number in the lender's core banking system
+  customerRef: string | null;
+  fullName: string;
+  phone: string | null;
+  address: string | null;
+  loans: Loan[];
+}
+
+// A loan as listed on a journey item
+export interface LoanLink {
+  id: string;
+  loanReference: string;
+  customerId: string;
+  customerName: string;
+}
+
+// A journey made for one of a customer's loans
+export interface CustomerVisit {
+  loanId: string;
+  reportId: string;
+  reportItemId: string;
+  reportDate: string;
+  reportType: Report['reportType'];
+  status: ReportStatus;
+  userId: string;
+  origin: string | null;
+  location: string;
+  transportation: string;
+  cost: number;
+  // The loan's share of the fare when the journey served several loans
+  allocatedCost: number;
+}
@@ -0,0 +1,55 @@
+import { Report } from './report';
+
+export const VISIT_PRIORITIES = [
+  { value: 'high', label: 'High' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'low', label: 'Low' },
+] as const;
+
+export type VisitPriority = typeof VISIT_PRIORITIES[number]['value'];
+
+export const DAILY_LIMIT_TYPES = [
+  { value: 'time', label: 'Hours per day' },
+  { value: 'budget', label: 'Fare budget per day (₦)' },
+] as const;
+
+export type DailyLimitType = typeof DAILY_LIMIT_TYPES[number]['value'];
+
+// A visit the officer still has to make
+export interface PendingVisit {
+  id: string;
+  location: string;
+  reportType: Report['reportType'];
+  priority: VisitPriority;
+  dueDate: string | null;
+  notes?: string | null;
+}
+
+export interface PlannedVisit extends PendingVisit {
+  // null when the visit did not fit in the planning horizon
+  scheduledDate: string | null;
+  visitOrder: number;
+  // Estimated fare of the leg that arrives at the visit
+  estimatedCost: number;
+  // The draft report the visit's day was turned into
+  reportId?: string | null;
+}
+
+export interface ItinerarySettings {
+  title: string;
+  startPoint: string;
+  startDate: string;
+  limitType: DailyLimitType;
+  // Minutes for a time limit, naira for a budget
+  dailyLimit: number;
+  visitMinutes: number;
+  transportMode: string | null;
+  returnToStart: boolean;
+}
+
+export interface Itinerary extends ItinerarySettings {
+  id: string;
+  organizationId: string | null;
+  visits: PlannedVisit[];
+  createdAt: string;
+}
@@ -0,0 +1,19 @@
+import { GeoPoint } from './report';
+
+// A canonical place in the gazetteer; aliases are other spellings that resolve to it
+export interface KnownLocation {
+  id: string;
+  // Null for the shared entries every organization sees
+  organizationId: string | null;
+  name: string;
+  aliases: string[];
+  lga: string | null;
+  state: string | null;
+  coordinates: GeoPoint | null;
+}
+
+// One spelling of a journey location and how many items use it
+export interface ItemLocationUsage {
+  location: string;
+  itemCount: number;
+}
@@ -0,0 +1,27 @@
+import { AppRole } from './auth';
+
+export interface Organization {
+  id: string;
+  name: string;
+}
+
+export interface OrganizationMember {
+  organizationId: string;
+  userId: string;
+  email: string;
+  role: AppRole;
+}
+
+export interface Team {
+  id: string;
+  organizationId: string;
+  name: string;
+  memberIds: string[];
+}
+
+export const MEMBER_ROLES = [
+  { value: 'officer', label: 'Officer' },
+  { value: 'supervisor', label: 'Supervisor' },
+  { value: 'finance', label: 'Finance' },
+  { value: 'admin', label: 'Admin' },
+] as const;
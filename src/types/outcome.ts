@@ -0,0 +1,43 @@
+export const CONTACT_OUTCOMES = [
+  { value: 'met_borrower', label: 'Met borrower' },
+  { value: 'met_guarantor', label: 'Met guarantor' },
+  { value: 'met_family', label: 'Met family member' },
+  { value: 'not_available', label: 'Borrower not available' },
+  { value: 'refused', label: 'Refused to engage' },
+  { value: 'relocated', label: 'Borrower has relocated' },
+] as const;
+
+export type ContactOutcome = typeof CONTACT_OUTCOMES[number]['value'];
+
+export const UTILISATION_CHECKS = [
+  { value: 'business_operating', label: 'Business is operating' },
+  { value: 'stock_purchased', label: 'Stock or inputs purchased' },
+  { value: 'assets_sighted', label: 'Equipment or assets sighted' },
+  { value: 'receipts_seen', label: 'Receipts or invoices seen' },
+  { value: 'stated_purpose', label: 'Funds used for the stated purpose' },
+] as const;
+
+export type UtilisationCheck = typeof UTILISATION_CHECKS[number]['value'];
+
+export interface VerificationOutcome {
+  type: 'verification';
+  addressConfirmed: boolean;
+  businessSighted: boolean;
+  photosTaken: boolean;
+}
+
+export interface RecoveryOutcome {
+  type: 'recovery';
+  contactOutcome: ContactOutcome | null;
+  amountCollected: number | null;
+  promiseToPayDate: string | null;
+}
+
+export interface PostDisbursementOutcome {
+  type: 'post-disbursement';
+  // The checks that passed; the rest were not met
+  checks: UtilisationCheck[];
+}
+
+// What the officer found on the visit, shaped by the report type
+export type ReportOutcome = VerificationOutcome | RecoveryOutcome | PostDisbursementOutcome;
@@ -0,0 +1,16 @@
+export interface Bank {
+  // CBN institution code; 3 digits for deposit money banks
+  code: string;
+  name: string;
+  // Whether account numbers follow the NUBAN check-digit scheme for this code
+  usesNuban: boolean;
+}
+
+export interface Payee {
+  id: string;
+  accountNumber: string;
+  accountName: string;
+  bankCode: string;
+  bankName: string;
+  lastUsedAt: string;
+}
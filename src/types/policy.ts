@@ -0,0 +1,30 @@
+import { Report } from './report';
+
+export const FARE_POLICY_TYPES = [
+  { value: 'max_item_cost', label: 'Per journey' },
+  { value: 'max_daily_total', label: 'Per day' },
+] as const;
+
+export type FarePolicyType = typeof FARE_POLICY_TYPES[number]['value'];
+
+// An organization's spending limit; filters left empty match every journey
+export interface FarePolicy {
+  id: string;
+  organizationId: string;
+  policyType: FarePolicyType;
+  transportMode: string | null;
+  location: string | null;
+  reportType: Report['reportType'] | null;
+  maxCost: number;
+  isActive: boolean;
+}
+
+// A limit a journey went over; fare caps of transport modes are checked alongside the policies
+export interface PolicyViolation {
+  kind: FarePolicyType | 'mode_fare_cap';
+  // The fare policy, or the transport mode for a fare cap
+  policyId: string;
+  limit: number;
+  actual: number;
+  message: string;
+}
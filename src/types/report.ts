@@ -1,25 +1,194 @@
+import { PolicyViolation } from './policy';
+import { LoanLink } from './customer';
+import { ReportOutcome } from './outcome';
+
+export interface ReportAttachment {
+  id: string;
+  storagePath: string;
+  fileName: string;
+  contentType: string;
+  sizeBytes: number;
+}
+
+// A compressed photo picked in the form, uploaded when the report is saved
+export interface PendingAttachment {
+  id: string;
+  itemId: string;
+  file: Blob;
+  fileName: string;
+  previewUrl: string;
+}
+
+export interface AttachmentChanges {
+  added: PendingAttachment[];
+  removed: ReportAttachment[];
+}
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+// Device position captured when the officer recorded the journey item
+export interface CheckIn {
+  coordinates: GeoPoint;
+  accuracy: number | null;
+  capturedAt: string;
+}
+
 export interface ReportItem {
   id: string;
+  // Where the leg started; missing on items recorded before journeys had legs
+  origin?: string | null;
+  // Where the leg ended, i.e. the place visited
   location: string;
+  // Position of the leg in the day's journey
+  legOrder?: number;
+  // The fare also covers the way back to the origin
+  isRoundTrip?: boolean;
   transportation: string;
   cost: number;
+  checkIn?: CheckIn | null;
+  attachments?: ReportAttachment[];
+  // Stored when the report is submitted
+  policyViolations?: PolicyViolation[];
+  // The officer's reason for a journey that went over policy
+  justification?: string | null;
+  // Loans the journey was made for
+  loans?: LoanLink[];
 }
 
+export type ReportStatus = 'draft' | 'submitted' | 'approved' | 'rejected' | 'paid';
+
+// Local changes that have not reached the server yet
+export type SyncState = 'pending' | 'conflict' | 'failed';
+
 export interface Report {
   id: string;
-  reportType: 'verification' | 'recovery' | 'post-disbursement';
+  userId?: string;
+  organizationId?: string | null;
+  teamId?: string | null;
+  // Slug of a report type defined in the database
+  reportType: string;
   reportDate: string;
   description: string;
+  // Structured findings for the report type; missing on reports filed before outcomes
+  outcome?: ReportOutcome | null;
   items: ReportItem[];
   totalCost: number;
   accountNumber: string;
   accountName: string;
   bankName: string;
+  status: ReportStatus;
+  submittedAt?: string | null;
+  reviewedAt?: string | null;
+  reviewNote?: string | null;
+  paidAt?: string | null;
   createdAt: string;
+  updatedAt?: string;
+  // Who made the latest change, set by the server
+  updatedBy?: string | null;
+  syncState?: SyncState;
+}
+
+// Report form contents, as autosaved while an officer is still writing
+export interface FormDraft {
+  reportData: Omit<Report, 'id' | 'createdAt'>;
+  attachmentChanges: AttachmentChanges;
+}
+
+// A form draft kept on this device, keyed by the id the report has (or will have) on the server
+export interface LocalDraft extends FormDraft {
+  id: string;
+  userId: string;
+  savedAt: string;
+}
+
+// A draft listed for resuming: the server copy with any newer local edits applied
+export interface ReportDraft {
+  report: Report;
+  localDraft: LocalDraft | null;
+  savedAt: string;
 }
 
-export const REPORT_TYPES = [
-  { value: 'verification', label: 'Verification' },
-  { value: 'recovery', label: 'Recovery' },
-  { value: 'post-disbursement', label: 'Post-Disbursement' },
-] as const;
\ No newline at end of file
+export const REPORT_STATUSES = [
+  { value: 'draft', label: 'Draft' },
+  { value: 'submitted', label: 'Submitted' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'rejected', label: 'Rejected' },
+  { value: 'paid', label: 'Paid' },
+] as const;
+
+// Submitted reports are locked until a reviewer rejects them
+export const isReportEditable = (report: Pick<Report, 'status'>) =>
+  report.status === 'draft' || report.status === 'rejected';
+
+// Deleted reports stay in the trash this long before they are purged for good
+export const TRASH_RETENTION_DAYS = 30;
+
+export interface TrashedReport {
+  id: string;
+  reportType: string;
+  reportDate: string;
+  description: string | null;
+  totalCost: number;
+  status: ReportStatus;
+  deletedAt: string;
+  purgeAt: string;
+}
+
+// A change to a report that arrived from another session while this one was open
+export interface LiveUpdate {
+  updatedBy: string | null;
+  receivedAt: string;
+}
+
+// History filters, mirrored in the URL so a filtered view can be shared
+export interface ReportFilters {
+  query: string;
+  reportType: string | null;
+  status: ReportStatus | null;
+  dateFrom: string | null;
+  dateTo: string | null;
+  minCost: number | null;
+  maxCost: number | null;
+  transportMode: string | null;
+}
+
+// Position after the last report of a page; reports are ordered newest first
+export interface ReportCursor {
+  createdAt: string;
+  id: string;
+}
+
+// Journeys above this fare are counted apart in analytics
+export const HIGH_COST_FARE = 3000;
+
+// Reports in one month of one type, summed on the server for analytics
+export interface ReportCountStat {
+  // YYYY-MM
+  month: string;
+  reportType: string;
+  // The analytics outcome filters the reports match
+  outcomes: string[];
+  reports: number;
+}
+
+// Journeys to one place by one mode, summed the same way
+export interface ReportJourneyStat {
+  month: string;
+  reportType: string;
+  outcomes: string[];
+  location: string;
+  transportation: string;
+  journeys: number;
+  totalCost: number;
+  // Journeys above HIGH_COST_FARE
+  highCostJourneys: number;
+  highCostTotal: number;
+}
+
+export interface ReportStats {
+  reports: ReportCountStat[];
+  journeys: ReportJourneyStat[];
+}
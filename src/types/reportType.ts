@@ -0,0 +1,23 @@
+// Labels also appear in the errors check_report_required_fields raises on submit
+export const REQUIRED_REPORT_FIELDS = [
+  { value: 'description', label: 'Description' },
+  { value: 'check_in', label: 'GPS check-in on every journey' },
+  { value: 'photos', label: 'Photo on every journey' },
+  { value: 'loans', label: 'Loan on every journey' },
+] as const;
+
+export type RequiredReportField = typeof REQUIRED_REPORT_FIELDS[number]['value'];
+
+export interface ReportTypeDefinition {
+  id: string;
+  // null for the defaults offered to everyone
+  organizationId: string | null;
+  // Stored on reports; never changes once created
+  slug: string;
+  label: string;
+  color: string;
+  pdfTitle: string | null;
+  requiredFields: RequiredReportField[];
+  isActive: boolean;
+  sortOrder: number;
+}
@@ -0,0 +1,26 @@
+export const TRANSPORT_ICONS = [
+  { value: 'bus', label: 'Bus' },
+  { value: 'taxi', label: 'Taxi / Keke' },
+  { value: 'bike', label: 'Bike / Okada' },
+  { value: 'car', label: 'Car' },
+  { value: 'ride', label: 'Ride-hailing' },
+  { value: 'ferry', label: 'Ferry' },
+  { value: 'train', label: 'Train' },
+  { value: 'truck', label: 'Truck' },
+  { value: 'walk', label: 'Walking' },
+] as const;
+
+export type TransportIcon = typeof TRANSPORT_ICONS[number]['value'];
+
+export interface TransportMode {
+  id: string;
+  // null for the defaults offered to everyone
+  organizationId: string | null;
+  name: string;
+  icon: TransportIcon;
+  color: string;
+  fareCapPerKm: number | null;
+  fareCapFlat: number | null;
+  isActive: boolean;
+  sortOrder: number;
+}
@@ -0,0 +1,47 @@
+// Purges reports that have been in the trash past the retention window. Their attachment
+// files are deleted through the Storage API first, as the database can't remove them.
+// Scheduled to run daily, called with the service role key.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const BUCKET = 'report-attachments';
+// Keep in step with TRASH_RETENTION_DAYS in src/types/report.ts
+const TRASH_RETENTION_DAYS = 30;
+// The most paths Storage removes in one request
+const REMOVE_BATCH_SIZE = 1000;
+
+Deno.serve(async (req) => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return new Response('Forbidden', { status: 403 });
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+  const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  try {
+    const { data: attachments, error: listError } = await supabase.rpc('list_expired_report_attachments', {
+      _cutoff: cutoff,
+    });
+
+    if (listError) throw listError;
+
+    const paths = (attachments || []).map((attachment: { storage_path: string }) => attachment.storage_path);
+
+    for (let i = 0; i < paths.length; i += REMOVE_BATCH_SIZE) {
+      const { error } = await supabase.storage.from(BUCKET).remove(paths.slice(i, i + REMOVE_BATCH_SIZE));
+
+      if (error) throw error;
+    }
+
+    // Only once every file is gone, so a failed run leaves the reports to try again
+    const { data: purged, error: purgeError } = await supabase.rpc('purge_expired_reports', { _cutoff: cutoff });
+
+    if (purgeError) throw purgeError;
+
+    return Response.json({ purged, filesRemoved: paths.length });
+  } catch (error) {
+    console.error('Error purging expired reports:', error);
+    return Response.json({ error: error instanceof Error ? error.message : 'Purge failed' }, { status: 500 });
+  }
+});
@@ -0,0 +1,156 @@
+-- Add approval workflow status to reports
+ALTER TABLE public.reports
+  ADD COLUMN status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'submitted', 'approved', 'rejected', 'paid')),
+  ADD COLUMN submitted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN reviewed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN review_note TEXT,
+  ADD COLUMN paid_at TIMESTAMP WITH TIME ZONE;
+
+-- Reports created before the workflow existed were already sent out as PDFs
+UPDATE public.reports
+SET status = 'submitted', submitted_at = created_at;
+
+CREATE INDEX idx_reports_status ON public.reports(status);
+
+-- Role of the signed-in user, assigned by an admin in app_metadata
+CREATE OR REPLACE FUNCTION public.current_app_role()
+RETURNS TEXT AS $$
+  SELECT COALESCE(auth.jwt() -> 'app_metadata' ->> 'role', 'officer');
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Enforce the draft -> submitted -> approved/rejected -> paid lifecycle
+CREATE OR REPLACE FUNCTION public.enforce_report_status()
+RETURNS TRIGGER AS $$
+DECLARE
+  is_owner BOOLEAN := NEW.user_id = auth.uid();
+  app_role TEXT := public.current_app_role();
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status NOT IN ('draft', 'submitted') THEN
+      RAISE EXCEPTION 'New reports must be draft or submitted, not %', NEW.status;
+    END IF;
+    NEW.submitted_at := CASE WHEN NEW.status = 'submitted' THEN now() END;
+    NEW.reviewed_at := NULL;
+    NEW.reviewed_by := NULL;
+    NEW.review_note := NULL;
+    NEW.paid_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF OLD.status IN ('draft', 'rejected') AND NEW.status = 'submitted' AND is_owner THEN
+      NEW.submitted_at := now();
+    ELSIF OLD.status IN ('submitted', 'rejected') AND NEW.status = 'draft' AND is_owner THEN
+      NEW.submitted_at := NULL;
+    ELSIF OLD.status = 'submitted' AND NEW.status IN ('approved', 'rejected')
+      AND app_role IN ('supervisor', 'admin') AND NOT is_owner THEN
+      NEW.reviewed_at := now();
+      NEW.reviewed_by := auth.uid();
+    ELSIF OLD.status = 'approved' AND NEW.status = 'paid' AND app_role IN ('finance', 'admin') THEN
+      NEW.paid_at := now();
+    ELSE
+      RAISE EXCEPTION 'Report cannot move from % to %', OLD.status, NEW.status;
+    END IF;
+  ELSE
+    NEW.submitted_at := OLD.submitted_at;
+    NEW.reviewed_at := OLD.reviewed_at;
+    NEW.reviewed_by := OLD.reviewed_by;
+    NEW.review_note := OLD.review_note;
+    NEW.paid_at := OLD.paid_at;
+  END IF;
+
+  -- Submitted reports are locked; only drafts and rejected reports can be edited
+  IF OLD.status NOT IN ('draft', 'rejected') AND (
+    NEW.report_type IS DISTINCT FROM OLD.report_type OR
+    NEW.report_date IS DISTINCT FROM OLD.report_date OR
+    NEW.description IS DISTINCT FROM OLD.description OR
+    NEW.total_cost IS DISTINCT FROM OLD.total_cost OR
+    NEW.account_number IS DISTINCT FROM OLD.account_number OR
+    NEW.account_name IS DISTINCT FROM OLD.account_name OR
+    NEW.bank_name IS DISTINCT FROM OLD.bank_name
+  ) THEN
+    RAISE EXCEPTION 'Report is % and can no longer be edited', OLD.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER enforce_report_status
+BEFORE INSERT OR UPDATE ON public.reports
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_report_status();
+
+-- Reviewers can see reports once they leave draft
+DROP POLICY "Users can view their own reports" ON public.reports;
+DROP POLICY "Users can update their own reports" ON public.reports;
+DROP POLICY "Users can delete their own reports" ON public.reports;
+
+CREATE POLICY "Users can view their own and reviewable reports"
+ON public.reports
+FOR SELECT
+USING (
+  auth.uid() = user_id
+  OR (public.current_app_role() IN ('supervisor', 'admin') AND status <> 'draft')
+  OR (public.current_app_role() = 'finance' AND status IN ('approved', 'paid'))
+);
+
+CREATE POLICY "Users can update their own and reviewable reports"
+ON public.reports
+FOR UPDATE
+USING (
+  auth.uid() = user_id
+  OR (public.current_app_role() IN ('supervisor', 'admin') AND status <> 'draft')
+  OR (public.current_app_role() = 'finance' AND status IN ('approved', 'paid'))
+);
+
+CREATE POLICY "Users can delete their own editable reports"
+ON public.reports
+FOR DELETE
+USING (auth.uid() = user_id AND status IN ('draft', 'rejected'));
+
+-- Items follow the visibility of their report and lock with it
+DROP POLICY "Users can view their own report items" ON public.report_items;
+DROP POLICY "Users can create their own report items" ON public.report_items;
+DROP POLICY "Users can update their own report items" ON public.report_items;
+DROP POLICY "Users can delete their own report items" ON public.report_items;
+
+CREATE POLICY "Users can view items of visible reports"
+ON public.report_items
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.reports
+  WHERE reports.id = report_items.report_id
+));
+
+CREATE POLICY "Users can create items on their editable reports"
+ON public.report_items
+FOR INSERT
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.reports
+  WHERE reports.id = report_items.report_id
+  AND reports.user_id = auth.uid()
+  AND reports.status IN ('draft', 'rejected')
+));
+
+CREATE POLICY "Users can update items on their editable reports"
+ON public.report_items
+FOR UPDATE
+USING (EXISTS (
+  SELECT 1 FROM public.reports
+  WHERE reports.id = report_items.report_id
+  AND reports.user_id = auth.uid()
+  AND reports.status IN ('draft', 'rejected')
+));
+
+CREATE POLICY "Users can delete items on their editable reports"
+ON public.report_items
+FOR DELETE
+USING (EXISTS (
+  SELECT 1 FROM public.reports
+  WHERE reports.id = report_items.report_id
+  AND reports.user_id = auth.uid()
+  AND reports.status IN ('draft', 'rejected')
+));
@@ -0,0 +1,332 @@
+-- Create organizations table
+CREATE TABLE public.organizations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Create organization_members table; the role applies across the organization
+CREATE TABLE public.organization_members (
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'officer' CHECK (role IN ('officer', 'supervisor', 'finance', 'admin')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (organization_id, user_id)
+);
+
+-- Create teams table
+CREATE TABLE public.teams (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, name)
+);
+
+-- Create team_members table
+CREATE TABLE public.team_members (
+  team_id UUID REFERENCES public.teams(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (team_id, user_id)
+);
+
+-- File reports under a team
+ALTER TABLE public.reports
+  ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE SET NULL,
+  ADD COLUMN team_id UUID REFERENCES public.teams(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_organization_members_user_id ON public.organization_members(user_id);
+CREATE INDEX idx_teams_organization_id ON public.teams(organization_id);
+CREATE INDEX idx_team_members_user_id ON public.team_members(user_id);
+CREATE INDEX idx_reports_team_id ON public.reports(team_id);
+CREATE INDEX idx_reports_organization_id ON public.reports(organization_id);
+
+CREATE TRIGGER update_organizations_updated_at
+BEFORE UPDATE ON public.organizations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Membership checks run as definer so policies on these tables do not recurse
+CREATE OR REPLACE FUNCTION public.is_org_member(_organization_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_id = _organization_id
+    AND user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.has_org_role(_organization_id UUID, _roles TEXT[])
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_id = _organization_id
+    AND user_id = auth.uid()
+    AND role = ANY(_roles)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.has_team_role(_team_id UUID, _roles TEXT[])
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.team_members
+    JOIN public.teams ON teams.id = team_members.team_id
+    JOIN public.organization_members
+      ON organization_members.organization_id = teams.organization_id
+      AND organization_members.user_id = team_members.user_id
+    WHERE team_members.team_id = _team_id
+    AND team_members.user_id = auth.uid()
+    AND organization_members.role = ANY(_roles)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Enable Row Level Security
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.team_members ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for organizations
+CREATE POLICY "Members can view their organizations"
+ON public.organizations
+FOR SELECT
+USING (public.is_org_member(id));
+
+CREATE POLICY "Admins can update their organizations"
+ON public.organizations
+FOR UPDATE
+USING (public.has_org_role(id, ARRAY['admin']));
+
+-- Create RLS policies for organization_members
+CREATE POLICY "Members can view fellow members"
+ON public.organization_members
+FOR SELECT
+USING (public.is_org_member(organization_id));
+
+CREATE POLICY "Admins can change member roles"
+ON public.organization_members
+FOR UPDATE
+USING (public.has_org_role(organization_id, ARRAY['admin']));
+
+CREATE POLICY "Admins can remove members"
+ON public.organization_members
+FOR DELETE
+USING (public.has_org_role(organization_id, ARRAY['admin']));
+
+-- Create RLS policies for teams
+CREATE POLICY "Members can view teams in their organizations"
+ON public.teams
+FOR SELECT
+USING (public.is_org_member(organization_id));
+
+CREATE POLICY "Admins can create teams"
+ON public.teams
+FOR INSERT
+WITH CHECK (public.has_org_role(organization_id, ARRAY['admin']));
+
+CREATE POLICY "Admins can update teams"
+ON public.teams
+FOR UPDATE
+USING (public.has_org_role(organization_id, ARRAY['admin']));
+
+CREATE POLICY "Admins can delete teams"
+ON public.teams
+FOR DELETE
+USING (public.has_org_role(organization_id, ARRAY['admin']));
+
+-- Create RLS policies for team_members
+CREATE POLICY "Members can view team rosters in their organizations"
+ON public.team_members
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.teams
+  WHERE teams.id = team_members.team_id
+  AND public.is_org_member(teams.organization_id)
+));
+
+CREATE POLICY "Admins can add team members"
+ON public.team_members
+FOR INSERT
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.teams
+  WHERE teams.id = team_members.team_id
+  AND public.has_org_role(teams.organization_id, ARRAY['admin'])
+  AND EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_members.organization_id = teams.organization_id
+    AND organization_members.user_id = team_members.user_id
+  )
+));
+
+CREATE POLICY "Admins can remove team members"
+ON public.team_members
+FOR DELETE
+USING (EXISTS (
+  SELECT 1 FROM public.teams
+  WHERE teams.id = team_members.team_id
+  AND public.has_org_role(teams.organization_id, ARRAY['admin'])
+));
+
+-- Create an organization with the caller as its first admin
+CREATE OR REPLACE FUNCTION public.create_organization(_name TEXT)
+RETURNS UUID AS $$
+DECLARE
+  new_organization_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.organizations (name, created_by)
+  VALUES (_name, auth.uid())
+  RETURNING id INTO new_organization_id;
+
+  INSERT INTO public.organization_members (organization_id, user_id, email, role)
+  VALUES (new_organization_id, auth.uid(), auth.jwt() ->> 'email', 'admin');
+
+  RETURN new_organization_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Add (or re-role) a registered user by email; admins only
+CREATE OR REPLACE FUNCTION public.add_organization_member(_organization_id UUID, _email TEXT, _role TEXT)
+RETURNS UUID AS $$
+DECLARE
+  member_id UUID;
+BEGIN
+  IF NOT public.has_org_role(_organization_id, ARRAY['admin']) THEN
+    RAISE EXCEPTION 'Only organization admins can add members';
+  END IF;
+
+  SELECT id INTO member_id FROM auth.users WHERE lower(email) = lower(_email);
+  IF member_id IS NULL THEN
+    RAISE EXCEPTION 'No registered user with email %', _email;
+  END IF;
+
+  INSERT INTO public.organization_members (organization_id, user_id, email, role)
+  VALUES (_organization_id, member_id, lower(_email), _role)
+  ON CONFLICT (organization_id, user_id) DO UPDATE SET role = EXCLUDED.role;
+
+  RETURN member_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, auth;
+
+-- Keep reports.organization_id in step with the team they are filed under
+CREATE OR REPLACE FUNCTION public.assign_report_organization()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.organization_id := (SELECT organization_id FROM public.teams WHERE id = NEW.team_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER assign_report_organization
+BEFORE INSERT OR UPDATE OF team_id ON public.reports
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_report_organization();
+
+-- Reviewer and finance rights now come from team and organization membership
+CREATE OR REPLACE FUNCTION public.enforce_report_status()
+RETURNS TRIGGER AS $$
+DECLARE
+  is_owner BOOLEAN := NEW.user_id = auth.uid();
+  is_reviewer BOOLEAN := public.has_team_role(NEW.team_id, ARRAY['supervisor'])
+    OR public.has_org_role(NEW.organization_id, ARRAY['admin']);
+  is_finance BOOLEAN := public.has_org_role(NEW.organization_id, ARRAY['finance', 'admin']);
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status NOT IN ('draft', 'submitted') THEN
+      RAISE EXCEPTION 'New reports must be draft or submitted, not %', NEW.status;
+    END IF;
+    NEW.submitted_at := CASE WHEN NEW.status = 'submitted' THEN now() END;
+    NEW.reviewed_at := NULL;
+    NEW.reviewed_by := NULL;
+    NEW.review_note := NULL;
+    NEW.paid_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF OLD.status IN ('draft', 'rejected') AND NEW.status = 'submitted' AND is_owner THEN
+      NEW.submitted_at := now();
+    ELSIF OLD.status IN ('submitted', 'rejected') AND NEW.status = 'draft' AND is_owner THEN
+      NEW.submitted_at := NULL;
+    ELSIF OLD.status = 'submitted' AND NEW.status IN ('approved', 'rejected')
+      AND is_reviewer AND NOT is_owner THEN
+      NEW.reviewed_at := now();
+      NEW.reviewed_by := auth.uid();
+    ELSIF OLD.status = 'approved' AND NEW.status = 'paid' AND is_finance THEN
+      NEW.paid_at := now();
+    ELSE
+      RAISE EXCEPTION 'Report cannot move from % to %', OLD.status, NEW.status;
+    END IF;
+  ELSE
+    NEW.submitted_at := OLD.submitted_at;
+    NEW.reviewed_at := OLD.reviewed_at;
+    NEW.reviewed_by := OLD.reviewed_by;
+    NEW.review_note := OLD.review_note;
+    NEW.paid_at := OLD.paid_at;
+  END IF;
+
+  -- Submitted reports are locked; only drafts and rejected reports can be edited
+  IF OLD.status NOT IN ('draft', 'rejected') AND (
+    NEW.report_type IS DISTINCT FROM OLD.report_type OR
+    NEW.report_date IS DISTINCT FROM OLD.report_date OR
+    NEW.description IS DISTINCT FROM OLD.description OR
+    NEW.total_cost IS DISTINCT FROM OLD.total_cost OR
+    NEW.account_number IS DISTINCT FROM OLD.account_number OR
+    NEW.account_name IS DISTINCT FROM OLD.account_name OR
+    NEW.bank_name IS DISTINCT FROM OLD.bank_name OR
+    NEW.team_id IS DISTINCT FROM OLD.team_id
+  ) THEN
+    RAISE EXCEPTION 'Report is % and can no longer be edited', OLD.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Supervisors see their team's reports, finance and admins their organization's
+DROP POLICY "Users can create their own reports" ON public.reports;
+DROP POLICY "Users can view their own and reviewable reports" ON public.reports;
+DROP POLICY "Users can update their own and reviewable reports" ON public.reports;
+
+CREATE POLICY "Users can create their own reports"
+ON public.reports
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND (team_id IS NULL OR public.has_team_role(team_id, ARRAY['officer', 'supervisor', 'finance', 'admin']))
+);
+
+CREATE POLICY "Users can view their own and their team's reports"
+ON public.reports
+FOR SELECT
+USING (
+  auth.uid() = user_id
+  OR (status <> 'draft' AND (
+    public.has_team_role(team_id, ARRAY['supervisor'])
+    OR public.has_org_role(organization_id, ARRAY['admin'])
+  ))
+  OR (status IN ('approved', 'paid') AND public.has_org_role(organization_id, ARRAY['finance']))
+);
+
+CREATE POLICY "Users can update their own and their team's reports"
+ON public.reports
+FOR UPDATE
+USING (
+  auth.uid() = user_id
+  OR (status <> 'draft' AND (
+    public.has_team_role(team_id, ARRAY['supervisor'])
+    OR public.has_org_role(organization_id, ARRAY['admin'])
+  ))
+  OR (status IN ('approved', 'paid') AND public.has_org_role(organization_id, ARRAY['finance']))
+);
+
+-- report_items visibility already follows the reports a user can see
+
+DROP FUNCTION public.current_app_role();
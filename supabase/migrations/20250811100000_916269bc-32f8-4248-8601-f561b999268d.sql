@@ -0,0 +1,104 @@
+-- Keep reports.total_cost equal to the sum of its items
+CREATE OR REPLACE FUNCTION public.sync_report_total_cost()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_report_id UUID := COALESCE(NEW.report_id, OLD.report_id);
+BEGIN
+  UPDATE public.reports
+  SET total_cost = COALESCE((
+    SELECT SUM(cost) FROM public.report_items WHERE report_id = target_report_id
+  ), 0)
+  WHERE id = target_report_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER sync_report_total_cost
+AFTER INSERT OR UPDATE OF cost OR DELETE ON public.report_items
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_report_total_cost();
+
+-- Correct any existing headers that drifted from their items
+ALTER TABLE public.reports DISABLE TRIGGER enforce_report_status;
+
+UPDATE public.reports
+SET total_cost = COALESCE((
+  SELECT SUM(cost) FROM public.report_items WHERE report_items.report_id = reports.id
+), 0);
+
+ALTER TABLE public.reports ENABLE TRIGGER enforce_report_status;
+
+-- Create or update a report and its items in a single transaction.
+-- Items keep their ids; unchanged items are left untouched.
+CREATE OR REPLACE FUNCTION public.save_report(_report JSONB, _items JSONB, _report_id UUID DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+  saved_report_id UUID := _report_id;
+  target_status TEXT := COALESCE(_report ->> 'status', 'draft');
+BEGIN
+  IF saved_report_id IS NULL THEN
+    -- Start as a draft so items can be written before the report locks
+    INSERT INTO public.reports (
+      user_id, team_id, report_type, report_date, description,
+      account_number, account_name, bank_name, status
+    )
+    VALUES (
+      auth.uid(),
+      (_report ->> 'team_id')::UUID,
+      _report ->> 'report_type',
+      (_report ->> 'report_date')::DATE,
+      _report ->> 'description',
+      _report ->> 'account_number',
+      _report ->> 'account_name',
+      _report ->> 'bank_name',
+      'draft'
+    )
+    RETURNING id INTO saved_report_id;
+  ELSE
+    UPDATE public.reports
+    SET
+      report_type = _report ->> 'report_type',
+      report_date = (_report ->> 'report_date')::DATE,
+      description = _report ->> 'description',
+      account_number = _report ->> 'account_number',
+      account_name = _report ->> 'account_name',
+      bank_name = _report ->> 'bank_name'
+    WHERE id = saved_report_id
+    AND user_id = auth.uid();
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Report % not found', saved_report_id;
+    END IF;
+  END IF;
+
+  -- Remove items that are no longer part of the report
+  DELETE FROM public.report_items
+  WHERE report_id = saved_report_id
+  AND NOT EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(_items) AS item(id UUID)
+    WHERE item.id = report_items.id
+  );
+
+  -- Insert new items and update changed ones
+  INSERT INTO public.report_items (id, report_id, location, transportation, cost)
+  SELECT COALESCE(item.id, gen_random_uuid()), saved_report_id, item.location, item.transportation, item.cost
+  FROM jsonb_to_recordset(_items) AS item(id UUID, location TEXT, transportation TEXT, cost DECIMAL(10,2))
+  ON CONFLICT (id) DO UPDATE
+  SET
+    location = EXCLUDED.location,
+    transportation = EXCLUDED.transportation,
+    cost = EXCLUDED.cost
+  WHERE report_items.report_id = EXCLUDED.report_id
+  AND (report_items.location, report_items.transportation, report_items.cost)
+    IS DISTINCT FROM (EXCLUDED.location, EXCLUDED.transportation, EXCLUDED.cost);
+
+  -- Submitting locks the items, so the status changes last
+  UPDATE public.reports
+  SET status = target_status
+  WHERE id = saved_report_id
+  AND status IS DISTINCT FROM target_status;
+
+  RETURN saved_report_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
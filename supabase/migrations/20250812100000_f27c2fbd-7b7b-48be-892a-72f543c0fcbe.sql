@@ -0,0 +1,87 @@
+-- Create report_item_attachments table for receipts and evidence photos
+CREATE TABLE public.report_item_attachments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  report_item_id UUID REFERENCES public.report_items(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  storage_path TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_report_item_attachments_item_id ON public.report_item_attachments(report_item_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.report_item_attachments ENABLE ROW LEVEL SECURITY;
+
+-- Attachments follow the visibility of their item and lock with the report
+CREATE POLICY "Users can view attachments of visible items"
+ON public.report_item_attachments
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.report_items
+  WHERE report_items.id = report_item_attachments.report_item_id
+));
+
+CREATE POLICY "Users can attach files to their editable reports"
+ON public.report_item_attachments
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.report_items
+    JOIN public.reports ON reports.id = report_items.report_id
+    WHERE report_items.id = report_item_attachments.report_item_id
+    AND reports.user_id = auth.uid()
+    AND reports.status IN ('draft', 'rejected')
+  )
+);
+
+CREATE POLICY "Users can remove files from their editable reports"
+ON public.report_item_attachments
+FOR DELETE
+USING (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.report_items
+    JOIN public.reports ON reports.id = report_items.report_id
+    WHERE report_items.id = report_item_attachments.report_item_id
+    AND reports.status IN ('draft', 'rejected')
+  )
+);
+
+-- Private bucket; objects live under <user_id>/<report_id>/<item_id>/
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('report-attachments', 'report-attachments', false, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp']);
+
+CREATE POLICY "Users can upload to their own attachment folder"
+ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'report-attachments'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users can delete from their own attachment folder"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'report-attachments'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+-- Reviewers can read files of any report they can see
+CREATE POLICY "Users can read attachments of visible reports"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'report-attachments'
+  AND (
+    (storage.foldername(name))[1] = auth.uid()::text
+    OR EXISTS (
+      SELECT 1 FROM public.reports
+      WHERE reports.id::text = (storage.foldername(name))[2]
+    )
+  )
+);
@@ -0,0 +1,133 @@
+-- Capture where the officer actually was when a journey item was recorded
+ALTER TABLE public.report_items
+  ADD COLUMN latitude DOUBLE PRECISION CHECK (latitude BETWEEN -90 AND 90),
+  ADD COLUMN longitude DOUBLE PRECISION CHECK (longitude BETWEEN -180 AND 180),
+  ADD COLUMN location_accuracy DOUBLE PRECISION,
+  ADD COLUMN captured_at TIMESTAMP WITH TIME ZONE,
+  ADD CONSTRAINT report_items_coordinates_pair
+    CHECK ((latitude IS NULL) = (longitude IS NULL));
+
+-- Create locations table with reference coordinates for declared locations
+CREATE TABLE public.locations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  latitude DOUBLE PRECISION NOT NULL CHECK (latitude BETWEEN -90 AND 90),
+  longitude DOUBLE PRECISION NOT NULL CHECK (longitude BETWEEN -180 AND 180),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_locations_name ON public.locations(lower(name));
+
+ALTER TABLE public.locations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can view locations"
+ON public.locations
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+INSERT INTO public.locations (name, latitude, longitude) VALUES
+  ('Ajah', 6.4698, 3.5852),
+  ('Apapa', 6.4474, 3.3647),
+  ('Badagry', 6.4153, 2.8813),
+  ('Epe', 6.5841, 3.9834),
+  ('Festac', 6.4667, 3.2833),
+  ('Ikeja', 6.6018, 3.3515),
+  ('Ikorodu', 6.6194, 3.5105),
+  ('Ikoyi', 6.4541, 3.4346),
+  ('Lekki Phase 1', 6.4478, 3.4723),
+  ('Maryland', 6.5711, 3.3677),
+  ('Oshodi', 6.5568, 3.3439),
+  ('Surulere', 6.4969, 3.3481),
+  ('Victoria Island', 6.4281, 3.4219),
+  ('Yaba', 6.5095, 3.3711);
+
+-- Include check-in coordinates when saving items
+CREATE OR REPLACE FUNCTION public.save_report(_report JSONB, _items JSONB, _report_id UUID DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+  saved_report_id UUID := _report_id;
+  target_status TEXT := COALESCE(_report ->> 'status', 'draft');
+BEGIN
+  IF saved_report_id IS NULL THEN
+    -- Start as a draft so items can be written before the report locks
+    INSERT INTO public.reports (
+      user_id, team_id, report_type, report_date, description,
+      account_number, account_name, bank_name, status
+    )
+    VALUES (
+      auth.uid(),
+      (_report ->> 'team_id')::UUID,
+      _report ->> 'report_type',
+      (_report ->> 'report_date')::DATE,
+      _report ->> 'description',
+      _report ->> 'account_number',
+      _report ->> 'account_name',
+      _report ->> 'bank_name',
+      'draft'
+    )
+    RETURNING id INTO saved_report_id;
+  ELSE
+    UPDATE public.reports
+    SET
+      report_type = _report ->> 'report_type',
+      report_date = (_report ->> 'report_date')::DATE,
+      description = _report ->> 'description',
+      account_number = _report ->> 'account_number',
+      account_name = _report ->> 'account_name',
+      bank_name = _report ->> 'bank_name'
+    WHERE id = saved_report_id
+    AND user_id = auth.uid();
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Report % not found', saved_report_id;
+    END IF;
+  END IF;
+
+  -- Remove items that are no longer part of the report
+  DELETE FROM public.report_items
+  WHERE report_id = saved_report_id
+  AND NOT EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(_items) AS item(id UUID)
+    WHERE item.id = report_items.id
+  );
+
+  -- Insert new items and update changed ones
+  INSERT INTO public.report_items (
+    id, report_id, location, transportation, cost,
+    latitude, longitude, location_accuracy, captured_at
+  )
+  SELECT
+    COALESCE(item.id, gen_random_uuid()), saved_report_id, item.location, item.transportation, item.cost,
+    item.latitude, item.longitude, item.location_accuracy, item.captured_at
+  FROM jsonb_to_recordset(_items) AS item(
+    id UUID, location TEXT, transportation TEXT, cost DECIMAL(10,2),
+    latitude DOUBLE PRECISION, longitude DOUBLE PRECISION,
+    location_accuracy DOUBLE PRECISION, captured_at TIMESTAMP WITH TIME ZONE
+  )
+  ON CONFLICT (id) DO UPDATE
+  SET
+    location = EXCLUDED.location,
+    transportation = EXCLUDED.transportation,
+    cost = EXCLUDED.cost,
+    latitude = EXCLUDED.latitude,
+    longitude = EXCLUDED.longitude,
+    location_accuracy = EXCLUDED.location_accuracy,
+    captured_at = EXCLUDED.captured_at
+  WHERE report_items.report_id = EXCLUDED.report_id
+  AND (
+    report_items.location, report_items.transportation, report_items.cost,
+    report_items.latitude, report_items.longitude, report_items.location_accuracy, report_items.captured_at
+  ) IS DISTINCT FROM (
+    EXCLUDED.location, EXCLUDED.transportation, EXCLUDED.cost,
+    EXCLUDED.latitude, EXCLUDED.longitude, EXCLUDED.location_accuracy, EXCLUDED.captured_at
+  );
+
+  -- Submitting locks the items, so the status changes last
+  UPDATE public.reports
+  SET status = target_status
+  WHERE id = saved_report_id
+  AND status IS DISTINCT FROM target_status;
+
+  RETURN saved_report_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
@@ -0,0 +1,45 @@
+-- Create payees table so officers can reuse bank details across reports
+CREATE TABLE public.payees (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL DEFAULT auth.uid(),
+  account_number TEXT NOT NULL CHECK (account_number ~ '^[0-9]{10}$'),
+  account_name TEXT NOT NULL,
+  bank_code TEXT NOT NULL,
+  bank_name TEXT NOT NULL,
+  last_used_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, bank_code, account_number)
+);
+
+CREATE INDEX idx_payees_user_id ON public.payees(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.payees ENABLE ROW LEVEL SECURITY;
+
+-- Payee books are private to each user
+CREATE POLICY "Users can view their own payees"
+ON public.payees
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own payees"
+ON public.payees
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own payees"
+ON public.payees
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own payees"
+ON public.payees
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_payees_updated_at
+BEFORE UPDATE ON public.payees
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
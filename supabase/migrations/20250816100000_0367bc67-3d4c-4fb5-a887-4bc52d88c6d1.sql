@@ -0,0 +1,56 @@
+-- Create transport_modes table; rows without an organization are the defaults everyone sees
+CREATE TABLE public.transport_modes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  icon TEXT NOT NULL DEFAULT 'car',
+  color TEXT NOT NULL DEFAULT '#82ca9d' CHECK (color ~ '^#[0-9A-Fa-f]{6}$'),
+  fare_cap_per_km DECIMAL(10,2) CHECK (fare_cap_per_km > 0),
+  fare_cap_flat DECIMAL(10,2) CHECK (fare_cap_flat > 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One mode per name within an organization, and among the defaults
+CREATE UNIQUE INDEX idx_transport_modes_name
+ON public.transport_modes(COALESCE(organization_id, '00000000-0000-0000-0000-000000000000'::UUID), lower(name));
+
+-- Enable Row Level Security
+ALTER TABLE public.transport_modes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view default and organization transport modes"
+ON public.transport_modes
+FOR SELECT
+USING (
+  auth.uid() IS NOT NULL
+  AND (organization_id IS NULL OR public.is_org_member(organization_id))
+);
+
+CREATE POLICY "Admins can add transport modes"
+ON public.transport_modes
+FOR INSERT
+WITH CHECK (organization_id IS NOT NULL AND public.has_org_role(organization_id, ARRAY['admin']));
+
+CREATE POLICY "Admins can update transport modes"
+ON public.transport_modes
+FOR UPDATE
+USING (organization_id IS NOT NULL AND public.has_org_role(organization_id, ARRAY['admin']));
+
+CREATE POLICY "Admins can delete transport modes"
+ON public.transport_modes
+FOR DELETE
+USING (organization_id IS NOT NULL AND public.has_org_role(organization_id, ARRAY['admin']));
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_transport_modes_updated_at
+BEFORE UPDATE ON public.transport_modes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The modes the form offered before they became configurable
+INSERT INTO public.transport_modes (name, icon, color, sort_order) VALUES
+  ('Bus', 'bus', '#FFBB28', 1),
+  ('Keke', 'taxi', '#00C49F', 2),
+  ('Bike', 'bike', '#FF8042', 3);
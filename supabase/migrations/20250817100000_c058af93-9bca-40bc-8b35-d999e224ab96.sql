@@ -0,0 +1,319 @@
+-- Create fare_policies table; empty filters match every journey
+CREATE TABLE public.fare_policies (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  policy_type TEXT NOT NULL CHECK (policy_type IN ('max_item_cost', 'max_daily_total')),
+  transport_mode TEXT,
+  location TEXT,
+  report_type TEXT CHECK (report_type IN ('verification', 'recovery', 'post-disbursement')),
+  max_cost DECIMAL(10,2) NOT NULL CHECK (max_cost > 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_fare_policies_organization_id ON public.fare_policies(organization_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.fare_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organization's fare policies"
+ON public.fare_policies
+FOR SELECT
+USING (public.is_org_member(organization_id));
+
+CREATE POLICY "Admins can add fare policies"
+ON public.fare_policies
+FOR INSERT
+WITH CHECK (public.has_org_role(organization_id, ARRAY['admin']));
+
+CREATE POLICY "Admins can update fare policies"
+ON public.fare_policies
+FOR UPDATE
+USING (public.has_org_role(organization_id, ARRAY['admin']));
+
+CREATE POLICY "Admins can delete fare policies"
+ON public.fare_policies
+FOR DELETE
+USING (public.has_org_role(organization_id, ARRAY['admin']));
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_fare_policies_updated_at
+BEFORE UPDATE ON public.fare_policies
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Violations are written when a report is submitted; the justification comes from the officer
+ALTER TABLE public.report_items
+ADD COLUMN policy_violations JSONB NOT NULL DEFAULT '[]'::JSONB,
+ADD COLUMN justification TEXT;
+
+-- Amounts in violation messages, formatted like the app does (5,000 or 12.5)
+CREATE OR REPLACE FUNCTION public.format_naira(_amount DECIMAL)
+RETURNS TEXT AS $$
+  SELECT '₦' || rtrim(to_char(_amount, 'FM999,999,999,990.99'), '.');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Which journeys a policy covers, e.g. "Keke journeys to Lekki on Recovery reports"
+CREATE OR REPLACE FUNCTION public.describe_fare_policy_scope(_policy public.fare_policies)
+RETURNS TEXT AS $$
+  SELECT concat_ws(' ',
+    COALESCE(_policy.transport_mode || ' journeys', 'journeys'),
+    'to ' || _policy.location,
+    'on ' || initcap(_policy.report_type) || ' reports'
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Re-evaluate a report's journeys against its organization's fare policies and the
+-- fare caps of their transport modes, storing the violations on each item.
+-- Returns how many flagged items still have no justification.
+CREATE OR REPLACE FUNCTION public.apply_fare_policies(_report_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  target public.reports%ROWTYPE;
+  item public.report_items%ROWTYPE;
+  policy public.fare_policies%ROWTYPE;
+  violations JSONB;
+  mode_name TEXT;
+  mode_cap DECIMAL;
+  mode_active BOOLEAN;
+  mode_id UUID;
+  day_total DECIMAL;
+  flagged_item_id UUID;
+  unjustified INTEGER;
+BEGIN
+  SELECT * INTO target FROM public.reports WHERE id = _report_id;
+
+  -- Per-journey limits
+  FOR item IN SELECT * FROM public.report_items WHERE report_id = _report_id LOOP
+    violations := '[]'::JSONB;
+
+    FOR policy IN
+      SELECT * FROM public.fare_policies
+      WHERE organization_id = target.organization_id
+      AND is_active
+      AND policy_type = 'max_item_cost'
+      AND (transport_mode IS NULL OR lower(trim(transport_mode)) = lower(trim(item.transportation)))
+      AND (location IS NULL OR lower(trim(location)) = lower(trim(item.location)))
+      AND (report_type IS NULL OR report_type = target.report_type)
+      AND item.cost > max_cost
+    LOOP
+      violations := violations || jsonb_build_object(
+        'kind', 'max_item_cost',
+        'policyId', policy.id,
+        'limit', policy.max_cost,
+        'actual', item.cost,
+        'message', format('%s is above the %s limit for %s',
+          public.format_naira(item.cost), public.format_naira(policy.max_cost),
+          public.describe_fare_policy_scope(policy))
+      );
+    END LOOP;
+
+    -- The organization's own mode overrides a default of the same name, even when disabled
+    SELECT id, name, fare_cap_flat, is_active INTO mode_id, mode_name, mode_cap, mode_active
+    FROM public.transport_modes
+    WHERE lower(trim(name)) = lower(trim(item.transportation))
+    AND (organization_id = target.organization_id OR organization_id IS NULL)
+    ORDER BY organization_id NULLS LAST
+    LIMIT 1;
+
+    IF FOUND AND mode_active AND mode_cap IS NOT NULL AND item.cost > mode_cap THEN
+      violations := violations || jsonb_build_object(
+        'kind', 'mode_fare_cap',
+        'policyId', mode_id,
+        'limit', mode_cap,
+        'actual', item.cost,
+        'message', format('%s is above the %s fare cap of %s',
+          public.format_naira(item.cost), mode_name, public.format_naira(mode_cap))
+      );
+    END IF;
+
+    UPDATE public.report_items SET policy_violations = violations WHERE id = item.id;
+  END LOOP;
+
+  -- Daily caps count the officer's other submitted reports for the same date,
+  -- and flag the most expensive matching journey of this report
+  FOR policy IN
+    SELECT * FROM public.fare_policies
+    WHERE organization_id = target.organization_id
+    AND is_active
+    AND policy_type = 'max_daily_total'
+    AND (report_type IS NULL OR report_type = target.report_type)
+  LOOP
+    SELECT COALESCE(SUM(ri.cost), 0) INTO day_total
+    FROM public.report_items ri
+    JOIN public.reports r ON r.id = ri.report_id
+    WHERE r.user_id = target.user_id
+    AND r.report_date = target.report_date
+    AND (r.id = _report_id OR r.status IN ('submitted', 'approved', 'paid'))
+    AND (policy.report_type IS NULL OR r.report_type = policy.report_type)
+    AND (policy.transport_mode IS NULL OR lower(trim(ri.transportation)) = lower(trim(policy.transport_mode)))
+    AND (policy.location IS NULL OR lower(trim(ri.location)) = lower(trim(policy.location)));
+
+    IF day_total > policy.max_cost THEN
+      SELECT id INTO flagged_item_id
+      FROM public.report_items
+      WHERE report_id = _report_id
+      AND (policy.transport_mode IS NULL OR lower(trim(transportation)) = lower(trim(policy.transport_mode)))
+      AND (policy.location IS NULL OR lower(trim(location)) = lower(trim(policy.location)))
+      ORDER BY cost DESC, id
+      LIMIT 1;
+
+      IF flagged_item_id IS NOT NULL THEN
+        UPDATE public.report_items
+        SET policy_violations = policy_violations || jsonb_build_object(
+          'kind', 'max_daily_total',
+          'policyId', policy.id,
+          'limit', policy.max_cost,
+          'actual', day_total,
+          'message', format('Day total of %s is above the %s daily limit for %s',
+            public.format_naira(day_total), public.format_naira(policy.max_cost),
+            public.describe_fare_policy_scope(policy))
+        )
+        WHERE id = flagged_item_id;
+      END IF;
+    END IF;
+  END LOOP;
+
+  SELECT count(*) INTO unjustified
+  FROM public.report_items
+  WHERE report_id = _report_id
+  AND jsonb_array_length(policy_violations) > 0
+  AND COALESCE(trim(justification), '') = '';
+
+  RETURN unjustified;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Check fare policies whenever a report is submitted, however the status is set
+CREATE OR REPLACE FUNCTION public.check_report_fare_policies()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'submitted' AND OLD.status IS DISTINCT FROM 'submitted' THEN
+    IF public.apply_fare_policies(NEW.id) > 0 THEN
+      RAISE EXCEPTION 'Journeys above fare policy need a justification before submitting'
+        USING ERRCODE = 'PT422';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER check_report_fare_policies
+BEFORE UPDATE OF status ON public.reports
+FOR EACH ROW
+EXECUTE FUNCTION public.check_report_fare_policies();
+
+-- save_report now carries each item's justification
+CREATE OR REPLACE FUNCTION public.save_report(
+  _report JSONB,
+  _items JSONB,
+  _report_id UUID DEFAULT NULL,
+  _expected_updated_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  saved_report_id UUID := _report_id;
+  target_status TEXT := COALESCE(_report ->> 'status', 'draft');
+  current_updated_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF saved_report_id IS NULL THEN
+    -- Start as a draft so items can be written before the report locks
+    INSERT INTO public.reports (
+      id, user_id, team_id, report_type, report_date, description,
+      account_number, account_name, bank_name, status
+    )
+    VALUES (
+      COALESCE((_report ->> 'id')::UUID, gen_random_uuid()),
+      auth.uid(),
+      (_report ->> 'team_id')::UUID,
+      _report ->> 'report_type',
+      (_report ->> 'report_date')::DATE,
+      _report ->> 'description',
+      _report ->> 'account_number',
+      _report ->> 'account_name',
+      _report ->> 'bank_name',
+      'draft'
+    )
+    RETURNING id INTO saved_report_id;
+  ELSE
+    SELECT updated_at INTO current_updated_at
+    FROM public.reports
+    WHERE id = saved_report_id
+    AND user_id = auth.uid()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Report % not found', saved_report_id;
+    END IF;
+
+    -- Refuse to overwrite edits made since the client last read the report
+    IF _expected_updated_at IS NOT NULL AND current_updated_at IS DISTINCT FROM _expected_updated_at THEN
+      RAISE EXCEPTION 'Report % was changed since it was last loaded', saved_report_id
+        USING ERRCODE = 'PT409';
+    END IF;
+
+    UPDATE public.reports
+    SET
+      report_type = _report ->> 'report_type',
+      report_date = (_report ->> 'report_date')::DATE,
+      description = _report ->> 'description',
+      account_number = _report ->> 'account_number',
+      account_name = _report ->> 'account_name',
+      bank_name = _report ->> 'bank_name'
+    WHERE id = saved_report_id;
+  END IF;
+
+  -- Remove items that are no longer part of the report
+  DELETE FROM public.report_items
+  WHERE report_id = saved_report_id
+  AND NOT EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(_items) AS item(id UUID)
+    WHERE item.id = report_items.id
+  );
+
+  -- Insert new items and update changed ones
+  INSERT INTO public.report_items (
+    id, report_id, location, transportation, cost,
+    latitude, longitude, location_accuracy, captured_at, justification
+  )
+  SELECT
+    COALESCE(item.id, gen_random_uuid()), saved_report_id, item.location, item.transportation, item.cost,
+    item.latitude, item.longitude, item.location_accuracy, item.captured_at, item.justification
+  FROM jsonb_to_recordset(_items) AS item(
+    id UUID, location TEXT, transportation TEXT, cost DECIMAL(10,2),
+    latitude DOUBLE PRECISION, longitude DOUBLE PRECISION,
+    location_accuracy DOUBLE PRECISION, captured_at TIMESTAMP WITH TIME ZONE,
+    justification TEXT
+  )
+  ON CONFLICT (id) DO UPDATE
+  SET
+    location = EXCLUDED.location,
+    transportation = EXCLUDED.transportation,
+    cost = EXCLUDED.cost,
+    latitude = EXCLUDED.latitude,
+    longitude = EXCLUDED.longitude,
+    location_accuracy = EXCLUDED.location_accuracy,
+    captured_at = EXCLUDED.captured_at,
+    justification = EXCLUDED.justification
+  WHERE report_items.report_id = EXCLUDED.report_id
+  AND (
+    report_items.location, report_items.transportation, report_items.cost,
+    report_items.latitude, report_items.longitude, report_items.location_accuracy, report_items.captured_at,
+    report_items.justification
+  ) IS DISTINCT FROM (
+    EXCLUDED.location, EXCLUDED.transportation, EXCLUDED.cost,
+    EXCLUDED.latitude, EXCLUDED.longitude, EXCLUDED.location_accuracy, EXCLUDED.captured_at,
+    EXCLUDED.justification
+  );
+
+  -- Submitting locks the items, so the status changes last
+  UPDATE public.reports
+  SET status = target_status
+  WHERE id = saved_report_id
+  AND status IS DISTINCT FROM target_status;
+
+  RETURN saved_report_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
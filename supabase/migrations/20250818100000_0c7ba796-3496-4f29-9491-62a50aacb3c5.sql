@@ -0,0 +1,118 @@
+-- Turn locations into a gazetteer: each canonical name carries its other spellings
+-- and administrative area; coordinates are optional for places added by hand
+ALTER TABLE public.locations
+  ADD COLUMN aliases TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN lga TEXT,
+  ADD COLUMN state TEXT,
+  ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ALTER COLUMN latitude DROP NOT NULL,
+  ALTER COLUMN longitude DROP NOT NULL,
+  ADD CONSTRAINT locations_coordinates_pair
+    CHECK ((latitude IS NULL) = (longitude IS NULL)),
+  ADD CONSTRAINT locations_name_not_blank
+    CHECK (length(trim(name)) > 0);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_locations_updated_at
+BEFORE UPDATE ON public.locations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The gazetteer is shared, so any organization admin can maintain it
+CREATE OR REPLACE FUNCTION public.is_any_org_admin()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE user_id = auth.uid()
+    AND role = 'admin'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE POLICY "Admins can add locations"
+ON public.locations
+FOR INSERT
+WITH CHECK (public.is_any_org_admin());
+
+CREATE POLICY "Admins can update locations"
+ON public.locations
+FOR UPDATE
+USING (public.is_any_org_admin());
+
+CREATE POLICY "Admins can delete locations"
+ON public.locations
+FOR DELETE
+USING (public.is_any_org_admin());
+
+UPDATE public.locations AS l
+SET lga = v.lga, state = 'Lagos', aliases = v.aliases
+FROM (VALUES
+  ('Ajah', 'Eti-Osa', ARRAY['Ajah Roundabout']),
+  ('Apapa', 'Apapa', ARRAY[]::TEXT[]),
+  ('Badagry', 'Badagry', ARRAY[]::TEXT[]),
+  ('Epe', 'Epe', ARRAY[]::TEXT[]),
+  ('Festac', 'Amuwo-Odofin', ARRAY['Festac Town']),
+  ('Ikeja', 'Ikeja', ARRAY[]::TEXT[]),
+  ('Ikorodu', 'Ikorodu', ARRAY[]::TEXT[]),
+  ('Ikoyi', 'Eti-Osa', ARRAY[]::TEXT[]),
+  ('Lekki Phase 1', 'Eti-Osa', ARRAY['Lekki Phase I', 'Lekki 1']),
+  ('Maryland', 'Kosofe', ARRAY[]::TEXT[]),
+  ('Oshodi', 'Oshodi-Isolo', ARRAY[]::TEXT[]),
+  ('Surulere', 'Surulere', ARRAY[]::TEXT[]),
+  ('Victoria Island', 'Eti-Osa', ARRAY['VI']),
+  ('Yaba', 'Lagos Mainland', ARRAY[]::TEXT[])
+) AS v(name, lga, aliases)
+WHERE l.name = v.name;
+
+-- Spellings of journey locations in an organization's reports, most used first
+CREATE OR REPLACE FUNCTION public.list_item_locations(_organization_id UUID)
+RETURNS TABLE (location TEXT, item_count BIGINT) AS $$
+  SELECT trim(report_items.location), count(*)
+  FROM public.report_items
+  JOIN public.reports ON reports.id = report_items.report_id
+  WHERE reports.organization_id = _organization_id
+  GROUP BY trim(report_items.location)
+  ORDER BY count(*) DESC, trim(report_items.location);
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
+
+-- Rewrite journey locations spelled like any of _variants to the canonical name,
+-- including submitted reports, and keep the spellings as aliases.
+-- Returns the number of journey items changed.
+CREATE OR REPLACE FUNCTION public.merge_item_locations(_organization_id UUID, _location_id UUID, _variants TEXT[])
+RETURNS INTEGER AS $$
+DECLARE
+  canonical public.locations%ROWTYPE;
+  merged INTEGER;
+BEGIN
+  IF NOT public.has_org_role(_organization_id, ARRAY['admin']) THEN
+    RAISE EXCEPTION 'Only organization admins can merge locations';
+  END IF;
+
+  SELECT * INTO canonical FROM public.locations WHERE id = _location_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Location % not found', _location_id;
+  END IF;
+
+  UPDATE public.report_items
+  SET location = canonical.name
+  FROM public.reports
+  WHERE reports.id = report_items.report_id
+  AND reports.organization_id = _organization_id
+  AND lower(trim(report_items.location)) IN (SELECT lower(trim(variant)) FROM unnest(_variants) AS variant)
+  AND report_items.location IS DISTINCT FROM canonical.name;
+
+  GET DIAGNOSTICS merged = ROW_COUNT;
+
+  UPDATE public.locations
+  SET aliases = ARRAY(
+    SELECT DISTINCT ON (lower(alias)) alias
+    FROM unnest(locations.aliases || ARRAY(SELECT trim(variant) FROM unnest(_variants) AS variant)) AS alias
+    WHERE length(alias) > 0
+    AND lower(alias) <> lower(locations.name)
+    ORDER BY lower(alias), alias
+  )
+  WHERE id = _location_id;
+
+  RETURN merged;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
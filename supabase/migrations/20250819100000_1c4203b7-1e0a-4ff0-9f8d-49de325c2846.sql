@@ -0,0 +1,137 @@
+-- Record journeys as ordered legs: where the officer set out from, where they went
+-- (location), and whether the fare covers the way back too
+ALTER TABLE public.report_items
+  ADD COLUMN origin TEXT,
+  ADD COLUMN leg_order INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN is_round_trip BOOLEAN NOT NULL DEFAULT false;
+
+-- Existing items keep the order they were saved in
+UPDATE public.report_items
+SET leg_order = ordered.position
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY report_id ORDER BY created_at, id) - 1 AS position
+  FROM public.report_items
+) AS ordered
+WHERE ordered.id = report_items.id;
+
+CREATE INDEX idx_report_items_report_leg ON public.report_items(report_id, leg_order);
+
+-- save_report now carries the legs of each journey
+CREATE OR REPLACE FUNCTION public.save_report(
+  _report JSONB,
+  _items JSONB,
+  _report_id UUID DEFAULT NULL,
+  _expected_updated_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  saved_report_id UUID := _report_id;
+  target_status TEXT := COALESCE(_report ->> 'status', 'draft');
+  current_updated_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF saved_report_id IS NULL THEN
+    -- Start as a draft so items can be written before the report locks
+    INSERT INTO public.reports (
+      id, user_id, team_id, report_type, report_date, description,
+      account_number, account_name, bank_name, status
+    )
+    VALUES (
+      COALESCE((_report ->> 'id')::UUID, gen_random_uuid()),
+      auth.uid(),
+      (_report ->> 'team_id')::UUID,
+      _report ->> 'report_type',
+      (_report ->> 'report_date')::DATE,
+      _report ->> 'description',
+      _report ->> 'account_number',
+      _report ->> 'account_name',
+      _report ->> 'bank_name',
+      'draft'
+    )
+    RETURNING id INTO saved_report_id;
+  ELSE
+    SELECT updated_at INTO current_updated_at
+    FROM public.reports
+    WHERE id = saved_report_id
+    AND user_id = auth.uid()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Report % not found', saved_report_id;
+    END IF;
+
+    -- Refuse to overwrite edits made since the client last read the report
+    IF _expected_updated_at IS NOT NULL AND current_updated_at IS DISTINCT FROM _expected_updated_at THEN
+      RAISE EXCEPTION 'Report % was changed since it was last loaded', saved_report_id
+        USING ERRCODE = 'PT409';
+    END IF;
+
+    UPDATE public.reports
+    SET
+      report_type = _report ->> 'report_type',
+      report_date = (_report ->> 'report_date')::DATE,
+      description = _report ->> 'description',
+      account_number = _report ->> 'account_number',
+      account_name = _report ->> 'account_name',
+      bank_name = _report ->> 'bank_name'
+    WHERE id = saved_report_id;
+  END IF;
+
+  -- Remove items that are no longer part of the report
+  DELETE FROM public.report_items
+  WHERE report_id = saved_report_id
+  AND NOT EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(_items) AS item(id UUID)
+    WHERE item.id = report_items.id
+  );
+
+  -- Insert new items and update changed ones
+  INSERT INTO public.report_items (
+    id, report_id, origin, location, leg_order, is_round_trip, transportation, cost,
+    latitude, longitude, location_accuracy, captured_at, justification
+  )
+  SELECT
+    COALESCE(item.id, gen_random_uuid()), saved_report_id, item.origin, item.location,
+    COALESCE(item.leg_order, 0), COALESCE(item.is_round_trip, false), item.transportation, item.cost,
+    item.latitude, item.longitude, item.location_accuracy, item.captured_at, item.justification
+  FROM jsonb_to_recordset(_items) AS item(
+    id UUID, origin TEXT, location TEXT, leg_order INTEGER, is_round_trip BOOLEAN,
+    transportation TEXT, cost DECIMAL(10,2),
+    latitude DOUBLE PRECISION, longitude DOUBLE PRECISION,
+    location_accuracy DOUBLE PRECISION, captured_at TIMESTAMP WITH TIME ZONE,
+    justification TEXT
+  )
+  ON CONFLICT (id) DO UPDATE
+  SET
+    origin = EXCLUDED.origin,
+    location = EXCLUDED.location,
+    leg_order = EXCLUDED.leg_order,
+    is_round_trip = EXCLUDED.is_round_trip,
+    transportation = EXCLUDED.transportation,
+    cost = EXCLUDED.cost,
+    latitude = EXCLUDED.latitude,
+    longitude = EXCLUDED.longitude,
+    location_accuracy = EXCLUDED.location_accuracy,
+    captured_at = EXCLUDED.captured_at,
+    justification = EXCLUDED.justification
+  WHERE report_items.report_id = EXCLUDED.report_id
+  AND (
+    report_items.origin, report_items.location, report_items.leg_order, report_items.is_round_trip,
+    report_items.transportation, report_items.cost,
+    report_items.latitude, report_items.longitude, report_items.location_accuracy, report_items.captured_at,
+    report_items.justification
+  ) IS DISTINCT FROM (
+    EXCLUDED.origin, EXCLUDED.location, EXCLUDED.leg_order, EXCLUDED.is_round_trip,
+    EXCLUDED.transportation, EXCLUDED.cost,
+    EXCLUDED.latitude, EXCLUDED.longitude, EXCLUDED.location_accuracy, EXCLUDED.captured_at,
+    EXCLUDED.justification
+  );
+
+  -- Submitting locks the items, so the status changes last
+  UPDATE public.reports
+  SET status = target_status
+  WHERE id = saved_report_id
+  AND status IS DISTINCT FROM target_status;
+
+  RETURN saved_report_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
@@ -0,0 +1,155 @@
+-- Create itineraries: an officer's plan of visits spread over several working days
+CREATE TABLE public.itineraries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL DEFAULT auth.uid(),
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE SET NULL,
+  title TEXT NOT NULL CHECK (btrim(title) <> ''),
+  start_point TEXT NOT NULL,
+  start_date DATE NOT NULL,
+  -- Each day is filled up to either a time or a fare budget
+  limit_type TEXT NOT NULL CHECK (limit_type IN ('time', 'budget')),
+  daily_limit DECIMAL(10,2) NOT NULL CHECK (daily_limit > 0),
+  visit_minutes INTEGER NOT NULL DEFAULT 45 CHECK (visit_minutes >= 0),
+  transport_mode TEXT,
+  return_to_start BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Visits planned on an itinerary; unscheduled ones did not fit before the planning horizon
+CREATE TABLE public.itinerary_visits (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  itinerary_id UUID REFERENCES public.itineraries(id) ON DELETE CASCADE NOT NULL,
+  location TEXT NOT NULL,
+  report_type TEXT NOT NULL CHECK (report_type IN ('verification', 'recovery', 'post-disbursement')),
+  priority TEXT NOT NULL DEFAULT 'medium' CHECK (priority IN ('high', 'medium', 'low')),
+  due_date DATE,
+  notes TEXT,
+  scheduled_date DATE,
+  visit_order INTEGER NOT NULL DEFAULT 0,
+  -- Estimated fare of the leg that arrives at this visit
+  estimated_cost DECIMAL(10,2) NOT NULL DEFAULT 0,
+  -- The draft report the visit's day was turned into
+  report_id UUID REFERENCES public.reports(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_itineraries_user_id ON public.itineraries(user_id);
+CREATE INDEX idx_itinerary_visits_itinerary ON public.itinerary_visits(itinerary_id, scheduled_date, visit_order);
+
+-- Enable Row Level Security
+ALTER TABLE public.itineraries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.itinerary_visits ENABLE ROW LEVEL SECURITY;
+
+-- Itineraries are private to the officer who planned them
+CREATE POLICY "Users can view their own itineraries"
+ON public.itineraries
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own itineraries"
+ON public.itineraries
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own itineraries"
+ON public.itineraries
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own itineraries"
+ON public.itineraries
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own itinerary visits"
+ON public.itinerary_visits
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.itineraries
+  WHERE itineraries.id = itinerary_visits.itinerary_id
+  AND itineraries.user_id = auth.uid()
+));
+
+CREATE POLICY "Users can create their own itinerary visits"
+ON public.itinerary_visits
+FOR INSERT
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.itineraries
+  WHERE itineraries.id = itinerary_visits.itinerary_id
+  AND itineraries.user_id = auth.uid()
+));
+
+-- Visits may only be linked to the officer's own reports
+CREATE POLICY "Users can update their own itinerary visits"
+ON public.itinerary_visits
+FOR UPDATE
+USING (EXISTS (
+  SELECT 1 FROM public.itineraries
+  WHERE itineraries.id = itinerary_visits.itinerary_id
+  AND itineraries.user_id = auth.uid()
+))
+WITH CHECK (
+  report_id IS NULL
+  OR EXISTS (
+    SELECT 1 FROM public.reports
+    WHERE reports.id = itinerary_visits.report_id
+    AND reports.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can delete their own itinerary visits"
+ON public.itinerary_visits
+FOR DELETE
+USING (EXISTS (
+  SELECT 1 FROM public.itineraries
+  WHERE itineraries.id = itinerary_visits.itinerary_id
+  AND itineraries.user_id = auth.uid()
+));
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_itineraries_updated_at
+BEFORE UPDATE ON public.itineraries
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Save an itinerary and its visits in one transaction
+CREATE OR REPLACE FUNCTION public.save_itinerary(_itinerary JSONB, _visits JSONB)
+RETURNS UUID AS $$
+DECLARE
+  saved_itinerary_id UUID;
+BEGIN
+  INSERT INTO public.itineraries (
+    user_id, organization_id, title, start_point, start_date, limit_type,
+    daily_limit, visit_minutes, transport_mode, return_to_start
+  )
+  VALUES (
+    auth.uid(),
+    (_itinerary ->> 'organization_id')::UUID,
+    _itinerary ->> 'title',
+    _itinerary ->> 'start_point',
+    (_itinerary ->> 'start_date')::DATE,
+    _itinerary ->> 'limit_type',
+    (_itinerary ->> 'daily_limit')::DECIMAL,
+    COALESCE((_itinerary ->> 'visit_minutes')::INTEGER, 45),
+    _itinerary ->> 'transport_mode',
+    COALESCE((_itinerary ->> 'return_to_start')::BOOLEAN, true)
+  )
+  RETURNING id INTO saved_itinerary_id;
+
+  INSERT INTO public.itinerary_visits (
+    itinerary_id, location, report_type, priority, due_date, notes,
+    scheduled_date, visit_order, estimated_cost
+  )
+  SELECT
+    saved_itinerary_id, visit.location, visit.report_type, COALESCE(visit.priority, 'medium'),
+    visit.due_date, visit.notes, visit.scheduled_date, COALESCE(visit.visit_order, 0),
+    COALESCE(visit.estimated_cost, 0)
+  FROM jsonb_to_recordset(_visits) AS visit(
+    location TEXT, report_type TEXT, priority TEXT, due_date DATE, notes TEXT,
+    scheduled_date DATE, visit_order INTEGER, estimated_cost DECIMAL(10,2)
+  );
+
+  RETURN saved_itinerary_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
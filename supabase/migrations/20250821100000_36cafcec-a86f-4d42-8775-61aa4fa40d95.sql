@@ -0,0 +1,320 @@
+-- Create customers: the borrowers an organization's officers visit
+CREATE TABLE public.customers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  -- The customer's number in the lender's core banking system
+  customer_ref TEXT,
+  full_name TEXT NOT NULL CHECK (btrim(full_name) <> ''),
+  phone TEXT,
+  address TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, customer_ref)
+);
+
+-- Create loans held by those customers
+CREATE TABLE public.loans (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+  loan_reference TEXT NOT NULL CHECK (btrim(loan_reference) <> ''),
+  principal DECIMAL(14,2) CHECK (principal >= 0),
+  disbursed_on DATE,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'closed', 'written_off')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, loan_reference)
+);
+
+-- Journey items made for one or more loans
+CREATE TABLE public.report_item_loans (
+  report_item_id UUID NOT NULL REFERENCES public.report_items(id) ON DELETE CASCADE,
+  loan_id UUID NOT NULL REFERENCES public.loans(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (report_item_id, loan_id)
+);
+
+CREATE INDEX idx_customers_organization_id ON public.customers(organization_id);
+CREATE INDEX idx_loans_customer_id ON public.loans(customer_id);
+CREATE INDEX idx_report_item_loans_loan_id ON public.report_item_loans(loan_id);
+
+-- A loan always belongs to a customer of the same organization
+CREATE OR REPLACE FUNCTION public.check_loan_customer()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.customers
+    WHERE id = NEW.customer_id
+    AND organization_id = NEW.organization_id
+  ) THEN
+    RAISE EXCEPTION 'Customer % is not in organization %', NEW.customer_id, NEW.organization_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER check_loan_customer
+BEFORE INSERT OR UPDATE OF customer_id, organization_id ON public.loans
+FOR EACH ROW
+EXECUTE FUNCTION public.check_loan_customer();
+
+-- Enable Row Level Security
+ALTER TABLE public.customers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.loans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.report_item_loans ENABLE ROW LEVEL SECURITY;
+
+-- Every member sees the loan book; supervisors and admins maintain it
+CREATE POLICY "Members can view their organization's customers"
+ON public.customers
+FOR SELECT
+USING (public.is_org_member(organization_id));
+
+CREATE POLICY "Supervisors can add customers"
+ON public.customers
+FOR INSERT
+WITH CHECK (public.has_org_role(organization_id, ARRAY['supervisor', 'admin']));
+
+CREATE POLICY "Supervisors can update customers"
+ON public.customers
+FOR UPDATE
+USING (public.has_org_role(organization_id, ARRAY['supervisor', 'admin']));
+
+CREATE POLICY "Admins can delete customers"
+ON public.customers
+FOR DELETE
+USING (public.has_org_role(organization_id, ARRAY['admin']));
+
+CREATE POLICY "Members can view their organization's loans"
+ON public.loans
+FOR SELECT
+USING (public.is_org_member(organization_id));
+
+CREATE POLICY "Supervisors can add loans"
+ON public.loans
+FOR INSERT
+WITH CHECK (public.has_org_role(organization_id, ARRAY['supervisor', 'admin']));
+
+CREATE POLICY "Supervisors can update loans"
+ON public.loans
+FOR UPDATE
+USING (public.has_org_role(organization_id, ARRAY['supervisor', 'admin']));
+
+CREATE POLICY "Admins can delete loans"
+ON public.loans
+FOR DELETE
+USING (public.has_org_role(organization_id, ARRAY['admin']));
+
+-- Loan links follow their item, and only loans of the report's organization can be linked
+CREATE POLICY "Users can view loan links of visible items"
+ON public.report_item_loans
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.report_items
+  WHERE report_items.id = report_item_loans.report_item_id
+));
+
+CREATE POLICY "Users can link loans on their editable reports"
+ON public.report_item_loans
+FOR INSERT
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.report_items
+  JOIN public.reports ON reports.id = report_items.report_id
+  JOIN public.loans ON loans.organization_id = reports.organization_id
+  WHERE report_items.id = report_item_loans.report_item_id
+  AND loans.id = report_item_loans.loan_id
+  AND reports.user_id = auth.uid()
+  AND reports.status IN ('draft', 'rejected')
+));
+
+CREATE POLICY "Users can unlink loans on their editable reports"
+ON public.report_item_loans
+FOR DELETE
+USING (EXISTS (
+  SELECT 1 FROM public.report_items
+  JOIN public.reports ON reports.id = report_items.report_id
+  WHERE report_items.id = report_item_loans.report_item_id
+  AND reports.user_id = auth.uid()
+  AND reports.status IN ('draft', 'rejected')
+));
+
+-- Create triggers for automatic timestamp updates
+CREATE TRIGGER update_customers_updated_at
+BEFORE UPDATE ON public.customers
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_loans_updated_at
+BEFORE UPDATE ON public.loans
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Every journey made for a customer's loans; an item shared by several loans
+-- splits its fare evenly between them
+CREATE OR REPLACE FUNCTION public.list_customer_visits(_customer_id UUID)
+RETURNS TABLE (
+  loan_id UUID,
+  report_id UUID,
+  report_item_id UUID,
+  report_date DATE,
+  report_type TEXT,
+  status TEXT,
+  user_id UUID,
+  origin TEXT,
+  location TEXT,
+  transportation TEXT,
+  cost DECIMAL,
+  allocated_cost DECIMAL
+) AS $$
+  SELECT
+    links.loan_id, reports.id, report_items.id, reports.report_date, reports.report_type,
+    reports.status, reports.user_id, report_items.origin, report_items.location,
+    report_items.transportation, report_items.cost,
+    round(report_items.cost / (
+      SELECT count(*) FROM public.report_item_loans AS shared
+      WHERE shared.report_item_id = report_items.id
+    ), 2)
+  FROM public.report_item_loans AS links
+  JOIN public.loans ON loans.id = links.loan_id
+  JOIN public.report_items ON report_items.id = links.report_item_id
+  JOIN public.reports ON reports.id = report_items.report_id
+  WHERE loans.customer_id = _customer_id
+  ORDER BY reports.report_date DESC, report_items.leg_order;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
+
+-- save_report now links items to the loans they were made for
+CREATE OR REPLACE FUNCTION public.save_report(
+  _report JSONB,
+  _items JSONB,
+  _report_id UUID DEFAULT NULL,
+  _expected_updated_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  saved_report_id UUID := _report_id;
+  target_status TEXT := COALESCE(_report ->> 'status', 'draft');
+  current_updated_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF saved_report_id IS NULL THEN
+    -- Start as a draft so items can be written before the report locks
+    INSERT INTO public.reports (
+      id, user_id, team_id, report_type, report_date, description,
+      account_number, account_name, bank_name, status
+    )
+    VALUES (
+      COALESCE((_report ->> 'id')::UUID, gen_random_uuid()),
+      auth.uid(),
+      (_report ->> 'team_id')::UUID,
+      _report ->> 'report_type',
+      (_report ->> 'report_date')::DATE,
+      _report ->> 'description',
+      _report ->> 'account_number',
+      _report ->> 'account_name',
+      _report ->> 'bank_name',
+      'draft'
+    )
+    RETURNING id INTO saved_report_id;
+  ELSE
+    SELECT updated_at INTO current_updated_at
+    FROM public.reports
+    WHERE id = saved_report_id
+    AND user_id = auth.uid()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Report % not found', saved_report_id;
+    END IF;
+
+    -- Refuse to overwrite edits made since the client last read the report
+    IF _expected_updated_at IS NOT NULL AND current_updated_at IS DISTINCT FROM _expected_updated_at THEN
+      RAISE EXCEPTION 'Report % was changed since it was last loaded', saved_report_id
+        USING ERRCODE = 'PT409';
+    END IF;
+
+    UPDATE public.reports
+    SET
+      report_type = _report ->> 'report_type',
+      report_date = (_report ->> 'report_date')::DATE,
+      description = _report ->> 'description',
+      account_number = _report ->> 'account_number',
+      account_name = _report ->> 'account_name',
+      bank_name = _report ->> 'bank_name'
+    WHERE id = saved_report_id;
+  END IF;
+
+  -- Remove items that are no longer part of the report
+  DELETE FROM public.report_items
+  WHERE report_id = saved_report_id
+  AND NOT EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(_items) AS item(id UUID)
+    WHERE item.id = report_items.id
+  );
+
+  -- Insert new items and update changed ones
+  INSERT INTO public.report_items (
+    id, report_id, origin, location, leg_order, is_round_trip, transportation, cost,
+    latitude, longitude, location_accuracy, captured_at, justification
+  )
+  SELECT
+    COALESCE(item.id, gen_random_uuid()), saved_report_id, item.origin, item.location,
+    COALESCE(item.leg_order, 0), COALESCE(item.is_round_trip, false), item.transportation, item.cost,
+    item.latitude, item.longitude, item.location_accuracy, item.captured_at, item.justification
+  FROM jsonb_to_recordset(_items) AS item(
+    id UUID, origin TEXT, location TEXT, leg_order INTEGER, is_round_trip BOOLEAN,
+    transportation TEXT, cost DECIMAL(10,2),
+    latitude DOUBLE PRECISION, longitude DOUBLE PRECISION,
+    location_accuracy DOUBLE PRECISION, captured_at TIMESTAMP WITH TIME ZONE,
+    justification TEXT
+  )
+  ON CONFLICT (id) DO UPDATE
+  SET
+    origin = EXCLUDED.origin,
+    location = EXCLUDED.location,
+    leg_order = EXCLUDED.leg_order,
+    is_round_trip = EXCLUDED.is_round_trip,
+    transportation = EXCLUDED.transportation,
+    cost = EXCLUDED.cost,
+    latitude = EXCLUDED.latitude,
+    longitude = EXCLUDED.longitude,
+    location_accuracy = EXCLUDED.location_accuracy,
+    captured_at = EXCLUDED.captured_at,
+    justification = EXCLUDED.justification
+  WHERE report_items.report_id = EXCLUDED.report_id
+  AND (
+    report_items.origin, report_items.location, report_items.leg_order, report_items.is_round_trip,
+    report_items.transportation, report_items.cost,
+    report_items.latitude, report_items.longitude, report_items.location_accuracy, report_items.captured_at,
+    report_items.justification
+  ) IS DISTINCT FROM (
+    EXCLUDED.origin, EXCLUDED.location, EXCLUDED.leg_order, EXCLUDED.is_round_trip,
+    EXCLUDED.transportation, EXCLUDED.cost,
+    EXCLUDED.latitude, EXCLUDED.longitude, EXCLUDED.location_accuracy, EXCLUDED.captured_at,
+    EXCLUDED.justification
+  );
+
+  -- Keep each item's loan links in step with the loans it lists
+  DELETE FROM public.report_item_loans
+  USING public.report_items
+  WHERE report_items.id = report_item_loans.report_item_id
+  AND report_items.report_id = saved_report_id
+  AND NOT EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(_items) AS item(id UUID, loan_ids UUID[])
+    WHERE item.id = report_item_loans.report_item_id
+    AND report_item_loans.loan_id = ANY(item.loan_ids)
+  );
+
+  INSERT INTO public.report_item_loans (report_item_id, loan_id)
+  SELECT item.id, linked.loan_id
+  FROM jsonb_to_recordset(_items) AS item(id UUID, loan_ids UUID[])
+  CROSS JOIN LATERAL unnest(COALESCE(item.loan_ids, '{}')) AS linked(loan_id)
+  ON CONFLICT DO NOTHING;
+
+  -- Submitting locks the items, so the status changes last
+  UPDATE public.reports
+  SET status = target_status
+  WHERE id = saved_report_id
+  AND status IS DISTINCT FROM target_status;
+
+  RETURN saved_report_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
@@ -0,0 +1,207 @@
+-- Structured visit outcomes, shaped by the report type
+ALTER TABLE public.reports
+ADD COLUMN outcome JSONB,
+ADD CONSTRAINT reports_outcome_matches_type CHECK (
+  outcome IS NULL OR (jsonb_typeof(outcome) = 'object' AND outcome ->> 'type' = report_type)
+);
+
+-- Outcomes lock with the rest of a submitted report
+CREATE OR REPLACE FUNCTION public.enforce_report_status()
+RETURNS TRIGGER AS $$
+DECLARE
+  is_owner BOOLEAN := NEW.user_id = auth.uid();
+  is_reviewer BOOLEAN := public.has_team_role(NEW.team_id, ARRAY['supervisor'])
+    OR public.has_org_role(NEW.organization_id, ARRAY['admin']);
+  is_finance BOOLEAN := public.has_org_role(NEW.organization_id, ARRAY['finance', 'admin']);
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status NOT IN ('draft', 'submitted') THEN
+      RAISE EXCEPTION 'New reports must be draft or submitted, not %', NEW.status;
+    END IF;
+    NEW.submitted_at := CASE WHEN NEW.status = 'submitted' THEN now() END;
+    NEW.reviewed_at := NULL;
+    NEW.reviewed_by := NULL;
+    NEW.review_note := NULL;
+    NEW.paid_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF OLD.status IN ('draft', 'rejected') AND NEW.status = 'submitted' AND is_owner THEN
+      NEW.submitted_at := now();
+    ELSIF OLD.status IN ('submitted', 'rejected') AND NEW.status = 'draft' AND is_owner THEN
+      NEW.submitted_at := NULL;
+    ELSIF OLD.status = 'submitted' AND NEW.status IN ('approved', 'rejected')
+      AND is_reviewer AND NOT is_owner THEN
+      NEW.reviewed_at := now();
+      NEW.reviewed_by := auth.uid();
+    ELSIF OLD.status = 'approved' AND NEW.status = 'paid' AND is_finance THEN
+      NEW.paid_at := now();
+    ELSE
+      RAISE EXCEPTION 'Report cannot move from % to %', OLD.status, NEW.status;
+    END IF;
+  ELSE
+    NEW.submitted_at := OLD.submitted_at;
+    NEW.reviewed_at := OLD.reviewed_at;
+    NEW.reviewed_by := OLD.reviewed_by;
+    NEW.review_note := OLD.review_note;
+    NEW.paid_at := OLD.paid_at;
+  END IF;
+
+  -- Submitted reports are locked; only drafts and rejected reports can be edited
+  IF OLD.status NOT IN ('draft', 'rejected') AND (
+    NEW.report_type IS DISTINCT FROM OLD.report_type OR
+    NEW.report_date IS DISTINCT FROM OLD.report_date OR
+    NEW.description IS DISTINCT FROM OLD.description OR
+    NEW.outcome IS DISTINCT FROM OLD.outcome OR
+    NEW.total_cost IS DISTINCT FROM OLD.total_cost OR
+    NEW.account_number IS DISTINCT FROM OLD.account_number OR
+    NEW.account_name IS DISTINCT FROM OLD.account_name OR
+    NEW.bank_name IS DISTINCT FROM OLD.bank_name OR
+    NEW.team_id IS DISTINCT FROM OLD.team_id
+  ) THEN
+    RAISE EXCEPTION 'Report is % and can no longer be edited', OLD.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- save_report now writes the report's outcome
+CREATE OR REPLACE FUNCTION public.save_report(
+  _report JSONB,
+  _items JSONB,
+  _report_id UUID DEFAULT NULL,
+  _expected_updated_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  saved_report_id UUID := _report_id;
+  target_status TEXT := COALESCE(_report ->> 'status', 'draft');
+  current_updated_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF saved_report_id IS NULL THEN
+    -- Start as a draft so items can be written before the report locks
+    INSERT INTO public.reports (
+      id, user_id, team_id, report_type, report_date, description, outcome,
+      account_number, account_name, bank_name, status
+    )
+    VALUES (
+      COALESCE((_report ->> 'id')::UUID, gen_random_uuid()),
+      auth.uid(),
+      (_report ->> 'team_id')::UUID,
+      _report ->> 'report_type',
+      (_report ->> 'report_date')::DATE,
+      _report ->> 'description',
+      NULLIF(_report -> 'outcome', 'null'::JSONB),
+      _report ->> 'account_number',
+      _report ->> 'account_name',
+      _report ->> 'bank_name',
+      'draft'
+    )
+    RETURNING id INTO saved_report_id;
+  ELSE
+    SELECT updated_at INTO current_updated_at
+    FROM public.reports
+    WHERE id = saved_report_id
+    AND user_id = auth.uid()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Report % not found', saved_report_id;
+    END IF;
+
+    -- Refuse to overwrite edits made since the client last read the report
+    IF _expected_updated_at IS NOT NULL AND current_updated_at IS DISTINCT FROM _expected_updated_at THEN
+      RAISE EXCEPTION 'Report % was changed since it was last loaded', saved_report_id
+        USING ERRCODE = 'PT409';
+    END IF;
+
+    UPDATE public.reports
+    SET
+      report_type = _report ->> 'report_type',
+      report_date = (_report ->> 'report_date')::DATE,
+      description = _report ->> 'description',
+      outcome = NULLIF(_report -> 'outcome', 'null'::JSONB),
+      account_number = _report ->> 'account_number',
+      account_name = _report ->> 'account_name',
+      bank_name = _report ->> 'bank_name'
+    WHERE id = saved_report_id;
+  END IF;
+
+  -- Remove items that are no longer part of the report
+  DELETE FROM public.report_items
+  WHERE report_id = saved_report_id
+  AND NOT EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(_items) AS item(id UUID)
+    WHERE item.id = report_items.id
+  );
+
+  -- Insert new items and update changed ones
+  INSERT INTO public.report_items (
+    id, report_id, origin, location, leg_order, is_round_trip, transportation, cost,
+    latitude, longitude, location_accuracy, captured_at, justification
+  )
+  SELECT
+    COALESCE(item.id, gen_random_uuid()), saved_report_id, item.origin, item.location,
+    COALESCE(item.leg_order, 0), COALESCE(item.is_round_trip, false), item.transportation, item.cost,
+    item.latitude, item.longitude, item.location_accuracy, item.captured_at, item.justification
+  FROM jsonb_to_recordset(_items) AS item(
+    id UUID, origin TEXT, location TEXT, leg_order INTEGER, is_round_trip BOOLEAN,
+    transportation TEXT, cost DECIMAL(10,2),
+    latitude DOUBLE PRECISION, longitude DOUBLE PRECISION,
+    location_accuracy DOUBLE PRECISION, captured_at TIMESTAMP WITH TIME ZONE,
+    justification TEXT
+  )
+  ON CONFLICT (id) DO UPDATE
+  SET
+    origin = EXCLUDED.origin,
+    location = EXCLUDED.location,
+    leg_order = EXCLUDED.leg_order,
+    is_round_trip = EXCLUDED.is_round_trip,
+    transportation = EXCLUDED.transportation,
+    cost = EXCLUDED.cost,
+    latitude = EXCLUDED.latitude,
+    longitude = EXCLUDED.longitude,
+    location_accuracy = EXCLUDED.location_accuracy,
+    captured_at = EXCLUDED.captured_at,
+    justification = EXCLUDED.justification
+  WHERE report_items.report_id = EXCLUDED.report_id
+  AND (
+    report_items.origin, report_items.location, report_items.leg_order, report_items.is_round_trip,
+    report_items.transportation, report_items.cost,
+    report_items.latitude, report_items.longitude, report_items.location_accuracy, report_items.captured_at,
+    report_items.justification
+  ) IS DISTINCT FROM (
+    EXCLUDED.origin, EXCLUDED.location, EXCLUDED.leg_order, EXCLUDED.is_round_trip,
+    EXCLUDED.transportation, EXCLUDED.cost,
+    EXCLUDED.latitude, EXCLUDED.longitude, EXCLUDED.location_accuracy, EXCLUDED.captured_at,
+    EXCLUDED.justification
+  );
+
+  -- Keep each item's loan links in step with the loans it lists
+  DELETE FROM public.report_item_loans
+  USING public.report_items
+  WHERE report_items.id = report_item_loans.report_item_id
+  AND report_items.report_id = saved_report_id
+  AND NOT EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(_items) AS item(id UUID, loan_ids UUID[])
+    WHERE item.id = report_item_loans.report_item_id
+    AND report_item_loans.loan_id = ANY(item.loan_ids)
+  );
+
+  INSERT INTO public.report_item_loans (report_item_id, loan_id)
+  SELECT item.id, linked.loan_id
+  FROM jsonb_to_recordset(_items) AS item(id UUID, loan_ids UUID[])
+  CROSS JOIN LATERAL unnest(COALESCE(item.loan_ids, '{}')) AS linked(loan_id)
+  ON CONFLICT DO NOTHING;
+
+  -- Submitting locks the items, so the status changes last
+  UPDATE public.reports
+  SET status = target_status
+  WHERE id = saved_report_id
+  AND status IS DISTINCT FROM target_status;
+
+  RETURN saved_report_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
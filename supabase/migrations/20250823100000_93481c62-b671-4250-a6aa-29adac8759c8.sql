@@ -0,0 +1,137 @@
+-- Create report_types table; rows without an organization are the defaults everyone sees
+CREATE TABLE public.report_types (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE,
+  -- Stored on reports, fare policies and planned visits
+  slug TEXT NOT NULL CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  label TEXT NOT NULL CHECK (length(trim(label)) > 0),
+  color TEXT NOT NULL DEFAULT '#6B7280' CHECK (color ~ '^#[0-9A-Fa-f]{6}$'),
+  -- Title printed on the PDF; "<label> Report" when empty
+  pdf_title TEXT,
+  -- What an officer must fill in before submitting a report of this type
+  required_fields TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (required_fields <@ ARRAY['description', 'check_in', 'photos', 'loans']),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One type per slug within an organization, and among the defaults
+CREATE UNIQUE INDEX idx_report_types_slug
+ON public.report_types(COALESCE(organization_id, '00000000-0000-0000-0000-000000000000'::UUID), slug);
+
+-- Enable Row Level Security
+ALTER TABLE public.report_types ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view default and organization report types"
+ON public.report_types
+FOR SELECT
+USING (
+  auth.uid() IS NOT NULL
+  AND (organization_id IS NULL OR public.is_org_member(organization_id))
+);
+
+CREATE POLICY "Admins can add report types"
+ON public.report_types
+FOR INSERT
+WITH CHECK (organization_id IS NOT NULL AND public.has_org_role(organization_id, ARRAY['admin']));
+
+CREATE POLICY "Admins can update report types"
+ON public.report_types
+FOR UPDATE
+USING (organization_id IS NOT NULL AND public.has_org_role(organization_id, ARRAY['admin']));
+
+CREATE POLICY "Admins can delete report types"
+ON public.report_types
+FOR DELETE
+USING (organization_id IS NOT NULL AND public.has_org_role(organization_id, ARRAY['admin']));
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_report_types_updated_at
+BEFORE UPDATE ON public.report_types
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The types the app offered before they became configurable
+INSERT INTO public.report_types (slug, label, color, sort_order) VALUES
+  ('verification', 'Verification', '#3B82F6', 1),
+  ('recovery', 'Recovery', '#F97316', 2),
+  ('post-disbursement', 'Post-Disbursement', '#8B5CF6', 3);
+
+-- A report type is usable when it is a default or belongs to the organization
+CREATE OR REPLACE FUNCTION public.is_known_report_type(_organization_id UUID, _slug TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.report_types
+    WHERE slug = _slug
+    AND (organization_id IS NULL OR organization_id = _organization_id)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Report types are checked against the owning organization instead of a fixed list
+ALTER TABLE public.reports DROP CONSTRAINT reports_report_type_check;
+ALTER TABLE public.fare_policies DROP CONSTRAINT fare_policies_report_type_check;
+ALTER TABLE public.itinerary_visits DROP CONSTRAINT itinerary_visits_report_type_check;
+
+CREATE OR REPLACE FUNCTION public.check_report_type()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_organization_id UUID;
+BEGIN
+  -- Rows keep a type that was removed after they were written
+  IF NEW.report_type IS NULL
+    OR (TG_OP = 'UPDATE' AND NEW.report_type IS NOT DISTINCT FROM OLD.report_type) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_TABLE_NAME = 'itinerary_visits' THEN
+    SELECT organization_id INTO target_organization_id
+    FROM public.itineraries
+    WHERE id = NEW.itinerary_id;
+  ELSE
+    target_organization_id := NEW.organization_id;
+  END IF;
+
+  IF NOT public.is_known_report_type(target_organization_id, NEW.report_type) THEN
+    RAISE EXCEPTION 'Unknown report type %', NEW.report_type;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Runs after assign_report_organization, so reports are checked against their team's organization
+CREATE TRIGGER check_report_type
+BEFORE INSERT OR UPDATE OF report_type ON public.reports
+FOR EACH ROW
+EXECUTE FUNCTION public.check_report_type();
+
+CREATE TRIGGER check_report_type
+BEFORE INSERT OR UPDATE OF report_type ON public.fare_policies
+FOR EACH ROW
+EXECUTE FUNCTION public.check_report_type();
+
+CREATE TRIGGER check_report_type
+BEFORE INSERT OR UPDATE OF report_type ON public.itinerary_visits
+FOR EACH ROW
+EXECUTE FUNCTION public.check_report_type();
+
+-- Violation messages use the organization's label for the report type
+CREATE OR REPLACE FUNCTION public.describe_fare_policy_scope(_policy public.fare_policies)
+RETURNS TEXT AS $$
+  SELECT concat_ws(' ',
+    COALESCE(_policy.transport_mode || ' journeys', 'journeys'),
+    'to ' || _policy.location,
+    'on ' || COALESCE(
+      (
+        SELECT label FROM public.report_types
+        WHERE slug = _policy.report_type
+        AND (organization_id IS NULL OR organization_id = _policy.organization_id)
+        ORDER BY organization_id NULLS LAST
+        LIMIT 1
+      ),
+      initcap(_policy.report_type)
+    ) || ' reports'
+  );
+$$ LANGUAGE sql STABLE SET search_path = public;
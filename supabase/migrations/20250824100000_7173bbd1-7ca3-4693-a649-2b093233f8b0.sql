@@ -0,0 +1,110 @@
+-- Search document for each report: item locations weigh more than the description
+CREATE TABLE public.report_search (
+  report_id UUID NOT NULL PRIMARY KEY REFERENCES public.reports(id) ON DELETE CASCADE,
+  document TSVECTOR NOT NULL
+);
+
+CREATE INDEX idx_report_search_document ON public.report_search USING GIN(document);
+
+-- Enable Row Level Security
+ALTER TABLE public.report_search ENABLE ROW LEVEL SECURITY;
+
+-- Visible exactly when the report itself is
+CREATE POLICY "Users can view search documents of reports they can see"
+ON public.report_search
+FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.reports WHERE reports.id = report_search.report_id));
+
+-- Rebuild a report's search document from its description and item places
+CREATE OR REPLACE FUNCTION public.refresh_report_search(_report_id UUID)
+RETURNS VOID AS $$
+  INSERT INTO public.report_search (report_id, document)
+  SELECT
+    r.id,
+    setweight(to_tsvector('simple', COALESCE(r.description, '')), 'B')
+      || setweight(to_tsvector('simple', COALESCE(
+        (
+          SELECT string_agg(concat_ws(' ', ri.origin, ri.location), ' ')
+          FROM public.report_items ri
+          WHERE ri.report_id = r.id
+        ),
+        ''
+      )), 'A')
+  FROM public.reports r
+  WHERE r.id = _report_id
+  ON CONFLICT (report_id) DO UPDATE SET document = EXCLUDED.document;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.sync_report_search()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'reports' THEN
+    PERFORM public.refresh_report_search(NEW.id);
+  ELSIF TG_OP = 'DELETE' THEN
+    PERFORM public.refresh_report_search(OLD.report_id);
+  ELSE
+    PERFORM public.refresh_report_search(NEW.report_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER sync_report_search
+AFTER INSERT OR UPDATE OF description ON public.reports
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_report_search();
+
+CREATE TRIGGER sync_report_search
+AFTER INSERT OR DELETE OR UPDATE OF origin, location ON public.report_items
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_report_search();
+
+-- Index the reports filed so far
+SELECT public.refresh_report_search(id) FROM public.reports;
+
+-- History pages are read newest first, by team or by officer
+CREATE INDEX idx_reports_team_history ON public.reports(team_id, created_at DESC, id DESC);
+CREATE INDEX idx_reports_user_history ON public.reports(user_id, created_at DESC, id DESC);
+
+-- One page of submitted reports matching the history filters, newest first.
+-- Pass the created_at and id of the last report of a page to get the next one.
+CREATE OR REPLACE FUNCTION public.search_reports(
+  _team_id UUID DEFAULT NULL,
+  _query TEXT DEFAULT NULL,
+  _report_type TEXT DEFAULT NULL,
+  _status TEXT DEFAULT NULL,
+  _date_from DATE DEFAULT NULL,
+  _date_to DATE DEFAULT NULL,
+  _min_cost NUMERIC DEFAULT NULL,
+  _max_cost NUMERIC DEFAULT NULL,
+  _transport_mode TEXT DEFAULT NULL,
+  _before_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _before_id UUID DEFAULT NULL,
+  _limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (id UUID, created_at TIMESTAMP WITH TIME ZONE) AS $$
+  SELECT r.id, r.created_at
+  FROM public.reports r
+  LEFT JOIN public.report_search s ON s.report_id = r.id
+  WHERE (CASE WHEN _team_id IS NULL THEN r.user_id = auth.uid() ELSE r.team_id = _team_id END)
+  AND r.status <> 'draft'
+  AND (_query IS NULL OR s.document @@ websearch_to_tsquery('simple', _query))
+  AND (_report_type IS NULL OR r.report_type = _report_type)
+  AND (_status IS NULL OR r.status = _status)
+  AND (_date_from IS NULL OR r.report_date >= _date_from)
+  AND (_date_to IS NULL OR r.report_date <= _date_to)
+  AND (_min_cost IS NULL OR r.total_cost >= _min_cost)
+  AND (_max_cost IS NULL OR r.total_cost <= _max_cost)
+  AND (
+    _transport_mode IS NULL
+    OR EXISTS (
+      SELECT 1 FROM public.report_items ri
+      WHERE ri.report_id = r.id
+      AND lower(ri.transportation) = lower(_transport_mode)
+    )
+  )
+  AND (_before_created_at IS NULL OR (r.created_at, r.id) < (_before_created_at, _before_id))
+  ORDER BY r.created_at DESC, r.id DESC
+  LIMIT LEAST(GREATEST(_limit, 1), 100);
+$$ LANGUAGE sql STABLE SET search_path = public;
@@ -0,0 +1,20 @@
+-- Who last changed each report, so other open sessions can say who updated it
+ALTER TABLE public.reports
+  ADD COLUMN updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION public.set_report_updated_by()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Writes made without a session, e.g. by maintenance jobs, keep the previous value
+  NEW.updated_by := COALESCE(auth.uid(), NEW.updated_by);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER set_report_updated_by
+BEFORE INSERT OR UPDATE ON public.reports
+FOR EACH ROW
+EXECUTE FUNCTION public.set_report_updated_by();
+
+-- Stream report changes to open sessions; Realtime only delivers rows the subscriber can select
+ALTER PUBLICATION supabase_realtime ADD TABLE public.reports, public.report_items;
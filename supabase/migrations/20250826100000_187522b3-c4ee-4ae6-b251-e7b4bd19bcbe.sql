@@ -0,0 +1,248 @@
+-- Every change to a report or its items, with who made it and the row before and after.
+-- Rows are never updated or deleted, and outlive the report they describe.
+CREATE TABLE public.report_audit_log (
+  -- Increasing, so a report's changes replay in the order they were made
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  report_id UUID NOT NULL,
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE,
+  table_name TEXT NOT NULL CHECK (table_name IN ('reports', 'report_items')),
+  record_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  old_data JSONB,
+  new_data JSONB,
+  -- Changes written together, e.g. by one save_report call, form one version
+  transaction_id BIGINT NOT NULL DEFAULT txid_current(),
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_report_audit_log_report_id ON public.report_audit_log(report_id, id);
+
+-- Enable Row Level Security
+ALTER TABLE public.report_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Readable alongside the report; reviewers keep access once it is deleted
+CREATE POLICY "Users can view the audit trail of reports they can see"
+ON public.report_audit_log
+FOR SELECT
+USING (
+  EXISTS (SELECT 1 FROM public.reports WHERE reports.id = report_audit_log.report_id)
+  OR public.has_org_role(organization_id, ARRAY['admin', 'supervisor'])
+);
+
+CREATE OR REPLACE FUNCTION public.log_report_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  old_row JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  new_row JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  changed_row JSONB := COALESCE(new_row, old_row);
+  target_report_id UUID;
+  target_organization_id UUID;
+BEGIN
+  -- Bookkeeping columns alone don't make a new version
+  IF TG_OP = 'UPDATE'
+    AND old_row - ARRAY['updated_at', 'updated_by'] = new_row - ARRAY['updated_at', 'updated_by'] THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_TABLE_NAME = 'reports' THEN
+    target_report_id := (changed_row ->> 'id')::UUID;
+    target_organization_id := (changed_row ->> 'organization_id')::UUID;
+  ELSE
+    target_report_id := (changed_row ->> 'report_id')::UUID;
+    SELECT organization_id INTO target_organization_id
+    FROM public.reports
+    WHERE id = target_report_id;
+  END IF;
+
+  INSERT INTO public.report_audit_log (
+    report_id, organization_id, table_name, record_id, action, actor_id, old_data, new_data
+  )
+  VALUES (
+    target_report_id,
+    target_organization_id,
+    TG_TABLE_NAME,
+    (changed_row ->> 'id')::UUID,
+    lower(TG_OP),
+    auth.uid(),
+    old_row,
+    new_row
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER log_report_change
+AFTER INSERT OR UPDATE OR DELETE ON public.reports
+FOR EACH ROW
+EXECUTE FUNCTION public.log_report_change();
+
+CREATE TRIGGER log_report_change
+AFTER INSERT OR UPDATE OR DELETE ON public.report_items
+FOR EACH ROW
+EXECUTE FUNCTION public.log_report_change();
+
+-- Start each existing report's history from its current contents
+INSERT INTO public.report_audit_log (report_id, organization_id, table_name, record_id, action, new_data, changed_at)
+SELECT r.id, r.organization_id, 'reports', r.id, 'insert', to_jsonb(r), r.created_at
+FROM public.reports r;
+
+INSERT INTO public.report_audit_log (report_id, organization_id, table_name, record_id, action, new_data, changed_at)
+SELECT ri.report_id, r.organization_id, 'report_items', ri.id, 'insert', to_jsonb(ri), r.created_at
+FROM public.report_items ri
+JOIN public.reports r ON r.id = ri.report_id;
+
+-- A restore may rewrite a submitted report's contents; everything else keeps the lock
+CREATE OR REPLACE FUNCTION public.enforce_report_status()
+RETURNS TRIGGER AS $$
+DECLARE
+  is_owner BOOLEAN := NEW.user_id = auth.uid();
+  is_reviewer BOOLEAN := public.has_team_role(NEW.team_id, ARRAY['supervisor'])
+    OR public.has_org_role(NEW.organization_id, ARRAY['admin']);
+  is_finance BOOLEAN := public.has_org_role(NEW.organization_id, ARRAY['finance', 'admin']);
+  is_restoring BOOLEAN := current_setting('app.restoring_report', true) = NEW.id::TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status NOT IN ('draft', 'submitted') THEN
+      RAISE EXCEPTION 'New reports must be draft or submitted, not %', NEW.status;
+    END IF;
+    NEW.submitted_at := CASE WHEN NEW.status = 'submitted' THEN now() END;
+    NEW.reviewed_at := NULL;
+    NEW.reviewed_by := NULL;
+    NEW.review_note := NULL;
+    NEW.paid_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF OLD.status IN ('draft', 'rejected') AND NEW.status = 'submitted' AND is_owner THEN
+      NEW.submitted_at := now();
+    ELSIF OLD.status IN ('submitted', 'rejected') AND NEW.status = 'draft' AND is_owner THEN
+      NEW.submitted_at := NULL;
+    ELSIF OLD.status = 'submitted' AND NEW.status IN ('approved', 'rejected')
+      AND is_reviewer AND NOT is_owner THEN
+      NEW.reviewed_at := now();
+      NEW.reviewed_by := auth.uid();
+    ELSIF OLD.status = 'approved' AND NEW.status = 'paid' AND is_finance THEN
+      NEW.paid_at := now();
+    ELSE
+      RAISE EXCEPTION 'Report cannot move from % to %', OLD.status, NEW.status;
+    END IF;
+  ELSE
+    NEW.submitted_at := OLD.submitted_at;
+    NEW.reviewed_at := OLD.reviewed_at;
+    NEW.reviewed_by := OLD.reviewed_by;
+    NEW.review_note := OLD.review_note;
+    NEW.paid_at := OLD.paid_at;
+  END IF;
+
+  -- Submitted reports are locked; only drafts and rejected reports can be edited
+  IF OLD.status NOT IN ('draft', 'rejected') AND NOT is_restoring AND (
+    NEW.report_type IS DISTINCT FROM OLD.report_type OR
+    NEW.report_date IS DISTINCT FROM OLD.report_date OR
+    NEW.description IS DISTINCT FROM OLD.description OR
+    NEW.outcome IS DISTINCT FROM OLD.outcome OR
+    NEW.total_cost IS DISTINCT FROM OLD.total_cost OR
+    NEW.account_number IS DISTINCT FROM OLD.account_number OR
+    NEW.account_name IS DISTINCT FROM OLD.account_name OR
+    NEW.bank_name IS DISTINCT FROM OLD.bank_name OR
+    NEW.team_id IS DISTINCT FROM OLD.team_id
+  ) THEN
+    RAISE EXCEPTION 'Report is % and can no longer be edited', OLD.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Put a report's contents and items back to how they were after the given version.
+-- The status and review fields are left alone; loan links stay on items that still exist.
+CREATE OR REPLACE FUNCTION public.restore_report_version(_report_id UUID, _transaction_id BIGINT)
+RETURNS VOID AS $$
+DECLARE
+  target public.reports%ROWTYPE;
+  last_entry_id BIGINT;
+  snapshot JSONB;
+BEGIN
+  SELECT * INTO target FROM public.reports WHERE id = _report_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report % not found', _report_id;
+  END IF;
+
+  IF NOT (
+    public.has_team_role(target.team_id, ARRAY['supervisor'])
+    OR public.has_org_role(target.organization_id, ARRAY['admin'])
+  ) THEN
+    RAISE EXCEPTION 'Only supervisors can restore report versions';
+  END IF;
+
+  SELECT max(id) INTO last_entry_id
+  FROM public.report_audit_log
+  WHERE report_id = _report_id
+  AND transaction_id = _transaction_id;
+
+  IF last_entry_id IS NULL THEN
+    RAISE EXCEPTION 'Version % of report % not found', _transaction_id, _report_id;
+  END IF;
+
+  SELECT new_data INTO snapshot
+  FROM public.report_audit_log
+  WHERE report_id = _report_id
+  AND table_name = 'reports'
+  AND id <= last_entry_id
+  ORDER BY id DESC
+  LIMIT 1;
+
+  PERFORM set_config('app.restoring_report', _report_id::TEXT, true);
+
+  UPDATE public.reports
+  SET
+    report_type = snapshot ->> 'report_type',
+    report_date = (snapshot ->> 'report_date')::DATE,
+    description = snapshot ->> 'description',
+    outcome = NULLIF(snapshot -> 'outcome', 'null'::JSONB),
+    account_number = snapshot ->> 'account_number',
+    account_name = snapshot ->> 'account_name',
+    bank_name = snapshot ->> 'bank_name'
+  WHERE id = _report_id;
+
+  -- The latest logged state of each item as of the version; deleted ones have no new_data
+  CREATE TEMP TABLE restored_items ON COMMIT DROP AS
+  SELECT (jsonb_populate_record(NULL::public.report_items, latest.new_data)).*
+  FROM (
+    SELECT DISTINCT ON (record_id) new_data
+    FROM public.report_audit_log
+    WHERE report_id = _report_id
+    AND table_name = 'report_items'
+    AND id <= last_entry_id
+    ORDER BY record_id, id DESC
+  ) latest
+  WHERE latest.new_data IS NOT NULL;
+
+  DELETE FROM public.report_items
+  WHERE report_id = _report_id
+  AND id NOT IN (SELECT id FROM restored_items);
+
+  INSERT INTO public.report_items
+  SELECT * FROM restored_items
+  ON CONFLICT (id) DO UPDATE
+  SET
+    origin = EXCLUDED.origin,
+    location = EXCLUDED.location,
+    leg_order = EXCLUDED.leg_order,
+    is_round_trip = EXCLUDED.is_round_trip,
+    transportation = EXCLUDED.transportation,
+    cost = EXCLUDED.cost,
+    latitude = EXCLUDED.latitude,
+    longitude = EXCLUDED.longitude,
+    location_accuracy = EXCLUDED.location_accuracy,
+    captured_at = EXCLUDED.captured_at,
+    policy_violations = EXCLUDED.policy_violations,
+    justification = EXCLUDED.justification;
+
+  DROP TABLE restored_items;
+  PERFORM set_config('app.restoring_report', '', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,128 @@
+-- Deleting a report moves it to the trash; it is purged for good after 30 days
+ALTER TABLE public.reports
+  ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN deleted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_reports_deleted_at ON public.reports(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Trashed reports, and through them their items, attachments and search documents,
+-- are hidden from every query; the trash functions below reach them instead
+CREATE POLICY "Trashed reports are hidden"
+ON public.reports
+AS RESTRICTIVE
+FOR SELECT
+USING (deleted_at IS NULL);
+
+CREATE POLICY "Trashed reports cannot be edited"
+ON public.reports
+AS RESTRICTIVE
+FOR UPDATE
+USING (deleted_at IS NULL);
+
+-- Rows are only removed by purging the trash
+DROP POLICY "Users can delete their own editable reports" ON public.reports;
+
+-- Move a report to the trash unless someone changed it after the client loaded it
+CREATE OR REPLACE FUNCTION public.trash_report(
+  _report_id UUID,
+  _expected_updated_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  target public.reports%ROWTYPE;
+BEGIN
+  SELECT * INTO target
+  FROM public.reports
+  WHERE id = _report_id
+  AND user_id = auth.uid()
+  FOR UPDATE;
+
+  -- Already gone, e.g. when a queued delete is replayed after it went through
+  IF NOT FOUND OR target.deleted_at IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  IF _expected_updated_at IS NOT NULL AND target.updated_at IS DISTINCT FROM _expected_updated_at THEN
+    RAISE EXCEPTION 'Report % was changed since it was last loaded', _report_id
+      USING ERRCODE = 'PT409';
+  END IF;
+
+  IF target.status NOT IN ('draft', 'rejected') THEN
+    RAISE EXCEPTION 'Report % is % and can no longer be deleted', _report_id, target.status;
+  END IF;
+
+  UPDATE public.reports
+  SET deleted_at = now(), deleted_by = auth.uid()
+  WHERE id = _report_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.restore_trashed_report(_report_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.reports
+  SET deleted_at = NULL, deleted_by = NULL
+  WHERE id = _report_id
+  AND user_id = auth.uid()
+  AND deleted_at IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report % is not in your trash', _report_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.purge_trashed_report(_report_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM public.reports
+  WHERE id = _report_id
+  AND user_id = auth.uid()
+  AND deleted_at IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report % is not in your trash', _report_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The user's trash, most recently deleted first
+CREATE OR REPLACE FUNCTION public.list_trashed_reports()
+RETURNS TABLE (
+  id UUID,
+  report_type TEXT,
+  report_date DATE,
+  description TEXT,
+  total_cost DECIMAL(10,2),
+  status TEXT,
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  purge_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  SELECT
+    r.id, r.report_type, r.report_date, r.description, r.total_cost, r.status, r.deleted_at,
+    r.deleted_at + INTERVAL '30 days'
+  FROM public.reports r
+  WHERE r.user_id = auth.uid()
+  AND r.deleted_at IS NOT NULL
+  ORDER BY r.deleted_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Permanently remove reports that have been in the trash past the retention window
+CREATE OR REPLACE FUNCTION public.purge_expired_reports()
+RETURNS INTEGER AS $$
+DECLARE
+  purged INTEGER;
+BEGIN
+  DELETE FROM public.reports
+  WHERE deleted_at < now() - INTERVAL '30 days';
+
+  GET DIAGNOSTICS purged = ROW_COUNT;
+  RETURN purged;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.purge_expired_reports() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('purge-expired-reports', '30 2 * * *', 'SELECT public.purge_expired_reports()');
@@ -0,0 +1,170 @@
+-- Comment threads on a report or one of its journeys; replies hang off the thread's first comment
+CREATE TABLE public.report_comments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  report_id UUID NOT NULL REFERENCES public.reports(id) ON DELETE CASCADE,
+  -- Kept on the report if the journey is later removed
+  report_item_id UUID REFERENCES public.report_items(id) ON DELETE SET NULL,
+  parent_id UUID REFERENCES public.report_comments(id) ON DELETE CASCADE,
+  author_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  body TEXT NOT NULL CHECK (length(trim(body)) > 0),
+  mentions UUID[] NOT NULL DEFAULT '{}',
+  -- Set by a reviewer: the report can't be approved until the officer replies or the thread is resolved
+  requires_response BOOLEAN NOT NULL DEFAULT false,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_report_comments_report_id ON public.report_comments(report_id);
+CREATE INDEX idx_report_comments_parent_id ON public.report_comments(parent_id);
+
+ALTER TABLE public.report_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view comments on visible reports"
+ON public.report_comments
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.reports
+  WHERE reports.id = report_comments.report_id
+));
+
+-- Officers can't ask themselves for a response
+CREATE POLICY "Users can comment on visible reports"
+ON public.report_comments
+FOR INSERT
+WITH CHECK (
+  author_id = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.reports
+    WHERE reports.id = report_comments.report_id
+    AND (NOT report_comments.requires_response OR reports.user_id <> auth.uid())
+  )
+);
+
+-- Replies join their thread's report and journey and never open or resolve anything themselves
+CREATE OR REPLACE FUNCTION public.prepare_report_comment()
+RETURNS TRIGGER AS $$
+DECLARE
+  thread public.report_comments%ROWTYPE;
+BEGIN
+  IF NEW.parent_id IS NOT NULL THEN
+    SELECT * INTO thread FROM public.report_comments WHERE id = NEW.parent_id;
+
+    IF NOT FOUND OR thread.parent_id IS NOT NULL THEN
+      RAISE EXCEPTION 'Replies must answer the first comment of a thread';
+    END IF;
+
+    NEW.report_id := thread.report_id;
+    NEW.report_item_id := thread.report_item_id;
+    NEW.requires_response := false;
+  ELSIF NEW.report_item_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.report_items
+    WHERE id = NEW.report_item_id
+    AND report_id = NEW.report_id
+  ) THEN
+    RAISE EXCEPTION 'Journey % is not part of report %', NEW.report_item_id, NEW.report_id;
+  END IF;
+
+  NEW.resolved_at := NULL;
+  NEW.resolved_by := NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER prepare_report_comment
+BEFORE INSERT ON public.report_comments
+FOR EACH ROW
+EXECUTE FUNCTION public.prepare_report_comment();
+
+-- Threads that still need the officer: flagged, unresolved and without a reply from the report's owner
+CREATE OR REPLACE FUNCTION public.count_comments_awaiting_response(_report_id UUID)
+RETURNS INTEGER AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM public.report_comments thread
+  JOIN public.reports r ON r.id = thread.report_id
+  WHERE thread.report_id = _report_id
+  AND thread.parent_id IS NULL
+  AND thread.requires_response
+  AND thread.resolved_at IS NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM public.report_comments reply
+    WHERE reply.parent_id = thread.id
+    AND reply.author_id = r.user_id
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Block approval while a reviewer is still waiting on the officer, however the status is set
+CREATE OR REPLACE FUNCTION public.check_report_comment_responses()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'approved' AND OLD.status IS DISTINCT FROM 'approved'
+    AND public.count_comments_awaiting_response(NEW.id) > 0 THEN
+    RAISE EXCEPTION 'Comments on report % are waiting for the officer''s response', NEW.id
+      USING ERRCODE = 'PT428';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER check_report_comment_responses
+BEFORE UPDATE OF status ON public.reports
+FOR EACH ROW
+EXECUTE FUNCTION public.check_report_comment_responses();
+
+-- The thread's author or one of the report's reviewers can resolve or reopen it
+CREATE OR REPLACE FUNCTION public.resolve_report_comment(_comment_id UUID, _resolved BOOLEAN DEFAULT true)
+RETURNS VOID AS $$
+DECLARE
+  thread public.report_comments%ROWTYPE;
+  target public.reports%ROWTYPE;
+BEGIN
+  SELECT * INTO thread FROM public.report_comments WHERE id = _comment_id AND parent_id IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Comment thread % not found', _comment_id;
+  END IF;
+
+  SELECT * INTO target FROM public.reports WHERE id = thread.report_id;
+
+  IF NOT (
+    thread.author_id = auth.uid()
+    OR public.has_team_role(target.team_id, ARRAY['supervisor'])
+    OR public.has_org_role(target.organization_id, ARRAY['admin'])
+  ) THEN
+    RAISE EXCEPTION 'Only the thread''s author or a reviewer can resolve it';
+  END IF;
+
+  UPDATE public.report_comments
+  SET
+    resolved_at = CASE WHEN _resolved THEN now() END,
+    resolved_by = CASE WHEN _resolved THEN auth.uid() END
+  WHERE id = _comment_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Open threads per report for the history list, and whether any of them mention the caller
+CREATE OR REPLACE FUNCTION public.report_comment_summaries(_report_ids UUID[])
+RETURNS TABLE (
+  report_id UUID,
+  open_threads INTEGER,
+  awaiting_response INTEGER,
+  mentions_me BOOLEAN
+) AS $$
+  SELECT
+    thread.report_id,
+    COUNT(*)::INTEGER,
+    public.count_comments_awaiting_response(thread.report_id),
+    bool_or(EXISTS (
+      SELECT 1 FROM public.report_comments c
+      WHERE (c.id = thread.id OR c.parent_id = thread.id)
+      AND auth.uid() = ANY(c.mentions)
+    ))
+  FROM public.report_comments thread
+  WHERE thread.report_id = ANY(_report_ids)
+  AND thread.parent_id IS NULL
+  AND thread.resolved_at IS NULL
+  GROUP BY thread.report_id;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.report_comments;
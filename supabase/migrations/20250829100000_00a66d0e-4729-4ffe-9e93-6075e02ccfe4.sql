@@ -0,0 +1,67 @@
+-- Letterhead and default template for each organization's PDF reports
+CREATE TABLE public.pdf_branding (
+  organization_id UUID NOT NULL PRIMARY KEY REFERENCES public.organizations(id) ON DELETE CASCADE,
+  logo_path TEXT,
+  primary_color TEXT NOT NULL DEFAULT '#333333' CHECK (primary_color ~ '^#[0-9a-fA-F]{6}$'),
+  accent_color TEXT NOT NULL DEFAULT '#0ea5e9' CHECK (accent_color ~ '^#[0-9a-fA-F]{6}$'),
+  header_text TEXT,
+  address TEXT,
+  footer_text TEXT NOT NULL DEFAULT 'This is an official field report generated by the verification system.',
+  signatory_name TEXT,
+  signatory_title TEXT,
+  default_template TEXT NOT NULL DEFAULT 'with_photos' CHECK (default_template IN ('compact', 'detailed', 'with_photos')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.pdf_branding ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organization's PDF branding"
+ON public.pdf_branding
+FOR SELECT
+USING (public.is_org_member(organization_id));
+
+CREATE POLICY "Admins can create PDF branding"
+ON public.pdf_branding
+FOR INSERT
+WITH CHECK (public.has_org_role(organization_id, ARRAY['admin']));
+
+CREATE POLICY "Admins can update PDF branding"
+ON public.pdf_branding
+FOR UPDATE
+USING (public.has_org_role(organization_id, ARRAY['admin']));
+
+CREATE TRIGGER update_pdf_branding_updated_at
+BEFORE UPDATE ON public.pdf_branding
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Logos appear on every PDF the organization prints, so they are served publicly.
+-- Only PNG and JPEG, which are the formats the PDF renderer can embed
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('organization-branding', 'organization-branding', true, 1048576, ARRAY['image/png', 'image/jpeg']);
+
+-- Objects live under <organization_id>/
+CREATE POLICY "Admins can upload their organization's branding"
+ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'organization-branding'
+  AND EXISTS (
+    SELECT 1 FROM public.organizations
+    WHERE organizations.id::text = (storage.foldername(name))[1]
+    AND public.has_org_role(organizations.id, ARRAY['admin'])
+  )
+);
+
+CREATE POLICY "Admins can delete their organization's branding"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'organization-branding'
+  AND EXISTS (
+    SELECT 1 FROM public.organizations
+    WHERE organizations.id::text = (storage.foldername(name))[1]
+    AND public.has_org_role(organizations.id, ARRAY['admin'])
+  )
+);
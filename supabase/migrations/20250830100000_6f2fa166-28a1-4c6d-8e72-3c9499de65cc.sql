@@ -0,0 +1,5 @@
+-- Fare policies are only applied by the submit trigger, never called directly:
+-- run the trigger as owner and take the function out of the API
+ALTER FUNCTION public.check_report_fare_policies() SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.apply_fare_policies(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,8 @@
+-- The audit trail is readable exactly when the report is, so supervisors no longer
+-- see other teams' reports and drafts through it
+DROP POLICY "Users can view the audit trail of reports they can see" ON public.report_audit_log;
+
+CREATE POLICY "Users can view the audit trail of reports they can see"
+ON public.report_audit_log
+FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.reports WHERE reports.id = report_audit_log.report_id));
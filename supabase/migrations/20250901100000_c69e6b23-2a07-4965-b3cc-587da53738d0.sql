@@ -0,0 +1,76 @@
+-- A report always belongs to the officer who created it; the organization only
+-- follows the team, so nobody can take over or move another officer's report
+CREATE OR REPLACE FUNCTION public.enforce_report_status()
+RETURNS TRIGGER AS $$
+DECLARE
+  is_owner BOOLEAN := NEW.user_id = auth.uid();
+  is_reviewer BOOLEAN := public.has_team_role(NEW.team_id, ARRAY['supervisor'])
+    OR public.has_org_role(NEW.organization_id, ARRAY['admin']);
+  is_finance BOOLEAN := public.has_org_role(NEW.organization_id, ARRAY['finance', 'admin']);
+  is_restoring BOOLEAN := current_setting('app.restoring_report', true) = NEW.id::TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status NOT IN ('draft', 'submitted') THEN
+      RAISE EXCEPTION 'New reports must be draft or submitted, not %', NEW.status;
+    END IF;
+    NEW.submitted_at := CASE WHEN NEW.status = 'submitted' THEN now() END;
+    NEW.reviewed_at := NULL;
+    NEW.reviewed_by := NULL;
+    NEW.review_note := NULL;
+    NEW.paid_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'Reports cannot be reassigned to another officer';
+  END IF;
+
+  -- assign_report_organization re-derives the organization when a draft changes team,
+  -- and deleting an organization clears it
+  IF NEW.organization_id IS DISTINCT FROM OLD.organization_id
+    AND NEW.team_id IS NOT DISTINCT FROM OLD.team_id
+    AND (NEW.organization_id IS NOT NULL
+      OR EXISTS (SELECT 1 FROM public.organizations WHERE id = OLD.organization_id)) THEN
+    RAISE EXCEPTION 'Reports cannot be moved to another organization';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF OLD.status IN ('draft', 'rejected') AND NEW.status = 'submitted' AND is_owner THEN
+      NEW.submitted_at := now();
+    ELSIF OLD.status IN ('submitted', 'rejected') AND NEW.status = 'draft' AND is_owner THEN
+      NEW.submitted_at := NULL;
+    ELSIF OLD.status = 'submitted' AND NEW.status IN ('approved', 'rejected')
+      AND is_reviewer AND NOT is_owner THEN
+      NEW.reviewed_at := now();
+      NEW.reviewed_by := auth.uid();
+    ELSIF OLD.status = 'approved' AND NEW.status = 'paid' AND is_finance THEN
+      NEW.paid_at := now();
+    ELSE
+      RAISE EXCEPTION 'Report cannot move from % to %', OLD.status, NEW.status;
+    END IF;
+  ELSE
+    NEW.submitted_at := OLD.submitted_at;
+    NEW.reviewed_at := OLD.reviewed_at;
+    NEW.reviewed_by := OLD.reviewed_by;
+    NEW.review_note := OLD.review_note;
+    NEW.paid_at := OLD.paid_at;
+  END IF;
+
+  -- Submitted reports are locked; only drafts and rejected reports can be edited
+  IF OLD.status NOT IN ('draft', 'rejected') AND NOT is_restoring AND (
+    NEW.report_type IS DISTINCT FROM OLD.report_type OR
+    NEW.report_date IS DISTINCT FROM OLD.report_date OR
+    NEW.description IS DISTINCT FROM OLD.description OR
+    NEW.outcome IS DISTINCT FROM OLD.outcome OR
+    NEW.total_cost IS DISTINCT FROM OLD.total_cost OR
+    NEW.account_number IS DISTINCT FROM OLD.account_number OR
+    NEW.account_name IS DISTINCT FROM OLD.account_name OR
+    NEW.bank_name IS DISTINCT FROM OLD.bank_name OR
+    NEW.team_id IS DISTINCT FROM OLD.team_id
+  ) THEN
+    RAISE EXCEPTION 'Report is % and can no longer be edited', OLD.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,38 @@
+-- Purging a report also removes its attachment files, which the cascade to
+-- report_item_attachments leaves behind in storage
+CREATE OR REPLACE FUNCTION public.purge_trashed_report(_report_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM public.reports
+  WHERE id = _report_id
+  AND user_id = auth.uid()
+  AND deleted_at IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report % is not in your trash', _report_id;
+  END IF;
+
+  DELETE FROM storage.objects
+  WHERE bucket_id = 'report-attachments'
+  AND name LIKE auth.uid()::text || '/' || _report_id::text || '/%';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.purge_expired_reports()
+RETURNS INTEGER AS $$
+DECLARE
+  purged INTEGER;
+BEGIN
+  DELETE FROM storage.objects o
+  USING public.reports r
+  WHERE o.bucket_id = 'report-attachments'
+  AND o.name LIKE r.user_id::text || '/' || r.id::text || '/%'
+  AND r.deleted_at < now() - INTERVAL '30 days';
+
+  DELETE FROM public.reports
+  WHERE deleted_at < now() - INTERVAL '30 days';
+
+  GET DIAGNOSTICS purged = ROW_COUNT;
+  RETURN purged;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,106 @@
+-- The organization's own row for a slug overrides the default, so hiding a default
+-- type takes it off the list for that organization only
+CREATE OR REPLACE FUNCTION public.is_active_report_type(_organization_id UUID, _slug TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE((
+    SELECT is_active FROM public.report_types
+    WHERE slug = _slug
+    AND (organization_id IS NULL OR organization_id = _organization_id)
+    ORDER BY organization_id NULLS LAST
+    LIMIT 1
+  ), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- New rows and type changes must use a type the organization still offers
+CREATE OR REPLACE FUNCTION public.check_report_type()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_organization_id UUID;
+BEGIN
+  -- Rows keep a type that was removed after they were written
+  IF NEW.report_type IS NULL
+    OR (TG_OP = 'UPDATE' AND NEW.report_type IS NOT DISTINCT FROM OLD.report_type) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_TABLE_NAME = 'itinerary_visits' THEN
+    SELECT organization_id INTO target_organization_id
+    FROM public.itineraries
+    WHERE id = NEW.itinerary_id;
+  ELSE
+    target_organization_id := NEW.organization_id;
+  END IF;
+
+  IF NOT public.is_known_report_type(target_organization_id, NEW.report_type) THEN
+    RAISE EXCEPTION 'Unknown report type %', NEW.report_type;
+  END IF;
+
+  -- A restored version brings back the type the report had then
+  IF current_setting('app.restoring_report', true) IS DISTINCT FROM NEW.id::TEXT
+    AND NOT public.is_active_report_type(target_organization_id, NEW.report_type) THEN
+    RAISE EXCEPTION 'Report type % is no longer offered', NEW.report_type;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Check the type's required fields whenever a report is submitted, however the status is set.
+-- save_report sets the status last, so the items, loans and photos are already saved.
+CREATE OR REPLACE FUNCTION public.check_report_required_fields()
+RETURNS TRIGGER AS $$
+DECLARE
+  required_type public.report_types;
+  missing TEXT[] := '{}';
+BEGIN
+  IF NEW.status = 'submitted' AND OLD.status IS DISTINCT FROM 'submitted' THEN
+    SELECT * INTO required_type
+    FROM public.report_types
+    WHERE slug = NEW.report_type
+    AND (organization_id IS NULL OR organization_id = NEW.organization_id)
+    ORDER BY organization_id NULLS LAST
+    LIMIT 1;
+
+    IF 'description' = ANY(required_type.required_fields)
+      AND length(trim(COALESCE(NEW.description, ''))) = 0 THEN
+      missing := missing || 'Description'::TEXT;
+    END IF;
+
+    IF 'check_in' = ANY(required_type.required_fields) AND EXISTS (
+      SELECT 1 FROM public.report_items
+      WHERE report_id = NEW.id
+      AND (latitude IS NULL OR longitude IS NULL)
+    ) THEN
+      missing := missing || 'GPS check-in on every journey'::TEXT;
+    END IF;
+
+    IF 'photos' = ANY(required_type.required_fields) AND EXISTS (
+      SELECT 1 FROM public.report_items ri
+      WHERE ri.report_id = NEW.id
+      AND NOT EXISTS (SELECT 1 FROM public.report_item_attachments a WHERE a.report_item_id = ri.id)
+    ) THEN
+      missing := missing || 'Photo on every journey'::TEXT;
+    END IF;
+
+    IF 'loans' = ANY(required_type.required_fields) AND EXISTS (
+      SELECT 1 FROM public.report_items ri
+      WHERE ri.report_id = NEW.id
+      AND NOT EXISTS (SELECT 1 FROM public.report_item_loans l WHERE l.report_item_id = ri.id)
+    ) THEN
+      missing := missing || 'Loan on every journey'::TEXT;
+    END IF;
+
+    IF cardinality(missing) > 0 THEN
+      RAISE EXCEPTION '% reports require: %', required_type.label, array_to_string(missing, ', ')
+        USING ERRCODE = 'PT412';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER check_report_required_fields
+BEFORE UPDATE OF status ON public.reports
+FOR EACH ROW
+EXECUTE FUNCTION public.check_report_required_fields();
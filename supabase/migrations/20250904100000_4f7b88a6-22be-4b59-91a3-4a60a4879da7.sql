@@ -0,0 +1,16 @@
+-- Reports are only filed under teams their officer belongs to. Runs as owner so the
+-- organization is found even when the caller can't read the team's organization.
+CREATE OR REPLACE FUNCTION public.assign_report_organization()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.team_id IS NOT NULL AND (TG_OP = 'INSERT' OR NEW.team_id IS DISTINCT FROM OLD.team_id) AND (
+    NEW.user_id IS DISTINCT FROM auth.uid()
+    OR NOT public.has_team_role(NEW.team_id, ARRAY['officer', 'supervisor', 'finance', 'admin'])
+  ) THEN
+    RAISE EXCEPTION 'Reports can only be filed under your own teams';
+  END IF;
+
+  NEW.organization_id := (SELECT organization_id FROM public.teams WHERE id = NEW.team_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
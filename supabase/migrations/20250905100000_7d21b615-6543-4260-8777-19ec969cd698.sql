@@ -0,0 +1,96 @@
+-- Locations without an organization are the shared gazetteer everyone sees and nobody
+-- edits from the app; organization admins maintain their own entries on top of it
+ALTER TABLE public.locations
+  ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+
+-- One place per name within an organization, and among the shared entries
+DROP INDEX public.idx_locations_name;
+CREATE UNIQUE INDEX idx_locations_name
+ON public.locations(COALESCE(organization_id, '00000000-0000-0000-0000-000000000000'::UUID), lower(name));
+
+DROP POLICY "Signed-in users can view locations" ON public.locations;
+DROP POLICY "Admins can add locations" ON public.locations;
+DROP POLICY "Admins can update locations" ON public.locations;
+DROP POLICY "Admins can delete locations" ON public.locations;
+DROP FUNCTION public.is_any_org_admin();
+
+CREATE POLICY "Members can view shared and organization locations"
+ON public.locations
+FOR SELECT
+USING (auth.uid() IS NOT NULL AND (organization_id IS NULL OR public.is_org_member(organization_id)));
+
+CREATE POLICY "Admins can add organization locations"
+ON public.locations
+FOR INSERT
+WITH CHECK (public.has_org_role(organization_id, ARRAY['admin']));
+
+CREATE POLICY "Admins can update organization locations"
+ON public.locations
+FOR UPDATE
+USING (public.has_org_role(organization_id, ARRAY['admin']))
+WITH CHECK (public.has_org_role(organization_id, ARRAY['admin']));
+
+CREATE POLICY "Admins can delete organization locations"
+ON public.locations
+FOR DELETE
+USING (public.has_org_role(organization_id, ARRAY['admin']));
+
+-- Merging into a shared entry records the spellings on the organization's own copy of it,
+-- which takes the shared entry's place for that organization
+CREATE OR REPLACE FUNCTION public.merge_item_locations(_organization_id UUID, _location_id UUID, _variants TEXT[])
+RETURNS INTEGER AS $$
+DECLARE
+  canonical public.locations%ROWTYPE;
+  target_id UUID;
+  merged INTEGER;
+BEGIN
+  IF NOT public.has_org_role(_organization_id, ARRAY['admin']) THEN
+    RAISE EXCEPTION 'Only organization admins can merge locations';
+  END IF;
+
+  SELECT * INTO canonical
+  FROM public.locations
+  WHERE id = _location_id
+  AND (organization_id IS NULL OR organization_id = _organization_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Location % not found', _location_id;
+  END IF;
+
+  UPDATE public.report_items
+  SET location = canonical.name
+  FROM public.reports
+  WHERE reports.id = report_items.report_id
+  AND reports.organization_id = _organization_id
+  AND lower(trim(report_items.location)) IN (SELECT lower(trim(variant)) FROM unnest(_variants) AS variant)
+  AND report_items.location IS DISTINCT FROM canonical.name;
+
+  GET DIAGNOSTICS merged = ROW_COUNT;
+
+  IF canonical.organization_id IS NULL THEN
+    INSERT INTO public.locations (organization_id, name, aliases, lga, state, latitude, longitude)
+    VALUES (_organization_id, canonical.name, canonical.aliases, canonical.lga, canonical.state,
+      canonical.latitude, canonical.longitude)
+    ON CONFLICT (COALESCE(organization_id, '00000000-0000-0000-0000-000000000000'::UUID), lower(name)) DO NOTHING;
+
+    SELECT id INTO target_id
+    FROM public.locations
+    WHERE organization_id = _organization_id
+    AND lower(name) = lower(canonical.name);
+  ELSE
+    target_id := canonical.id;
+  END IF;
+
+  UPDATE public.locations
+  SET aliases = ARRAY(
+    SELECT DISTINCT ON (lower(alias)) alias
+    FROM unnest(locations.aliases || ARRAY(SELECT trim(variant) FROM unnest(_variants) AS variant)) AS alias
+    WHERE length(alias) > 0
+    AND lower(alias) <> lower(locations.name)
+    ORDER BY lower(alias), alias
+  )
+  WHERE id = target_id;
+
+  RETURN merged;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,20 @@
+-- Itineraries can only be planned for an organization the officer belongs to
+DROP POLICY "Users can create their own itineraries" ON public.itineraries;
+DROP POLICY "Users can update their own itineraries" ON public.itineraries;
+
+CREATE POLICY "Users can create their own itineraries"
+ON public.itineraries
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND (organization_id IS NULL OR public.is_org_member(organization_id))
+);
+
+CREATE POLICY "Users can update their own itineraries"
+ON public.itineraries
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND (organization_id IS NULL OR public.is_org_member(organization_id))
+);
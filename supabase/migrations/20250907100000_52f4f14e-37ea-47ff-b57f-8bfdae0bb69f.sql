@@ -0,0 +1,72 @@
+-- Analytics read sums from the server instead of downloading every report and journey
+
+-- Which analytics outcome filters (OUTCOME_FILTERS in src/lib/outcomes.ts) a report's outcome
+-- matches. Nobody spoke for the loan when the borrower was not available, refused or had
+-- relocated; a post-disbursement visit is complete when all five utilisation checks passed.
+CREATE OR REPLACE FUNCTION public.report_outcome_tags(_outcome JSONB)
+RETURNS TEXT[] AS $$
+  SELECT CASE _outcome ->> 'type'
+    WHEN 'verification' THEN ARRAY[
+      CASE WHEN COALESCE((_outcome ->> 'addressConfirmed')::BOOLEAN, false)
+        THEN 'address_confirmed' ELSE 'address_unconfirmed' END
+    ]
+    WHEN 'recovery' THEN array_remove(ARRAY[
+      CASE WHEN COALESCE((_outcome ->> 'amountCollected')::DECIMAL, 0) > 0 THEN 'payment_collected' END,
+      CASE WHEN _outcome ->> 'promiseToPayDate' IS NOT NULL THEN 'promise_to_pay' END,
+      CASE WHEN _outcome ->> 'contactOutcome' IN ('not_available', 'refused', 'relocated') THEN 'no_contact' END
+    ], NULL)
+    WHEN 'post-disbursement' THEN ARRAY[
+      CASE WHEN COALESCE(jsonb_array_length(_outcome -> 'checks'), 0) >= 5
+        THEN 'utilisation_complete' ELSE 'utilisation_gaps' END
+    ]
+    ELSE ARRAY[]::TEXT[]
+  END;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- Reports per month, type and outcome, in the team or the caller's own when no team is given
+CREATE OR REPLACE FUNCTION public.report_stats(_team_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  month TEXT,
+  report_type TEXT,
+  outcomes TEXT[],
+  reports INTEGER
+) AS $$
+  SELECT
+    to_char(r.report_date, 'YYYY-MM'),
+    r.report_type,
+    public.report_outcome_tags(r.outcome),
+    COUNT(*)::INTEGER
+  FROM public.reports r
+  WHERE (CASE WHEN _team_id IS NULL THEN r.user_id = auth.uid() ELSE r.team_id = _team_id END)
+  GROUP BY 1, 2, 3;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
+
+-- Journeys and fares per month, type, outcome, destination and mode, over the same reports;
+-- journeys costing more than _high_cost are also counted on their own
+CREATE OR REPLACE FUNCTION public.report_journey_stats(_team_id UUID DEFAULT NULL, _high_cost DECIMAL DEFAULT 3000)
+RETURNS TABLE (
+  month TEXT,
+  report_type TEXT,
+  outcomes TEXT[],
+  location TEXT,
+  transportation TEXT,
+  journeys INTEGER,
+  total_cost DECIMAL,
+  high_cost_journeys INTEGER,
+  high_cost_total DECIMAL
+) AS $$
+  SELECT
+    to_char(r.report_date, 'YYYY-MM'),
+    r.report_type,
+    public.report_outcome_tags(r.outcome),
+    i.location,
+    i.transportation,
+    COUNT(*)::INTEGER,
+    SUM(i.cost),
+    (COUNT(*) FILTER (WHERE i.cost > _high_cost))::INTEGER,
+    COALESCE(SUM(i.cost) FILTER (WHERE i.cost > _high_cost), 0)
+  FROM public.report_items i
+  JOIN public.reports r ON r.id = i.report_id
+  WHERE (CASE WHEN _team_id IS NULL THEN r.user_id = auth.uid() ELSE r.team_id = _team_id END)
+  GROUP BY 1, 2, 3, 4, 5;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
@@ -0,0 +1,181 @@
+-- Restoring a version no longer unlocks a submitted report. The report is reopened while its
+-- contents change and then submitted again, so fare policy, required field and comment checks
+-- run on the restored version; approved and paid reports can't be restored, and payee details
+-- are never taken from an old version.
+
+-- A restore may reopen a report while it changes and submit it again afterwards
+CREATE OR REPLACE FUNCTION public.enforce_report_status()
+RETURNS TRIGGER AS $$
+DECLARE
+  is_owner BOOLEAN := NEW.user_id = auth.uid();
+  is_reviewer BOOLEAN := public.has_team_role(NEW.team_id, ARRAY['supervisor'])
+    OR public.has_org_role(NEW.organization_id, ARRAY['admin']);
+  is_finance BOOLEAN := public.has_org_role(NEW.organization_id, ARRAY['finance', 'admin']);
+  is_restoring BOOLEAN := current_setting('app.restoring_report', true) = NEW.id::TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status NOT IN ('draft', 'submitted') THEN
+      RAISE EXCEPTION 'New reports must be draft or submitted, not %', NEW.status;
+    END IF;
+    NEW.submitted_at := CASE WHEN NEW.status = 'submitted' THEN now() END;
+    NEW.reviewed_at := NULL;
+    NEW.reviewed_by := NULL;
+    NEW.review_note := NULL;
+    NEW.paid_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'Reports cannot be reassigned to another officer';
+  END IF;
+
+  -- assign_report_organization re-derives the organization when a draft changes team,
+  -- and deleting an organization clears it
+  IF NEW.organization_id IS DISTINCT FROM OLD.organization_id
+    AND NEW.team_id IS NOT DISTINCT FROM OLD.team_id
+    AND (NEW.organization_id IS NOT NULL
+      OR EXISTS (SELECT 1 FROM public.organizations WHERE id = OLD.organization_id)) THEN
+    RAISE EXCEPTION 'Reports cannot be moved to another organization';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF OLD.status IN ('draft', 'rejected') AND NEW.status = 'submitted' AND (is_owner OR is_restoring) THEN
+      NEW.submitted_at := now();
+    ELSIF OLD.status IN ('submitted', 'rejected') AND NEW.status = 'draft' AND (is_owner OR is_restoring) THEN
+      NEW.submitted_at := NULL;
+    ELSIF OLD.status = 'submitted' AND NEW.status IN ('approved', 'rejected')
+      AND is_reviewer AND NOT is_owner THEN
+      NEW.reviewed_at := now();
+      NEW.reviewed_by := auth.uid();
+    ELSIF OLD.status = 'approved' AND NEW.status = 'paid' AND is_finance THEN
+      NEW.paid_at := now();
+    ELSE
+      RAISE EXCEPTION 'Report cannot move from % to %', OLD.status, NEW.status;
+    END IF;
+  ELSE
+    NEW.submitted_at := OLD.submitted_at;
+    NEW.reviewed_at := OLD.reviewed_at;
+    NEW.reviewed_by := OLD.reviewed_by;
+    NEW.review_note := OLD.review_note;
+    NEW.paid_at := OLD.paid_at;
+  END IF;
+
+  -- Submitted reports are locked; only drafts and rejected reports can be edited
+  IF OLD.status NOT IN ('draft', 'rejected') AND (
+    NEW.report_type IS DISTINCT FROM OLD.report_type OR
+    NEW.report_date IS DISTINCT FROM OLD.report_date OR
+    NEW.description IS DISTINCT FROM OLD.description OR
+    NEW.outcome IS DISTINCT FROM OLD.outcome OR
+    NEW.total_cost IS DISTINCT FROM OLD.total_cost OR
+    NEW.account_number IS DISTINCT FROM OLD.account_number OR
+    NEW.account_name IS DISTINCT FROM OLD.account_name OR
+    NEW.bank_name IS DISTINCT FROM OLD.bank_name OR
+    NEW.team_id IS DISTINCT FROM OLD.team_id
+  ) THEN
+    RAISE EXCEPTION 'Report is % and can no longer be edited', OLD.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Approved and paid reports are final; a submitted one goes back through submission
+CREATE OR REPLACE FUNCTION public.restore_report_version(_report_id UUID, _transaction_id BIGINT)
+RETURNS VOID AS $$
+DECLARE
+  target public.reports%ROWTYPE;
+  last_entry_id BIGINT;
+  snapshot JSONB;
+BEGIN
+  SELECT * INTO target FROM public.reports WHERE id = _report_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report % not found', _report_id;
+  END IF;
+
+  IF NOT (
+    public.has_team_role(target.team_id, ARRAY['supervisor'])
+    OR public.has_org_role(target.organization_id, ARRAY['admin'])
+  ) THEN
+    RAISE EXCEPTION 'Only supervisors can restore report versions';
+  END IF;
+
+  IF target.status IN ('approved', 'paid') THEN
+    RAISE EXCEPTION 'Report is % and its versions can no longer be restored', target.status;
+  END IF;
+
+  SELECT max(id) INTO last_entry_id
+  FROM public.report_audit_log
+  WHERE report_id = _report_id
+  AND transaction_id = _transaction_id;
+
+  IF last_entry_id IS NULL THEN
+    RAISE EXCEPTION 'Version % of report % not found', _transaction_id, _report_id;
+  END IF;
+
+  SELECT new_data INTO snapshot
+  FROM public.report_audit_log
+  WHERE report_id = _report_id
+  AND table_name = 'reports'
+  AND id <= last_entry_id
+  ORDER BY id DESC
+  LIMIT 1;
+
+  PERFORM set_config('app.restoring_report', _report_id::TEXT, true);
+
+  IF target.status = 'submitted' THEN
+    UPDATE public.reports SET status = 'draft' WHERE id = _report_id;
+  END IF;
+
+  UPDATE public.reports
+  SET
+    report_type = snapshot ->> 'report_type',
+    report_date = (snapshot ->> 'report_date')::DATE,
+    description = snapshot ->> 'description',
+    outcome = NULLIF(snapshot -> 'outcome', 'null'::JSONB)
+  WHERE id = _report_id;
+
+  -- The latest logged state of each item as of the version; deleted ones have no new_data
+  CREATE TEMP TABLE restored_items ON COMMIT DROP AS
+  SELECT (jsonb_populate_record(NULL::public.report_items, latest.new_data)).*
+  FROM (
+    SELECT DISTINCT ON (record_id) new_data
+    FROM public.report_audit_log
+    WHERE report_id = _report_id
+    AND table_name = 'report_items'
+    AND id <= last_entry_id
+    ORDER BY record_id, id DESC
+  ) latest
+  WHERE latest.new_data IS NOT NULL;
+
+  DELETE FROM public.report_items
+  WHERE report_id = _report_id
+  AND id NOT IN (SELECT id FROM restored_items);
+
+  INSERT INTO public.report_items
+  SELECT * FROM restored_items
+  ON CONFLICT (id) DO UPDATE
+  SET
+    origin = EXCLUDED.origin,
+    location = EXCLUDED.location,
+    leg_order = EXCLUDED.leg_order,
+    is_round_trip = EXCLUDED.is_round_trip,
+    transportation = EXCLUDED.transportation,
+    cost = EXCLUDED.cost,
+    latitude = EXCLUDED.latitude,
+    longitude = EXCLUDED.longitude,
+    location_accuracy = EXCLUDED.location_accuracy,
+    captured_at = EXCLUDED.captured_at,
+    policy_violations = EXCLUDED.policy_violations,
+    justification = EXCLUDED.justification;
+
+  DROP TABLE restored_items;
+
+  -- Back into review; a failed check rolls the whole restore back
+  IF target.status = 'submitted' THEN
+    UPDATE public.reports SET status = 'submitted' WHERE id = _report_id;
+  END IF;
+
+  PERFORM set_config('app.restoring_report', '', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
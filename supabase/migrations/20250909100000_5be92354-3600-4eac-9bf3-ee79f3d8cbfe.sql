@@ -0,0 +1,60 @@
+-- Attachment files are deleted through the Storage API before their reports are purged; deleting
+-- rows from storage.objects in SQL left the files behind. The client removes a report's files
+-- before purging it from the trash, and the purge-expired-reports edge function does the same
+-- for reports past the retention window, so the database job is no longer scheduled.
+SELECT cron.unschedule('purge-expired-reports');
+
+CREATE OR REPLACE FUNCTION public.purge_trashed_report(_report_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM public.reports
+  WHERE id = _report_id
+  AND user_id = auth.uid()
+  AND deleted_at IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report % is not in your trash', _report_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Files attached to a report in the caller's trash, which RLS hides
+CREATE OR REPLACE FUNCTION public.list_trashed_report_attachments(_report_id UUID)
+RETURNS TABLE (storage_path TEXT) AS $$
+  SELECT a.storage_path
+  FROM public.report_item_attachments a
+  JOIN public.report_items i ON i.id = a.report_item_id
+  JOIN public.reports r ON r.id = i.report_id
+  WHERE r.id = _report_id
+  AND r.user_id = auth.uid()
+  AND r.deleted_at IS NOT NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Files attached to reports trashed before the cutoff, for the edge function to delete
+CREATE OR REPLACE FUNCTION public.list_expired_report_attachments(_cutoff TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (storage_path TEXT) AS $$
+  SELECT a.storage_path
+  FROM public.report_item_attachments a
+  JOIN public.report_items i ON i.id = a.report_item_id
+  JOIN public.reports r ON r.id = i.report_id
+  WHERE r.deleted_at < _cutoff;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Takes the same cutoff, so reports that expire while the files are being deleted wait for the next run
+DROP FUNCTION public.purge_expired_reports();
+
+CREATE FUNCTION public.purge_expired_reports(_cutoff TIMESTAMP WITH TIME ZONE)
+RETURNS INTEGER AS $$
+DECLARE
+  purged INTEGER;
+BEGIN
+  DELETE FROM public.reports
+  WHERE deleted_at < _cutoff;
+
+  GET DIAGNOSTICS purged = ROW_COUNT;
+  RETURN purged;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.list_expired_report_attachments(TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.purge_expired_reports(TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
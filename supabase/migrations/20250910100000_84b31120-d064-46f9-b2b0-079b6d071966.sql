@@ -0,0 +1,54 @@
+-- Comment counts follow the caller's access to the report's comments instead of bypassing it,
+-- and comments can only mention people who belong to the report's organization.
+
+-- Runs as the caller, so the RPC can't count comments on reports they can't see
+ALTER FUNCTION public.count_comments_awaiting_response(UUID) SECURITY INVOKER;
+
+-- Replies join their thread's report and journey and never open or resolve anything themselves;
+-- mentions are limited to the report's owner and its organization's members
+CREATE OR REPLACE FUNCTION public.prepare_report_comment()
+RETURNS TRIGGER AS $$
+DECLARE
+  thread public.report_comments%ROWTYPE;
+BEGIN
+  IF NEW.parent_id IS NOT NULL THEN
+    SELECT * INTO thread FROM public.report_comments WHERE id = NEW.parent_id;
+
+    IF NOT FOUND OR thread.parent_id IS NOT NULL THEN
+      RAISE EXCEPTION 'Replies must answer the first comment of a thread';
+    END IF;
+
+    NEW.report_id := thread.report_id;
+    NEW.report_item_id := thread.report_item_id;
+    NEW.requires_response := false;
+  ELSIF NEW.report_item_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.report_items
+    WHERE id = NEW.report_item_id
+    AND report_id = NEW.report_id
+  ) THEN
+    RAISE EXCEPTION 'Journey % is not part of report %', NEW.report_item_id, NEW.report_id;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(NEW.mentions) AS mentioned(user_id)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.reports r
+      WHERE r.id = NEW.report_id
+      AND (
+        r.user_id = mentioned.user_id
+        OR EXISTS (
+          SELECT 1 FROM public.organization_members om
+          WHERE om.organization_id = r.organization_id
+          AND om.user_id = mentioned.user_id
+        )
+      )
+    )
+  ) THEN
+    RAISE EXCEPTION 'Only members of the report''s organization can be mentioned';
+  END IF;
+
+  NEW.resolved_at := NULL;
+  NEW.resolved_by := NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;